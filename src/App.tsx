@@ -1,6 +1,7 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from "react-router-dom"
 import { AuthProvider } from "@/hooks/use-auth"
 import { OrganizationProvider } from "@/hooks/use-organization"
+import { TimeTrackerProvider } from "@/hooks/use-time-tracker"
 import { ThemeProvider } from "next-themes"
 import { ProtectedRoute } from "@/components/protected-route"
 import { DashboardLayout } from "@/components/dashboard-layout"
@@ -26,6 +27,7 @@ import RemindersPage from "@/pages/reminders"
 import FinancesPage from "@/pages/finances"
 import InvoicesPage from "@/pages/invoices"
 import TicketsPage from "@/pages/tickets"
+import TimesheetsPage from "@/pages/timesheets"
 import { Toaster } from "@/components/ui/sonner"
 import ReloadPrompt from "@/components/reload-prompt"
 import { PWAInstallModal } from "@/components/pwa-install-modal"
@@ -74,12 +76,14 @@ function AppRoutes() {
         <Route path="projects/:projectId/overview" element={<Navigate to="../phases" replace />} />
         <Route path="projects/:projectId/documents" element={<ProjectOverviewPage />} />
         <Route path="projects/:projectId/tasks" element={<ProjectOverviewPage />} />
+        <Route path="projects/:projectId/finances" element={<ProjectOverviewPage />} />
         <Route path="projects/:projectId/phases" element={<ProjectOverviewPage />} />
         <Route path="projects/:projectId/phases/:phaseId" element={<PhaseOverviewPage />} />
         <Route path="projects/:projectId/chat" element={<ChatPage />} />
         <Route path="projects/:projectId/chat/:channelId" element={<ChatPage />} />
         <Route path="tasks" element={<TasksPage />} />
         <Route path="tasks/assigned" element={<AssignedTasksPage />} />
+        <Route path="timesheets" element={<TimesheetsPage />} />
         <Route path="credentials" element={<CredentialsPage />} />
         <Route path="finances" element={<FinancesPage />} />
         <Route path="invoices" element={<InvoicesPage />} />
@@ -109,10 +113,12 @@ export function App() {
       <Router>
         <AuthProvider>
           <OrganizationProvider>
-            <AppRoutes />
-            <Toaster />
-            <ReloadPrompt />
-            <PWAInstallModal />
+            <TimeTrackerProvider>
+              <AppRoutes />
+              <Toaster />
+              <ReloadPrompt />
+              <PWAInstallModal />
+            </TimeTrackerProvider>
           </OrganizationProvider>
         </AuthProvider>
       </Router>
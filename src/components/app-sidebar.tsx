@@ -16,6 +16,7 @@ import {
   Settings2,
   Ticket,
   FileText,
+  Timer,
 } from "lucide-react"
 import { IconFileText } from "@tabler/icons-react"
 
@@ -36,6 +37,7 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { useAuth } from "@/hooks/use-auth"
 import { useOrganization } from "@/hooks/use-organization"
 import { useNotifications } from "@/hooks/use-notifications"
+import { formatUnreadCount, useUnreadCounts } from "@/hooks/use-unread-counts"
 
 interface SidebarItem {
   title: string
@@ -91,6 +93,12 @@ const sidebarGroups: Record<string, SidebarItem[]> = {
       icon: CheckSquare,
       permission: { action: "read", resource: "tasks" },
     },
+    {
+      title: "Timesheets",
+      url: "/dashboard/timesheets",
+      icon: Timer,
+      permission: { action: "read", resource: "tasks" },
+    },
     {
       title: "Reminders",
       url: "/dashboard/reminders",
@@ -199,6 +207,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const { user, role, checkPermission, loading: authLoading } = useAuth()
   const { organization, loading: orgLoading } = useOrganization()
   const { unreadCount } = useNotifications()
+  const unreadMessages = useUnreadCounts()
   const location = useLocation()
   const { isMobile, setOpenMobile } = useSidebar()
 
@@ -246,8 +255,8 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const filterByPermission = (items: SidebarItem[]): SidebarItem[] => {
     console.log('Sidebar: Filtering items', items.map(i => i.title));
     return items.filter(item => {
-      // Hide "My Tasks" for clients
-      if (item.title === "My Tasks" && role === "client") {
+      // Hide "My Tasks" and "Timesheets" for clients
+      if ((item.title === "My Tasks" || item.title === "Timesheets") && role === "client") {
         return false
       }
 
@@ -338,12 +347,14 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       if (item.title === "Team Chat") {
         // Active if in chat but NOT in DMs
         const isActive = (location.pathname.includes("/chat") && !location.pathname.includes("/chat/dms"))
-        return { ...item, isActive }
+        const badge = unreadMessages.channels > 0 ? formatUnreadCount(unreadMessages.channels) : undefined
+        return { ...item, isActive, badge }
       }
       if (item.title === "Direct Messages") {
         // Active if in DMs
         const isActive = location.pathname.includes("/chat/dms")
-        return { ...item, isActive }
+        const badge = unreadMessages.directMessages > 0 ? formatUnreadCount(unreadMessages.directMessages) : undefined
+        return { ...item, isActive, badge }
       }
       return item
     })
@@ -0,0 +1,162 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { CheckSquare } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Spinner } from "@/components/ui/spinner"
+import { attachFileToTask } from "@/lib/chat-attachments"
+import type { MessageAttachment } from "@/lib/chat"
+import { getErrorMessage } from "@/lib/utils"
+
+interface TaskOption {
+  id: string
+  title: string
+  status: string
+  projects: { name: string } | null
+}
+
+interface AttachToTaskDialogProps {
+  attachment: MessageAttachment
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Picks a task to copy a chat file onto. Project channels only offer that
+ * project's tasks; other channels search every task the user can see.
+ */
+export function AttachToTaskDialog({ attachment, open, onOpenChange }: AttachToTaskDialogProps) {
+  const { user } = useAuth()
+  const [query, setQuery] = React.useState("")
+  // undefined until the channel's project is known
+  const [projectId, setProjectId] = React.useState<string | null | undefined>(undefined)
+  const [results, setResults] = React.useState<{ query: string; tasks: TaskOption[] } | null>(null)
+  const [attachingTaskId, setAttachingTaskId] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+
+    async function fetchChannelProject() {
+      const { data, error } = await supabase
+        .from("channels")
+        .select("project_id")
+        .eq("id", attachment.channel_id)
+        .maybeSingle()
+
+      if (error) console.error("Error fetching channel:", error)
+      if (active) setProjectId(data?.project_id ?? null)
+    }
+
+    fetchChannelProject()
+    return () => {
+      active = false
+    }
+  }, [attachment.channel_id])
+
+  const trimmedQuery = query.trim()
+
+  React.useEffect(() => {
+    if (projectId === undefined) return
+    let active = true
+
+    const timeout = setTimeout(async () => {
+      let request = supabase
+        .from("tasks")
+        .select("id, title, status, projects (name)")
+        .order("updated_at", { ascending: false })
+        .limit(30)
+
+      if (projectId) request = request.eq("project_id", projectId)
+      if (trimmedQuery) request = request.ilike("title", `%${trimmedQuery}%`)
+
+      const { data, error } = await request
+      if (!active) return
+
+      if (error) {
+        console.error("Error fetching tasks:", error)
+        toast.error("Failed to load tasks")
+      }
+      setResults({ query: trimmedQuery, tasks: (data as unknown as TaskOption[]) || [] })
+    }, 200)
+
+    return () => {
+      active = false
+      clearTimeout(timeout)
+    }
+  }, [projectId, trimmedQuery])
+
+  const isLoading = results?.query !== trimmedQuery
+  const tasks = results?.query === trimmedQuery ? results.tasks : []
+
+  const handleAttach = async (task: TaskOption) => {
+    if (!user || attachingTaskId) return
+
+    setAttachingTaskId(task.id)
+    try {
+      await attachFileToTask(attachment, task.id, user.id)
+      toast.success(`Attached ${attachment.file_name} to "${task.title}"`)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error attaching file to task:", error)
+      toast.error("Failed to attach file: " + getErrorMessage(error))
+    } finally {
+      setAttachingTaskId(null)
+    }
+  }
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Attach to task"
+      description={`Copy ${attachment.file_name} to a task's attachments`}
+      shouldFilter={false}
+    >
+      <CommandInput placeholder="Search tasks..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <Spinner /> Loading tasks...
+          </div>
+        ) : (
+          <CommandEmpty>No tasks found.</CommandEmpty>
+        )}
+        {tasks.length > 0 && (
+          <CommandGroup heading={projectId ? "Project tasks" : "Tasks"}>
+            {tasks.map(task => (
+              <CommandItem
+                key={task.id}
+                value={task.id}
+                disabled={!!attachingTaskId}
+                onSelect={() => handleAttach(task)}
+              >
+                <CheckSquare className="text-muted-foreground" />
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="truncate">{task.title}</span>
+                  {task.projects?.name && (
+                    <span className="truncate text-xs text-muted-foreground">{task.projects.name}</span>
+                  )}
+                </div>
+                {attachingTaskId === task.id ? (
+                  <Spinner />
+                ) : (
+                  <span className="shrink-0 text-[10px] uppercase text-muted-foreground">
+                    {task.status.replace(/_/g, " ")}
+                  </span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,117 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { FolderOpen, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AttachmentFileCard, AttachmentImage } from "@/components/chat-attachments"
+import { fetchChannelFiles, isImageAttachment, type ChannelFile } from "@/lib/chat-attachments"
+import { cn } from "@/lib/utils"
+
+interface ChannelFilesPanelProps {
+  channelId: string
+  onClose: () => void
+  /** Jumps to the message a file was shared in */
+  onSelect: (file: ChannelFile) => void
+  className?: string
+}
+
+export function ChannelFilesPanel({ channelId, onClose, onSelect, className }: ChannelFilesPanelProps) {
+  const [files, setFiles] = React.useState<ChannelFile[] | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+
+    async function loadFiles() {
+      try {
+        const data = await fetchChannelFiles(channelId)
+        if (active) setFiles(data)
+      } catch (error) {
+        console.error("Error fetching channel files:", error)
+        toast.error("Failed to load files")
+        if (active) setFiles([])
+      }
+    }
+
+    loadFiles()
+    return () => {
+      active = false
+    }
+  }, [channelId])
+
+  const images = files?.filter(isImageAttachment) ?? []
+  const documents = files?.filter(f => !isImageAttachment(f)) ?? []
+
+  const renderSharedBy = (file: ChannelFile) => (
+    <button
+      type="button"
+      onClick={() => onSelect(file)}
+      className="truncate text-left text-[10px] text-muted-foreground hover:text-foreground hover:underline"
+    >
+      {file.profiles?.full_name || file.profiles?.email?.split("@")[0] || "Unknown"} · {format(new Date(file.created_at), "MMM d, yyyy")}
+    </button>
+  )
+
+  return (
+    <div className={cn("flex flex-col border-l bg-background", className)}>
+      <div className="flex h-14 items-center justify-between px-4 border-b">
+        <h4 className="font-bold text-sm">Files</h4>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close files</span>
+        </Button>
+      </div>
+
+      {files === null ? (
+        <div className="grid grid-cols-2 gap-2 p-4">
+          <Skeleton className="aspect-square w-full" />
+          <Skeleton className="aspect-square w-full" />
+          <Skeleton className="aspect-square w-full" />
+          <Skeleton className="aspect-square w-full" />
+        </div>
+      ) : files.length === 0 ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-2 p-6 text-center text-muted-foreground">
+          <FolderOpen className="h-10 w-10 opacity-30" />
+          <p className="text-sm">No files shared in this channel yet.</p>
+        </div>
+      ) : (
+        <Tabs defaultValue={images.length > 0 ? "images" : "files"} className="flex min-h-0 flex-1 flex-col gap-0">
+          <TabsList className="mx-4 mt-3 w-auto">
+            <TabsTrigger value="images">Images ({images.length})</TabsTrigger>
+            <TabsTrigger value="files">Files ({documents.length})</TabsTrigger>
+          </TabsList>
+          <ScrollArea className="flex-1 min-h-0">
+            <TabsContent value="images" className="grid grid-cols-2 gap-3 p-4">
+              {images.map(image => (
+                <div key={image.id} className="flex min-w-0 flex-col gap-1">
+                  <AttachmentImage
+                    attachment={image}
+                    className="w-full"
+                    imageClassName="aspect-square h-auto w-full object-cover sm:max-w-full"
+                  />
+                  {renderSharedBy(image)}
+                </div>
+              ))}
+              {images.length === 0 && (
+                <p className="col-span-2 py-6 text-center text-sm text-muted-foreground">No images yet.</p>
+              )}
+            </TabsContent>
+            <TabsContent value="files" className="space-y-3 p-4">
+              {documents.map(file => (
+                <div key={file.id} className="flex flex-col gap-1">
+                  <AttachmentFileCard attachment={file} className="max-w-none" />
+                  {renderSharedBy(file)}
+                </div>
+              ))}
+              {documents.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">No files yet.</p>
+              )}
+            </TabsContent>
+          </ScrollArea>
+        </Tabs>
+      )}
+    </div>
+  )
+}
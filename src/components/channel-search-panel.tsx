@@ -0,0 +1,179 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Search, X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { SearchSnippet } from "@/components/command-palette"
+import { searchChannelMessages, type ChannelSearchResult } from "@/lib/search"
+import { cn } from "@/lib/utils"
+
+interface Member {
+  id: string
+  full_name: string | null
+  avatar_url: string | null
+  email: string | null
+  username: string | null
+}
+
+interface ChannelSearchPanelProps {
+  channelId: string
+  members: Member[]
+  onClose: () => void
+  onSelect: (result: ChannelSearchResult) => void
+  className?: string
+}
+
+export function ChannelSearchPanel({ channelId, members, onClose, onSelect, className }: ChannelSearchPanelProps) {
+  const [query, setQuery] = React.useState("")
+  const [authorId, setAuthorId] = React.useState("all")
+  const [from, setFrom] = React.useState("")
+  const [to, setTo] = React.useState("")
+  const [results, setResults] = React.useState<{ key: string; items: ChannelSearchResult[] } | null>(null)
+
+  const filters = React.useMemo(() => ({
+    query: query.trim(),
+    authorId: authorId === "all" ? null : authorId,
+    from: from || null,
+    to: to || null,
+  }), [query, authorId, from, to])
+  const hasFilters = !!(filters.query || filters.authorId || filters.from || filters.to)
+  const filtersKey = JSON.stringify(filters)
+
+  React.useEffect(() => {
+    if (!hasFilters) return
+    let active = true
+
+    const timeout = setTimeout(async () => {
+      try {
+        const items = await searchChannelMessages(channelId, filters)
+        if (active) setResults({ key: filtersKey, items })
+      } catch (error) {
+        console.error("Error searching channel:", error)
+        if (active) {
+          toast.error("Search failed")
+          setResults({ key: filtersKey, items: [] })
+        }
+      }
+    }, 300)
+
+    return () => {
+      active = false
+      clearTimeout(timeout)
+    }
+  }, [channelId, filters, filtersKey, hasFilters])
+
+  const isSearching = hasFilters && results?.key !== filtersKey
+  const items = hasFilters && results?.key === filtersKey ? results.items : []
+
+  const getMember = (userId: string | null) => members.find(m => m.id === userId)
+
+  return (
+    <div className={cn("flex flex-col border-l bg-background", className)}>
+      <div className="flex h-14 items-center justify-between px-4 border-b">
+        <h4 className="font-bold text-sm">Search</h4>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close search</span>
+        </Button>
+      </div>
+
+      <div className="space-y-3 border-b p-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search this channel..."
+            className="h-9 pl-8"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+          />
+        </div>
+        <Select value={authorId} onValueChange={setAuthorId}>
+          <SelectTrigger className="h-9 w-full">
+            <SelectValue placeholder="Anyone" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Anyone</SelectItem>
+            {members.map(member => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.full_name || member.username || member.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="grid gap-1.5">
+            <label className="text-xs font-medium text-muted-foreground">From</label>
+            <Input type="date" className="h-9" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="grid gap-1.5">
+            <label className="text-xs font-medium text-muted-foreground">To</label>
+            <Input type="date" className="h-9" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2">
+          {!hasFilters ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              Search by keyword, author or date.
+            </p>
+          ) : isSearching ? (
+            <div className="space-y-3 p-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">No messages found.</p>
+          ) : (
+            items.map(result => {
+              const author = getMember(result.user_id)
+              return (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => onSelect(result)}
+                  className="flex w-full gap-3 rounded-md p-2 text-left transition-colors hover:bg-muted"
+                >
+                  <Avatar className="h-7 w-7 shrink-0">
+                    <AvatarImage src={author?.avatar_url || ""} />
+                    <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                      {(author?.full_name || author?.email || "U").charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-xs font-bold">
+                        {author?.full_name || author?.username || author?.email?.split("@")[0] || "Unknown"}
+                      </span>
+                      <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">
+                        {format(new Date(result.created_at), "MMM d, yyyy")}
+                      </span>
+                    </div>
+                    <SearchSnippet snippet={result.snippet} className="line-clamp-3 text-xs text-muted-foreground" />
+                    {result.parent_id && (
+                      <span className="text-[10px] font-medium text-primary">In a thread</span>
+                    )}
+                  </div>
+                </button>
+              )
+            })
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
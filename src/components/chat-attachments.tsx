@@ -0,0 +1,284 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Download, FileIcon, FileText, ListPlus, Paperclip, Upload, X } from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Spinner } from "@/components/ui/spinner"
+import { AttachToTaskDialog } from "@/components/attach-to-task-dialog"
+import type { PendingUpload } from "@/hooks/use-attachment-uploads"
+import { downloadAttachment, getAttachmentUrl, isImageAttachment } from "@/lib/chat-attachments"
+import type { MessageAttachment } from "@/lib/chat"
+import { formatFileSize, getFileExtension } from "@/lib/files"
+import { cn, getErrorMessage } from "@/lib/utils"
+
+/** Signed URL for an attachment, null until it's ready */
+function useAttachmentUrl(filePath: string) {
+  const [signed, setSigned] = React.useState<{ path: string; url: string } | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+
+    async function sign() {
+      try {
+        const url = await getAttachmentUrl(filePath)
+        if (active) setSigned({ path: filePath, url })
+      } catch (error) {
+        console.error("Error signing attachment URL:", error)
+      }
+    }
+
+    sign()
+    return () => {
+      active = false
+    }
+  }, [filePath])
+
+  return signed?.path === filePath ? signed.url : null
+}
+
+interface AttachmentDropZoneProps extends React.HTMLAttributes<HTMLDivElement> {
+  onFiles: (files: File[]) => void
+  disabled?: boolean
+}
+
+/** Accepts files dropped onto it or pasted into any field inside it */
+export function AttachmentDropZone({ onFiles, disabled, className, children, ...props }: AttachmentDropZoneProps) {
+  const [isDragging, setIsDragging] = React.useState(false)
+  const dragDepth = React.useRef(0)
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes("Files")
+
+  return (
+    <div
+      {...props}
+      className={cn("relative", className)}
+      onDragEnter={(e) => {
+        if (disabled || !hasFiles(e)) return
+        e.preventDefault()
+        dragDepth.current += 1
+        setIsDragging(true)
+      }}
+      onDragOver={(e) => {
+        if (disabled || !hasFiles(e)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = "copy"
+      }}
+      onDragLeave={() => {
+        if (disabled) return
+        dragDepth.current = Math.max(0, dragDepth.current - 1)
+        if (dragDepth.current === 0) setIsDragging(false)
+      }}
+      onDrop={(e) => {
+        if (disabled || !hasFiles(e)) return
+        e.preventDefault()
+        dragDepth.current = 0
+        setIsDragging(false)
+        if (e.dataTransfer.files.length > 0) onFiles(Array.from(e.dataTransfer.files))
+      }}
+      onPaste={(e) => {
+        if (disabled) return
+        const files = Array.from(e.clipboardData.files)
+        if (files.length === 0) return
+        e.preventDefault()
+        onFiles(files)
+      }}
+    >
+      {children}
+      {isDragging && (
+        <div className="pointer-events-none absolute inset-0 z-20 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-primary bg-background/90 text-sm font-medium text-primary">
+          <Upload className="h-6 w-6" />
+          Drop files to upload
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function AttachFilesButton({ onFiles, disabled, className }: {
+  onFiles: (files: File[]) => void
+  disabled?: boolean
+  className?: string
+}) {
+  const inputRef = React.useRef<HTMLInputElement>(null)
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) onFiles(Array.from(e.target.files))
+          e.target.value = ""
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className={cn("h-8 w-8 text-muted-foreground hover:text-foreground", className)}
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Paperclip className="h-4 w-4" />
+        <span className="sr-only">Attach files</span>
+      </Button>
+    </>
+  )
+}
+
+/** Thumbnails of files being uploaded from the composer */
+export function PendingUploads({ uploads, onRemove, className }: {
+  uploads: PendingUpload[]
+  onRemove: (upload: PendingUpload) => void
+  className?: string
+}) {
+  if (uploads.length === 0) return null
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {uploads.map(upload => (
+        <div key={upload.id} className="group relative h-16 w-16 overflow-hidden rounded-md border bg-muted/30">
+          {upload.previewUrl ? (
+            <img src={upload.previewUrl} alt={upload.file.name} className="h-full w-full object-cover" />
+          ) : (
+            <div className="flex h-full w-full flex-col items-center justify-center gap-1 p-1">
+              <FileText className="h-5 w-5 text-muted-foreground" />
+              <span className="w-full truncate text-center text-[9px]">{upload.file.name}</span>
+            </div>
+          )}
+          {upload.status === "uploading" && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+              <Spinner />
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onRemove(upload)}
+            className="absolute right-0.5 top-0.5 rounded-full bg-background/90 p-0.5 opacity-0 shadow-sm transition-opacity group-hover:opacity-100"
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">Remove {upload.file.name}</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AttachmentImage({ attachment, className, imageClassName }: {
+  attachment: MessageAttachment
+  className?: string
+  imageClassName?: string
+}) {
+  const url = useAttachmentUrl(attachment.file_path)
+
+  if (!url) return <Skeleton className={cn("h-40 w-56", className, imageClassName)} />
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className={cn("block w-fit", className)}>
+      <img
+        src={url}
+        alt={attachment.file_name}
+        loading="lazy"
+        className={cn("max-h-60 max-w-full rounded-lg border object-contain sm:max-w-sm", imageClassName)}
+      />
+    </a>
+  )
+}
+
+/** Opens the attach-to-task picker for a file, when the user can edit tasks */
+export function AttachToTaskButton({ attachment, className }: { attachment: MessageAttachment; className?: string }) {
+  const { checkPermission } = useAuth()
+  const [isOpen, setIsOpen] = React.useState(false)
+
+  if (!checkPermission("update", "tasks")) return null
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className={cn("h-7 w-7", className)}
+        title="Attach to task"
+        onClick={() => setIsOpen(true)}
+      >
+        <ListPlus className="h-3.5 w-3.5" />
+        <span className="sr-only">Attach to task</span>
+      </Button>
+      {isOpen && (
+        <AttachToTaskDialog attachment={attachment} open={isOpen} onOpenChange={setIsOpen} />
+      )}
+    </>
+  )
+}
+
+export function AttachmentDownloadButton({ attachment, className }: { attachment: MessageAttachment; className?: string }) {
+  const handleDownload = async () => {
+    try {
+      await downloadAttachment(attachment)
+    } catch (error) {
+      console.error("Error downloading attachment:", error)
+      toast.error("Failed to download file: " + getErrorMessage(error))
+    }
+  }
+
+  return (
+    <Button type="button" variant="ghost" size="icon" className={cn("h-7 w-7", className)} title="Download" onClick={handleDownload}>
+      <Download className="h-3.5 w-3.5" />
+      <span className="sr-only">Download</span>
+    </Button>
+  )
+}
+
+export function AttachmentFileCard({ attachment, className }: { attachment: MessageAttachment; className?: string }) {
+  const extension = getFileExtension(attachment.file_name)
+
+  return (
+    <div className={cn("flex w-full max-w-xs items-center gap-3 rounded-lg border bg-muted/20 p-2", className)}>
+      <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-primary/10 text-primary">
+        <FileIcon className="h-4 w-4" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-xs font-medium">{attachment.file_name}</p>
+        <p className="text-[10px] uppercase text-muted-foreground">
+          {extension || attachment.file_type.split("/").pop()} · {formatFileSize(attachment.file_size)}
+        </p>
+      </div>
+      <AttachToTaskButton attachment={attachment} />
+      <AttachmentDownloadButton attachment={attachment} />
+    </div>
+  )
+}
+
+/** Inline previews for images and cards for other files, under a message */
+export function MessageAttachments({ attachments, className }: { attachments: MessageAttachment[]; className?: string }) {
+  if (attachments.length === 0) return null
+
+  const images = attachments.filter(isImageAttachment)
+  const files = attachments.filter(a => !isImageAttachment(a))
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => (
+            <div key={image.id} className="group/attachment relative w-fit">
+              <AttachmentImage attachment={image} />
+              <div className="absolute right-1 top-1 flex gap-0.5 rounded-md bg-background/90 opacity-0 shadow-sm transition-opacity group-hover/attachment:opacity-100">
+                <AttachToTaskButton attachment={image} />
+                <AttachmentDownloadButton attachment={image} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {files.map(file => (
+        <AttachmentFileCard key={file.id} attachment={file} />
+      ))}
+    </div>
+  )
+}
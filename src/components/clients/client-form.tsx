@@ -13,6 +13,15 @@ import {
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CURRENCIES } from "@/lib/currency"
+import { VAT_TREATMENTS } from "@/lib/invoices"
 import {
   GetCountries,
   GetState,
@@ -39,6 +48,9 @@ interface ClientFormProps {
     state: string | null
     city: string | null
     timezone: string | null
+    currency: string | null
+    vat_number: string | null
+    vat_treatment: string
     notes: string | null
     user_id: string | null
   }>
@@ -114,12 +126,18 @@ const clientSchema = z.object({
   state: z.string().optional(),
   city: z.string().optional(),
   timezone: z.string().optional(),
+  currency: z.string(),
+  vat_number: z.string().optional(),
+  vat_treatment: z.string(),
   notes: z.string().optional(),
   enable_login: z.boolean(),
 })
 
 type ClientFormValues = z.infer<typeof clientSchema>
 
+// Select value for clients billed in the organization's base currency (stored as null)
+const ORGANIZATION_CURRENCY = "organization"
+
 export function ClientForm({ initialValues, onSubmit, onCancel, isLoading }: ClientFormProps) {
   const [countriesList, setCountriesList] = React.useState<any[]>([])
   const [statesList, setStatesList] = React.useState<any[]>([])
@@ -167,6 +185,9 @@ export function ClientForm({ initialValues, onSubmit, onCancel, isLoading }: Cli
       state: initialValues?.state || "",
       city: initialValues?.city || "",
       timezone: initialValues?.timezone || "",
+      currency: initialValues?.currency || ORGANIZATION_CURRENCY,
+      vat_number: initialValues?.vat_number || "",
+      vat_treatment: initialValues?.vat_treatment || "standard",
       notes: initialValues?.notes || "",
       enable_login: !!initialValues?.user_id,
     },
@@ -176,7 +197,14 @@ export function ClientForm({ initialValues, onSubmit, onCancel, isLoading }: Cli
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <form
+        onSubmit={form.handleSubmit((values) => onSubmit({
+          ...values,
+          currency: values.currency === ORGANIZATION_CURRENCY ? null : values.currency,
+          vat_number: values.vat_number?.trim() || null,
+        }))}
+        className="space-y-4"
+      >
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
@@ -219,6 +247,66 @@ export function ClientForm({ initialValues, onSubmit, onCancel, isLoading }: Cli
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Billing Currency</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select currency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ORGANIZATION_CURRENCY}>Organization default</SelectItem>
+                    {CURRENCIES.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>{c.code} · {c.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="vat_number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>VAT Number (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="GB123456789" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="vat_treatment"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>VAT Treatment</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select VAT treatment" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VAT_TREATMENTS.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         <div className="rounded-lg border p-4 space-y-4">
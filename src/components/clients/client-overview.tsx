@@ -8,6 +8,8 @@ import { ClientForm } from "./client-form"
 import { LiveTime } from "./live-time"
 import { createClient } from "@supabase/supabase-js"
 import { useAuth } from "@/hooks/use-auth"
+import { useCredentialReveal } from "@/hooks/use-credential-reveal"
+import { parseEmailPassword } from "@/lib/credentials"
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -78,14 +80,20 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
     toast.success(`${label} copied to clipboard`)
   }
 
-  const parsedCredentials = React.useMemo(() => {
-    if (!credentials?.value) return null
-    try {
-      return JSON.parse(credentials.value)
-    } catch {
-      return null
+  const { revealedValue, requestValue, pinDialog } = useCredentialReveal(credentials?.id ?? null)
+  const parsedCredentials = revealedValue !== null ? parseEmailPassword(revealedValue) : null
+
+  const togglePassword = () => {
+    if (showPassword) {
+      setShowPassword(false)
+    } else {
+      requestValue("reveal", () => setShowPassword(true))
     }
-  }, [credentials])
+  }
+
+  const copyCredential = (label: string, pick: (value: string) => string) => {
+    requestValue("copy", (value) => copyToClipboard(pick(value), label))
+  }
 
   React.useEffect(() => {
     if (clientId) {
@@ -186,13 +194,22 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
           clientValues.user_id = authData.user.id
 
           // Save credentials to credentials table for admin visibility
-          await supabase.from("credentials").insert([{
+          const { error: credentialError } = await supabase.from("credentials").insert([{
             name: `Client Login: ${values.first_name} ${values.last_name || ""}`.trim(),
             type: "Email Password",
             value: JSON.stringify({ email, password }),
             user_id: authData.user.id,
             notes: `Autogenerated credentials for client ${values.first_name}`
           }])
+
+          // The login already exists, so show the password rather than lose it
+          if (credentialError) {
+            console.error("Failed to save client login credentials:", credentialError)
+            toast.error("Failed to save client login credentials: " + credentialError.message, {
+              description: `Note the password now, it can't be shown again: ${password}`,
+              duration: Infinity,
+            })
+          }
         }
       } else if (!enable_login && client?.user_id) {
         // Disable login access by removing the link to auth user
@@ -270,7 +287,7 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
         />
       </div>
 
-      {client.user_id && parsedCredentials && (
+      {client.user_id && credentials && (
         <div className="rounded-lg border bg-card p-4 space-y-3 shadow-sm">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 font-semibold">
@@ -284,12 +301,14 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
             <div className="space-y-1.5">
               <span className="text-xs text-muted-foreground uppercase font-semibold">Email</span>
               <div className="flex items-center gap-2 bg-muted/50 p-2 rounded border group relative">
-                <code className="text-sm font-mono truncate flex-1">{parsedCredentials.email}</code>
+                <code className="text-sm font-mono truncate flex-1">
+                  {showPassword && parsedCredentials ? parsedCredentials.email : "••••••••••••"}
+                </code>
                 <Button 
                   variant="ghost" 
                   size="icon" 
                   className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                  onClick={() => copyToClipboard(parsedCredentials.email, "Email")}
+                  onClick={() => copyCredential("Email", (value) => parseEmailPassword(value).email)}
                 >
                   <Copy className="h-3.5 w-3.5" />
                 </Button>
@@ -299,14 +318,14 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
               <span className="text-xs text-muted-foreground uppercase font-semibold">Password</span>
               <div className="flex items-center gap-2 bg-muted/50 p-2 rounded border group relative">
                 <code className="text-sm font-mono truncate flex-1">
-                  {showPassword ? parsedCredentials.password : "••••••••••••"}
+                  {showPassword && parsedCredentials ? parsedCredentials.password : "••••••••••••"}
                 </code>
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                   <Button 
                     variant="ghost" 
                     size="icon" 
                     className="h-7 w-7"
-                    onClick={() => setShowPassword(!showPassword)}
+                    onClick={togglePassword}
                   >
                     {showPassword ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
                   </Button>
@@ -314,7 +333,7 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
                     variant="ghost" 
                     size="icon" 
                     className="h-7 w-7"
-                    onClick={() => copyToClipboard(parsedCredentials.password, "Password")}
+                    onClick={() => copyCredential("Password", (value) => parseEmailPassword(value).password)}
                   >
                     <Copy className="h-3.5 w-3.5" />
                   </Button>
@@ -384,6 +403,8 @@ export function ClientOverview({ clientId, onUpdate, onCancel }: ClientOverviewP
           </div>
         </div>
       </div>
+
+      {pinDialog}
     </div>
   )
 }
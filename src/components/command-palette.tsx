@@ -0,0 +1,207 @@
+import * as React from "react"
+import { useNavigate } from "react-router-dom"
+import { toast } from "sonner"
+import {
+  CheckSquare,
+  FileText,
+  KeyRound,
+  Layers,
+  MessageSquare,
+  Search,
+  Users,
+  type LucideIcon,
+} from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+import { Button } from "@/components/ui/button"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Kbd, KbdGroup } from "@/components/ui/kbd"
+import { Spinner } from "@/components/ui/spinner"
+import {
+  getSearchResultUrl,
+  MIN_SEARCH_LENGTH,
+  SEARCH_RESULT_KINDS,
+  searchWorkspace,
+  splitHighlights,
+  type SearchResult,
+  type SearchResultKind,
+} from "@/lib/search"
+
+const KIND_ICONS: Record<SearchResultKind, LucideIcon> = {
+  message: MessageSquare,
+  task: CheckSquare,
+  phase: Layers,
+  document: FileText,
+  client: Users,
+  credential: KeyRound,
+}
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform)
+
+/** A ts_headline snippet with the matched words highlighted */
+export function SearchSnippet({ snippet, className }: { snippet: string; className?: string }) {
+  return (
+    <span className={className}>
+      {splitHighlights(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </span>
+  )
+}
+
+/**
+ * Global search over messages, tasks, phases, documents, clients and
+ * credentials, opened from the header or with Ctrl/Cmd+K.
+ */
+export function CommandPalette() {
+  const navigate = useNavigate()
+  const { checkPermission } = useAuth()
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [results, setResults] = React.useState<{ query: string; items: SearchResult[] } | null>(null)
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(prev => !prev)
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  const trimmedQuery = query.trim()
+
+  React.useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) return
+    let active = true
+
+    const timeout = setTimeout(async () => {
+      try {
+        const items = await searchWorkspace(trimmedQuery)
+        if (active) setResults({ query: trimmedQuery, items })
+      } catch (error) {
+        console.error("Error searching workspace:", error)
+        if (active) {
+          toast.error("Search failed")
+          setResults({ query: trimmedQuery, items: [] })
+        }
+      }
+    }, 250)
+
+    return () => {
+      active = false
+      clearTimeout(timeout)
+    }
+  }, [trimmedQuery])
+
+  const isSearching = trimmedQuery.length >= MIN_SEARCH_LENGTH && results?.query !== trimmedQuery
+  const items = trimmedQuery.length >= MIN_SEARCH_LENGTH && results?.query === trimmedQuery ? results.items : []
+
+  const groups = SEARCH_RESULT_KINDS
+    .filter(group => checkPermission(group.permission.action, group.permission.resource))
+    .map(group => ({ ...group, items: items.filter(item => item.kind === group.kind) }))
+    .filter(group => group.items.length > 0)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) setQuery("")
+  }
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false)
+    navigate(getSearchResultUrl(result))
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 gap-2 text-muted-foreground md:w-56 md:justify-start"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Search...</span>
+        <KbdGroup className="ml-auto hidden md:inline-flex">
+          <Kbd>{isMac ? "⌘" : "Ctrl"}</Kbd>
+          <Kbd>K</Kbd>
+        </KbdGroup>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title="Search"
+        description="Search messages, tasks, phases, documents, clients and credentials"
+        className="sm:max-w-xl"
+        // Results are already matched and ranked by Postgres
+        shouldFilter={false}
+      >
+        <CommandInput
+          placeholder="Search messages, tasks, documents..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList className="max-h-[420px]">
+          {isSearching ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+              <Spinner /> Searching...
+            </div>
+          ) : (
+            <CommandEmpty>
+              {trimmedQuery.length < MIN_SEARCH_LENGTH ? "Type to search your workspace." : "No results found."}
+            </CommandEmpty>
+          )}
+          {groups.map(group => {
+            const Icon = KIND_ICONS[group.kind]
+            return (
+              <CommandGroup key={group.kind} heading={group.label}>
+                {group.items.map(result => (
+                  <CommandItem
+                    key={`${result.kind}:${result.id}`}
+                    value={`${result.kind}:${result.id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start gap-3"
+                  >
+                    <Icon className="mt-0.5 text-muted-foreground" />
+                    <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-medium">{result.title}</span>
+                        {result.context && (
+                          <span className="ml-auto shrink-0 truncate text-xs text-muted-foreground">
+                            {result.context}
+                          </span>
+                        )}
+                      </div>
+                      {result.snippet && (
+                        <SearchSnippet
+                          snippet={result.snippet}
+                          className="line-clamp-2 text-xs text-muted-foreground"
+                        />
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -8,9 +8,13 @@ import {
   IconNotes,
   IconDatabase,
   IconLock,
-  IconMail
+  IconMail,
+  IconHistory,
+  IconRotateClockwise,
+  IconClockHour4
 } from "@tabler/icons-react"
 import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
 import {
   Dialog,
   DialogContent,
@@ -23,43 +27,164 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import type { CredentialWithProject } from "./credentials-table"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import { useCredentialReveal } from "@/hooks/use-credential-reveal"
+import { parseEmailPassword, ROTATION_INTERVALS } from "@/lib/credentials"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import { CredentialExpiryBadge } from "./credential-expiry-badge"
+
+interface CredentialAccessLog {
+  id: string
+  action: string
+  created_at: string | null
+  profiles: {
+    full_name: string | null
+    email: string | null
+  } | null
+}
+
+interface CredentialVersion {
+  id: string
+  valid_from: string | null
+  replaced_at: string
+  profiles: {
+    full_name: string | null
+    email: string | null
+  } | null
+}
 
 interface CredentialDetailsModalProps {
   credential: CredentialWithProject | null
   open: boolean
   onOpenChange: (open: boolean) => void
   onEdit: (credential: CredentialWithProject) => void
+  onRestored?: () => void
 }
 
 export function CredentialDetailsModal({ 
   credential, 
   open, 
   onOpenChange,
-  onEdit
+  onEdit,
+  onRestored
 }: CredentialDetailsModalProps) {
+  const { isAdmin } = useAuth()
   const [isVisible, setIsVisible] = React.useState(false)
+  const [accessLogs, setAccessLogs] = React.useState<CredentialAccessLog[]>([])
+  const [versions, setVersions] = React.useState<CredentialVersion[]>([])
+  const [versionToRestore, setVersionToRestore] = React.useState<CredentialVersion | null>(null)
+  const { revealedValue, requestValue, clear, pinDialog } = useCredentialReveal(credential?.id ?? null)
+
+  const credentialId = credential?.id
+  const fetchAccessLogs = React.useCallback(async () => {
+    if (!credentialId) return
+
+    const { data, error } = await supabase
+      .from("audit_logs")
+      .select("id, action, created_at, profiles:user_id (full_name, email)")
+      .eq("table_name", "credentials")
+      .eq("record_id", credentialId)
+      .in("action", ["REVEAL", "COPY"])
+      .order("created_at", { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error("Error fetching credential access history:", error)
+    } else {
+      setAccessLogs((data as unknown as CredentialAccessLog[]) || [])
+    }
+  }, [credentialId])
+
+  // Previous values are admin-only; only their metadata is loaded, never the ciphertext
+  const fetchVersions = React.useCallback(async () => {
+    if (!credentialId) return
+
+    const { data, error } = await supabase
+      .from("credential_versions")
+      .select("id, valid_from, replaced_at, profiles:replaced_by (full_name, email)")
+      .eq("credential_id", credentialId)
+      .order("replaced_at", { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error("Error fetching credential versions:", error)
+    } else {
+      setVersions((data as unknown as CredentialVersion[]) || [])
+    }
+  }, [credentialId])
+
+  React.useEffect(() => {
+    if (!open || !isAdmin) return
+
+    const init = async () => {
+      await Promise.all([fetchAccessLogs(), fetchVersions()])
+    }
+    init()
+  }, [open, isAdmin, fetchAccessLogs, fetchVersions])
+
+  const handleRestore = async () => {
+    if (!versionToRestore) return
+
+    const { error } = await supabase.rpc("restore_credential_version", { p_version_id: versionToRestore.id })
+    setVersionToRestore(null)
+
+    if (error) {
+      console.error("Error restoring credential version:", error)
+      toast.error("Failed to restore version: " + error.message)
+      return
+    }
+
+    // The cached value is now stale
+    clear()
+    setIsVisible(false)
+    toast.success("Previous value restored")
+    fetchVersions()
+    onRestored?.()
+  }
 
   if (!credential) return null
 
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      // Drop the decrypted value as soon as the dialog closes
+      clear()
+      setIsVisible(false)
+    }
+    onOpenChange(nextOpen)
+  }
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text)
     toast.success(`${label} copied to clipboard`)
   }
 
-  const renderValue = () => {
-    let email = ""
-    let password = ""
-    const isEmailPassword = credential.type === "Email Password"
+  const refreshAccessLogs = () => {
+    if (isAdmin) fetchAccessLogs()
+  }
 
-    if (isEmailPassword) {
-      try {
-        const parsed = JSON.parse(credential.value)
-        email = parsed.email || ""
-        password = parsed.password || ""
-      } catch {
-        // fallback
-      }
+  const toggleVisibility = () => {
+    if (isVisible) {
+      setIsVisible(false)
+      return
     }
+    requestValue("reveal", () => {
+      setIsVisible(true)
+      refreshAccessLogs()
+    })
+  }
+
+  const copyPart = (label: string, pick: (value: string) => string) => {
+    requestValue("copy", (value) => {
+      copyToClipboard(pick(value), label)
+      refreshAccessLogs()
+    })
+  }
+
+  const renderValue = () => {
+    const isEmailPassword = credential.type === "Email Password"
+    const parsed = isEmailPassword && revealedValue !== null ? parseEmailPassword(revealedValue) : null
+    const showValue = isVisible && revealedValue !== null
 
     if (isEmailPassword) {
       return (
@@ -73,13 +198,13 @@ export function CredentialDetailsModal({
                 variant="ghost" 
                 size="icon" 
                 className="h-8 w-8"
-                onClick={() => copyToClipboard(email, "Email")}
+                onClick={() => copyPart("Email", (value) => parseEmailPassword(value).email)}
               >
                 <IconCopy className="size-4" />
               </Button>
             </div>
             <div className="bg-muted p-2 rounded-md font-mono text-sm break-all">
-              {email}
+              {showValue ? parsed?.email : "••••••••••••••••"}
             </div>
           </div>
           <div className="space-y-2">
@@ -92,7 +217,7 @@ export function CredentialDetailsModal({
                   variant="ghost" 
                   size="icon" 
                   className="h-8 w-8"
-                  onClick={() => setIsVisible(!isVisible)}
+                  onClick={toggleVisibility}
                 >
                   {isVisible ? <IconEyeOff className="size-4" /> : <IconEye className="size-4" />}
                 </Button>
@@ -100,14 +225,14 @@ export function CredentialDetailsModal({
                   variant="ghost" 
                   size="icon" 
                   className="h-8 w-8"
-                  onClick={() => copyToClipboard(password, "Password")}
+                  onClick={() => copyPart("Password", (value) => parseEmailPassword(value).password)}
                 >
                   <IconCopy className="size-4" />
                 </Button>
               </div>
             </div>
             <div className="bg-muted p-2 rounded-md font-mono text-sm break-all">
-              {isVisible ? password : "••••••••••••••••"}
+              {showValue ? parsed?.password : "••••••••••••••••"}
             </div>
           </div>
         </div>
@@ -125,7 +250,7 @@ export function CredentialDetailsModal({
               variant="ghost" 
               size="icon" 
               className="h-8 w-8"
-              onClick={() => setIsVisible(!isVisible)}
+              onClick={toggleVisibility}
             >
               {isVisible ? <IconEyeOff className="size-4" /> : <IconEye className="size-4" />}
             </Button>
@@ -133,83 +258,168 @@ export function CredentialDetailsModal({
               variant="ghost" 
               size="icon" 
               className="h-8 w-8"
-              onClick={() => copyToClipboard(credential.value, "Value")}
+              onClick={() => copyPart("Value", (value) => value)}
             >
               <IconCopy className="size-4" />
             </Button>
           </div>
         </div>
         <div className="bg-muted p-3 rounded-md font-mono text-sm break-all whitespace-pre-wrap min-h-[60px]">
-          {isVisible ? credential.value : "••••••••••••••••••••••••••••••••"}
+          {showValue ? revealedValue : "••••••••••••••••••••••••••••••••"}
         </div>
       </div>
     )
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
-        <DialogHeader>
-          <div className="flex items-center justify-between pr-8">
-            <DialogTitle className="text-xl font-bold">{credential.name}</DialogTitle>
-            <Badge variant="outline">{credential.type}</Badge>
-          </div>
-          <DialogDescription className="flex items-center gap-2 pt-1">
-            <IconDatabase className="size-3" />
-            Project: <span className="font-medium text-foreground">{credential.projects?.name || "No Project"}</span>
-          </DialogDescription>
-        </DialogHeader>
-
-        <Separator />
-
-        <ScrollArea className="max-h-[60vh] pr-4">
-          <div className="space-y-6 py-4">
-            {renderValue()}
-
-            {credential.notes && (
-              <div className="space-y-2">
-                <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                  <IconNotes className="size-4" /> Notes
-                </span>
-                <div className="text-sm text-foreground bg-muted/50 p-3 rounded-md border">
-                  {credential.notes}
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <div className="flex items-center justify-between pr-8">
+              <DialogTitle className="text-xl font-bold">{credential.name}</DialogTitle>
+              <Badge variant="outline">{credential.type}</Badge>
+            </div>
+            <DialogDescription className="flex items-center gap-2 pt-1">
+              <IconDatabase className="size-3" />
+              Project: <span className="font-medium text-foreground">{credential.projects?.name || "No Project"}</span>
+            </DialogDescription>
+          </DialogHeader>
+
+          <Separator />
+
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-6 py-4">
+              {renderValue()}
+
+              {credential.notes && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <IconNotes className="size-4" /> Notes
+                  </span>
+                  <div className="text-sm text-foreground bg-muted/50 p-3 rounded-md border">
+                    {credential.notes}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4 pt-2">
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <IconCalendar className="size-3" /> Created
+                  </span>
+                  <p className="text-sm">
+                    {credential.created_at ? new Date(credential.created_at).toLocaleString() : "N/A"}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <IconTag className="size-3" /> ID
+                  </span>
+                  <p className="text-sm font-mono truncate">
+                    {credential.id}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <IconClockHour4 className="size-3" /> Expires
+                  </span>
+                  <div className="flex items-center gap-2 text-sm">
+                    {credential.expires_at ? format(parseISO(credential.expires_at), "MMM d, yyyy") : "Never"}
+                    <CredentialExpiryBadge credential={credential} />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <IconRotateClockwise className="size-3" /> Last Rotated
+                  </span>
+                  <p className="text-sm">
+                    {format(new Date(credential.last_rotated_at), "MMM d, yyyy")}
+                    {credential.rotation_interval_days && (
+                      <span className="text-muted-foreground">
+                        {" "}· every {ROTATION_INTERVALS.find(i => i.days === credential.rotation_interval_days)?.label ?? `${credential.rotation_interval_days} days`}
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
-            )}
-
-            <div className="grid grid-cols-2 gap-4 pt-2">
-              <div className="space-y-1">
-                <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
-                  <IconCalendar className="size-3" /> Created
-                </span>
-                <p className="text-sm">
-                  {credential.created_at ? new Date(credential.created_at).toLocaleString() : "N/A"}
-                </p>
-              </div>
-              <div className="space-y-1">
-                <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
-                  <IconTag className="size-3" /> ID
-                </span>
-                <p className="text-sm font-mono truncate">
-                  {credential.id}
-                </p>
-              </div>
+
+              {isAdmin && versions.length > 0 && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <IconRotateClockwise className="size-4" /> Previous Values
+                  </span>
+                  <div className="divide-y rounded-md border">
+                    {versions.map((version) => (
+                      <div key={version.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                        <div className="flex flex-col min-w-0">
+                          <span>
+                            {version.valid_from ? `${format(new Date(version.valid_from), "MMM d, yyyy")} – ` : "Until "}
+                            {format(new Date(version.replaced_at), "MMM d, yyyy")}
+                          </span>
+                          <span className="text-xs text-muted-foreground truncate">
+                            Replaced by {version.profiles?.full_name || version.profiles?.email || "Unknown"}
+                          </span>
+                        </div>
+                        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setVersionToRestore(version)}>
+                          Restore
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {isAdmin && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <IconHistory className="size-4" /> Access History
+                  </span>
+                  {accessLogs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nobody has revealed or copied this credential yet.</p>
+                  ) : (
+                    <div className="divide-y rounded-md border">
+                      {accessLogs.map((log) => (
+                        <div key={log.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                          <span className="truncate">
+                            {log.profiles?.full_name || log.profiles?.email || "Unknown"}
+                          </span>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Badge variant="outline" className="capitalize">{log.action.toLowerCase()}</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {log.created_at ? format(new Date(log.created_at), "MMM d, HH:mm") : ""}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
+          </ScrollArea>
+
+          <div className="flex justify-end gap-2 pt-2 border-t mt-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={() => {
+              handleOpenChange(false)
+              onEdit(credential)
+            }}>
+              Edit Credential
+            </Button>
           </div>
-        </ScrollArea>
-
-        <div className="flex justify-end gap-2 pt-2 border-t mt-2">
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Close
-          </Button>
-          <Button onClick={() => {
-            onOpenChange(false)
-            onEdit(credential)
-          }}>
-            Edit Credential
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+      {pinDialog}
+      <ConfirmDialog
+        open={!!versionToRestore}
+        onOpenChange={(nextOpen) => !nextOpen && setVersionToRestore(null)}
+        onConfirm={handleRestore}
+        title="Restore Previous Value"
+        description="The current value will be replaced by this version and kept in the history, so this can be undone."
+      />
+    </>
   )
 }
@@ -0,0 +1,35 @@
+import { format, parseISO } from "date-fns"
+import { IconClockExclamation } from "@tabler/icons-react"
+import { Badge } from "@/components/ui/badge"
+import { getCredentialExpiryStatus, type CredentialExpiryStatus } from "@/lib/credentials"
+import { cn } from "@/lib/utils"
+
+const expiryStatusStyles: Record<CredentialExpiryStatus, string> = {
+  expired: "bg-red-500/10 text-red-600 hover:bg-red-500/20",
+  "expiring-soon": "bg-amber-500/10 text-amber-600 hover:bg-amber-500/20",
+}
+
+interface CredentialExpiryBadgeProps {
+  credential: { expires_at?: string | null }
+  className?: string
+}
+
+/**
+ * Flags credentials that have expired or are about to. Renders nothing otherwise.
+ */
+export function CredentialExpiryBadge({ credential, className }: CredentialExpiryBadgeProps) {
+  const status = getCredentialExpiryStatus(credential)
+  if (!status || !credential.expires_at) return null
+
+  const dateLabel = format(parseISO(credential.expires_at), "MMM d")
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn("gap-1 border-transparent font-medium", expiryStatusStyles[status], className)}
+    >
+      <IconClockExclamation className="size-3" />
+      {status === "expired" ? `Expired ${dateLabel}` : `Expires ${dateLabel}`}
+    </Badge>
+  )
+}
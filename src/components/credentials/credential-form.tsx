@@ -21,17 +21,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { PasswordGenerator } from "./password-generator"
+import { ROTATION_INTERVALS } from "@/lib/credentials"
 
-const credentialSchema = z.object({
+// When editing, secret fields may be left blank to keep the encrypted value that is already stored
+const createCredentialSchema = (isEditing: boolean) => z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   type: z.string().min(1, "Please select a type"),
   value: z.string().optional(),
-  email: z.string().email("Invalid email").optional(),
+  email: z.union([z.string().email("Invalid email"), z.literal("")]).optional(),
   password: z.string().optional(),
   notes: z.string().optional(),
   project_id: z.string().min(1, "Please select a project"),
+  expires_at: z.string().optional(),
+  rotation_interval_days: z.string().optional(),
 }).superRefine((data, ctx) => {
   if (data.type === "Email Password") {
+    if (isEditing && !data.email && !data.password) return
     if (!data.email) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -47,7 +53,7 @@ const credentialSchema = z.object({
       });
     }
   } else {
-    if (!data.value) {
+    if (!data.value && !isEditing) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: "Value is required",
@@ -57,15 +63,17 @@ const credentialSchema = z.object({
   }
 })
 
-type CredentialFormValues = z.infer<typeof credentialSchema>
+type CredentialFormValues = z.infer<ReturnType<typeof createCredentialSchema>>
 
 interface CredentialFormProps {
   initialValues?: Partial<{
+    id: string
     name: string
     type: string
-    value: string
     notes: string | null
     project_id: string | null
+    expires_at: string | null
+    rotation_interval_days: number | null
   }>
   onSubmit: (values: any) => void
   onCancel: () => void
@@ -81,40 +89,43 @@ export function CredentialForm({ initialValues, onSubmit, onCancel, isLoading }:
   const [projects, setProjects] = React.useState<ProjectOption[]>([])
   const [isFetchingProjects, setIsFetchingProjects] = React.useState(true)
 
+  const isEditing = !!initialValues?.id
+
   const form = useForm<CredentialFormValues>({
-    resolver: zodResolver(credentialSchema),
+    resolver: zodResolver(createCredentialSchema(isEditing)),
     defaultValues: {
       name: initialValues?.name || "",
       type: initialValues?.type || "",
-      value: initialValues?.value || "",
+      value: "",
       email: "",
       password: "",
       notes: initialValues?.notes || "",
       project_id: initialValues?.project_id || "",
+      expires_at: initialValues?.expires_at || "",
+      rotation_interval_days: initialValues?.rotation_interval_days ? String(initialValues.rotation_interval_days) : "none",
     },
   })
 
   const type = form.watch("type")
 
-  React.useEffect(() => {
-    if (initialValues?.type === "Email Password" && initialValues?.value) {
-      try {
-        const parsed = JSON.parse(initialValues.value)
-        form.setValue("email", parsed.email || "")
-        form.setValue("password", parsed.password || "")
-      } catch (e) {
-        console.error("Failed to parse Email Password credential", e)
-      }
-    }
-  }, [initialValues, form])
-
   const handleFormSubmit = (values: CredentialFormValues) => {
-    const submitValues = { ...values }
+    const { expires_at, rotation_interval_days, ...rest } = values
+    const submitValues = {
+      ...rest,
+      expires_at: expires_at || null,
+      rotation_interval_days: rotation_interval_days && rotation_interval_days !== "none" ? Number(rotation_interval_days) : null,
+    }
     if (submitValues.type === "Email Password") {
-      submitValues.value = JSON.stringify({
-        email: submitValues.email,
-        password: submitValues.password
-      })
+      submitValues.value = submitValues.email || submitValues.password
+        ? JSON.stringify({
+            email: submitValues.email,
+            password: submitValues.password
+          })
+        : ""
+    }
+    // The stored value is never sent back to the form, so a blank value means "unchanged"
+    if (!submitValues.value) {
+      delete submitValues.value
     }
     // Remove temporary fields
     delete submitValues.email
@@ -218,9 +229,9 @@ export function CredentialForm({ initialValues, onSubmit, onCancel, isLoading }:
               name="email"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Email <span className="text-destructive">*</span></FormLabel>
+                  <FormLabel>Email {!isEditing && <span className="text-destructive">*</span>}</FormLabel>
                   <FormControl>
-                    <Input placeholder="email@example.com" {...field} />
+                    <Input placeholder={isEditing ? "Leave blank to keep current" : "email@example.com"} {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -231,9 +242,12 @@ export function CredentialForm({ initialValues, onSubmit, onCancel, isLoading }:
               name="password"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Password <span className="text-destructive">*</span></FormLabel>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Password {!isEditing && <span className="text-destructive">*</span>}</FormLabel>
+                    <PasswordGenerator onGenerate={(value) => form.setValue("password", value, { shouldValidate: true })} />
+                  </div>
                   <FormControl>
-                    <Input type="password" placeholder="••••••••" {...field} />
+                    <Input type="password" placeholder={isEditing ? "Leave blank to keep current" : "••••••••"} {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -246,9 +260,17 @@ export function CredentialForm({ initialValues, onSubmit, onCancel, isLoading }:
             name="value"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Value <span className="text-destructive">*</span></FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Value {!isEditing && <span className="text-destructive">*</span>}</FormLabel>
+                  {type === "Password" && (
+                    <PasswordGenerator onGenerate={(value) => form.setValue("value", value, { shouldValidate: true })} />
+                  )}
+                </div>
                 <FormControl>
-                  <Textarea placeholder="Paste the credential value here..." {...field} />
+                  <Textarea
+                    placeholder={isEditing ? "Leave blank to keep the current value" : "Paste the credential value here..."}
+                    {...field}
+                  />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -256,6 +278,47 @@ export function CredentialForm({ initialValues, onSubmit, onCancel, isLoading }:
           />
         )}
 
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="expires_at"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expires</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="rotation_interval_days"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rotate Every</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Never" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Never</SelectItem>
+                    {ROTATION_INTERVALS.map((interval) => (
+                      <SelectItem key={interval.days} value={String(interval.days)}>
+                        {interval.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="notes"
@@ -0,0 +1,97 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { IconLock } from "@tabler/icons-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import type { CredentialAction } from "@/lib/credentials"
+
+interface CredentialPinDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  action: CredentialAction | null
+  onSubmit: (pin: string) => Promise<void>
+  isLoading?: boolean
+  /** Asks for a new PIN twice instead, for users who haven't set one yet */
+  isSetup?: boolean
+}
+
+export function CredentialPinDialog({ open, onOpenChange, action, onSubmit, isLoading, isSetup }: CredentialPinDialogProps) {
+  const [value, setValue] = React.useState("")
+  // First entry of a new PIN, while waiting for the confirmation
+  const [newPin, setNewPin] = React.useState<string | null>(null)
+
+  const handleComplete = async (pin: string) => {
+    if (isSetup && newPin === null) {
+      setNewPin(pin)
+      setValue("")
+      return
+    }
+
+    if (isSetup && pin !== newPin) {
+      toast.error("PINs do not match")
+      setNewPin(null)
+      setValue("")
+      return
+    }
+
+    await onSubmit(pin)
+    setNewPin(null)
+    setValue("")
+  }
+
+  const actionText = action === "copy" ? "copy" : "reveal"
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) {
+          setValue("")
+          setNewPin(null)
+        }
+        onOpenChange(nextOpen)
+      }}
+    >
+      <DialogContent className="sm:max-w-[360px]">
+        <DialogHeader className="items-center text-center">
+          <div className="p-3 bg-primary/10 rounded-full text-primary mb-2">
+            <IconLock className="size-5" />
+          </div>
+          <DialogTitle>
+            {!isSetup ? "Enter Security PIN" : newPin === null ? "Set Security PIN" : "Confirm Security PIN"}
+          </DialogTitle>
+          <DialogDescription>
+            {!isSetup
+              ? `Confirm your PIN to ${actionText} this credential. The ${actionText} will be logged.`
+              : newPin === null
+                ? `Credentials can only be revealed with a security PIN. Create a 4-digit PIN to ${actionText} this credential.`
+                : "Please re-enter your PIN to confirm."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-4">
+          <InputOTP
+            maxLength={4}
+            value={value}
+            onChange={setValue}
+            onComplete={handleComplete}
+            disabled={isLoading}
+            autoFocus
+          >
+            <InputOTPGroup className="gap-2">
+              <InputOTPSlot index={0} className="w-12 h-12 text-xl" />
+              <InputOTPSlot index={1} className="w-12 h-12 text-xl" />
+              <InputOTPSlot index={2} className="w-12 h-12 text-xl" />
+              <InputOTPSlot index={3} className="w-12 h-12 text-xl" />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
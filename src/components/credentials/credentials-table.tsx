@@ -1,14 +1,13 @@
 import * as React from "react"
 import type { ColumnDef } from "@tanstack/react-table"
+import { format, parseISO } from "date-fns"
 import { 
   IconDotsVertical,
   IconEdit,
   IconTrash,
-  IconCopy,
   IconEye,
-  IconEyeOff
+  IconLock
 } from "@tabler/icons-react"
-import { toast } from "sonner"
 
 import { DataTable } from "@/components/data-table"
 import { Badge } from "@/components/ui/badge"
@@ -23,6 +22,8 @@ import {
 } from "@/components/ui/dropdown-menu"
 import type { Tables } from "@/lib/database.types"
 import { useAuth } from "@/hooks/use-auth"
+import { getCredentialExpiryStatus } from "@/lib/credentials"
+import { CredentialExpiryBadge } from "./credential-expiry-badge"
 
 // Define a type for credentials with project info
 export type CredentialWithProject = Tables<"credentials"> & {
@@ -49,21 +50,11 @@ export function CredentialsTable({
   onRowClick
 }: CredentialsTableProps) {
   const { checkPermission } = useAuth()
-  const [visibleValues, setVisibleValues] = React.useState<Record<string, boolean>>({})
 
   const canCreate = checkPermission('create', 'credentials')
   const canUpdate = checkPermission('update', 'credentials')
   const canDelete = checkPermission('delete', 'credentials')
 
-  const toggleVisibility = (id: string) => {
-    setVisibleValues(prev => ({ ...prev, [id]: !prev[id] }))
-  }
-
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text)
-    toast.success("Copied to clipboard")
-  }
-
   const columns: ColumnDef<CredentialWithProject>[] = [
     {
       id: "select",
@@ -122,44 +113,29 @@ export function CredentialsTable({
       ),
     },
     {
-      accessorKey: "value",
+      id: "value",
       header: "Value",
+      // Values are encrypted at rest and can only be revealed from the details dialog
+      cell: () => (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <IconLock className="h-3 w-3" />
+          <code className="bg-muted px-1.5 py-0.5 rounded text-xs font-mono">••••••••••••••••</code>
+        </div>
+      ),
+      enableSorting: false,
+    },
+    {
+      id: "expires_at",
+      header: "Expires",
+      accessorFn: (row) => row.expires_at ?? undefined,
+      sortUndefined: "last",
       cell: ({ row }) => {
-        const isVisible = visibleValues[row.original.id]
-        let displayValue = row.original.value
-
-        if (row.original.type === "Email Password") {
-          try {
-            const parsed = JSON.parse(row.original.value)
-            displayValue = `${parsed.email} | ${parsed.password}`
-          } catch {
-            // fallback to raw value if not valid JSON
-          }
+        if (!row.original.expires_at) {
+          return <span className="text-muted-foreground">—</span>
         }
-
-        return (
-          <div className="flex items-center gap-2">
-            <code className="bg-muted px-1.5 py-0.5 rounded text-xs font-mono max-w-[200px] truncate">
-              {isVisible ? displayValue : "••••••••••••••••"}
-            </code>
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="h-6 w-6" 
-              onClick={() => toggleVisibility(row.original.id)}
-            >
-              {isVisible ? <IconEyeOff className="h-3 w-3" /> : <IconEye className="h-3 w-3" />}
-            </Button>
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="h-6 w-6" 
-              onClick={() => copyToClipboard(displayValue)}
-            >
-              <IconCopy className="h-3 w-3" />
-            </Button>
-          </div>
-        )
+        return getCredentialExpiryStatus(row.original)
+          ? <CredentialExpiryBadge credential={row.original} />
+          : format(parseISO(row.original.expires_at), "MMM d, yyyy")
       },
     },
     {
@@ -187,9 +163,11 @@ export function CredentialsTable({
                 <IconEdit className="mr-2 h-4 w-4" /> Edit
               </DropdownMenuItem>
             )}
-            <DropdownMenuItem onClick={() => copyToClipboard(row.original.value)}>
-              <IconCopy className="mr-2 h-4 w-4" /> Copy Value
-            </DropdownMenuItem>
+            {onRowClick && (
+              <DropdownMenuItem onClick={() => onRowClick(row.original)}>
+                <IconEye className="mr-2 h-4 w-4" /> Reveal
+              </DropdownMenuItem>
+            )}
             {canDelete && (
               <>
                 <DropdownMenuSeparator />
@@ -207,10 +185,25 @@ export function CredentialsTable({
     },
   ]
 
+  const [expiryGroup, setExpiryGroup] = React.useState("all")
+
+  const expiringCredentials = React.useMemo(
+    () => data.filter(credential => getCredentialExpiryStatus(credential) !== null),
+    [data]
+  )
+
+  const expiryTabs = [
+    { value: "all", label: "All", badge: data.length },
+    { value: "expiring", label: "Expiring Soon", badge: expiringCredentials.length },
+  ]
+
   return (
     <DataTable
       columns={columns}
-      data={data}
+      data={expiryGroup === "expiring" ? expiringCredentials : data}
+      tabs={expiryTabs}
+      activeTab={expiryGroup}
+      onTabChange={setExpiryGroup}
       isLoading={isLoading}
       searchPlaceholder="Search credentials..."
       addLabel="Add Credential"
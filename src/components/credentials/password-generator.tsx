@@ -0,0 +1,137 @@
+import * as React from "react"
+import { IconRefresh, IconWand } from "@tabler/icons-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  DEFAULT_PASSPHRASE_OPTIONS,
+  DEFAULT_PASSWORD_OPTIONS,
+  generatePassphrase,
+  generatePassword,
+} from "@/lib/password-generator"
+
+type GeneratorMode = "password" | "passphrase"
+
+interface PasswordGeneratorProps {
+  onGenerate: (value: string) => void
+}
+
+export function PasswordGenerator({ onGenerate }: PasswordGeneratorProps) {
+  const [open, setOpen] = React.useState(false)
+  const [mode, setMode] = React.useState<GeneratorMode>("password")
+  const [length, setLength] = React.useState(DEFAULT_PASSWORD_OPTIONS.length)
+  const [symbols, setSymbols] = React.useState(DEFAULT_PASSWORD_OPTIONS.symbols)
+  const [words, setWords] = React.useState(DEFAULT_PASSPHRASE_OPTIONS.words)
+  const [value, setValue] = React.useState("")
+
+  const regenerate = React.useCallback((next?: { mode?: GeneratorMode; length?: number; symbols?: boolean; words?: number }) => {
+    const nextMode = next?.mode ?? mode
+    setValue(
+      nextMode === "password"
+        ? generatePassword({ length: next?.length ?? length, symbols: next?.symbols ?? symbols })
+        : generatePassphrase({ words: next?.words ?? words, separator: DEFAULT_PASSPHRASE_OPTIONS.separator })
+    )
+  }, [mode, length, symbols, words])
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (nextOpen) regenerate()
+        setOpen(nextOpen)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+          <IconWand className="size-3.5" />
+          Generate
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <Tabs
+          value={mode}
+          onValueChange={(nextMode) => {
+            setMode(nextMode as GeneratorMode)
+            regenerate({ mode: nextMode as GeneratorMode })
+          }}
+        >
+          <TabsList className="w-full">
+            <TabsTrigger value="password" className="flex-1">Password</TabsTrigger>
+            <TabsTrigger value="passphrase" className="flex-1">Passphrase</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <code className="flex-1 break-all rounded-md bg-muted p-2 font-mono text-xs">{value}</code>
+          <Button type="button" variant="ghost" size="icon" className="size-8 shrink-0" onClick={() => regenerate()}>
+            <IconRefresh className="size-4" />
+          </Button>
+        </div>
+
+        {mode === "password" ? (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Length</Label>
+                <span className="text-xs tabular-nums text-muted-foreground">{length}</span>
+              </div>
+              <Slider
+                min={12}
+                max={64}
+                step={1}
+                value={[length]}
+                onValueChange={([nextLength]) => {
+                  setLength(nextLength)
+                  regenerate({ length: nextLength })
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="generator-symbols" className="text-xs">Include symbols</Label>
+              <Switch
+                id="generator-symbols"
+                checked={symbols}
+                onCheckedChange={(checked) => {
+                  setSymbols(checked)
+                  regenerate({ symbols: checked })
+                }}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Words</Label>
+              <span className="text-xs tabular-nums text-muted-foreground">{words}</span>
+            </div>
+            <Slider
+              min={4}
+              max={10}
+              step={1}
+              value={[words]}
+              onValueChange={([nextWords]) => {
+                setWords(nextWords)
+                regenerate({ words: nextWords })
+              }}
+            />
+          </div>
+        )}
+
+        <Button
+          type="button"
+          className="w-full"
+          size="sm"
+          onClick={() => {
+            onGenerate(value)
+            setOpen(false)
+          }}
+        >
+          Use {mode === "password" ? "Password" : "Passphrase"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -5,8 +5,11 @@ import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar"
 import { SEO } from "./seo"
 import { cn } from "@/lib/utils"
 import { Outlet } from "react-router-dom"
+import { useIdleLock } from "@/hooks/use-idle-lock"
 
 export function DashboardLayout({ children, className }: { children?: React.ReactNode, className?: string }) {
+  useIdleLock()
+
   return (
     <SidebarProvider>
       <SEO />
@@ -1,24 +1,17 @@
 import * as React from "react"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/hooks/use-auth"
+import { useChatMessages } from "@/hooks/use-chat-messages"
+import { useMarkChannelRead, useReadPosition } from "@/hooks/use-channel-read"
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads"
 import { MessageSquare, Send } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { ScrollArea } from "@/components/ui/scroll-area"
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { MessageList } from "@/components/message-list"
+import { MessageItem } from "@/components/message-item"
+import { AttachFilesButton, AttachmentDropZone, PendingUploads } from "@/components/chat-attachments"
+import { sendMessage } from "@/lib/chat"
 import { toast } from "sonner"
 
-interface Message {
-  id: string
-  content: string
-  created_at: string
-  user_id: string
-  profiles: {
-    full_name: string | null
-    avatar_url: string | null
-    email: string | null
-  }
-}
-
 interface Channel {
   id: string
   name: string
@@ -32,10 +25,24 @@ interface DirectMessageProps {
 export function DirectMessage({ recipientId, recipientName }: DirectMessageProps) {
   const { user } = useAuth()
   const [channel, setChannel] = React.useState<Channel | null>(null)
-  const [messages, setMessages] = React.useState<Message[]>([])
   const [newMessage, setNewMessage] = React.useState("")
   const [isLoading, setIsLoading] = React.useState(true)
-  const scrollRef = React.useRef<HTMLDivElement>(null)
+  const { messages, hasOlder, hasNewer, loadOlder, loadNewer } = useChatMessages(channel?.id)
+  const previousReadAt = useMarkChannelRead(channel?.id, messages[messages.length - 1]?.id)
+  const recipientReadAt = useReadPosition(channel?.id, recipientId)
+  const { uploads, attachments, isUploading, addFiles, removeUpload, clearUploads } = useAttachmentUploads(channel?.id)
+
+  const unreadFromId = React.useMemo(() => {
+    if (!previousReadAt) return null
+    const readUntil = new Date(previousReadAt).getTime()
+    return messages.find(m => m.user_id !== user?.id && new Date(m.created_at).getTime() > readUntil)?.id ?? null
+  }, [messages, previousReadAt, user?.id])
+
+  const seenMessageId = React.useMemo(() => {
+    if (!recipientReadAt) return null
+    const readUntil = new Date(recipientReadAt).getTime()
+    return messages.filter(m => m.user_id === user?.id && new Date(m.created_at).getTime() <= readUntil).pop()?.id ?? null
+  }, [messages, recipientReadAt, user?.id])
 
   // Find or create DM channel
   React.useEffect(() => {
@@ -96,88 +103,18 @@ export function DirectMessage({ recipientId, recipientName }: DirectMessageProps
     getOrCreateChannel()
   }, [user, recipientId])
 
-  // Fetch messages
-  React.useEffect(() => {
-    if (!channel) return
-
-    async function fetchMessages() {
-      const { data, error } = await supabase
-        .from("messages")
-        .select(`
-          *,
-          profiles:user_id (
-            full_name,
-            avatar_url,
-            email
-          )
-        `)
-        .eq("channel_id", channel!.id)
-        .order("created_at", { ascending: true })
-
-      if (!error && data) {
-        setMessages((data as unknown as Message[]) || [])
-      }
-    }
-
-    fetchMessages()
-
-    const subscription = supabase
-      .channel(`channel:${channel.id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channel.id}`,
-        },
-        async (payload) => {
-          const { data, error } = await supabase
-            .from("messages")
-            .select(`
-              *,
-              profiles:user_id (
-                full_name,
-                avatar_url,
-                email
-              )
-            `)
-            .eq("id", payload.new.id)
-            .single()
-
-          if (!error && data) {
-            setMessages((prev) => [...prev, data as unknown as Message])
-          }
-        }
-      )
-      .subscribe()
-
-    return () => {
-      supabase.removeChannel(subscription)
-    }
-  }, [channel])
-
-  // Auto scroll to bottom
-  React.useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
-    }
-  }, [messages])
-
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!newMessage.trim() || !channel || !user) return
-
     const content = newMessage.trim()
-    setNewMessage("")
+    if ((!content && attachments.length === 0) || isUploading || !channel || !user) return
 
-    const { error } = await supabase.from("messages").insert({
-      content,
-      channel_id: channel.id,
-      user_id: user.id,
-    })
+    setNewMessage("")
+    clearUploads()
 
-    if (error) {
+    try {
+      await sendMessage({ channelId: channel.id, content, attachments })
+    } catch (error) {
+      console.error("Error sending message:", error)
       toast.error("Failed to send message")
     }
   }
@@ -191,49 +128,40 @@ export function DirectMessage({ recipientId, recipientName }: DirectMessageProps
   }
 
   return (
-    <div className="flex flex-col h-[500px]">
-      <ScrollArea ref={scrollRef} className="flex-1 p-4">
-        <div className="flex flex-col gap-4">
-          {messages.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-10 text-center">
-              <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center mb-4">
-                <MessageSquare className="h-6 w-6 text-muted-foreground" />
-              </div>
-              <p className="text-sm font-medium">No messages yet</p>
-              <p className="text-xs text-muted-foreground mt-1">
-                Start a conversation with {recipientName}
-              </p>
+    <AttachmentDropZone onFiles={addFiles} className="flex flex-col h-[500px]">
+      <MessageList
+        messages={messages}
+        hasOlder={hasOlder}
+        hasNewer={hasNewer}
+        onLoadOlder={loadOlder}
+        onLoadNewer={loadNewer}
+        unreadFromId={unreadFromId}
+        contentClassName="p-4"
+        rowClassName="pb-4"
+        empty={
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center mb-4">
+              <MessageSquare className="h-6 w-6 text-muted-foreground" />
             </div>
-          ) : (
-            messages.map((message) => (
-              <div key={message.id} className="flex gap-3">
-                <Avatar className="h-8 w-8 shrink-0">
-                  <AvatarImage src={message.profiles?.avatar_url || ""} />
-                  <AvatarFallback className="bg-primary/10 text-primary text-[10px]">
-                    {(message.profiles?.full_name || message.profiles?.email || "U").charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 min-w-0 space-y-1">
-                  <div className="flex items-center gap-2">
-                    <span className="font-semibold text-xs">
-                      {message.profiles?.full_name || message.profiles?.email?.split("@")[0]}
-                    </span>
-                    <span className="text-[10px] text-muted-foreground">
-                      {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </span>
-                  </div>
-                  <p className="text-sm text-foreground/90 whitespace-pre-wrap break-words">
-                    {message.content}
-                  </p>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-      </ScrollArea>
+            <p className="text-sm font-medium">No messages yet</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Start a conversation with {recipientName}
+            </p>
+          </div>
+        }
+        renderMessage={(message) => (
+          <MessageItem
+            message={message}
+            size="sm"
+            seenAt={message.id === seenMessageId ? recipientReadAt : null}
+          />
+        )}
+      />
 
       <div className="p-4 border-t">
+        <PendingUploads uploads={uploads} onRemove={removeUpload} className="mb-2" />
         <form onSubmit={handleSendMessage} className="flex gap-2">
+          <AttachFilesButton onFiles={addFiles} className="h-[40px] w-[40px] shrink-0" />
           <textarea
             placeholder={`Message ${recipientName}...`}
             className="flex min-h-[40px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-base md:text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 resize-none"
@@ -246,11 +174,16 @@ export function DirectMessage({ recipientId, recipientName }: DirectMessageProps
               }
             }}
           />
-          <Button type="submit" size="icon" disabled={!newMessage.trim()} className="shrink-0 h-[40px] w-[40px]">
+          <Button
+            type="submit"
+            size="icon"
+            disabled={isUploading || (!newMessage.trim() && attachments.length === 0)}
+            className="shrink-0 h-[40px] w-[40px]"
+          >
             <Send className="h-4 w-4" />
           </Button>
         </form>
       </div>
-    </div>
+    </AttachmentDropZone>
   )
 }
@@ -0,0 +1,207 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { addDays, format, parseISO } from "date-fns"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import { downloadTextFile, type DateRange } from "@/lib/finances"
+import { getErrorMessage } from "@/lib/utils"
+import {
+  ACCOUNTING_DATASETS,
+  ACCOUNTING_FORMATS,
+  buildAccountingExport,
+  getChecksum,
+  type AccountingDataset,
+  type AccountingFormat,
+} from "@/lib/accounting-export"
+
+interface AccountingExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  range: DateRange
+  baseCurrency: string
+}
+
+export function AccountingExportDialog({ open, onOpenChange, range, baseCurrency }: AccountingExportDialogProps) {
+  const [from, setFrom] = React.useState("")
+  const [to, setTo] = React.useState("")
+  const [exportFormat, setExportFormat] = React.useState<AccountingFormat>("csv")
+  const [datasets, setDatasets] = React.useState<AccountingDataset[]>(["invoices", "payments", "expenses"])
+  const [isExporting, setIsExporting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setFrom(format(range.from, "yyyy-MM-dd"))
+      setTo(format(range.to, "yyyy-MM-dd"))
+    }
+  }, [open, range])
+
+  const toggleDataset = (dataset: AccountingDataset, checked: boolean) => {
+    setDatasets(prev => checked
+      ? ACCOUNTING_DATASETS.map(d => d.value).filter(d => d === dataset || prev.includes(d))
+      : prev.filter(d => d !== dataset))
+  }
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true)
+      // Invoices are dated by when they were raised, compared in UTC like the export itself
+      const endOfRange = `${format(addDays(parseISO(to), 1), "yyyy-MM-dd")}T00:00:00Z`
+
+      const [invoicesRes, paymentsRes, expensesRes] = await Promise.all([
+        datasets.includes("invoices")
+          ? supabase
+              .from("invoices")
+              .select("id, invoice_number, created_at, due_date, status, currency, subtotal, tax_amount, amount, amount_paid, vat_treatment, line_items, clients(first_name, last_name, email, vat_number), projects(name)")
+              .not("status", "in", "(draft,cancelled)")
+              .gte("created_at", `${from}T00:00:00Z`)
+              .lt("created_at", endOfRange)
+          : null,
+        datasets.includes("payments")
+          ? supabase
+              .from("invoice_payments")
+              .select("id, amount, paid_on, method, reference, invoices(invoice_number, currency, clients(first_name, last_name))")
+              .gte("paid_on", from)
+              .lte("paid_on", to)
+          : null,
+        datasets.includes("expenses")
+          ? supabase
+              .from("expenses")
+              .select("id, date, description, amount, category, expense_categories(name), projects(name)")
+              .gte("date", from)
+              .lte("date", to)
+          : null,
+      ])
+
+      if (invoicesRes?.error) throw invoicesRes.error
+      if (paymentsRes?.error) throw paymentsRes.error
+      if (expensesRes?.error) throw expensesRes.error
+
+      const files = buildAccountingExport(
+        exportFormat,
+        datasets,
+        {
+          invoices: invoicesRes?.data || [],
+          payments: paymentsRes?.data || [],
+          expenses: expensesRes?.data || [],
+        },
+        { from, to },
+        baseCurrency
+      )
+
+      const summary = await Promise.all(files.map(async file => ({
+        dataset: file.dataset,
+        filename: file.filename,
+        rows: file.rows,
+        sha256: await getChecksum(file.content),
+      })))
+
+      // Nothing is downloaded unless the export was recorded
+      const { error } = await supabase.rpc("log_accounting_export", {
+        p_format: exportFormat,
+        p_from: from,
+        p_to: to,
+        p_files: summary,
+      })
+
+      if (error) throw error
+
+      files.forEach(file => downloadTextFile(file.filename, file.content, file.mimeType))
+      toast.success(`Exported ${files.length} file(s)`)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error exporting accounting data:", error)
+      toast.error("Failed to export: " + getErrorMessage(error))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const selectedFormat = ACCOUNTING_FORMATS.find(f => f.value === exportFormat)
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isExporting && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Accounting Export</DialogTitle>
+          <DialogDescription>
+            Invoices, payments and expenses for your accountant. Each export is recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export_from">From</Label>
+              <Input id="export_from" type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export_to">To</Label>
+              <Input id="export_to" type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as AccountingFormat)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACCOUNTING_FORMATS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedFormat && <p className="text-xs text-muted-foreground">{selectedFormat.description}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Include</Label>
+            <div className="flex gap-4">
+              {ACCOUNTING_DATASETS.map(dataset => (
+                <div key={dataset.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export_${dataset.value}`}
+                    checked={datasets.includes(dataset.value)}
+                    onCheckedChange={(checked) => toggleDataset(dataset.value, checked === true)}
+                  />
+                  <Label htmlFor={`export_${dataset.value}`} className="text-sm font-normal">{dataset.label}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Each selection downloads as its own file.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || datasets.length === 0 || !from || !to}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,559 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
+import { Check, EyeOff, Loader2, Plus, Undo2, Upload, Wand2 } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { formatCurrency } from "@/lib/currency"
+import { getOutstandingBalance } from "@/lib/invoices"
+import type { ExpenseCategory } from "@/lib/expenses"
+import {
+  suggestMatch,
+  type BankImportProfile,
+  type BankTransaction,
+  type MatchableExpense,
+  type MatchableInvoice,
+  type SuggestedMatch,
+} from "@/lib/bank-import"
+import { ImportStatementDialog } from "./import-statement-dialog"
+
+type BankStatusFilter = "unmatched" | "matched" | "ignored"
+
+type BankTransactionRow = BankTransaction & {
+  invoices: { invoice_number: string } | null
+  expenses: { description: string } | null
+}
+
+interface BankReconciliationProps {
+  organizationId: string | null
+  baseCurrency: string
+  categories: ExpenseCategory[]
+  projects: { id: string; name: string }[]
+  /** Called after payments or expenses were recorded so totals can refresh */
+  onChange: () => void
+}
+
+const NO_MATCH = "none"
+
+function matchValue(match: SuggestedMatch | null) {
+  if (!match) return NO_MATCH
+  return match.type === "invoice" ? `invoice:${match.invoice.id}` : `expense:${match.expense.id}`
+}
+
+function formatClient(invoice: MatchableInvoice) {
+  return [invoice.clients?.first_name, invoice.clients?.last_name].filter(Boolean).join(" ")
+}
+
+export function BankReconciliation({
+  organizationId,
+  baseCurrency,
+  categories,
+  projects,
+  onChange,
+}: BankReconciliationProps) {
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [transactions, setTransactions] = React.useState<BankTransactionRow[]>([])
+  const [invoices, setInvoices] = React.useState<MatchableInvoice[]>([])
+  const [expenses, setExpenses] = React.useState<MatchableExpense[]>([])
+  const [profiles, setProfiles] = React.useState<BankImportProfile[]>([])
+  const [statusFilter, setStatusFilter] = React.useState<BankStatusFilter>("unmatched")
+  const [selections, setSelections] = React.useState<Record<string, string>>({})
+  const [busyIds, setBusyIds] = React.useState<string[]>([])
+  const [isImportOpen, setIsImportOpen] = React.useState(false)
+  const [expenseSource, setExpenseSource] = React.useState<BankTransaction | null>(null)
+  const [newExpense, setNewExpense] = React.useState({ description: "", category_id: "", project_id: "" })
+
+  const fetchBankData = React.useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [txRes, invoicesRes, expensesRes, profilesRes] = await Promise.all([
+        supabase
+          .from("bank_transactions")
+          .select("*, invoices(invoice_number), expenses(description)")
+          .order("transaction_date", { ascending: false }),
+        supabase
+          .from("invoices")
+          .select("id, invoice_number, amount, amount_paid, currency, status, due_date, clients(first_name, last_name)")
+          .in("status", ["sent", "overdue"])
+          .order("due_date"),
+        supabase
+          .from("expenses")
+          .select("id, description, amount, date")
+          .order("date", { ascending: false })
+          .limit(500),
+        supabase
+          .from("bank_import_profiles")
+          .select("*")
+          .order("name"),
+      ])
+
+      if (txRes.error) throw txRes.error
+      if (invoicesRes.error) throw invoicesRes.error
+      if (expensesRes.error) throw expensesRes.error
+      if (profilesRes.error) throw profilesRes.error
+
+      setTransactions(txRes.data || [])
+      setInvoices(invoicesRes.data || [])
+      setExpenses(expensesRes.data || [])
+      setProfiles(profilesRes.data || [])
+      setSelections({})
+    } catch (error: any) {
+      console.error("Error fetching bank transactions:", error)
+      toast.error("Failed to load bank transactions: " + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    fetchBankData()
+  }, [fetchBankData])
+
+  // Expenses already tied to a statement line can't be matched twice
+  const openExpenses = React.useMemo(() => {
+    const reconciled = new Set(transactions.map(t => t.expense_id).filter(Boolean))
+    return expenses.filter(e => !reconciled.has(e.id))
+  }, [transactions, expenses])
+
+  const suggestions = React.useMemo(() => {
+    const result: Record<string, SuggestedMatch | null> = {}
+    transactions
+      .filter(t => t.status === "unmatched")
+      .forEach(t => {
+        result[t.id] = suggestMatch(t, invoices, openExpenses)
+      })
+    return result
+  }, [transactions, invoices, openExpenses])
+
+  const counts = React.useMemo(() => ({
+    unmatched: transactions.filter(t => t.status === "unmatched").length,
+    matched: transactions.filter(t => t.status === "matched").length,
+    ignored: transactions.filter(t => t.status === "ignored").length,
+  }), [transactions])
+
+  const visible = transactions.filter(t => t.status === statusFilter)
+  const getSelection = (t: BankTransaction) => selections[t.id] ?? matchValue(suggestions[t.id] ?? null)
+
+  const withBusy = async (id: string, action: () => Promise<void>) => {
+    setBusyIds(prev => [...prev, id])
+    try {
+      await action()
+    } finally {
+      setBusyIds(prev => prev.filter(b => b !== id))
+    }
+  }
+
+  // Recording the payment and marking the line matched happen in one database transaction
+  const applyMatch = async (transaction: BankTransaction, selection: string) => {
+    const [type, id] = selection.split(":")
+
+    if (type === "invoice" && !invoices.some(i => i.id === id)) {
+      throw new Error("Invoice is no longer open")
+    }
+    if (type !== "invoice" && type !== "expense") return
+
+    const { error } = await supabase.rpc("match_bank_transaction", {
+      p_transaction_id: transaction.id,
+      p_invoice_id: type === "invoice" ? id : undefined,
+      p_expense_id: type === "expense" ? id : undefined,
+    })
+
+    if (error) throw error
+  }
+
+  const handleConfirm = (transaction: BankTransaction) =>
+    withBusy(transaction.id, async () => {
+      try {
+        await applyMatch(transaction, getSelection(transaction))
+        toast.success("Transaction matched")
+        await fetchBankData()
+        onChange()
+      } catch (error: any) {
+        console.error("Error matching transaction:", error)
+        toast.error("Failed to match transaction: " + error.message)
+      }
+    })
+
+  const handleConfirmAll = async () => {
+    const suggested = transactions.filter(t => t.status === "unmatched" && suggestions[t.id])
+    // One statement line per invoice: a second suggestion for the same invoice waits for review
+    const claimed = new Set<string>()
+    let matched = 0
+
+    setBusyIds(suggested.map(t => t.id))
+    try {
+      for (const transaction of suggested) {
+        const selection = matchValue(suggestions[transaction.id])
+        if (claimed.has(selection)) continue
+        claimed.add(selection)
+        await applyMatch(transaction, selection)
+        matched += 1
+      }
+      toast.success(`Matched ${matched} transaction(s)`)
+    } catch (error: any) {
+      console.error("Error matching transactions:", error)
+      toast.error(`Matched ${matched} transaction(s) before an error: ` + error.message)
+    } finally {
+      setBusyIds([])
+      await fetchBankData()
+      onChange()
+    }
+  }
+
+  const handleIgnore = (transaction: BankTransaction) =>
+    withBusy(transaction.id, async () => {
+      try {
+        const { error } = await supabase
+          .from("bank_transactions")
+          .update({ status: "ignored" })
+          .eq("id", transaction.id)
+
+        if (error) throw error
+        await fetchBankData()
+      } catch (error: any) {
+        console.error("Error ignoring transaction:", error)
+        toast.error("Failed to ignore transaction: " + error.message)
+      }
+    })
+
+  const handleUndo = (transaction: BankTransaction) =>
+    withBusy(transaction.id, async () => {
+      try {
+        // A payment or expense recorded by reconciliation is deleted in the same database transaction
+        const { error } = await supabase.rpc("unmatch_bank_transaction", {
+          p_transaction_id: transaction.id,
+        })
+
+        if (error) throw error
+        toast.success("Transaction moved back to review")
+        await fetchBankData()
+        if (transaction.invoice_payment_id || transaction.expense_created) onChange()
+      } catch (error: any) {
+        console.error("Error undoing match:", error)
+        toast.error("Failed to undo: " + error.message)
+      }
+    })
+
+  const openCreateExpense = (transaction: BankTransaction) => {
+    setNewExpense({
+      description: transaction.description,
+      category_id: categories.find(c => c.name === "Other")?.id ?? categories[0]?.id ?? "",
+      project_id: "",
+    })
+    setExpenseSource(transaction)
+  }
+
+  const handleCreateExpense = async () => {
+    const transaction = expenseSource
+    if (!transaction || !organizationId) return
+
+    await withBusy(transaction.id, async () => {
+      try {
+        // Inserting the expense and matching the line happen in one database transaction
+        const { error } = await supabase.rpc("create_bank_transaction_expense", {
+          p_transaction_id: transaction.id,
+          p_description: newExpense.description,
+          p_category_id: newExpense.category_id,
+          p_project_id: newExpense.project_id || undefined,
+        })
+
+        if (error) throw error
+
+        toast.success("Expense created")
+        setExpenseSource(null)
+        await fetchBankData()
+        onChange()
+      } catch (error: any) {
+        console.error("Error creating expense:", error)
+        toast.error("Failed to create expense: " + error.message)
+      }
+    })
+  }
+
+  const describeMatch = (transaction: BankTransactionRow) => {
+    if (transaction.invoices) return `Payment on ${transaction.invoices.invoice_number}`
+    if (transaction.expenses) return `Expense: ${transaction.expenses.description}`
+    return "—"
+  }
+
+  const renderMatchCell = (transaction: BankTransactionRow) => {
+    if (transaction.status !== "unmatched") {
+      return <span className="text-sm text-muted-foreground">{describeMatch(transaction)}</span>
+    }
+
+    const isCredit = Number(transaction.amount) > 0
+    const suggestion = suggestions[transaction.id]
+    const selection = getSelection(transaction)
+
+    return (
+      <div className="space-y-1">
+        <Select
+          value={selection}
+          onValueChange={(value) => setSelections(prev => ({ ...prev, [transaction.id]: value }))}
+        >
+          <SelectTrigger className="h-8 w-[260px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_MATCH}>No match</SelectItem>
+            {isCredit
+              ? invoices
+                  .filter(i => i.currency === transaction.currency && getOutstandingBalance(i) > 0)
+                  .map(i => (
+                    <SelectItem key={i.id} value={`invoice:${i.id}`}>
+                      {i.invoice_number} · {formatClient(i)} · {formatCurrency(getOutstandingBalance(i), i.currency)} due
+                    </SelectItem>
+                  ))
+              : openExpenses.map(e => (
+                  <SelectItem key={e.id} value={`expense:${e.id}`}>
+                    {e.description} · {formatCurrency(Number(e.amount), baseCurrency)}
+                    {e.date && ` · ${format(parseISO(e.date), "MMM d")}`}
+                  </SelectItem>
+                ))}
+          </SelectContent>
+        </Select>
+        {suggestion && selection === matchValue(suggestion) && (
+          <p className="text-xs text-muted-foreground">Suggested: {suggestion.reason}</p>
+        )}
+        {isCredit && !suggestion && (
+          <Badge variant="outline" className="border-amber-500 text-amber-600">Needs review</Badge>
+        )}
+      </div>
+    )
+  }
+
+  const suggestedCount = Object.values(suggestions).filter(Boolean).length
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Bank Reconciliation</CardTitle>
+          <CardDescription>
+            Match statement lines to invoices and expenses. Matched invoices are marked paid on the transaction date.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {statusFilter === "unmatched" && suggestedCount > 0 && (
+            <Button variant="outline" size="sm" onClick={handleConfirmAll} disabled={busyIds.length > 0}>
+              <Wand2 className="mr-2 h-4 w-4" /> Confirm {suggestedCount} Suggested
+            </Button>
+          )}
+          <Button size="sm" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Import Statement
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={statusFilter}
+          onValueChange={(value) => value && setStatusFilter(value as BankStatusFilter)}
+        >
+          <ToggleGroupItem value="unmatched" className="px-3">To Review ({counts.unmatched})</ToggleGroupItem>
+          <ToggleGroupItem value="matched" className="px-3">Matched ({counts.matched})</ToggleGroupItem>
+          <ToggleGroupItem value="ignored" className="px-3">Ignored ({counts.ignored})</ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                    {statusFilter === "unmatched"
+                      ? "Nothing to review. Import a statement to get started."
+                      : `No ${statusFilter} transactions.`}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map(transaction => {
+                  const amount = Number(transaction.amount)
+                  const isBusy = busyIds.includes(transaction.id)
+                  const selection = getSelection(transaction)
+
+                  return (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(transaction.transaction_date), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell className="max-w-[280px]">
+                        <p className="truncate font-medium">{transaction.description || "—"}</p>
+                        {transaction.reference && (
+                          <p className="truncate text-xs text-muted-foreground">{transaction.reference}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono whitespace-nowrap ${amount < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                        {formatCurrency(amount, transaction.currency)}
+                      </TableCell>
+                      <TableCell>{renderMatchCell(transaction)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {transaction.status === "unmatched" ? (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleConfirm(transaction)}
+                                disabled={isBusy || selection === NO_MATCH}
+                              >
+                                <Check className="mr-1 h-4 w-4" /> Match
+                              </Button>
+                              {amount < 0 && transaction.currency === baseCurrency && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openCreateExpense(transaction)}
+                                  disabled={isBusy}
+                                >
+                                  <Plus className="mr-1 h-4 w-4" /> Expense
+                                </Button>
+                              )}
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-muted-foreground"
+                                onClick={() => handleIgnore(transaction)}
+                                disabled={isBusy}
+                              >
+                                <EyeOff className="h-4 w-4" />
+                                <span className="sr-only">Ignore</span>
+                              </Button>
+                            </>
+                          ) : (
+                            <Button size="sm" variant="ghost" onClick={() => handleUndo(transaction)} disabled={isBusy}>
+                              <Undo2 className="mr-1 h-4 w-4" /> Undo
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <ImportStatementDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        organizationId={organizationId}
+        profiles={profiles}
+        baseCurrency={baseCurrency}
+        onImported={fetchBankData}
+      />
+
+      <Dialog open={!!expenseSource} onOpenChange={(open) => !open && setExpenseSource(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Create Expense</DialogTitle>
+            <DialogDescription>
+              {expenseSource && `${formatCurrency(Math.abs(Number(expenseSource.amount)), baseCurrency)} on ${format(parseISO(expenseSource.transaction_date), "MMM d, yyyy")}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank_expense_description">Description</Label>
+              <Input
+                id="bank_expense_description"
+                value={newExpense.description}
+                onChange={(e) => setNewExpense(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={newExpense.category_id}
+                  onValueChange={(category_id) => setNewExpense(prev => ({ ...prev, category_id }))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Project (Optional)</Label>
+                <Select
+                  value={newExpense.project_id || "none"}
+                  onValueChange={(value) => setNewExpense(prev => ({ ...prev, project_id: value === "none" ? "" : value }))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">General</SelectItem>
+                    {projects.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExpenseSource(null)}>Cancel</Button>
+            <Button
+              onClick={handleCreateExpense}
+              disabled={!newExpense.category_id || (!!expenseSource && busyIds.includes(expenseSource.id))}
+            >
+              Create Expense
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,411 @@
+import * as React from "react"
+import { toast } from "sonner"
+import type { ColumnDef } from "@tanstack/react-table"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Handshake, Pencil, Plus, Trash2 } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { DataTable } from "@/components/data-table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { formatCurrency, type ExchangeRate } from "@/lib/currency"
+import { formatDateRange, type DateRange } from "@/lib/finances"
+import { slugify } from "@/lib/utils"
+import {
+  COMMISSION_TYPES,
+  DIRECT_ORDER_SOURCE,
+  describeCommission,
+  getCommissionReport,
+  type CommissionPhase,
+  type OrderSource,
+  type SourceCommission,
+} from "@/lib/order-sources"
+import { OrderSourceForm, type OrderSourceFormValues } from "./order-source-form"
+
+const chartConfig = {
+  net: {
+    label: "Net",
+    color: "var(--chart-2)",
+  },
+  commission: {
+    label: "Commission",
+    color: "var(--destructive)",
+  },
+} satisfies ChartConfig
+
+interface CommissionReportProps {
+  organizationId: string | null
+  range: DateRange
+  baseCurrency: string
+  exchangeRates: ExchangeRate[]
+}
+
+export function CommissionReport({ organizationId, range, baseCurrency, exchangeRates }: CommissionReportProps) {
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [phases, setPhases] = React.useState<CommissionPhase[]>([])
+  const [sources, setSources] = React.useState<OrderSource[]>([])
+  const [editingSource, setEditingSource] = React.useState<OrderSource | null>(null)
+  const [isFormOpen, setIsFormOpen] = React.useState(false)
+  const [sourceToDelete, setSourceToDelete] = React.useState<OrderSource | null>(null)
+
+  const fetchReportData = React.useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [phasesRes, sourcesRes] = await Promise.all([
+        supabase
+          .from("phases")
+          .select("amount, commission_amount, currency, created_at, order_source")
+          .not("status", "in", "(draft,rejected)")
+          .not("amount", "is", null),
+        supabase
+          .from("order_sources")
+          .select("*")
+          .order("name"),
+      ])
+
+      if (phasesRes.error) throw phasesRes.error
+      if (sourcesRes.error) throw sourcesRes.error
+
+      setPhases(phasesRes.data || [])
+      setSources(sourcesRes.data || [])
+    } catch (error: any) {
+      console.error("Error fetching commission report:", error)
+      toast.error("Failed to load order sources: " + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    fetchReportData()
+  }, [fetchReportData])
+
+  const report = React.useMemo(
+    () => getCommissionReport(phases, sources, range, baseCurrency, exchangeRates),
+    [phases, sources, range, baseCurrency, exchangeRates]
+  )
+  const totals = report.bySource.reduce(
+    (acc, row) => ({ gross: acc.gross + row.gross, commission: acc.commission + row.commission, net: acc.net + row.net }),
+    { gross: 0, commission: 0, net: 0 }
+  )
+
+  const handleSave = async (values: OrderSourceFormValues) => {
+    try {
+      if (!organizationId) {
+        toast.error("No organization found. Please try again.")
+        return
+      }
+
+      const payload = {
+        name: values.name,
+        commission_type: values.commission_type,
+        commission_percent: values.commission_type === "percentage" ? Number(values.commission_percent) : 0,
+        commission_flat: values.commission_type === "flat" ? Number(values.commission_flat) : 0,
+        commission_tiers: values.commission_type === "tiered"
+          ? values.commission_tiers.map(tier => ({
+            up_to: tier.up_to === "" ? null : Number(tier.up_to),
+            percent: Number(tier.percent),
+          }))
+          : [],
+        collects_payment: values.collects_payment,
+        organization_id: organizationId,
+      }
+
+      let error
+      if (editingSource) {
+        ({ error } = await supabase.from("order_sources").update(payload).eq("id", editingSource.id))
+      } else {
+        // The key is what phases store, so it's fixed once the source exists
+        const base = slugify(values.name) || "source"
+        const taken = new Set([DIRECT_ORDER_SOURCE, ...sources.map(s => s.key)])
+        let key = base
+        for (let n = 2; taken.has(key); n++) key = `${base}-${n}`
+
+        ;({ error } = await supabase.from("order_sources").insert({ ...payload, key }))
+      }
+
+      if (error) throw error
+      toast.success(editingSource ? "Order source updated" : "Order source added")
+      setIsFormOpen(false)
+      fetchReportData()
+    } catch (error) {
+      console.error("Error saving order source:", error)
+      toast.error("Failed to save order source")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!sourceToDelete) return
+    try {
+      const { error } = await supabase.from("order_sources").delete().eq("id", sourceToDelete.id)
+      if (error) throw error
+      toast.success("Order source deleted")
+      fetchReportData()
+    } catch (error) {
+      console.error("Error deleting order source:", error)
+      toast.error("Failed to delete order source")
+    } finally {
+      setSourceToDelete(null)
+    }
+  }
+
+  const reportColumns: ColumnDef<SourceCommission>[] = [
+    {
+      accessorKey: "name",
+      header: "Source",
+      cell: ({ row }) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.original.name}</span>
+          <span className="text-xs text-muted-foreground">{row.original.phases} phase(s)</span>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "gross",
+      header: () => <div className="text-right">Gross</div>,
+      cell: ({ row }) => <div className="text-right font-mono">{formatCurrency(row.original.gross, baseCurrency)}</div>,
+    },
+    {
+      accessorKey: "commission",
+      header: () => <div className="text-right">Commission</div>,
+      cell: ({ row }) => (
+        <div className="text-right font-mono text-red-600">
+          {row.original.commission ? `-${formatCurrency(row.original.commission, baseCurrency)}` : "—"}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "net",
+      header: () => <div className="text-right">Net</div>,
+      cell: ({ row }) => (
+        <div className="text-right font-mono font-medium text-emerald-600">{formatCurrency(row.original.net, baseCurrency)}</div>
+      ),
+    },
+  ]
+
+  const sourceColumns: ColumnDef<OrderSource>[] = [
+    {
+      accessorKey: "name",
+      header: "Name",
+      cell: ({ row }) => (
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{row.original.name}</span>
+          {row.original.collects_payment && <Badge variant="secondary">Paid via platform</Badge>}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "commission_type",
+      header: "Commission",
+      cell: ({ row }) => (
+        <div className="flex flex-col">
+          <span>{describeCommission(row.original)}</span>
+          <span className="text-xs text-muted-foreground">
+            {COMMISSION_TYPES.find(t => t.value === row.original.commission_type)?.label}
+          </span>
+        </div>
+      ),
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => (
+        <div className="flex justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground"
+            onClick={() => {
+              setEditingSource(row.original)
+              setIsFormOpen(true)
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => setSourceToDelete(row.original)}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Gross</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(totals.gross, baseCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">Phases created {formatDateRange(range)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Commission</CardDescription>
+            <CardTitle className="text-2xl text-red-600">{formatCurrency(totals.commission, baseCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              {totals.gross ? `${((totals.commission / totals.gross) * 100).toFixed(1)}% of gross` : "No phases in this period"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Net</CardDescription>
+            <CardTitle className="text-2xl text-emerald-600">{formatCurrency(totals.net, baseCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              {report.unconverted > 0
+                ? `${report.unconverted} phase(s) left out for lack of an exchange rate`
+                : "What you keep after commission"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-7">
+        <Card className="lg:col-span-4">
+          <CardHeader>
+            <CardTitle>Commission Over Time</CardTitle>
+            <CardDescription>Net and commission per month, in {baseCurrency}.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+              <BarChart data={report.monthly}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="label"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  minTickGap={16}
+                  tickFormatter={(value: string) => value.split(" ")[0]}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={72}
+                  tickFormatter={(value: number) => formatCurrency(value, baseCurrency).replace(/\.00$/, "")}
+                />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      indicator="dot"
+                      formatter={(value, name) => (
+                        <div className="flex w-full items-center justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium">{formatCurrency(Number(value), baseCurrency)}</span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="net" stackId="gross" fill="var(--color-net)" />
+                <Bar dataKey="commission" stackId="gross" fill="var(--color-commission)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>By Source</CardTitle>
+            <CardDescription>{formatDateRange(range)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              columns={reportColumns}
+              data={report.bySource}
+              isLoading={isLoading}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Order Sources</CardTitle>
+            <CardDescription>
+              Marketplaces, partners and agencies that bring in work. Their commission is applied when a phase is saved.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => {
+              setEditingSource(null)
+              setIsFormOpen(true)
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Source
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={sourceColumns}
+            data={sources}
+            isLoading={isLoading}
+          />
+          {sources.length === 0 && !isLoading && (
+            <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <Handshake className="mx-auto h-12 w-12 opacity-20" />
+                <h3 className="mt-4 text-lg font-semibold">No order sources</h3>
+                <p className="text-sm">All work is treated as direct, with no commission.</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingSource ? "Edit Order Source" : "New Order Source"}</DialogTitle>
+          </DialogHeader>
+          <OrderSourceForm key={editingSource?.id || "new"} initialData={editingSource} onSubmit={handleSave} />
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!sourceToDelete}
+        onOpenChange={(open) => !open && setSourceToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Order Source"
+        description="Phases from this source keep the commission they were saved with."
+        confirmText="Delete"
+      />
+    </div>
+  )
+}
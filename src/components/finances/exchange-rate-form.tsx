@@ -0,0 +1,137 @@
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CURRENCIES } from "@/lib/currency"
+
+const exchangeRateSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Please select a month"),
+  currency: z.string().min(1, "Please select a currency"),
+  rate: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Rate must be a positive number",
+  }),
+})
+
+export type ExchangeRateFormValues = z.infer<typeof exchangeRateSchema>
+
+interface ExchangeRateFormProps {
+  onSubmit: (values: ExchangeRateFormValues) => Promise<void>
+  baseCurrency: string
+}
+
+export function ExchangeRateForm({ onSubmit, baseCurrency }: ExchangeRateFormProps) {
+  const [loading, setLoading] = useState(false)
+  const currencies = CURRENCIES.filter(c => c.code !== baseCurrency)
+
+  const form = useForm<ExchangeRateFormValues>({
+    resolver: zodResolver(exchangeRateSchema),
+    defaultValues: {
+      month: format(new Date(), "yyyy-MM"),
+      currency: currencies[0]?.code || "",
+      rate: "",
+    },
+  })
+
+  const watchCurrency = form.watch("currency")
+
+  const handleSubmit = async (values: ExchangeRateFormValues) => {
+    setLoading(true)
+    try {
+      await onSubmit(values)
+      form.setValue("rate", "")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="month"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Month</FormLabel>
+                <FormControl>
+                  <Input type="month" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select currency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {currencies.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>
+                        {c.code} · {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="rate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rate</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.000001" placeholder="0.00" {...field} />
+              </FormControl>
+              <FormDescription>
+                How many {baseCurrency} one {watchCurrency || "unit"} was worth that month.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Rate
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
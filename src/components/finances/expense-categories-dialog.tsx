@@ -0,0 +1,120 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { supabase } from "@/lib/supabase"
+import { getErrorMessage } from "@/lib/utils"
+import type { ExpenseCategory } from "@/lib/expenses"
+
+interface ExpenseCategoriesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  organizationId: string | null
+  categories: ExpenseCategory[]
+  onChange: () => void
+}
+
+export function ExpenseCategoriesDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  categories,
+  onChange,
+}: ExpenseCategoriesDialogProps) {
+  const [name, setName] = React.useState("")
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const handleAdd = async () => {
+    const trimmed = name.trim()
+    if (!trimmed || !organizationId) return
+
+    if (categories.some(c => c.name.toLowerCase() === trimmed.toLowerCase())) {
+      toast.error("That category already exists")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const { error } = await supabase
+        .from("expense_categories")
+        .insert({ organization_id: organizationId, name: trimmed })
+
+      if (error) throw error
+      setName("")
+      onChange()
+    } catch (error) {
+      console.error("Error adding expense category:", error)
+      toast.error("Failed to add category: " + getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("expense_categories").delete().eq("id", id)
+      if (error) throw error
+      onChange()
+    } catch (error) {
+      console.error("Error deleting expense category:", error)
+      toast.error("Failed to delete category: " + getErrorMessage(error))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Expense Categories</DialogTitle>
+          <DialogDescription>
+            Categories are shared across your organization. Deleting one leaves its expenses uncategorized.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="e.g. Hosting"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleAdd()
+              }
+            }}
+          />
+          <Button onClick={handleAdd} disabled={!name.trim() || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="max-h-[300px] space-y-1 overflow-y-auto">
+          {categories.map((category) => (
+            <div key={category.id} className="flex items-center justify-between rounded-md px-2 py-1.5 hover:bg-muted/50">
+              <span className="text-sm">{category.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(category.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {categories.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">No categories yet</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -12,6 +12,7 @@ import {
   FormMessage,
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import {
   Select,
   SelectContent,
@@ -23,35 +24,38 @@ import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { cn } from "@/lib/utils"
 import { format } from "date-fns"
-import { CalendarIcon, Loader2 } from "lucide-react"
+import { CalendarIcon, Loader2, Paperclip, X } from "lucide-react"
+import type { ExpenseCategory } from "@/lib/expenses"
 
 const expenseSchema = z.object({
   description: z.string().min(2, "Description must be at least 2 characters"),
   amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "Amount must be a positive number",
   }),
-  category: z.string().min(1, "Please select a category"),
+  category_id: z.string().min(1, "Please select a category"),
   date: z.date(),
   project_id: z.string().optional(),
 })
 
-type ExpenseFormValues = z.infer<typeof expenseSchema>
+export type ExpenseFormValues = z.infer<typeof expenseSchema>
 
 interface ExpenseFormProps {
-  onSubmit: (values: ExpenseFormValues) => Promise<void>
+  onSubmit: (values: ExpenseFormValues, receipt: File | null) => Promise<void>
   initialData?: Partial<ExpenseFormValues>
   projects?: { id: string; name: string }[]
+  categories: Pick<ExpenseCategory, "id" | "name">[]
 }
 
-export function ExpenseForm({ onSubmit, initialData, projects }: ExpenseFormProps) {
+export function ExpenseForm({ onSubmit, initialData, projects, categories }: ExpenseFormProps) {
   const [loading, setLoading] = useState(false)
+  const [receipt, setReceipt] = useState<File | null>(null)
 
   const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseSchema),
     defaultValues: {
       description: initialData?.description || "",
       amount: initialData?.amount?.toString() || "",
-      category: initialData?.category || "",
+      category_id: initialData?.category_id || "",
       date: initialData?.date || new Date(),
       project_id: initialData?.project_id || "",
     },
@@ -60,7 +64,7 @@ export function ExpenseForm({ onSubmit, initialData, projects }: ExpenseFormProp
   const handleSubmit = async (values: ExpenseFormValues) => {
     setLoading(true)
     try {
-      await onSubmit(values)
+      await onSubmit(values, receipt)
     } finally {
       setLoading(false)
     }
@@ -100,23 +104,22 @@ export function ExpenseForm({ onSubmit, initialData, projects }: ExpenseFormProp
 
           <FormField
             control={form.control}
-            name="category"
+            name="category_id"
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Category</FormLabel>
                 <Select onValueChange={field.onChange} defaultValue={field.value}>
                   <FormControl>
                     <SelectTrigger>
-                      <SelectValue placeholder="Select category" />
+                      <SelectValue placeholder={categories.length ? "Select category" : "No categories yet"} />
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="software">Software / SaaS</SelectItem>
-                    <SelectItem value="rent">Rent / Office</SelectItem>
-                    <SelectItem value="marketing">Marketing</SelectItem>
-                    <SelectItem value="travel">Travel</SelectItem>
-                    <SelectItem value="supplies">Supplies</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -198,6 +201,26 @@ export function ExpenseForm({ onSubmit, initialData, projects }: ExpenseFormProp
           />
         </div>
 
+        <div className="space-y-2">
+          <Label>Receipt (Optional)</Label>
+          {receipt ? (
+            <div className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+              <Paperclip className="h-4 w-4 text-muted-foreground" />
+              <span className="flex-1 truncate">{receipt.name}</span>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReceipt(null)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <Input
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+            />
+          )}
+          <p className="text-xs text-muted-foreground">Images are compressed before upload.</p>
+        </div>
+
         <div className="flex justify-end gap-2 pt-4">
           <Button type="submit" disabled={loading}>
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
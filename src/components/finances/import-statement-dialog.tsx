@@ -0,0 +1,387 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { supabase } from "@/lib/supabase"
+import { CURRENCIES, formatCurrency } from "@/lib/currency"
+import { getErrorMessage } from "@/lib/utils"
+import {
+  BANK_DATE_FORMATS,
+  CSV_DELIMITERS,
+  getCsvColumns,
+  parseCsv,
+  parseStatement,
+  type BankImportProfile,
+  type BankMapping,
+} from "@/lib/bank-import"
+
+interface ImportStatementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  organizationId: string | null
+  profiles: BankImportProfile[]
+  baseCurrency: string
+  onImported: () => void
+}
+
+const NEW_PROFILE = "new"
+
+const EMPTY_MAPPING: BankMapping = {
+  delimiter: ",",
+  has_header: true,
+  date_column: "",
+  date_format: "yyyy-MM-dd",
+  description_column: "",
+  reference_column: null,
+  amount_column: "",
+  debit_column: null,
+  credit_column: null,
+}
+
+export function ImportStatementDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  profiles,
+  baseCurrency,
+  onImported,
+}: ImportStatementDialogProps) {
+  const [fileText, setFileText] = React.useState("")
+  const [fileName, setFileName] = React.useState("")
+  const [profileId, setProfileId] = React.useState(NEW_PROFILE)
+  const [bankName, setBankName] = React.useState("")
+  const [currency, setCurrency] = React.useState(baseCurrency)
+  const [mapping, setMapping] = React.useState<BankMapping>(EMPTY_MAPPING)
+  const [saveProfile, setSaveProfile] = React.useState(true)
+  const [isImporting, setIsImporting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setFileText("")
+      setFileName("")
+      setProfileId(profiles[0]?.id ?? NEW_PROFILE)
+    }
+  }, [open, profiles])
+
+  React.useEffect(() => {
+    const profile = profiles.find(p => p.id === profileId)
+    if (profile) {
+      setBankName(profile.name)
+      setCurrency(profile.currency)
+      setMapping({
+        delimiter: profile.delimiter,
+        has_header: profile.has_header,
+        date_column: profile.date_column,
+        date_format: profile.date_format,
+        description_column: profile.description_column,
+        reference_column: profile.reference_column,
+        amount_column: profile.amount_column,
+        debit_column: profile.debit_column,
+        credit_column: profile.credit_column,
+      })
+    } else {
+      setBankName("")
+      setCurrency(baseCurrency)
+      setMapping(EMPTY_MAPPING)
+    }
+  }, [profileId, profiles, baseCurrency])
+
+  const rows = React.useMemo(() => parseCsv(fileText, mapping.delimiter), [fileText, mapping.delimiter])
+  const columns = React.useMemo(() => getCsvColumns(rows, mapping.has_header), [rows, mapping.has_header])
+  const useSplitAmounts = mapping.amount_column === null
+  const isMappingComplete = !!mapping.date_column && !!mapping.description_column &&
+    (useSplitAmounts ? !!mapping.debit_column && !!mapping.credit_column : !!mapping.amount_column)
+
+  const statement = React.useMemo(
+    () => (fileText && isMappingComplete ? parseStatement(rows, mapping) : null),
+    [fileText, isMappingComplete, rows, mapping]
+  )
+
+  const updateMapping = (changes: Partial<BankMapping>) => setMapping(prev => ({ ...prev, ...changes }))
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setFileName(file.name)
+    setFileText(await file.text())
+  }
+
+  const handleImport = async () => {
+    if (!organizationId || !statement || statement.transactions.length === 0) return
+
+    try {
+      setIsImporting(true)
+      let importProfileId = profileId === NEW_PROFILE ? null : profileId
+
+      if (saveProfile && bankName.trim()) {
+        const payload = { ...mapping, name: bankName.trim(), currency, organization_id: organizationId, updated_at: new Date().toISOString() }
+        const { data, error } = importProfileId
+          ? await supabase.from("bank_import_profiles").update(payload).eq("id", importProfileId).select("id").single()
+          : await supabase.from("bank_import_profiles").insert(payload).select("id").single()
+
+        if (error) throw error
+        importProfileId = data.id
+      }
+
+      const { data: inserted, error } = await supabase
+        .from("bank_transactions")
+        .upsert(
+          statement.transactions.map(t => ({
+            ...t,
+            currency,
+            organization_id: organizationId,
+            import_profile_id: importProfileId,
+          })),
+          { onConflict: "organization_id,fingerprint", ignoreDuplicates: true }
+        )
+        .select("id")
+
+      if (error) throw error
+
+      const added = inserted?.length ?? 0
+      const duplicates = statement.transactions.length - added
+      toast.success(
+        `Imported ${added} transaction(s)` + (duplicates > 0 ? `, ${duplicates} already imported` : "")
+      )
+      onOpenChange(false)
+      onImported()
+    } catch (error) {
+      console.error("Error importing statement:", error)
+      toast.error("Failed to import statement: " + getErrorMessage(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const columnSelect = (
+    id: string,
+    label: string,
+    value: string | null,
+    onChange: (value: string | null) => void,
+    optional = false
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value || "none"} onValueChange={(v) => onChange(v === "none" ? null : v)}>
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value="none">None</SelectItem>}
+          {columns.map(column => (
+            <SelectItem key={column} value={column}>{column}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            Upload a CSV export from your bank. Lines that were imported before are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement_file">CSV File</Label>
+              <Input id="statement_file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            </div>
+            <div className="space-y-2">
+              <Label>Bank</Label>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                  <SelectItem value={NEW_PROFILE}>New bank mapping…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fileText && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bank_name">Bank Name</Label>
+                  <Input
+                    id="bank_name"
+                    placeholder="e.g. Revolut Business"
+                    value={bankName}
+                    onChange={(e) => setBankName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Separator</Label>
+                  <Select value={mapping.delimiter} onValueChange={(delimiter) => updateMapping({ delimiter })}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_DELIMITERS.map(d => (
+                        <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Account Currency</Label>
+                  <Select value={currency} onValueChange={setCurrency}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map(c => (
+                        <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="has_header"
+                  checked={mapping.has_header}
+                  onCheckedChange={(checked) => updateMapping({ has_header: checked === true })}
+                />
+                <Label htmlFor="has_header" className="text-sm font-normal">First row contains column names</Label>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {columnSelect("date_column", "Date", mapping.date_column, (v) => updateMapping({ date_column: v ?? "" }))}
+                <div className="space-y-2">
+                  <Label>Date Format</Label>
+                  <Select value={mapping.date_format} onValueChange={(date_format) => updateMapping({ date_format })}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BANK_DATE_FORMATS.map(f => (
+                        <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {columnSelect("description_column", "Description", mapping.description_column, (v) => updateMapping({ description_column: v ?? "" }))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {columnSelect("reference_column", "Reference (Optional)", mapping.reference_column, (v) => updateMapping({ reference_column: v }), true)}
+                {useSplitAmounts ? (
+                  <>
+                    {columnSelect("debit_column", "Money Out", mapping.debit_column, (v) => updateMapping({ debit_column: v }))}
+                    {columnSelect("credit_column", "Money In", mapping.credit_column, (v) => updateMapping({ credit_column: v }))}
+                  </>
+                ) : (
+                  columnSelect("amount_column", "Amount (+ in, − out)", mapping.amount_column, (v) => updateMapping({ amount_column: v ?? "" }))
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => updateMapping(useSplitAmounts
+                  ? { amount_column: "", debit_column: null, credit_column: null }
+                  : { amount_column: null, debit_column: "", credit_column: "" })}
+              >
+                {useSplitAmounts ? "Use a single signed amount column" : "Use separate money in / money out columns"}
+              </Button>
+
+              {statement && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {statement.transactions.length} transaction(s) found in {fileName}
+                    {statement.skippedLines.length > 0 && `, ${statement.skippedLines.length} line(s) skipped (${statement.skippedLines.slice(0, 5).join(", ")}${statement.skippedLines.length > 5 ? "…" : ""})`}
+                  </p>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {statement.transactions.slice(0, 5).map(t => (
+                          <TableRow key={t.fingerprint}>
+                            <TableCell>{t.transaction_date}</TableCell>
+                            <TableCell className="max-w-[320px] truncate">{t.description}</TableCell>
+                            <TableCell className={`text-right font-mono ${t.amount < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                              {formatCurrency(t.amount, currency)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="save_profile"
+                  checked={saveProfile}
+                  onCheckedChange={(checked) => setSaveProfile(checked === true)}
+                />
+                <Label htmlFor="save_profile" className="text-sm font-normal">
+                  Save this mapping for {bankName.trim() || "this bank"}
+                </Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || !statement || statement.transactions.length === 0 || (saveProfile && !bankName.trim())}
+          >
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
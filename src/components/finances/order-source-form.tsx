@@ -0,0 +1,255 @@
+import { useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { COMMISSION_TYPES, getCommissionTiers, type OrderSource } from "@/lib/order-sources"
+
+const isPercent = (val: string) => val !== "" && !isNaN(Number(val)) && Number(val) >= 0 && Number(val) <= 100
+
+const orderSourceSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  commission_type: z.enum(["percentage", "flat", "tiered"]),
+  commission_percent: z.string(),
+  commission_flat: z.string(),
+  commission_tiers: z.array(z.object({
+    up_to: z.string(),
+    percent: z.string().refine(isPercent, { message: "0–100" }),
+  })),
+  collects_payment: z.boolean(),
+}).superRefine((values, ctx) => {
+  if (values.commission_type === "percentage" && !isPercent(values.commission_percent)) {
+    ctx.addIssue({ code: "custom", message: "Enter a percentage between 0 and 100", path: ["commission_percent"] })
+  }
+  if (values.commission_type === "flat" && !(Number(values.commission_flat) >= 0 && values.commission_flat !== "")) {
+    ctx.addIssue({ code: "custom", message: "Enter a fee of 0 or more", path: ["commission_flat"] })
+  }
+  if (values.commission_type === "tiered") {
+    const tiers = values.commission_tiers
+    if (tiers.length === 0) {
+      ctx.addIssue({ code: "custom", message: "Add at least one tier", path: ["commission_tiers"] })
+    }
+    let previous = 0
+    tiers.forEach((tier, index) => {
+      const isLast = index === tiers.length - 1
+      if (tier.up_to === "" ? !isLast : !(Number(tier.up_to) > previous)) {
+        ctx.addIssue({
+          code: "custom",
+          message: isLast ? "Must be above the previous tier" : "Only the last tier can be open-ended",
+          path: ["commission_tiers", index, "up_to"],
+        })
+      }
+      previous = Number(tier.up_to) || previous
+    })
+  }
+})
+
+export type OrderSourceFormValues = z.infer<typeof orderSourceSchema>
+
+interface OrderSourceFormProps {
+  initialData?: OrderSource | null
+  onSubmit: (values: OrderSourceFormValues) => Promise<void>
+}
+
+export function OrderSourceForm({ initialData, onSubmit }: OrderSourceFormProps) {
+  const [loading, setLoading] = useState(false)
+  const initialTiers = initialData ? getCommissionTiers(initialData) : []
+
+  const form = useForm<OrderSourceFormValues>({
+    resolver: zodResolver(orderSourceSchema),
+    defaultValues: {
+      name: initialData?.name || "",
+      commission_type: (initialData?.commission_type as OrderSourceFormValues["commission_type"]) || "percentage",
+      commission_percent: initialData?.commission_percent?.toString() ?? "",
+      commission_flat: initialData?.commission_flat?.toString() ?? "",
+      commission_tiers: initialTiers.length > 0
+        ? initialTiers.map(tier => ({ up_to: tier.up_to?.toString() ?? "", percent: tier.percent.toString() }))
+        : [{ up_to: "", percent: "" }],
+      collects_payment: initialData?.collects_payment ?? false,
+    },
+  })
+
+  const tiers = useFieldArray({ control: form.control, name: "commission_tiers" })
+  const commissionType = form.watch("commission_type")
+
+  const handleSubmit = async (values: OrderSourceFormValues) => {
+    setLoading(true)
+    try {
+      await onSubmit(values)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Upwork" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="commission_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Commission</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COMMISSION_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {commissionType === "percentage" && (
+          <FormField
+            control={form.control}
+            name="commission_percent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rate (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" placeholder="20" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {commissionType === "flat" && (
+          <FormField
+            control={form.control}
+            name="commission_flat"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fee per Phase</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormDescription>Charged in the phase's currency.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {commissionType === "tiered" && (
+          <div className="space-y-2">
+            <Label>Tiers</Label>
+            {tiers.fields.map((tier, index) => (
+              <div key={tier.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`commission_tiers.${index}.up_to`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="Up to (blank = no limit)" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`commission_tiers.${index}.percent`}
+                  render={({ field }) => (
+                    <FormItem className="w-28">
+                      <FormControl>
+                        <Input type="number" step="0.1" placeholder="%" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground"
+                  onClick={() => tiers.remove(index)}
+                  disabled={tiers.fields.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove tier</span>
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => tiers.append({ up_to: "", percent: "" })}>
+              <Plus className="mr-2 h-4 w-4" /> Add Tier
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Each rate applies to the part of the amount within its band, e.g. 20% up to 500 then 10% above.
+            </p>
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="collects_payment"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Paid through the platform</FormLabel>
+                <FormDescription>The client pays the platform, so no invoice is raised for these phases.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? "Save Changes" : "Add Source"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
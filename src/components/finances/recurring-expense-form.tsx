@@ -0,0 +1,228 @@
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { RECURRING_INTERVALS } from "@/lib/invoices"
+import type { ExpenseCategory, RecurringExpense } from "@/lib/expenses"
+
+const recurringExpenseSchema = z.object({
+  description: z.string().min(2, "Description must be at least 2 characters"),
+  amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+    message: "Amount must be a positive number",
+  }),
+  category_id: z.string().min(1, "Please select a category"),
+  project_id: z.string().optional(),
+  interval: z.string().min(1, "Please select an interval"),
+  start_date: z.string().min(1, "Please pick a start date"),
+  end_date: z.string().optional(),
+}).refine((values) => !values.end_date || values.end_date >= values.start_date, {
+  message: "End date must be after the start date",
+  path: ["end_date"],
+})
+
+export type RecurringExpenseFormValues = z.infer<typeof recurringExpenseSchema>
+
+interface RecurringExpenseFormProps {
+  initialData?: RecurringExpense | null
+  categories: Pick<ExpenseCategory, "id" | "name">[]
+  projects: { id: string; name: string }[]
+  onSubmit: (values: RecurringExpenseFormValues) => Promise<void>
+}
+
+export function RecurringExpenseForm({ initialData, categories, projects, onSubmit }: RecurringExpenseFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const form = useForm<RecurringExpenseFormValues>({
+    resolver: zodResolver(recurringExpenseSchema),
+    defaultValues: {
+      description: initialData?.description || "",
+      amount: initialData?.amount?.toString() || "",
+      category_id: initialData?.category_id || "",
+      project_id: initialData?.project_id || "",
+      interval: initialData?.interval || "monthly",
+      start_date: initialData?.start_date || format(new Date(), "yyyy-MM-dd"),
+      end_date: initialData?.end_date || "",
+    },
+  })
+
+  const handleSubmit = async (values: RecurringExpenseFormValues) => {
+    setLoading(true)
+    try {
+      await onSubmit(values)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Vercel Pro" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="project_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Project (Optional)</FormLabel>
+              <Select
+                onValueChange={(val) => field.onChange(val === "none" ? "" : val)}
+                value={field.value || "none"}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {projects.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeats</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select interval" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RECURRING_INTERVALS.map((i) => (
+                      <SelectItem key={i.value} value={i.value}>{i.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="start_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="end_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends (Optional)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          An expense is booked automatically on each run date, starting with the first date on or after today.
+        </p>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? "Save Changes" : "Create Schedule"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,70 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { formatCurrency } from "@/lib/currency"
+import type { MonthlyFinance } from "@/lib/finances"
+
+const chartConfig = {
+  revenue: {
+    label: "Revenue",
+    color: "var(--chart-2)",
+  },
+  expenses: {
+    label: "Expenses",
+    color: "var(--destructive)",
+  },
+} satisfies ChartConfig
+
+interface RevenueExpenseChartProps {
+  data: MonthlyFinance[]
+  currency: string
+}
+
+export function RevenueExpenseChart({ data, currency }: RevenueExpenseChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="label"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={16}
+          tickFormatter={(value: string) => value.split(" ")[0]}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={72}
+          tickFormatter={(value: number) => formatCurrency(value, currency).replace(/\.00$/, "")}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              indicator="dot"
+              formatter={(value, name) => (
+                <div className="flex w-full items-center justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                  </span>
+                  <span className="font-mono font-medium">{formatCurrency(Number(value), currency)}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+        <Bar dataKey="expenses" fill="var(--color-expenses)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
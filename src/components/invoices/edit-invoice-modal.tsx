@@ -23,6 +23,9 @@ import { supabase } from "@/lib/supabase"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import type { Tables } from "@/lib/database.types"
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency"
+import { calculateInvoiceTotals, getDefaultTaxRate, VAT_TREATMENTS } from "@/lib/invoices"
+import { useOrganization } from "@/hooks/use-organization"
 
 interface EditInvoiceModalProps {
   invoice: Tables<"invoices"> | null
@@ -37,10 +40,13 @@ export function EditInvoiceModal({
   onOpenChange,
   onSuccess,
 }: EditInvoiceModalProps) {
+  const { organization } = useOrganization()
   const [loading, setLoading] = React.useState(false)
   const [invoiceNumber, setInvoiceNumber] = React.useState("")
   const [dueDate, setDueDate] = React.useState("")
   const [status, setStatus] = React.useState("")
+  const [currency, setCurrency] = React.useState(DEFAULT_CURRENCY)
+  const [vatTreatment, setVatTreatment] = React.useState("standard")
   const [notes, setNotes] = React.useState("")
   const [lineItems, setLineItems] = React.useState<LineItem[]>([])
 
@@ -49,14 +55,15 @@ export function EditInvoiceModal({
       setInvoiceNumber(invoice.invoice_number || "")
       setDueDate(invoice.due_date ? format(new Date(invoice.due_date), "yyyy-MM-dd") : "")
       setStatus(invoice.status || "draft")
+      setCurrency(invoice.currency || DEFAULT_CURRENCY)
+      setVatTreatment(invoice.vat_treatment || "standard")
       setNotes(invoice.notes || "")
       setLineItems((invoice.line_items as unknown as LineItem[]) || [])
     }
   }, [invoice, open])
 
-  const calculateTotal = (items: LineItem[]) => {
-    return items.reduce((sum, item) => sum + (Number(item.price) * Number(item.quantity)), 0)
-  }
+  const totals = calculateInvoiceTotals(lineItems, vatTreatment)
+  const showTax = !!organization.vat_enabled || lineItems.some(item => Number(item.tax_rate) > 0)
 
   const handleSave = async () => {
     if (!invoice || !invoiceNumber.trim()) {
@@ -66,8 +73,6 @@ export function EditInvoiceModal({
 
     setLoading(true)
     try {
-      const amount = calculateTotal(lineItems)
-      
       const { error } = await supabase
         .from("invoices")
         .update({
@@ -76,7 +81,11 @@ export function EditInvoiceModal({
           status,
           notes,
           line_items: lineItems as any,
-          amount,
+          amount: totals.total,
+          subtotal: totals.subtotal,
+          tax_amount: totals.taxAmount,
+          vat_treatment: vatTreatment,
+          currency,
           updated_at: new Date().toISOString(),
         })
         .eq("id", invoice.id)
@@ -89,7 +98,8 @@ export function EditInvoiceModal({
           .from("phases")
           .update({
             invoice_line_items: lineItems as any,
-            amount: amount,
+            amount: totals.subtotal,
+            currency,
           })
           .eq("id", invoice.phase_id)
       }
@@ -136,31 +146,77 @@ export function EditInvoiceModal({
             </div>
           </div>
 
-          <div className="grid gap-2">
-            <Label htmlFor="status">Status</Label>
-            <Select value={status} onValueChange={setStatus}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="draft">Draft</SelectItem>
-                <SelectItem value="sent">Sent</SelectItem>
-                <SelectItem value="paid">Paid</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="status">Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="overdue" disabled>Overdue</SelectItem>
+                  <SelectItem value="paid" disabled>Paid</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="currency">
+                  <SelectValue placeholder="Select currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((c) => (
+                    <SelectItem key={c.code} value={c.code}>{c.code} · {c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="vat_treatment">VAT</Label>
+              <Select value={vatTreatment} onValueChange={setVatTreatment}>
+                <SelectTrigger id="vat_treatment">
+                  <SelectValue placeholder="Select VAT treatment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {VAT_TREATMENTS.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <LineItemsManager 
             lineItems={lineItems} 
             onChange={setLineItems} 
+            currency={currency}
+            showTax={showTax}
+            defaultTaxRate={getDefaultTaxRate(organization)}
           />
 
-          <div className="flex justify-end items-center gap-2 pt-2 border-t font-semibold">
-            <span>Total Amount:</span>
-            <span className="text-xl">
-              ${calculateTotal(lineItems).toLocaleString()}
-            </span>
+          <div className="grid gap-1 pt-2 border-t">
+            {showTax && (
+              <>
+                <div className="flex justify-end gap-2 text-sm text-muted-foreground">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(totals.subtotal, currency)}</span>
+                </div>
+                <div className="flex justify-end gap-2 text-sm text-muted-foreground">
+                  <span>VAT:</span>
+                  <span>{formatCurrency(totals.taxAmount, currency)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-end items-center gap-2 font-semibold">
+              <span>Total Amount:</span>
+              <span className="text-xl">
+                {formatCurrency(totals.total, currency)}
+              </span>
+            </div>
           </div>
 
           <div className="grid gap-2">
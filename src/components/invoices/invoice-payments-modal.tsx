@@ -0,0 +1,200 @@
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import { Separator } from "@/components/ui/separator"
+import { Trash2, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
+import { supabase } from "@/lib/supabase"
+import type { Tables } from "@/lib/database.types"
+import { formatCurrency, resolveCurrency } from "@/lib/currency"
+import { getOutstandingBalance, getPaymentMethodLabel } from "@/lib/invoices"
+import { PaymentForm, type PaymentFormValues } from "./payment-form"
+
+type InvoicePayment = Tables<"invoice_payments">
+
+interface InvoicePaymentsModalProps {
+  invoice: Tables<"invoices"> | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+export function InvoicePaymentsModal({
+  invoice,
+  open,
+  onOpenChange,
+  onSuccess,
+}: InvoicePaymentsModalProps) {
+  const [loading, setLoading] = React.useState(false)
+  const [payments, setPayments] = React.useState<InvoicePayment[]>([])
+  const [paymentToDelete, setPaymentToDelete] = React.useState<string | null>(null)
+
+  const fetchPayments = React.useCallback(async () => {
+    if (!invoice) return
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from("invoice_payments")
+        .select("*")
+        .eq("invoice_id", invoice.id)
+        .order("paid_on", { ascending: false })
+
+      if (error) throw error
+      setPayments(data || [])
+    } catch (error) {
+      console.error("Error fetching payments:", error)
+      toast.error("Failed to load payments")
+    } finally {
+      setLoading(false)
+    }
+  }, [invoice])
+
+  React.useEffect(() => {
+    if (open) {
+      fetchPayments()
+    }
+  }, [open, fetchPayments])
+
+  if (!invoice) return null
+
+  const currency = resolveCurrency(invoice.currency)
+  const amountPaid = payments.reduce((sum, p) => sum + Number(p.amount), 0)
+  const outstanding = getOutstandingBalance({ amount: invoice.amount, amount_paid: amountPaid })
+
+  const handleRecordPayment = async (values: PaymentFormValues) => {
+    try {
+      const { error } = await supabase.from("invoice_payments").insert({
+        invoice_id: invoice.id,
+        amount: Number(values.amount),
+        paid_on: format(values.paid_on, "yyyy-MM-dd"),
+        method: values.method,
+        reference: values.reference?.trim() || null,
+      })
+
+      if (error) throw error
+
+      toast.success(
+        Number(values.amount) >= outstanding ? "Payment recorded, invoice settled" : "Payment recorded"
+      )
+      await fetchPayments()
+      onSuccess()
+    } catch (error) {
+      console.error("Error recording payment:", error)
+      toast.error("Failed to record payment")
+    }
+  }
+
+  const handleDeletePayment = async () => {
+    if (!paymentToDelete) return
+    try {
+      const { error } = await supabase.from("invoice_payments").delete().eq("id", paymentToDelete)
+      if (error) throw error
+
+      toast.success("Payment deleted")
+      await fetchPayments()
+      onSuccess()
+    } catch (error) {
+      console.error("Error deleting payment:", error)
+      toast.error("Failed to delete payment")
+    } finally {
+      setPaymentToDelete(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payments · {invoice.invoice_number}</DialogTitle>
+          <DialogDescription>
+            Record money received against this invoice. It is marked paid automatically once the balance reaches zero.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 rounded-lg border p-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Invoice Total</p>
+            <p className="font-semibold">{formatCurrency(invoice.amount, currency)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Paid</p>
+            <p className="font-semibold text-emerald-600">{formatCurrency(amountPaid, currency)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Outstanding</p>
+            <p className={`font-semibold ${outstanding > 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(outstanding, currency)}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Payment History</h4>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : payments.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No payments recorded yet.</p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {payments.map((payment) => (
+                <div key={payment.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 space-y-0.5">
+                    <p className="text-sm font-medium">
+                      {formatCurrency(payment.amount, currency)}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {getPaymentMethodLabel(payment.method)}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(payment.paid_on), "MMM d, yyyy")}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => setPaymentToDelete(payment.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {outstanding > 0 && invoice.status !== "cancelled" && (
+          <>
+            <Separator />
+            <PaymentForm
+              key={payments.length}
+              onSubmit={handleRecordPayment}
+              defaultAmount={outstanding}
+              currency={currency}
+            />
+          </>
+        )}
+      </DialogContent>
+
+      <ConfirmDialog
+        open={!!paymentToDelete}
+        onOpenChange={(open) => !open && setPaymentToDelete(null)}
+        onConfirm={handleDeletePayment}
+        title="Delete Payment"
+        description="The invoice balance and status will be recalculated. This action cannot be undone."
+        confirmText="Delete"
+      />
+    </Dialog>
+  )
+}
@@ -0,0 +1,324 @@
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { LineItemsManager, type LineItem } from "@/components/projects/line-items-manager"
+import { useOrganization } from "@/hooks/use-organization"
+import { CURRENCIES, formatCurrency, resolveCurrency } from "@/lib/currency"
+import {
+  calculateInvoiceTotals,
+  getDefaultTaxRate,
+  RECURRING_INTERVALS,
+  type RecurringInvoice,
+} from "@/lib/invoices"
+
+const recurringInvoiceSchema = z.object({
+  title: z.string().min(2, "Title must be at least 2 characters"),
+  client_id: z.string().min(1, "Please select a client"),
+  project_id: z.string().optional(),
+  interval: z.string().min(1, "Please select an interval"),
+  start_date: z.string().min(1, "Please pick a start date"),
+  end_date: z.string().optional(),
+  due_in_days: z.string().refine((val) => Number.isInteger(Number(val)) && Number(val) >= 0, {
+    message: "Must be zero or more days",
+  }),
+  issue_as: z.string(),
+  currency: z.string(),
+}).refine((values) => !values.end_date || values.end_date >= values.start_date, {
+  message: "End date must be after the start date",
+  path: ["end_date"],
+})
+
+export type RecurringInvoiceFormValues = z.infer<typeof recurringInvoiceSchema>
+
+interface RecurringInvoiceFormProps {
+  initialData?: RecurringInvoice | null
+  clients: { id: string; first_name: string; last_name: string | null; currency: string | null }[]
+  projects: { id: string; name: string; client_id: string | null }[]
+  onSubmit: (values: RecurringInvoiceFormValues, lineItems: LineItem[]) => Promise<void>
+}
+
+export function RecurringInvoiceForm({ initialData, clients, projects, onSubmit }: RecurringInvoiceFormProps) {
+  const { organization } = useOrganization()
+  const [loading, setLoading] = useState(false)
+  const [lineItems, setLineItems] = useState<LineItem[]>(
+    (initialData?.line_items as unknown as LineItem[]) || []
+  )
+
+  const form = useForm<RecurringInvoiceFormValues>({
+    resolver: zodResolver(recurringInvoiceSchema),
+    defaultValues: {
+      title: initialData?.title || "",
+      client_id: initialData?.client_id || "",
+      project_id: initialData?.project_id || "",
+      interval: initialData?.interval || "monthly",
+      start_date: initialData?.start_date || format(new Date(), "yyyy-MM-dd"),
+      end_date: initialData?.end_date || "",
+      due_in_days: (initialData?.due_in_days ?? 14).toString(),
+      issue_as: initialData?.issue_as || "sent",
+      currency: resolveCurrency(initialData?.currency, organization.currency),
+    },
+  })
+
+  const watchClientId = form.watch("client_id")
+  const watchCurrency = form.watch("currency")
+  const clientProjects = projects.filter(p => p.client_id === watchClientId)
+  const totals = calculateInvoiceTotals(lineItems)
+
+  const handleSubmit = async (values: RecurringInvoiceFormValues) => {
+    if (lineItems.filter(item => item.description).length === 0) {
+      toast.error("Add at least one line item")
+      return
+    }
+    setLoading(true)
+    try {
+      await onSubmit(values, lineItems.filter(item => item.description))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Monthly Maintenance Retainer" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="client_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Client</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value)
+                    form.setValue("project_id", "")
+                    const client = clients.find(c => c.id === value)
+                    if (!initialData) {
+                      form.setValue("currency", resolveCurrency(client?.currency, organization.currency))
+                    }
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select client" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clients.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {[c.first_name?.trim(), c.last_name?.trim()].filter(Boolean).join(" ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="project_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Project (Optional)</FormLabel>
+                <Select
+                  onValueChange={(val) => field.onChange(val === "none" ? "" : val)}
+                  value={field.value || "none"}
+                  disabled={!watchClientId}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {clientProjects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeats</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select interval" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RECURRING_INTERVALS.map((i) => (
+                      <SelectItem key={i.value} value={i.value}>{i.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="start_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="end_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends (Optional)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="due_in_days"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Due In (Days)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="issue_as"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Issue As</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="sent">Sent</SelectItem>
+                    <SelectItem value="draft">Draft</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select currency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Drafts wait for you to review and send them. Sent invoices count towards the client's balance straight away.
+        </p>
+
+        <LineItemsManager
+          lineItems={lineItems}
+          onChange={setLineItems}
+          currency={watchCurrency}
+          showTax={!!organization.vat_enabled}
+          defaultTaxRate={getDefaultTaxRate(organization)}
+        />
+
+        <div className="flex justify-end items-center gap-2 pt-2 border-t font-semibold">
+          <span>Per Invoice:</span>
+          <span className="text-lg">{formatCurrency(totals.total, watchCurrency)}</span>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? "Save Changes" : "Create Schedule"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,390 @@
+import * as React from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { toast } from "sonner"
+import { CheckCheck, Ellipsis, History, MessageSquareReply, Pencil, SmilePlus, Trash2 } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { MessageAttachments } from "@/components/chat-attachments"
+import { removeMessageAttachments } from "@/lib/chat-attachments"
+import { cn, getErrorMessage } from "@/lib/utils"
+import {
+  fetchMessageEdits,
+  REACTION_EMOJIS,
+  summarizeReactions,
+  toggleReaction,
+  type ChatMessage,
+  type MessageEdit,
+} from "@/lib/chat"
+
+interface Member {
+  id: string
+  full_name: string | null
+  email: string | null
+  username: string | null
+}
+
+interface MessageItemProps {
+  message: ChatMessage
+  /** Highlights @mentions of these people and names who reacted */
+  members?: Member[]
+  /** Opens the message's thread; replies inside a thread leave it out */
+  onReply?: (message: ChatMessage) => void
+  /** When the other person in a DM read up to this message */
+  seenAt?: string | null
+  size?: "default" | "sm"
+}
+
+function getMemberName(member: Member | undefined) {
+  return member?.full_name || member?.username || member?.email?.split("@")[0] || "Someone"
+}
+
+function renderContent(content: string, members: Member[]) {
+  if (!content.includes("@") || members.length === 0) return content
+
+  // Match @ followed by word characters, dots, or hyphens
+  const parts = content.split(/(@[\w.-]+)/g)
+  return parts.map((part, i) => {
+    if (part.startsWith("@")) {
+      const username = part.slice(1).toLowerCase()
+      const isMember = members.some(m =>
+        (m.username?.toLowerCase() === username) ||
+        (m.full_name?.replace(/\s+/g, "").toLowerCase() === username)
+      )
+      if (isMember) {
+        return (
+          <span key={i} className="text-primary font-semibold bg-primary/10 px-1 rounded-sm">
+            {part}
+          </span>
+        )
+      }
+    }
+    return part
+  })
+}
+
+export function MessageItem({ message, members = [], onReply, seenAt, size = "default" }: MessageItemProps) {
+  const { user } = useAuth()
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [draft, setDraft] = React.useState(message.content)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = React.useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = React.useState(false)
+  const [isPickerOpen, setIsPickerOpen] = React.useState(false)
+
+  const isOwn = message.user_id === user?.id
+  const isDeleted = !!message.deleted_at
+  const reactions = summarizeReactions(message.message_reactions || [], user?.id)
+  const authorName = message.profiles?.full_name || message.profiles?.email?.split("@")[0]
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = async () => {
+    const content = draft.trim()
+    if (!content || content === message.content) {
+      setIsEditing(false)
+      return
+    }
+
+    setIsSaving(true)
+    const { error } = await supabase
+      .from("messages")
+      .update({ content })
+      .eq("id", message.id)
+    setIsSaving(false)
+
+    if (error) {
+      console.error("Error editing message:", error)
+      toast.error("Failed to edit message: " + getErrorMessage(error))
+    } else {
+      setIsEditing(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    // Deleting purges the attachment rows, so keep the paths to remove the files afterwards
+    const attachments = message.message_attachments || []
+    const { error } = await supabase
+      .from("messages")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", message.id)
+
+    setIsConfirmDeleteOpen(false)
+    if (error) {
+      console.error("Error deleting message:", error)
+      toast.error("Failed to delete message: " + getErrorMessage(error))
+      return
+    }
+
+    try {
+      await removeMessageAttachments(attachments)
+    } catch (error) {
+      console.error("Error removing message attachments:", error)
+      toast.error("Message deleted, but its files could not be removed: " + getErrorMessage(error))
+    }
+  }
+
+  const handleReact = async (emoji: string) => {
+    if (!user) return
+    setIsPickerOpen(false)
+    try {
+      await toggleReaction(message, emoji, user.id)
+    } catch (error) {
+      console.error("Error updating reaction:", error)
+      toast.error("Failed to update reaction")
+    }
+  }
+
+  return (
+    <div className={cn("group relative flex", size === "sm" ? "gap-3" : "gap-4")}>
+      <Avatar className={cn("shrink-0", size === "sm" ? "h-8 w-8" : "h-9 w-9")}>
+        <AvatarImage src={message.profiles?.avatar_url || ""} />
+        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+          {(message.profiles?.full_name || message.profiles?.email || "U").charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className={cn(size === "sm" ? "font-bold text-xs" : "font-semibold text-sm")}>{authorName}</span>
+          <span className="text-[10px] text-muted-foreground">
+            {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          {message.edited_at && !isDeleted && (
+            <button
+              type="button"
+              className="text-[10px] text-muted-foreground hover:underline"
+              onClick={() => setIsHistoryOpen(true)}
+            >
+              (edited)
+            </button>
+          )}
+        </div>
+
+        {isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">This message was deleted.</p>
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault()
+                  handleSaveEdit()
+                } else if (e.key === "Escape") {
+                  setIsEditing(false)
+                }
+              }}
+              rows={2}
+              autoFocus
+            />
+            <div className="flex items-center gap-2">
+              <Button size="sm" className="h-7" onClick={handleSaveEdit} disabled={isSaving || !draft.trim()}>
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <span className="text-[10px] text-muted-foreground">Enter to save · Esc to cancel</span>
+            </div>
+          </div>
+        ) : message.content && (
+          <div className="text-sm text-foreground/90 leading-normal whitespace-pre-wrap break-words">
+            {renderContent(message.content, members)}
+          </div>
+        )}
+
+        {!isDeleted && <MessageAttachments attachments={message.message_attachments} className="pt-1" />}
+
+        {!isDeleted && reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1 pt-1">
+            {reactions.map((reaction) => (
+              <button
+                key={reaction.emoji}
+                type="button"
+                onClick={() => handleReact(reaction.emoji)}
+                title={reaction.userIds.map(id => id === user?.id ? "You" : getMemberName(members.find(m => m.id === id))).join(", ")}
+                className={cn(
+                  "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+                  reaction.reacted
+                    ? "border-primary/40 bg-primary/10 text-primary"
+                    : "bg-muted/40 text-muted-foreground hover:bg-muted"
+                )}
+              >
+                <span>{reaction.emoji}</span>
+                <span className="font-medium">{reaction.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {onReply && message.reply_count > 0 && (
+          <button
+            type="button"
+            onClick={() => onReply(message)}
+            className="flex items-center gap-1.5 pt-1 text-xs font-medium text-primary hover:underline"
+          >
+            <MessageSquareReply className="h-3.5 w-3.5" />
+            {message.reply_count} {message.reply_count === 1 ? "reply" : "replies"}
+            {message.last_reply_at && (
+              <span className="font-normal text-muted-foreground">
+                · last {formatDistanceToNow(new Date(message.last_reply_at), { addSuffix: true })}
+              </span>
+            )}
+          </button>
+        )}
+
+        {seenAt && (
+          <p className="flex items-center gap-1 pt-0.5 text-[10px] text-muted-foreground">
+            <CheckCheck className="h-3 w-3 text-primary" />
+            Seen {new Date(seenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+      </div>
+
+      {!isDeleted && !isEditing && (
+        <div
+          className={cn(
+            "absolute -top-3 right-0 flex items-center rounded-md border bg-background shadow-sm opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100",
+            isPickerOpen && "opacity-100"
+          )}
+        >
+          <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7">
+                <SmilePlus className="h-3.5 w-3.5" />
+                <span className="sr-only">Add reaction</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="flex w-auto gap-1 p-1" align="end">
+              {REACTION_EMOJIS.map((emoji) => (
+                <Button
+                  key={emoji}
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-base"
+                  onClick={() => handleReact(emoji)}
+                >
+                  {emoji}
+                </Button>
+              ))}
+            </PopoverContent>
+          </Popover>
+          {onReply && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onReply(message)}>
+              <MessageSquareReply className="h-3.5 w-3.5" />
+              <span className="sr-only">Reply in thread</span>
+            </Button>
+          )}
+          {isOwn && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7">
+                  <Ellipsis className="h-3.5 w-3.5" />
+                  <span className="sr-only">More actions</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={startEditing}>
+                  <Pencil className="mr-2 h-4 w-4" /> Edit
+                </DropdownMenuItem>
+                {message.edited_at && (
+                  <DropdownMenuItem onClick={() => setIsHistoryOpen(true)}>
+                    <History className="mr-2 h-4 w-4" /> Edit History
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem className="text-destructive" onClick={() => setIsConfirmDeleteOpen(true)}>
+                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={isConfirmDeleteOpen}
+        onOpenChange={setIsConfirmDeleteOpen}
+        onConfirm={handleDelete}
+        title="Delete message?"
+        description="The message will be replaced with a note that it was deleted. Replies in its thread are kept."
+        confirmText="Delete"
+        variant="destructive"
+      />
+
+      {isHistoryOpen && (
+        <EditHistoryDialog message={message} onOpenChange={setIsHistoryOpen} />
+      )}
+    </div>
+  )
+}
+
+function EditHistoryDialog({ message, onOpenChange }: { message: ChatMessage; onOpenChange: (open: boolean) => void }) {
+  const [edits, setEdits] = React.useState<MessageEdit[] | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+
+    async function loadEdits() {
+      try {
+        const data = await fetchMessageEdits(message.id)
+        if (active) setEdits(data)
+      } catch (error) {
+        console.error("Error fetching edit history:", error)
+        toast.error("Failed to load edit history")
+        if (active) setEdits([])
+      }
+    }
+
+    loadEdits()
+    return () => {
+      active = false
+    }
+  }, [message.id, message.edited_at])
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          <div className="rounded-lg border bg-primary/5 p-3">
+            <p className="mb-1 text-[10px] font-bold uppercase text-muted-foreground">
+              Current · {message.edited_at && format(new Date(message.edited_at), "MMM d, h:mm a")}
+            </p>
+            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+          </div>
+          {edits === null ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            edits.map((edit, index) => (
+              <div key={edit.id} className="rounded-lg border p-3">
+                <p className="mb-1 text-[10px] font-bold uppercase text-muted-foreground">
+                  {index === edits.length - 1
+                    ? `Original · ${format(new Date(message.created_at), "MMM d, h:mm a")}`
+                    : `Until ${format(new Date(edit.edited_at), "MMM d, h:mm a")}`}
+                </p>
+                <p className="text-sm whitespace-pre-wrap break-words text-muted-foreground">{edit.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
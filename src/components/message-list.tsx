@@ -0,0 +1,269 @@
+import * as React from "react"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { cn } from "@/lib/utils"
+import type { ChatMessage } from "@/lib/chat"
+
+// Used for rows that haven't been measured yet
+const ESTIMATED_ROW_HEIGHT = 72
+// Rendered above and below the viewport so fast scrolling doesn't show gaps
+const OVERSCAN = 800
+// Distance from either end at which the next page is requested
+const LOAD_THRESHOLD = 400
+const BOTTOM_THRESHOLD = 48
+
+/** What the list keeps in view while rows load and resize */
+type Anchor = { type: "bottom" } | { type: "message"; id: string } | null
+
+interface MessageListProps {
+  messages: ChatMessage[]
+  renderMessage: (message: ChatMessage) => React.ReactNode
+  hasOlder: boolean
+  hasNewer: boolean
+  onLoadOlder: () => void
+  onLoadNewer: () => void
+  /** Scrolled into view on mount and highlighted, e.g. from a ?message= link */
+  highlightedId?: string | null
+  /** First unread message; a "New messages" divider is drawn above it */
+  unreadFromId?: string | null
+  empty?: React.ReactNode
+  className?: string
+  contentClassName?: string
+  /** Applied to each row; use padding rather than margin for spacing so it is measured */
+  rowClassName?: string
+}
+
+/**
+ * Virtualized chat history. Only the rows near the viewport are mounted; the
+ * rest are stood in for by their measured (or estimated) heights. Sticks to the
+ * bottom while the newest message is in view and keeps the reading position
+ * when older pages are prepended.
+ */
+export function MessageList({
+  messages,
+  renderMessage,
+  hasOlder,
+  hasNewer,
+  onLoadOlder,
+  onLoadNewer,
+  highlightedId,
+  unreadFromId,
+  empty,
+  className,
+  contentClassName,
+  rowClassName,
+}: MessageListProps) {
+  const rootRef = React.useRef<HTMLDivElement>(null)
+  const listRef = React.useRef<HTMLDivElement>(null)
+  const viewportRef = React.useRef<HTMLElement | null>(null)
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const heightsRef = React.useRef<Record<string, number>>({})
+  const pendingScrollDelta = React.useRef(0)
+  const firstMessageId = React.useRef<string | null>(null)
+  const anchorRef = React.useRef<Anchor>(highlightedId ? { type: "message", id: highlightedId } : { type: "bottom" })
+  const [heights, setHeights] = React.useState<Record<string, number>>({})
+  const [scroll, setScroll] = React.useState({ top: 0, height: 0 })
+
+  const layout = React.useMemo(() => {
+    const offsets: number[] = []
+    let total = 0
+    messages.forEach(message => {
+      offsets.push(total)
+      total += heights[message.id] ?? ESTIMATED_ROW_HEIGHT
+    })
+    return { offsets, total }
+  }, [messages, heights])
+
+  const getListTop = React.useCallback(() => {
+    const viewport = viewportRef.current
+    const list = listRef.current
+    if (!viewport || !list) return 0
+    return list.getBoundingClientRect().top - viewport.getBoundingClientRect().top + viewport.scrollTop
+  }, [])
+
+  const getObserver = React.useCallback(() => {
+    observerRef.current ??= new ResizeObserver(entries => {
+      const viewport = viewportRef.current
+      const listTop = getListTop()
+      let changed = false
+
+      entries.forEach(entry => {
+        const row = entry.target as HTMLElement
+        const id = row.dataset.messageId
+        if (!id) return
+        const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? row.offsetHeight)
+        const previous = heightsRef.current[id]
+        if (previous === height) return
+
+        // Rows growing above the viewport would push the visible ones down
+        if (viewport && !anchorRef.current && listTop + row.offsetTop < viewport.scrollTop) {
+          pendingScrollDelta.current += height - (previous ?? ESTIMATED_ROW_HEIGHT)
+        }
+        heightsRef.current[id] = height
+        changed = true
+      })
+
+      if (changed) setHeights({ ...heightsRef.current })
+    })
+    return observerRef.current
+  }, [getListTop])
+
+  const measureRow = React.useCallback((row: HTMLDivElement | null) => {
+    if (!row) return
+    const observer = getObserver()
+    observer.observe(row)
+    return () => observer.unobserve(row)
+  }, [getObserver])
+
+  // Track the viewport's scroll position and size. A layout effect so the
+  // viewport is known before the anchor is first restored below.
+  React.useLayoutEffect(() => {
+    const viewport = rootRef.current?.querySelector<HTMLElement>("[data-radix-scroll-area-viewport]")
+    if (!viewport) return
+    viewportRef.current = viewport
+
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        setScroll({ top: viewport.scrollTop, height: viewport.clientHeight })
+      })
+    }
+    // Any deliberate scrolling lets go of a linked message
+    const release = () => {
+      if (anchorRef.current?.type === "message") anchorRef.current = null
+    }
+
+    const resizeObserver = new ResizeObserver(update)
+    resizeObserver.observe(viewport)
+    viewport.addEventListener("scroll", update, { passive: true })
+    viewport.addEventListener("wheel", release, { passive: true })
+    viewport.addEventListener("touchmove", release, { passive: true })
+    viewport.addEventListener("keydown", release)
+    viewport.addEventListener("pointerdown", release)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      resizeObserver.disconnect()
+      viewport.removeEventListener("scroll", update)
+      viewport.removeEventListener("wheel", release)
+      viewport.removeEventListener("touchmove", release)
+      viewport.removeEventListener("keydown", release)
+      viewport.removeEventListener("pointerdown", release)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    const observer = observerRef
+    return () => observer.current?.disconnect()
+  }, [])
+
+  React.useEffect(() => {
+    if (highlightedId) anchorRef.current = { type: "message", id: highlightedId }
+  }, [highlightedId])
+
+  // Keep the anchor in place whenever rows are added or measured
+  React.useLayoutEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const previousFirst = firstMessageId.current
+    firstMessageId.current = messages[0]?.id ?? null
+    if (!anchorRef.current && previousFirst && previousFirst !== messages[0]?.id) {
+      const index = messages.findIndex(m => m.id === previousFirst)
+      if (index > 0) pendingScrollDelta.current += layout.offsets[index]
+    }
+
+    if (pendingScrollDelta.current) {
+      viewport.scrollTop += pendingScrollDelta.current
+      pendingScrollDelta.current = 0
+    }
+
+    const anchor = anchorRef.current
+    if (anchor?.type === "bottom") {
+      viewport.scrollTop = viewport.scrollHeight
+    } else if (anchor?.type === "message") {
+      const index = messages.findIndex(m => m.id === anchor.id)
+      if (index >= 0) {
+        const height = heights[anchor.id] ?? ESTIMATED_ROW_HEIGHT
+        viewport.scrollTop = getListTop() + layout.offsets[index] - Math.max(0, (viewport.clientHeight - height) / 2)
+      } else if (messages.length > 0) {
+        // The linked message wasn't found, so the latest page was loaded instead
+        anchorRef.current = { type: "bottom" }
+        viewport.scrollTop = viewport.scrollHeight
+      }
+    }
+  }, [messages, heights, layout, getListTop])
+
+  // Follow new messages only while the newest one is in view, and fetch more near either end
+  React.useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport || !scroll.height) return
+
+    const fromBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight
+    if (anchorRef.current?.type !== "message") {
+      anchorRef.current = fromBottom < BOTTOM_THRESHOLD && !hasNewer ? { type: "bottom" } : null
+    }
+
+    if (hasOlder && scroll.top < LOAD_THRESHOLD) {
+      onLoadOlder()
+    } else if (hasNewer && fromBottom < LOAD_THRESHOLD) {
+      onLoadNewer()
+    }
+  }, [scroll, layout.total, hasOlder, hasNewer, onLoadOlder, onLoadNewer])
+
+  const { offsets } = layout
+  const top = scroll.top - OVERSCAN
+  const bottom = scroll.top + (scroll.height || window.innerHeight) + OVERSCAN
+  let start = 0
+  let low = 0
+  let high = offsets.length - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (offsets[mid] <= top) {
+      start = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  let end = start
+  while (end < offsets.length && offsets[end] < bottom) end++
+
+  return (
+    <ScrollArea ref={rootRef} className={cn("flex-1 min-h-0", className)}>
+      <div className={contentClassName}>
+        {messages.length === 0 ? (
+          empty
+        ) : (
+          <div ref={listRef} className="relative" style={{ height: layout.total }}>
+            {messages.slice(start, end).map((message, i) => (
+              <div
+                key={message.id}
+                ref={measureRow}
+                data-message-id={message.id}
+                className={cn("absolute inset-x-0", rowClassName)}
+                style={{ top: offsets[start + i] }}
+              >
+                {message.id === unreadFromId && (
+                  <div className="mb-4 flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-destructive">
+                    <div className="h-px flex-1 bg-destructive/40" />
+                    New messages
+                    <div className="h-px flex-1 bg-destructive/40" />
+                  </div>
+                )}
+                <div
+                  className={cn(
+                    "rounded-lg transition-colors duration-1000",
+                    message.id === highlightedId && "bg-primary/10 ring-1 ring-primary/30"
+                  )}
+                >
+                  {renderMessage(message)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  )
+}
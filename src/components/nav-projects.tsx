@@ -8,6 +8,7 @@ import {
   type LucideIcon,
 } from "lucide-react"
 import { Link } from "react-router-dom"
+import { formatUnreadCount } from "@/hooks/use-unread-counts"
 
 import {
   DropdownMenu,
@@ -21,6 +22,7 @@ import {
   SidebarGroupLabel,
   SidebarMenu,
   SidebarMenuAction,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   useSidebar,
@@ -33,6 +35,8 @@ export function NavProjects({
     name: string
     url: string
     icon: LucideIcon
+    /** Unread chat messages in the project's channels */
+    unread?: number
   }[]
 }) {
   const { isMobile } = useSidebar()
@@ -49,6 +53,11 @@ export function NavProjects({
                 <span>{item.name}</span>
               </Link>
             </SidebarMenuButton>
+            {!!item.unread && (
+              <SidebarMenuBadge className="group-hover/menu-item:opacity-0">
+                {formatUnreadCount(item.unread)}
+              </SidebarMenuBadge>
+            )}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <SidebarMenuAction showOnHover>
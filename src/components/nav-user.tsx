@@ -2,6 +2,7 @@ import {
   BadgeCheck,
   Bell,
   ChevronsUpDown,
+  Lock,
   LogOut,
 } from "lucide-react"
 import { Link } from "react-router-dom"
@@ -38,7 +39,7 @@ export function NavUser({
   }
 }) {
   const { isMobile } = useSidebar()
-  const { signOut } = useAuth()
+  const { signOut, lockPin, role } = useAuth()
 
   return (
     <SidebarMenu>
@@ -94,6 +95,12 @@ export function NavUser({
               </DropdownMenuItem>
             </DropdownMenuGroup>
             <DropdownMenuSeparator />
+            {role === "employee" && (
+              <DropdownMenuItem onClick={() => lockPin("manual")}>
+                <Lock />
+                Lock now
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={() => signOut()}>
               <LogOut />
               Log out
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
 import { Button } from '@/components/ui/button'
@@ -6,22 +6,32 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
+import { format } from 'date-fns'
 import { Lock, ShieldCheck, Loader2 } from 'lucide-react'
 
 export function PinWall() {
-  const { pin, verifyPin, setPin, resetPin, signOut, logPinAttempt, isPinBlacklisted } = useAuth()
+  const { hasPin, verifyPin, setPin, resetPin, signOut, isPinBlacklisted } = useAuth()
   const [value, setValue] = useState('')
   const [confirmValue, setConfirmValue] = useState('')
   const [step, setStep] = useState(1) // 1: enter pin, 2: confirm pin (only for setup)
   const [isResetting, setIsResetting] = useState(false)
   const [password, setPassword] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null)
+
+  const isLocked = !!lockedUntil && new Date(lockedUntil) > new Date()
+
+  // Unlock the input again once the server-side lockout has passed
+  useEffect(() => {
+    if (!lockedUntil) return
+    const timeout = setTimeout(() => setLockedUntil(null), Math.max(0, new Date(lockedUntil).getTime() - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [lockedUntil])
 
   const handleComplete = async (pinValue: string) => {
-    if (!pin) {
+    if (!hasPin) {
       if (step === 1) {
         if (isPinBlacklisted(pinValue)) {
-          await logPinAttempt(pinValue, 'setup_initial_blocked', false)
           toast.error("You've entered a commonly used passcode, please try another one.")
           setValue('')
           return
@@ -30,7 +40,6 @@ export function PinWall() {
         setConfirmValue(pinValue)
         setStep(2)
         setValue('')
-        await logPinAttempt(pinValue, 'setup_initial', true)
       } else {
         if (pinValue === confirmValue) {
           try {
@@ -43,7 +52,6 @@ export function PinWall() {
             setConfirmValue('')
           }
         } else {
-          await logPinAttempt(pinValue, 'setup_confirmation_mismatch', false)
           toast.error('PINs do not match')
           setValue('')
           setStep(1)
@@ -51,12 +59,24 @@ export function PinWall() {
         }
       }
     } else {
-      if (await verifyPin(pinValue)) {
-        toast.success('Access granted')
-      } else {
-        toast.error('Incorrect PIN')
-        setValue('')
+      try {
+        const result = await verifyPin(pinValue)
+        if (result.success) {
+          setLockedUntil(null)
+          toast.success('Access granted')
+        } else if (result.error === 'locked' && result.lockedUntil) {
+          setLockedUntil(result.lockedUntil)
+          toast.error(`Too many incorrect attempts. Try again at ${format(new Date(result.lockedUntil), 'HH:mm')}.`)
+        } else if (result.remainingAttempts !== undefined) {
+          toast.error(`Incorrect PIN. ${result.remainingAttempts} ${result.remainingAttempts === 1 ? 'attempt' : 'attempts'} left.`)
+        } else {
+          toast.error('Incorrect PIN')
+        }
+      } catch (error: any) {
+        console.error('Error verifying PIN:', error)
+        toast.error(error.message || 'Failed to verify PIN')
       }
+      setValue('')
     }
   }
 
@@ -74,6 +94,7 @@ export function PinWall() {
       setIsResetting(false)
       setPassword('')
       setStep(1)
+      setLockedUntil(null)
     } catch (error: any) {
       toast.error(error.message || 'Failed to reset PIN')
     } finally {
@@ -93,24 +114,26 @@ export function PinWall() {
         <CardHeader className="text-center">
           <div className="flex justify-center mb-4">
             <div className="p-3 bg-primary/10 rounded-full text-primary">
-              {isResetting ? <ShieldCheck className="w-6 h-6" /> : pin ? <Lock className="w-6 h-6" /> : <ShieldCheck className="w-6 h-6" />}
+              {isResetting ? <ShieldCheck className="w-6 h-6" /> : hasPin ? <Lock className="w-6 h-6" /> : <ShieldCheck className="w-6 h-6" />}
             </div>
           </div>
           <CardTitle className="text-2xl">
             {isResetting 
               ? 'Reset Security PIN'
-              : !pin 
+              : !hasPin 
                 ? (step === 1 ? 'Set Security PIN' : 'Confirm Security PIN') 
                 : 'Enter Security PIN'}
           </CardTitle>
           <CardDescription>
             {isResetting
               ? 'Enter your account password to reset your security PIN.'
-              : !pin 
+              : !hasPin 
                 ? (step === 1 
                     ? 'Create a 4-digit PIN to secure your account.' 
                     : 'Please re-enter your PIN to confirm.')
-                : 'Enter your 4-digit PIN to regain access to the site.'}
+                : isLocked
+                  ? `Too many incorrect attempts. PIN entry is locked until ${format(new Date(lockedUntil!), 'HH:mm')}.`
+                  : 'Enter your 4-digit PIN to regain access to the site.'}
           </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col items-center pb-8">
@@ -138,6 +161,7 @@ export function PinWall() {
               value={value}
               onChange={(val) => setValue(val)}
               onComplete={onComplete}
+              disabled={isLocked}
               autoFocus
             >
               <InputOTPGroup className="gap-2">
@@ -160,7 +184,7 @@ export function PinWall() {
             </Button>
           ) : (
             <>
-              {pin && (
+              {hasPin && (
                 <Button 
                   variant="link" 
                   className="w-full"
@@ -176,7 +200,7 @@ export function PinWall() {
               >
                 Sign out
               </Button>
-              {!pin && step === 2 && (
+              {!hasPin && step === 2 && (
                 <Button 
                   variant="link" 
                   className="w-full"
@@ -1,6 +1,6 @@
 import * as React from "react"
 import { toast } from "sonner"
-import { IconFilter, IconClipboardList, IconBriefcase, IconPlus, IconShieldLock } from "@tabler/icons-react"
+import { IconFilter, IconClipboardList, IconBriefcase, IconPlus, IconShieldLock, IconCalendarDue } from "@tabler/icons-react"
 import { supabase } from "@/lib/supabase"
 import type { Tables } from "@/lib/database.types"
 import { useAuth } from "@/hooks/use-auth"
@@ -41,6 +41,7 @@ interface AssignedTasksProps {
 }
 
 import { useTasks } from "@/hooks/use-tasks"
+import { matchesDueFilter, toDateColumn, getTaskPlanningColumns, type TaskDueFilter } from "@/lib/tasks"
 
 export function AssignedTasks({ 
   userId, 
@@ -61,6 +62,7 @@ export function AssignedTasks({
   const [projects, setProjects] = React.useState<Tables<"projects">[]>([])
   const [isLoadingMetadata, setIsLoadingMetadata] = React.useState(true)
   const [statusFilter, setStatusFilter] = React.useState<string>(defaultStatusFilter)
+  const [dueFilter, setDueFilter] = React.useState<TaskDueFilter>("all")
   const [editingTask, setEditingTask] = React.useState<Task | null>(null)
 
   const { tasks: projectTasks, isLoading: isProjectTasksLoading, setTasks: setProjectTasks } = useTasks({ 
@@ -165,7 +167,8 @@ export function AssignedTasks({
     }
   }
 
-  const filteredTasks = React.useMemo(() => {
+  // Every filter except the due filter, which the board applies itself so reordering sees hidden tasks
+  const boardTasks = React.useMemo(() => {
     // Filter project tasks by mode
     const filteredProjectTasks = projectTasks.filter(task => {
       const hasAdmin = (task as any).task_members?.some((m: any) => m.profiles?.role === 'admin')
@@ -196,6 +199,15 @@ export function AssignedTasks({
     return filtered.filter(t => t.status === statusFilter)
   }, [projectTasks, personalTasks, statusFilter, selectedProjectId, kanbanMode])
 
+  const dueTaskFilter = React.useMemo(() => {
+    if (dueFilter === "all") return undefined
+    return (task: Task) => matchesDueFilter(task, dueFilter)
+  }, [dueFilter])
+
+  const filteredTasks = React.useMemo(() => {
+    return dueTaskFilter ? boardTasks.filter(dueTaskFilter) : boardTasks
+  }, [boardTasks, dueTaskFilter])
+
   const handleTaskUpdate = async (taskId: string, updates: Partial<Task>) => {
     try {
       const allTasks = [...projectTasks, ...personalTasks]
@@ -266,6 +278,9 @@ export function AssignedTasks({
         title: values.title,
         description: values.description,
         type: values.type || 'feature',
+        start_date: toDateColumn(values.start_date),
+        due_date: toDateColumn(values.due_date),
+        ...getTaskPlanningColumns(values),
         user_id: finalUserId,
         status: finalStatus,
         order_index: (isPersonal ? personalTasks : projectTasks).filter(t => t.status === finalStatus).length,
@@ -374,6 +389,9 @@ export function AssignedTasks({
         description: values.description || null,
         status: values.status || editingTask.status,
         type: values.type || editingTask.type || 'feature',
+        start_date: toDateColumn(values.start_date),
+        due_date: toDateColumn(values.due_date),
+        ...getTaskPlanningColumns(values),
         user_id: finalUserId,
         parent_id: values.parent_id === "none" ? null : (values.parent_id || null)
       }
@@ -522,6 +540,11 @@ export function AssignedTasks({
             description: task.description,
             status: task.status,
             type: newType,
+            start_date: task.start_date ?? null,
+            due_date: task.due_date ?? null,
+            priority: task.priority || "medium",
+            estimate: task.estimate ?? null,
+            estimate_unit: task.estimate_unit || "points",
             user_id: task.user_id,
             order_index: projectTasks.filter(t => t.status === task.status).length,
           }])
@@ -619,6 +642,26 @@ export function AssignedTasks({
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant={dueFilter === "all" ? "outline" : "secondary"} size="sm">
+                    <IconCalendarDue className="mr-2 h-4 w-4" />
+                    {dueFilter === "all" ? "Any Due Date" : dueFilter === "overdue" ? "Overdue" : "Due This Week"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setDueFilter("all")}>
+                    Any Due Date
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setDueFilter("overdue")}>
+                    Overdue
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setDueFilter("due-this-week")}>
+                    Due This Week
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -680,7 +723,11 @@ export function AssignedTasks({
           <EmptyHeader>
             <EmptyTitle>No tasks found</EmptyTitle>
             <EmptyDescription>
-              {statusFilter === "active" 
+              {dueFilter === "overdue"
+                ? (targetUserId === currentUser?.id ? "You don't have any overdue tasks." : "This member doesn't have any overdue tasks.")
+                : dueFilter === "due-this-week"
+                ? (targetUserId === currentUser?.id ? "You don't have any tasks due this week." : "This member doesn't have any tasks due this week.")
+                : statusFilter === "active" 
                 ? (targetUserId === currentUser?.id ? "You don't have any active tasks." : "This member doesn't have any active tasks.")
                 : statusFilter === "complete" 
                 ? (targetUserId === currentUser?.id ? "You haven't completed any tasks yet." : "This member hasn't completed any tasks yet.")
@@ -698,7 +745,8 @@ export function AssignedTasks({
       ) : (
         <div className="flex flex-1 flex-col overflow-hidden min-h-0">
           <KanbanBoard 
-            tasks={filteredTasks}
+            tasks={boardTasks}
+            taskFilter={dueTaskFilter}
             members={members}
             onTaskUpdate={handleTaskUpdate}
             onTaskConvert={handleTaskConvert}
@@ -797,6 +845,7 @@ export function AssignedTasks({
               }}
               onSubtaskToggle={(id, status) => handleTaskUpdate(id, { status: status === 'complete' ? 'todo' : 'complete' })}
               onAddSubtask={(title) => handleTaskQuickCreate(editingTask.status, editingTask.id, title)}
+              isPersonal={!!editingTask.is_personal}
               isLoading={isSubmitting}
               members={members}
               phases={phases}
@@ -809,6 +858,11 @@ export function AssignedTasks({
                 description: editingTask.description || "",
                 status: editingTask.status,
                 type: editingTask.type ?? undefined,
+                start_date: editingTask.start_date,
+                due_date: editingTask.due_date,
+                priority: editingTask.priority,
+                estimate: editingTask.estimate,
+                estimate_unit: editingTask.estimate_unit,
                 user_id: editingTask.user_id,
                 project_id: (editingTask as any).project_id,
                 phase_id: editingTask.phase_id,
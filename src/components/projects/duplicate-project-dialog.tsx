@@ -0,0 +1,197 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { supabase } from "@/lib/supabase"
+import { getErrorMessage } from "@/lib/utils"
+import type { ProjectWithClient } from "./projects-table"
+
+interface ClientOption {
+  id: string
+  first_name: string
+  last_name: string | null
+}
+
+interface DuplicateProjectDialogProps {
+  project: ProjectWithClient | null
+  onOpenChange: (open: boolean) => void
+  onDuplicated: (projectId: string) => void
+}
+
+export function DuplicateProjectDialog({ project, onOpenChange, onDuplicated }: DuplicateProjectDialogProps) {
+  const [name, setName] = React.useState("")
+  const [clientMode, setClientMode] = React.useState<"existing" | "new">("existing")
+  const [clientId, setClientId] = React.useState("")
+  const [newClient, setNewClient] = React.useState({ first_name: "", last_name: "", email: "" })
+  const [clients, setClients] = React.useState<ClientOption[]>([])
+  const [isDuplicating, setIsDuplicating] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!project) return
+
+    setName(`Copy of ${project.name}`)
+    setClientMode("existing")
+    setClientId(project.client_id || "")
+    setNewClient({ first_name: "", last_name: "", email: "" })
+
+    async function fetchClients() {
+      const { data, error } = await supabase
+        .from("clients")
+        .select("id, first_name, last_name")
+        .order("first_name", { ascending: true })
+
+      if (error) {
+        console.error("Error fetching clients:", error)
+        return
+      }
+      setClients(data || [])
+    }
+    fetchClients()
+  }, [project])
+
+  const canSubmit = !!name.trim() && (clientMode === "existing" ? !!clientId : !!newClient.first_name.trim())
+
+  const handleDuplicate = async () => {
+    if (!project || !canSubmit) return
+
+    try {
+      setIsDuplicating(true)
+      let targetClientId = clientId
+
+      if (clientMode === "new") {
+        const { data, error } = await supabase
+          .from("clients")
+          .insert({
+            first_name: newClient.first_name.trim(),
+            last_name: newClient.last_name.trim() || null,
+            email: newClient.email.trim() || null,
+          })
+          .select("id")
+          .single()
+
+        if (error) throw error
+        targetClientId = data.id
+      }
+
+      const { data: newProjectId, error } = await supabase.rpc("duplicate_project", {
+        p_project_id: project.id,
+        p_client_id: targetClientId,
+        p_name: name.trim(),
+      })
+
+      if (error) throw error
+
+      toast.success("Project duplicated")
+      onOpenChange(false)
+      onDuplicated(newProjectId)
+    } catch (error) {
+      console.error("Error duplicating project:", error)
+      toast.error("Failed to duplicate project: " + getErrorMessage(error))
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !isDuplicating && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Project</DialogTitle>
+          <DialogDescription>
+            Phases come back as drafts and tasks as to-do. Invoices, signatures and messages are not copied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate_name">Project Name</Label>
+            <Input
+              id="duplicate_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <Tabs value={clientMode} onValueChange={(value) => setClientMode(value as "existing" | "new")}>
+            <TabsList className="w-full">
+              <TabsTrigger value="existing">Existing Client</TabsTrigger>
+              <TabsTrigger value="new">New Client</TabsTrigger>
+            </TabsList>
+            <TabsContent value="existing" className="space-y-2 pt-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.first_name} {client.last_name || ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TabsContent>
+            <TabsContent value="new" className="space-y-3 pt-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="duplicate_first_name">First Name</Label>
+                  <Input
+                    id="duplicate_first_name"
+                    value={newClient.first_name}
+                    onChange={(e) => setNewClient(prev => ({ ...prev, first_name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="duplicate_last_name">Last Name</Label>
+                  <Input
+                    id="duplicate_last_name"
+                    value={newClient.last_name}
+                    onChange={(e) => setNewClient(prev => ({ ...prev, last_name: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="duplicate_email">Email</Label>
+                <Input
+                  id="duplicate_email"
+                  type="email"
+                  value={newClient.email}
+                  onChange={(e) => setNewClient(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDuplicating}>
+            Cancel
+          </Button>
+          <Button onClick={handleDuplicate} disabled={!canSubmit || isDuplicating}>
+            {isDuplicating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Duplicate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
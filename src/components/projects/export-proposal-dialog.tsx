@@ -0,0 +1,152 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import type { Tables } from "@/lib/database.types"
+import { supabase } from "@/lib/supabase"
+import { useOrganization } from "@/hooks/use-organization"
+import { getErrorMessage } from "@/lib/utils"
+import {
+  buildProposalPdf,
+  getDefaultProposalOptions,
+  loadOrganizationLogo,
+} from "@/lib/proposal-pdf"
+
+interface ExportProposalDialogProps {
+  phase: Tables<"phases"> | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ExportProposalDialog({
+  phase,
+  open,
+  onOpenChange,
+}: ExportProposalDialogProps) {
+  const { organization } = useOrganization()
+  const [coverPage, setCoverPage] = React.useState(true)
+  const [includeTerms, setIncludeTerms] = React.useState(true)
+  const [isExporting, setIsExporting] = React.useState(false)
+  const hasTerms = !!organization.proposal_terms?.trim()
+
+  React.useEffect(() => {
+    if (open) {
+      const defaults = getDefaultProposalOptions(organization)
+      setCoverPage(defaults.coverPage)
+      setIncludeTerms(defaults.includeTerms)
+    }
+  }, [open, organization])
+
+  const handleExport = async () => {
+    if (!phase) return
+
+    try {
+      setIsExporting(true)
+      const [projectRes, deliverablesRes, logo] = await Promise.all([
+        supabase
+          .from("projects")
+          .select(`
+            name,
+            clients (
+              first_name,
+              last_name,
+              email,
+              vat_treatment
+            )
+          `)
+          .eq("id", phase.project_id!)
+          .single(),
+        supabase
+          .from("deliverables")
+          .select("title, description")
+          .eq("phase_id", phase.id)
+          .order("order_index", { ascending: true }),
+        loadOrganizationLogo(organization),
+      ])
+
+      if (projectRes.error) throw projectRes.error
+      if (deliverablesRes.error) throw deliverablesRes.error
+
+      const doc = buildProposalPdf({
+        phase,
+        projectName: projectRes.data.name,
+        client: projectRes.data.clients,
+        deliverables: deliverablesRes.data || [],
+      }, organization, { coverPage, includeTerms: hasTerms && includeTerms, logo })
+
+      doc.save(`Proposal-${projectRes.data.name}-${phase.title}.pdf`)
+      toast.success("Proposal exported successfully")
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error exporting proposal:", error)
+      toast.error("Failed to export proposal: " + getErrorMessage(error))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export Proposal</DialogTitle>
+          <DialogDescription>
+            Choose what to include in the proposal PDF.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="proposal-cover-page"
+              checked={coverPage}
+              onCheckedChange={(checked) => setCoverPage(checked === true)}
+            />
+            <Label htmlFor="proposal-cover-page" className="text-sm font-medium leading-none">
+              Start with a cover page
+            </Label>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="proposal-terms"
+                checked={hasTerms && includeTerms}
+                onCheckedChange={(checked) => setIncludeTerms(checked === true)}
+                disabled={!hasTerms}
+              />
+              <Label
+                htmlFor="proposal-terms"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Include terms & conditions
+              </Label>
+            </div>
+            {!hasTerms && (
+              <p className="pl-6 text-xs text-muted-foreground">
+                Add terms on the organization page to include them.
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -11,26 +11,53 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
+import { format, parseISO } from "date-fns"
 import { getNextInvoiceNumber } from "@/lib/invoices"
+import { supabase } from "@/lib/supabase"
+import { formatCurrency, DEFAULT_CURRENCY } from "@/lib/currency"
+import { useOrganization } from "@/hooks/use-organization"
+import {
+  TIME_ENTRY_SELECT,
+  buildTimeLineItems,
+  formatDuration,
+  getEntrySeconds,
+  type TimeEntryWithRelations,
+} from "@/lib/time-tracking"
+import type { LineItem } from "./line-items-manager"
 import { toast } from "sonner"
 
+export interface BilledTime {
+  entryIds: string[]
+  lineItems: LineItem[]
+}
+
 interface GenerateInvoiceDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onConfirm: (invoiceNumber: string, hideLineItems: boolean) => Promise<void>
+  onConfirm: (invoiceNumber: string, hideLineItems: boolean, billedTime: BilledTime) => Promise<void>
   initialInvoiceNumber?: string
   isSubmitting?: boolean
+  /** Unbilled, billable hours logged against this phase can be added as line items */
+  phaseId?: string
+  /** Currency the invoice will be billed in */
+  currency?: string
 }
 
 export function GenerateInvoiceDialog({
   open,
   onOpenChange,
   onConfirm,
-  isSubmitting
+  isSubmitting,
+  phaseId,
+  currency = DEFAULT_CURRENCY
 }: GenerateInvoiceDialogProps) {
+  const { organization } = useOrganization()
   const [invoiceNumber, setInvoiceNumber] = React.useState("")
   const [hideLineItems, setHideLineItems] = React.useState(false)
   const [isLoading, setIsLoading] = React.useState(false)
+  const [timeEntries, setTimeEntries] = React.useState<TimeEntryWithRelations[]>([])
+  const [selectedEntryIds, setSelectedEntryIds] = React.useState<string[]>([])
+  const [hourlyRate, setHourlyRate] = React.useState("")
 
   React.useEffect(() => {
     if (open) {
@@ -50,17 +77,63 @@ export function GenerateInvoiceDialog({
     }
   }, [open])
 
+  React.useEffect(() => {
+    if (!open) return
+    setSelectedEntryIds([])
+    setHourlyRate(String(organization.default_hourly_rate || 0))
+
+    if (!phaseId) {
+      setTimeEntries([])
+      return
+    }
+
+    const fetchTimeEntries = async () => {
+      const { data, error } = await supabase
+        .from("time_entries")
+        .select(TIME_ENTRY_SELECT)
+        .eq("phase_id", phaseId)
+        .eq("billable", true)
+        .is("invoice_id", null)
+        .not("ended_at", "is", null)
+        .order("started_at", { ascending: true })
+
+      if (error) {
+        console.error("Error fetching billable hours:", error)
+        toast.error("Failed to fetch billable hours")
+        return
+      }
+      setTimeEntries((data || []) as unknown as TimeEntryWithRelations[])
+    }
+    fetchTimeEntries()
+  }, [open, phaseId, organization.default_hourly_rate])
+
+  const rate = Number(hourlyRate) || 0
+  const selectedEntries = timeEntries.filter(e => selectedEntryIds.includes(e.id))
+  const timeLineItems = buildTimeLineItems(selectedEntries, rate)
+  const selectedHours = timeLineItems.reduce((sum, item) => sum + item.quantity, 0)
+
+  const toggleEntry = (entryId: string, checked: boolean) => {
+    setSelectedEntryIds(prev => checked ? [...prev, entryId] : prev.filter(id => id !== entryId))
+  }
+
   const handleConfirm = async () => {
     if (!invoiceNumber.trim()) {
       toast.error("Invoice number is required")
       return
     }
-    await onConfirm(invoiceNumber, hideLineItems)
+    if (selectedEntries.length > 0 && rate <= 0) {
+      toast.error("Enter an hourly rate for the selected hours")
+      return
+    }
+    await onConfirm(invoiceNumber, hideLineItems, {
+      entryIds: selectedEntryIds,
+      lineItems: timeLineItems,
+    })
   }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className={timeEntries.length > 0 ? "sm:max-w-[520px]" : "sm:max-w-[425px]"}>
         <DialogHeader>
           <DialogTitle>Generate Invoice</DialogTitle>
           <DialogDescription>
@@ -92,6 +165,62 @@ export function GenerateInvoiceDialog({
               Hide line item price, quantity and totals
             </Label>
           </div>
+          {timeEntries.length > 0 && (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Billable Hours</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setSelectedEntryIds(
+                    selectedEntryIds.length === timeEntries.length ? [] : timeEntries.map(e => e.id)
+                  )}
+                  disabled={isSubmitting}
+                >
+                  {selectedEntryIds.length === timeEntries.length ? "Clear" : "Select All"}
+                </Button>
+              </div>
+              <div className="max-h-48 space-y-1.5 overflow-y-auto rounded-md border p-2 custom-scrollbar">
+                {timeEntries.map(entry => (
+                  <div key={entry.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`time-entry-${entry.id}`}
+                      checked={selectedEntryIds.includes(entry.id)}
+                      onCheckedChange={(checked) => toggleEntry(entry.id, checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    <Label htmlFor={`time-entry-${entry.id}`} className="flex-1 min-w-0 font-normal">
+                      <span className="truncate">{entry.tasks?.title || entry.description || "Logged time"}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {format(parseISO(entry.started_at), "MMM d")} · {entry.profiles?.full_name || entry.profiles?.email}
+                      </span>
+                    </Label>
+                    <span className="font-mono text-xs shrink-0">{formatDuration(getEntrySeconds(entry))}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="hourly-rate" className="shrink-0">Hourly Rate ({currency})</Label>
+                <Input
+                  id="hourly-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="h-8 w-28"
+                  value={hourlyRate}
+                  onChange={(e) => setHourlyRate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                {selectedEntries.length > 0 && (
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {Math.round(selectedHours * 100) / 100}h · {formatCurrency(selectedHours * rate, currency)}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
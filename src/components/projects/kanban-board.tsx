@@ -20,7 +20,7 @@ import {
   verticalListSortingStrategy,
   arrayMove,
 } from "@dnd-kit/sortable"
-import { IconPlus, IconTrash, IconLayoutKanban, IconCircle, IconCircleCheck, IconShare, IconBug, IconRocket, IconGitPullRequest, IconCode, IconShieldLock, IconAlarm, IconArrowsRightLeft, IconDotsVertical, IconArrowRight } from "@tabler/icons-react"
+import { IconPlus, IconTrash, IconLayoutKanban, IconCircle, IconCircleCheck, IconShare, IconBug, IconRocket, IconGitPullRequest, IconCode, IconShieldLock, IconAlarm, IconArrowsRightLeft, IconDotsVertical, IconArrowRight, IconFlag, IconArrowsSort } from "@tabler/icons-react"
 import { useSortable } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
 import { Card } from "@/components/ui/card"
@@ -45,6 +45,11 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { cn } from "@/lib/utils"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { ReminderForm } from "@/components/reminder-form"
+import { TaskDueBadge } from "@/components/projects/task-due-badge"
+import { TaskTimerButton } from "@/components/time-tracking/task-timer-button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/hooks/use-organization"
+import { TASK_PRIORITIES, TASK_STATUSES, formatEstimate, getTaskComparator, type TaskSortKey } from "@/lib/tasks"
 
 // Custom collision detection strategy for multi-container kanban
 const customCollisionDetection: CollisionDetection = (args) => {
@@ -70,6 +75,11 @@ export type Task = {
   user_id: string | null
   parent_id: string | null
   deliverable_id?: string | null
+  start_date?: string | null
+  due_date?: string | null
+  priority?: string | null
+  estimate?: number | null
+  estimate_unit?: string | null
   phase_id?: string | null
   project_id?: string | null
   phases?: {
@@ -121,14 +131,50 @@ interface KanbanBoardProps {
   onModeChange?: (mode: KanbanMode) => void
   disablePadding?: boolean
   extraControls?: React.ReactNode
+  // Hides cards without removing them, so drag reordering still positions against the whole column
+  taskFilter?: (task: Task) => boolean
 }
 
-const COLUMNS = [
-  { id: "backlog", title: "Backlog" },
-  { id: "todo", title: "To Do" },
-  { id: "in progress", title: "In Progress" },
-  { id: "in review", title: "In Review" },
-  { id: "complete", title: "Complete" },
+const COLUMNS = TASK_STATUSES
+
+// Buckets the top-level tasks of a mode into their columns
+function groupTasksByStatus(tasks: Task[], mode: KanbanMode) {
+  const groups: Record<string, Task[]> = {}
+  COLUMNS.forEach((col) => (groups[col.id] = []))
+  
+  // Get a set of IDs for quick lookup
+  const taskIds = new Set(tasks.map(t => t.id))
+  
+  // Filter tasks based on mode
+  const filteredTasks = tasks.filter(task => {
+    const isPersonal = (task as any).is_personal
+    const hasAdmin = task.task_members?.some(m => m.profiles?.role === 'admin')
+    const isAdminType = task.type === 'admin'
+    if (mode === 'admin') {
+      return hasAdmin || isPersonal || isAdminType
+    }
+    // In development mode, show tasks that don't have admins, are not personal, and are not admin type
+    return !hasAdmin && !isPersonal && !isAdminType
+  })
+
+  // Only include tasks that are top-level OR whose parent is NOT in this list
+  filteredTasks.filter(t => !t.parent_id || !taskIds.has(t.parent_id)).forEach((task) => {
+    const status = task.status
+    if (groups[status]) {
+      groups[status].push(task)
+    } else {
+      // Fallback to backlog if status is unknown or missing
+      groups["backlog"].push(task)
+    }
+  })
+  return groups
+}
+
+const SORT_OPTIONS: { id: TaskSortKey; title: string }[] = [
+  { id: "manual", title: "Manual" },
+  { id: "priority", title: "Priority" },
+  { id: "due_date", title: "Due Date" },
+  { id: "estimate", title: "Estimate" },
 ]
 
 export function KanbanBoard({
@@ -148,11 +194,15 @@ export function KanbanBoard({
   mode = "development",
   onModeChange,
   disablePadding = false,
-  extraControls
+  extraControls,
+  taskFilter
 }: KanbanBoardProps) {
   const [tasks, setTasks] = React.useState<Task[]>(initialTasks)
   const [activeTask, setActiveTask] = React.useState<Task | null>(null)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState<string | null>(null)
+  const [sortBy, setSortBy] = React.useState<TaskSortKey>("manual")
+  const { organization } = useOrganization()
+  const wipLimits = organization.kanban_wip_limits || {}
   
   // Use a ref to always have the latest tasks in handlers without re-rendering
   const tasksRef = React.useRef(tasks)
@@ -179,52 +229,33 @@ export function KanbanBoard({
   )
 
   const tasksByStatus = React.useMemo(() => {
-    const groups: Record<string, Task[]> = {}
-    COLUMNS.forEach((col) => (groups[col.id] = []))
-    
-    // Get a set of IDs for quick lookup
-    const taskIds = new Set(tasks.map(t => t.id))
-    
-    // Filter tasks based on mode
-    const filteredTasks = tasks.filter(task => {
-      const isPersonal = (task as any).is_personal
-      const hasAdmin = task.task_members?.some(m => m.profiles?.role === 'admin')
-      const isAdminType = task.type === 'admin'
-      if (mode === 'admin') {
-        return hasAdmin || isPersonal || isAdminType
-      }
-      // In development mode, show tasks that don't have admins, are not personal, and are not admin type
-      return !hasAdmin && !isPersonal && !isAdminType
-    })
-
-    // Only include tasks that are top-level OR whose parent is NOT in this list
-    filteredTasks.filter(t => !t.parent_id || !taskIds.has(t.parent_id)).forEach((task) => {
-      const status = task.status
-      if (groups[status]) {
-        groups[status].push(task)
-      } else {
-        // Fallback to backlog if status is unknown or missing
-        groups["backlog"].push(task)
-      }
-    })
-    // Sort each group by order_index
+    const groups = groupTasksByStatus(taskFilter ? tasks.filter(taskFilter) : tasks, mode)
+    // Sort each group by the selected key (order_index when sorting manually)
+    const compare = getTaskComparator(sortBy)
     Object.keys(groups).forEach((status) => {
-      groups[status].sort((a, b) => (a.order_index || 0) - (b.order_index || 0))
+      groups[status].sort(compare)
     })
     return groups
-  }, [tasks, mode])
+  }, [tasks, mode, sortBy, taskFilter])
+
+  // WIP limits measure a column's real load, so tasks hidden by taskFilter still count
+  const columnCounts = React.useMemo(() => {
+    const groups = taskFilter ? groupTasksByStatus(tasks, mode) : tasksByStatus
+    return Object.fromEntries(Object.entries(groups).map(([status, group]) => [status, group.length]))
+  }, [tasks, mode, taskFilter, tasksByStatus])
 
   // Get subtasks for a task
   const getSubtasks = React.useCallback((taskId: string) => {
     return tasks.filter(t => {
       if (t.parent_id !== taskId) return false
+      if (taskFilter && !taskFilter(t)) return false
       const isPersonal = (t as any).is_personal
       const hasAdmin = t.task_members?.some(m => m.profiles?.role === 'admin')
       const isAdminType = t.type === 'admin'
       if (mode === 'admin') return hasAdmin || isPersonal || isAdminType
       return !hasAdmin && !isPersonal && !isAdminType
     })
-  }, [tasks, mode])
+  }, [tasks, mode, taskFilter])
 
   const handleShare = React.useCallback(async (task: Task) => {
     if (onShare) {
@@ -333,11 +364,24 @@ export function KanbanBoard({
     // 1. Handle Status Change
     if (targetStatus !== draggedTask.status) {
       updates.status = targetStatus
+
+      // Warn (but don't block) when the move pushes the column over its WIP limit
+      const wipLimit = wipLimits[targetStatus]
+      if (wipLimit) {
+        const columnTasks = groupTasksByStatus(tasksRef.current, mode)[targetStatus] || []
+        const columnCount = columnTasks.filter(t => t.id !== activeId).length + 1
+        if (columnCount > wipLimit) {
+          const columnTitle = COLUMNS.find(col => col.id === targetStatus)?.title || targetStatus
+          toast.warning(`${columnTitle} is over its WIP limit (${columnCount}/${wipLimit})`, {
+            description: "Consider finishing work in this column before pulling in more.",
+          })
+        }
+      }
     }
 
-    // 2. Handle Reordering
+    // 2. Handle Reordering (when sorted by another key, cards keep their computed order)
     const overTask = tasksRef.current.find(t => t.id === overId)
-    if (overTask && overTask.id !== activeId) {
+    if (sortBy === "manual" && overTask && overTask.id !== activeId) {
       // Get tasks in the target column AFTER they've been updated by dragOver
       // We use tasksRef.current because it should have the latest status from handleDragOver
       const columnTasks = [...tasksRef.current.filter(t => t.status === targetStatus)]
@@ -361,7 +405,7 @@ export function KanbanBoard({
           return [...otherTasks, ...updatedColumnTasks]
         })
       }
-    } else if (!overTask && COLUMNS.some(col => col.id === overId)) {
+    } else if (sortBy === "manual" && !overTask && COLUMNS.some(col => col.id === overId)) {
       // Dropped on empty column or column header
       const columnTasks = tasksRef.current.filter(t => t.status === targetStatus)
       finalOrderIndex = columnTasks.length
@@ -405,6 +449,21 @@ export function KanbanBoard({
           </div>
           
           <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <IconArrowsSort className="size-4 text-muted-foreground" />
+              <Select value={sortBy} onValueChange={(v) => setSortBy(v as TaskSortKey)}>
+                <SelectTrigger className="w-[130px] h-8 text-xs">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id} className="text-xs">
+                      {option.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             {extraControls}
             {!hideCreate && (
               <Button onClick={() => onTaskCreate("todo")} size="sm" disabled={isLoading}>
@@ -466,6 +525,8 @@ export function KanbanBoard({
                 key={column.id}
                 id={column.id}
                 title={column.title}
+                wipLimit={wipLimits[column.id]}
+                columnCount={columnCounts[column.id] || 0}
                 tasks={tasksByStatus[column.id]}
                 members={members}
                 onAddTask={!hideCreate ? () => onTaskCreate(column.id) : undefined}
@@ -519,6 +580,8 @@ export function KanbanBoard({
 interface KanbanColumnProps {
   id: string
   title: string
+  wipLimit?: number
+  columnCount: number
   tasks: Task[]
   members: Tables<"profiles">[]
   onAddTask?: () => void
@@ -533,21 +596,32 @@ interface KanbanColumnProps {
   getSubtasks: (taskId: string) => Task[]
 }
 
-function KanbanColumn({ id, title, tasks, members, onAddTask, onAddSubtask, onQuickAddSubtask, onTaskEdit, onTaskUpdate, onTaskConvert, onTaskDelete, onMoveAllTasks, onShare, getSubtasks }: KanbanColumnProps) {
+function KanbanColumn({ id, title, wipLimit, columnCount, tasks, members, onAddTask, onAddSubtask, onQuickAddSubtask, onTaskEdit, onTaskUpdate, onTaskConvert, onTaskDelete, onMoveAllTasks, onShare, getSubtasks }: KanbanColumnProps) {
   const { setNodeRef } = useDroppable({
     id: id,
   })
 
+  const isOverLimit = !!wipLimit && columnCount > wipLimit
+
   return (
     <div 
       ref={setNodeRef}
-      className="flex h-full w-80 shrink-0 flex-col gap-2 rounded-lg bg-muted/40 p-2"
+      className={cn(
+        "flex h-full w-80 shrink-0 flex-col gap-2 rounded-lg bg-muted/40 p-2",
+        isOverLimit && "bg-destructive/5 ring-1 ring-destructive/30"
+      )}
     >
       <div className="flex items-center justify-between px-1 mb-1">
         <div className="flex items-center gap-2">
           <h3 className="text-sm font-semibold text-muted-foreground/80">{title}</h3>
-          <span className="text-[10px] font-medium bg-muted px-1.5 py-0.5 rounded-full text-muted-foreground">
-            {tasks.length}
+          <span
+            className={cn(
+              "text-[10px] font-medium bg-muted px-1.5 py-0.5 rounded-full text-muted-foreground",
+              isOverLimit && "bg-destructive/10 text-destructive"
+            )}
+            title={wipLimit ? `WIP limit: ${wipLimit}` : undefined}
+          >
+            {wipLimit ? `${columnCount}/${wipLimit}` : tasks.length}
           </span>
         </div>
         <div className="flex items-center gap-0.5">
@@ -723,6 +797,9 @@ function TaskCard({ task, isOverlay, members, onEdit, onUpdate, onConvert, onDel
 
   const imageAttachment = task.task_attachments?.find(a => a.file_type.startsWith('image/'))
 
+  const priority = TASK_PRIORITIES.find(p => p.id === (task.priority || "medium")) || TASK_PRIORITIES[2]
+  const estimateLabel = formatEstimate(task.estimate, task.estimate_unit)
+
   const handleQuickAdd = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newSubtaskTitle.trim() || !onQuickAddSubtask) return
@@ -803,6 +880,25 @@ function TaskCard({ task, isOverlay, members, onEdit, onUpdate, onConvert, onDel
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()} onPointerDown={(e) => e.stopPropagation()}>
+              <button className="focus:outline-none">
+                <Badge variant="secondary" className={cn("h-4 px-1 text-[9px] gap-0.5 flex items-center border-transparent uppercase font-bold tracking-wider", priority.className)}>
+                  <IconFlag className="size-2.5" />
+                  {priority.title}
+                </Badge>
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-32">
+              {TASK_PRIORITIES.map(p => (
+                <DropdownMenuItem key={p.id} onClick={(e) => { e.stopPropagation(); onUpdate(task.id, { priority: p.id }) }}>
+                  <IconFlag className={cn("size-3.5 mr-2", p.iconClassName)} />
+                  <span>{p.title}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <TaskDueBadge task={task} />
         </div>
         
         <div className="flex items-start justify-between gap-2">
@@ -825,6 +921,7 @@ function TaskCard({ task, isOverlay, members, onEdit, onUpdate, onConvert, onDel
                   <IconPlus className="size-3" />
                 </Button>
               )}
+              {!task.is_personal && <TaskTimerButton taskId={task.id} />}
               <Dialog>
                 <DialogTrigger asChild>
                   <Button
@@ -1067,11 +1164,18 @@ function TaskCard({ task, isOverlay, members, onEdit, onUpdate, onConvert, onDel
             )}
           </div>
           
-          {task.task_members && task.task_members.length > 0 && (
-            <span className="text-[10px] text-muted-foreground">
-              {task.task_members.length} {task.task_members.length === 1 ? 'assignee' : 'assignees'}
-            </span>
-          )}
+          <div className="flex items-center gap-2">
+            {task.task_members && task.task_members.length > 0 && (
+              <span className="text-[10px] text-muted-foreground">
+                {task.task_members.length} {task.task_members.length === 1 ? 'assignee' : 'assignees'}
+              </span>
+            )}
+            {estimateLabel && (
+              <span className="text-[10px] font-medium bg-muted px-1.5 py-0.5 rounded-sm text-muted-foreground">
+                {estimateLabel}
+              </span>
+            )}
+          </div>
         </div>
       </div>
     </Card>
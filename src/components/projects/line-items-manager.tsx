@@ -21,6 +21,7 @@ import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency"
 
 export interface LineItem {
   id: string
@@ -28,16 +29,22 @@ export interface LineItem {
   details: string
   price: number
   quantity: number
+  /** VAT percentage for this line; missing on items saved before VAT support */
+  tax_rate?: number
 }
 
 interface SortableLineItemProps {
   item: LineItem
+  currency: string
+  showTax: boolean
   onUpdate: (id: string, updates: Partial<LineItem>) => void
   onDelete: (id: string) => void
 }
 
 function SortableLineItem({
   item,
+  currency,
+  showTax,
   onUpdate,
   onDelete,
 }: SortableLineItemProps) {
@@ -71,7 +78,7 @@ function SortableLineItem({
         <IconGripVertical className="size-4" />
       </button>
       <div className="flex-1 grid grid-cols-12 gap-2">
-        <div className="col-span-5 space-y-1">
+        <div className={`${showTax ? "col-span-4" : "col-span-5"} space-y-1`}>
           <Input
             placeholder="Description"
             value={item.description}
@@ -79,7 +86,7 @@ function SortableLineItem({
             className="h-8"
           />
         </div>
-        <div className="col-span-3 space-y-1">
+        <div className={`${showTax ? "col-span-2" : "col-span-3"} space-y-1`}>
           <Input
             placeholder="Details"
             value={item.details}
@@ -90,7 +97,7 @@ function SortableLineItem({
         <div className="col-span-2 space-y-1">
           <Input
             type="number"
-            placeholder="Price"
+            placeholder={`Price (${currency})`}
             value={item.price || ""}
             onChange={(e) => onUpdate(item.id, { price: parseFloat(e.target.value) || 0 })}
             className="h-8"
@@ -105,6 +112,17 @@ function SortableLineItem({
             className="h-8"
           />
         </div>
+        {showTax && (
+          <div className="col-span-2 space-y-1">
+            <Input
+              type="number"
+              placeholder="VAT %"
+              value={item.tax_rate ?? ""}
+              onChange={(e) => onUpdate(item.id, { tax_rate: parseFloat(e.target.value) || 0 })}
+              className="h-8"
+            />
+          </div>
+        )}
       </div>
       <Button
         variant="ghost"
@@ -121,11 +139,18 @@ function SortableLineItem({
 interface LineItemsManagerProps {
   lineItems: LineItem[]
   onChange: (items: LineItem[]) => void
+  currency?: string
+  /** Adds a per-line VAT % column, prefilled with defaultTaxRate on new items */
+  showTax?: boolean
+  defaultTaxRate?: number
 }
 
 export function LineItemsManager({
   lineItems,
   onChange,
+  currency = DEFAULT_CURRENCY,
+  showTax = false,
+  defaultTaxRate = 0,
 }: LineItemsManagerProps) {
   const sensors = useSensors(
     useSensor(MouseSensor),
@@ -152,6 +177,7 @@ export function LineItemsManager({
       details: "",
       price: 0,
       quantity: 1,
+      ...(showTax && { tax_rate: defaultTaxRate }),
     }
     onChange([...lineItems, newItem])
   }
@@ -178,7 +204,7 @@ export function LineItemsManager({
             onClick={() => {
               const text = lineItems
                 .filter(item => item.description)
-                .map(item => `${item.description}${item.details ? ` (${item.details})` : ""}: $${item.price.toLocaleString()} x ${item.quantity} = $${(item.price * item.quantity).toLocaleString()}`)
+                .map(item => `${item.description}${item.details ? ` (${item.details})` : ""}: ${formatCurrency(item.price, currency)} x ${item.quantity} = ${formatCurrency(item.price * item.quantity, currency)}`)
                 .join("\n")
               navigator.clipboard.writeText(text)
               toast.success("Line items copied to clipboard")
@@ -216,6 +242,8 @@ export function LineItemsManager({
               <SortableLineItem
                 key={item.id}
                 item={item}
+                currency={currency}
+                showTax={showTax}
                 onUpdate={handleUpdate}
                 onDelete={handleDelete}
               />
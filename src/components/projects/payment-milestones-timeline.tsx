@@ -0,0 +1,140 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
+import { IconCircleCheck, IconCircleDashed, IconClock, IconAlertTriangle, IconFileInvoice } from "@tabler/icons-react"
+import { Loader2 } from "lucide-react"
+import type { Tables } from "@/lib/database.types"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useOrganization } from "@/hooks/use-organization"
+import { formatCurrency, resolveCurrency } from "@/lib/currency"
+import { getOutstandingBalance } from "@/lib/invoices"
+import {
+  createMilestoneInvoice,
+  describeMilestoneTrigger,
+  getMilestoneAmount,
+  type PaymentMilestoneWithInvoice,
+} from "@/lib/milestones"
+import { getErrorMessage } from "@/lib/utils"
+
+interface PaymentMilestonesTimelineProps {
+  phase: Tables<"phases">
+  milestones: PaymentMilestoneWithInvoice[]
+  onInvoiceCreated: () => void
+}
+
+type MilestoneState = "pending" | "draft" | "invoiced" | "overdue" | "paid"
+
+function getMilestoneState(milestone: PaymentMilestoneWithInvoice): MilestoneState {
+  const invoice = milestone.invoices
+  if (!invoice || invoice.status === "cancelled") return "pending"
+  if (invoice.status === "paid") return "paid"
+  if (invoice.status === "overdue") return "overdue"
+  if (invoice.status === "draft") return "draft"
+  return "invoiced"
+}
+
+const STATE_STYLES: Record<MilestoneState, { label: string; icon: typeof IconClock; dot: string; badge: string }> = {
+  pending: { label: "Not invoiced", icon: IconCircleDashed, dot: "border-muted-foreground/40 text-muted-foreground", badge: "text-muted-foreground" },
+  draft: { label: "Draft invoice", icon: IconFileInvoice, dot: "border-muted-foreground text-muted-foreground", badge: "text-muted-foreground" },
+  invoiced: { label: "Invoiced", icon: IconClock, dot: "border-blue-500 text-blue-500", badge: "text-blue-600 border-blue-600" },
+  overdue: { label: "Overdue", icon: IconAlertTriangle, dot: "border-red-500 text-red-500", badge: "text-red-600 border-red-600" },
+  paid: { label: "Paid", icon: IconCircleCheck, dot: "border-emerald-500 bg-emerald-500 text-white", badge: "text-emerald-600 border-emerald-600" },
+}
+
+export function PaymentMilestonesTimeline({ phase, milestones, onInvoiceCreated }: PaymentMilestonesTimelineProps) {
+  const { organization } = useOrganization()
+  const [generatingId, setGeneratingId] = React.useState<string | null>(null)
+
+  const currency = resolveCurrency(phase.currency)
+  const phaseAmount = Number(phase.amount) || 0
+  const paidCount = milestones.filter(m => getMilestoneState(m) === "paid").length
+  const amountPaid = milestones.reduce((sum, m) => sum + Number(m.invoices?.amount_paid || 0), 0)
+
+  const handleGenerateInvoice = async (milestone: PaymentMilestoneWithInvoice) => {
+    try {
+      setGeneratingId(milestone.id)
+      const invoice = await createMilestoneInvoice(milestone, phase, organization)
+      toast.success(`Invoice ${invoice.invoice_number} created for ${milestone.label}`)
+      onInvoiceCreated()
+    } catch (error) {
+      console.error("Error generating milestone invoice:", error)
+      toast.error("Failed to generate invoice: " + getErrorMessage(error))
+    } finally {
+      setGeneratingId(null)
+    }
+  }
+
+  if (milestones.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+        No payment milestones yet. Add them from the payment schedule when editing the phase.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {paidCount} of {milestones.length} installments paid
+        </span>
+        <span className="font-medium">
+          {formatCurrency(amountPaid, currency)} received of {formatCurrency(phaseAmount, currency)}
+        </span>
+      </div>
+
+      <ol className="relative ml-4 border-l">
+        {milestones.map((milestone) => {
+          const state = getMilestoneState(milestone)
+          const style = STATE_STYLES[state]
+          const Icon = style.icon
+          const invoice = state === "pending" ? null : milestone.invoices
+
+          return (
+            <li key={milestone.id} className="mb-6 ml-6 last:mb-0">
+              <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border-2 bg-background ${style.dot}`}>
+                <Icon className="h-3.5 w-3.5" />
+              </span>
+              <div className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{milestone.label}</p>
+                    <Badge variant="outline" className={style.badge}>{style.label}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {milestone.percentage !== null ? `${milestone.percentage}% · ` : ""}
+                    {describeMilestoneTrigger(milestone)}
+                  </p>
+                  {invoice && (
+                    <p className="text-xs text-muted-foreground">
+                      {invoice.invoice_number}
+                      {invoice.due_date && ` · due ${format(parseISO(invoice.due_date), "MMM d, yyyy")}`}
+                      {state !== "paid" && ` · ${formatCurrency(getOutstandingBalance(invoice), currency)} outstanding`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold">
+                    {formatCurrency(getMilestoneAmount(milestone, phaseAmount), currency)}
+                  </span>
+                  {state === "pending" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleGenerateInvoice(milestone)}
+                      disabled={generatingId !== null}
+                    >
+                      {generatingId === milestone.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Generate Invoice
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -1,26 +1,20 @@
 import * as React from "react"
 import { toast } from "sonner"
-import { Send, Hash, MessageSquare } from "lucide-react"
+import { Send, Hash, MessageSquare, FolderOpen } from "lucide-react"
 import { supabase } from "@/lib/supabase"
 import type { Tables } from "@/lib/database.types"
 import { useAuth } from "@/hooks/use-auth"
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { ScrollArea } from "@/components/ui/scroll-area"
 import { Button } from "@/components/ui/button"
+import { MessageList } from "@/components/message-list"
+import { MessageItem } from "@/components/message-item"
+import { ThreadPanel } from "@/components/thread-panel"
+import { ChannelFilesPanel } from "@/components/channel-files-panel"
+import { AttachFilesButton, AttachmentDropZone, PendingUploads } from "@/components/chat-attachments"
+import { useChatMessages } from "@/hooks/use-chat-messages"
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads"
+import { sendMessage } from "@/lib/chat"
 import { slugify, getErrorMessage } from "@/lib/utils"
 
-interface Message {
-  id: string
-  content: string
-  created_at: string
-  user_id: string
-  profiles: {
-    full_name: string | null
-    avatar_url: string | null
-    email: string | null
-  }
-}
-
 interface PhaseChatProps {
   projectId: string
   phaseId: string
@@ -29,33 +23,52 @@ interface PhaseChatProps {
 
 export function PhaseChat({ projectId, phaseId, phaseTitle }: PhaseChatProps) {
   const { user } = useAuth()
-  const [messages, setMessages] = React.useState<Message[]>([])
   const [newMessage, setNewMessage] = React.useState("")
   const [channel, setChannel] = React.useState<Tables<"channels"> | null>(null)
-  const [isLoading, setIsLoading] = React.useState(true)
-  const scrollRef = React.useRef<HTMLDivElement>(null)
-
-  const scrollToBottom = React.useCallback(() => {
-    if (scrollRef.current) {
-      const scrollElement = scrollRef.current.querySelector('[data-radix-scroll-area-viewport]')
-      if (scrollElement) {
-        scrollElement.scrollTop = scrollElement.scrollHeight
+  const [isSettingUp, setIsSettingUp] = React.useState(true)
+  // Message picked from the Files panel to jump to
+  const [targetMessageId, setTargetMessageId] = React.useState<string | null>(null)
+  const {
+    messages,
+    targetMessage,
+    isLoading: isLoadingMessages,
+    hasOlder,
+    hasNewer,
+    loadOlder,
+    loadNewer,
+  } = useChatMessages(channel?.id, targetMessageId)
+  const isLoading = isSettingUp || isLoadingMessages
+  const [members, setMembers] = React.useState<Tables<"profiles">[]>([])
+  const [threadId, setThreadId] = React.useState<string | null>(null)
+  const threadParent = threadId ? messages.find(m => m.id === threadId) ?? null : null
+  const [isFilesOpen, setIsFilesOpen] = React.useState(false)
+  const { uploads, attachments, isUploading, addFiles, removeUpload, clearUploads } = useAttachmentUploads(channel?.id)
+
+  // For @mentions in thread replies
+  React.useEffect(() => {
+    async function fetchMembers() {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .neq("role", "client")
+        .order("full_name")
+
+      if (error) {
+        console.error("Error fetching members:", error)
+      } else {
+        setMembers(data || [])
       }
     }
-  }, [])
 
-  React.useEffect(() => {
-    if (messages.length > 0) {
-      scrollToBottom()
-    }
-  }, [messages, scrollToBottom])
+    fetchMembers()
+  }, [])
 
   React.useEffect(() => {
     if (!phaseId || !user) return
 
     async function setupChat() {
       try {
-        setIsLoading(true)
+        setIsSettingUp(true)
         const { data: initialChannelData, error: channelError } = await supabase
           .from("channels")
           .select("*")
@@ -107,129 +120,121 @@ export function PhaseChat({ projectId, phaseId, phaseTitle }: PhaseChatProps) {
               setChannel({ ...channelData, name: expectedName })
             }
           }
-
-          // Fetch messages
-          const { data: messagesData, error: messagesError } = await supabase
-            .from("messages")
-            .select(`*, profiles:user_id (full_name, avatar_url, email)`)
-            .eq("channel_id", channelData.id)
-            .order("created_at", { ascending: true })
-
-          if (messagesError) throw messagesError
-          setMessages((messagesData as unknown as Message[]) || [])
         }
       } catch (error) {
         toast.error("Failed to setup chat: " + getErrorMessage(error))
       } finally {
-        setIsLoading(false)
+        setIsSettingUp(false)
       }
     }
 
     setupChat()
 
-    // Real-time subscription is handled in a separate effect for channelId
+    // Messages and their real-time subscription are handled by useChatMessages
   }, [phaseId, projectId, user, phaseTitle])
 
-  React.useEffect(() => {
-    if (!channel?.id) return
-
-    const subscription = supabase
-      .channel(`phase_chat:${channel.id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channel.id}`,
-        },
-        async (payload) => {
-          const { data, error } = await supabase
-            .from("messages")
-            .select(`*, profiles:user_id (full_name, avatar_url, email)`)
-            .eq("id", payload.new.id)
-            .single()
-
-          if (!error && data) {
-            setMessages((prev) => [...prev, data as unknown as Message])
-          }
-        }
-      )
-      .subscribe()
-
-    return () => {
-      supabase.removeChannel(subscription)
-    }
-  }, [channel?.id])
-
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!newMessage.trim() || !channel || !user) return
-
     const content = newMessage.trim()
-    setNewMessage("")
-
-    const { error } = await supabase.from("messages").insert({
-      content,
-      channel_id: channel.id,
-      user_id: user.id,
-    })
+    if ((!content && attachments.length === 0) || isUploading || !channel || !user) return
 
-    if (error) toast.error("Failed to send message: " + getErrorMessage(error))
+    setNewMessage("")
+    clearUploads()
+    // Back to the latest messages if the Files panel jumped somewhere older
+    setTargetMessageId(null)
+
+    try {
+      await sendMessage({ channelId: channel.id, content, attachments })
+    } catch (error) {
+      toast.error("Failed to send message: " + getErrorMessage(error))
+    }
   }
 
   return (
-    <div className="flex h-full flex-col overflow-hidden rounded-xl border bg-background shadow-sm">
-      <div className="flex h-12 items-center px-4 border-b bg-muted/30">
-        <Hash className="h-4 w-4 mr-2 text-muted-foreground" />
-        <span className="font-bold text-sm">#{channel?.name || "chat"}</span>
-      </div>
-      <ScrollArea className="flex-1 p-4" ref={scrollRef}>
-        <div className="space-y-4">
-          {isLoading ? (
+    <div className="relative flex h-full overflow-hidden rounded-xl border bg-background shadow-sm">
+      <AttachmentDropZone onFiles={addFiles} disabled={!channel} className="flex min-w-0 flex-1 flex-col">
+        <div className="flex h-12 items-center px-4 border-b bg-muted/30">
+          <Hash className="h-4 w-4 mr-2 text-muted-foreground" />
+          <span className="font-bold text-sm">#{channel?.name || "chat"}</span>
+          <Button
+            variant={isFilesOpen ? "secondary" : "ghost"}
+            size="icon"
+            className="ml-auto h-8 w-8"
+            disabled={!channel}
+            onClick={() => setIsFilesOpen(!isFilesOpen)}
+          >
+            <FolderOpen className="h-4 w-4" />
+            <span className="sr-only">Files</span>
+          </Button>
+        </div>
+        <MessageList
+          key={targetMessageId ?? ""}
+          messages={messages}
+          hasOlder={hasOlder}
+          hasNewer={hasNewer}
+          onLoadOlder={loadOlder}
+          onLoadNewer={loadNewer}
+          highlightedId={targetMessage?.parent_id ?? targetMessageId}
+          contentClassName="p-4"
+          rowClassName="pb-4"
+          empty={isLoading ? (
             <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
               <p>Loading messages...</p>
             </div>
-          ) : messages.length === 0 ? (
+          ) : (
             <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
               <MessageSquare className="h-12 w-12 mb-2 opacity-20" />
               <p>No messages yet. Start the conversation!</p>
             </div>
-          ) : (
-            messages.map((m) => (
-              <div key={m.id} className="flex gap-3">
-                <Avatar className="h-8 w-8">
-                  <AvatarImage src={m.profiles?.avatar_url || ""} />
-                  <AvatarFallback className="text-xs">
-                    {(m.profiles?.full_name || m.profiles?.email || "U").charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 space-y-1">
-                  <div className="flex items-center gap-2">
-                    <span className="font-bold text-xs">{m.profiles?.full_name || m.profiles?.email?.split("@")[0]}</span>
-                    <span className="text-[10px] text-muted-foreground">{new Date(m.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                  </div>
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{m.content}</p>
-                </div>
-              </div>
-            ))
           )}
+          renderMessage={(m) => (
+            <MessageItem message={m} members={members} onReply={(message) => setThreadId(message.id)} size="sm" />
+          )}
+        />
+        <div className="p-4 border-t">
+          <PendingUploads uploads={uploads} onRemove={removeUpload} className="mb-2" />
+          <form onSubmit={handleSendMessage} className="flex gap-2">
+            <AttachFilesButton onFiles={addFiles} disabled={!channel} className="h-10 w-10 shrink-0" />
+            <textarea
+              placeholder="Type a message..."
+              className="flex-1 min-h-[40px] max-h-[120px] resize-none rounded-md border bg-background px-3 py-2 text-base md:text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              value={newMessage}
+              onChange={(e) => setNewMessage(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSendMessage(e); } }}
+            />
+            <Button
+              type="submit"
+              size="icon"
+              disabled={isLoading || isUploading || (!newMessage.trim() && attachments.length === 0)}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
         </div>
-      </ScrollArea>
-      <div className="p-4 border-t">
-        <form onSubmit={handleSendMessage} className="flex gap-2">
-          <textarea
-            placeholder="Type a message..."
-            className="flex-1 min-h-[40px] max-h-[120px] resize-none rounded-md border bg-background px-3 py-2 text-base md:text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyDown={(e) => { if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSendMessage(e); } }}
-          />
-          <Button type="submit" size="icon" disabled={!newMessage.trim() || isLoading}>
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
-      </div>
+      </AttachmentDropZone>
+
+      {isFilesOpen && channel && (
+        <ChannelFilesPanel
+          key={channel.id}
+          channelId={channel.id}
+          onClose={() => setIsFilesOpen(false)}
+          onSelect={(file) => {
+            setIsFilesOpen(false)
+            setTargetMessageId(file.message_id)
+          }}
+          className="absolute inset-0 z-10 w-full md:static md:w-80"
+        />
+      )}
+
+      {threadParent && !isFilesOpen && (
+        <ThreadPanel
+          key={threadParent.id}
+          parent={threadParent}
+          members={members}
+          onClose={() => setThreadId(null)}
+          className="absolute inset-0 z-10 w-full md:static md:w-80"
+        />
+      )}
     </div>
   )
 }
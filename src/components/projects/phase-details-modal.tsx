@@ -1,6 +1,17 @@
 import * as React from "react"
 import { Link } from "react-router-dom"
-import { IconExternalLink, IconFileText, IconChecklist, IconCurrencyDollar, IconCopy } from "@tabler/icons-react"
+import {
+  IconExternalLink,
+  IconFileText,
+  IconChecklist,
+  IconCurrencyDollar,
+  IconCopy,
+  IconSignature,
+  IconCircleCheck,
+  IconCircleX,
+  IconDownload,
+} from "@tabler/icons-react"
+import { format, parseISO } from "date-fns"
 import { toast } from "sonner"
 import {
   Dialog,
@@ -14,36 +25,60 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import type { Tables } from "@/lib/database.types"
 import { supabase } from "@/lib/supabase"
+import { formatCurrency } from "@/lib/currency"
 import type { Deliverable } from "./deliverables-manager"
 import { useAuth } from "@/hooks/use-auth"
+import { useOrderSources } from "@/hooks/use-order-sources"
+import { getOrderSourceName } from "@/lib/order-sources"
 import { cn } from "@/lib/utils"
+import { ProposalResponseDialog, type ProposalDecision } from "./proposal-response-dialog"
+import { ExportProposalDialog } from "./export-proposal-dialog"
 
 interface PhaseDetailsModalProps {
   phase: Tables<"phases"> | null
   isOpen: boolean
   onClose: () => void
   projectId: string
+  /** Called after the client accepts or declines, so the list can refresh */
+  onResponded?: () => void
 }
 
-export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDetailsModalProps) {
+export function PhaseDetailsModal({ phase, isOpen, onClose, projectId, onResponded }: PhaseDetailsModalProps) {
   const [deliverables, setDeliverables] = React.useState<Deliverable[]>([])
+  const [response, setResponse] = React.useState<Tables<"proposal_responses"> | null>(null)
   const [isLoading, setIsLoading] = React.useState(false)
+  const [decision, setDecision] = React.useState<ProposalDecision | null>(null)
+  const [isExportOpen, setIsExportOpen] = React.useState(false)
   const { role } = useAuth()
+  const { orderSources } = useOrderSources()
   const isAdmin = role === "admin"
+  const isClient = role === "client"
 
   React.useEffect(() => {
     if (phase && isOpen) {
       const fetchDeliverables = async () => {
         setIsLoading(true)
+        setResponse(null)
         try {
-          const { data, error } = await supabase
-            .from("deliverables")
-            .select("*")
-            .eq("phase_id", phase.id)
-            .order("order_index", { ascending: true })
+          const [deliverablesRes, responseRes] = await Promise.all([
+            supabase
+              .from("deliverables")
+              .select("*")
+              .eq("phase_id", phase.id)
+              .order("order_index", { ascending: true }),
+            supabase
+              .from("proposal_responses")
+              .select("*")
+              .eq("phase_id", phase.id)
+              .order("responded_at", { ascending: false })
+              .limit(1)
+              .maybeSingle(),
+          ])
 
-          if (error) throw error
-          setDeliverables(data || [])
+          if (deliverablesRes.error) throw deliverablesRes.error
+          if (responseRes.error) throw responseRes.error
+          setDeliverables(deliverablesRes.data || [])
+          setResponse(responseRes.data)
         } catch (error) {
           console.error("Error fetching deliverables:", error)
         } finally {
@@ -56,6 +91,21 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
 
   if (!phase) return null
 
+  const handleDownloadSigned = async () => {
+    if (!response?.signed_pdf_path || !response.signed_pdf_uploaded_at) return
+    try {
+      const { data, error } = await supabase.storage
+        .from("signed-proposals")
+        .createSignedUrl(response.signed_pdf_path, 60)
+
+      if (error) throw error
+      window.open(data.signedUrl, "_blank")
+    } catch (error) {
+      console.error("Error downloading signed proposal:", error)
+      toast.error("Failed to download the signed proposal")
+    }
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -180,18 +230,18 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
                 <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-muted-foreground">Total Amount:</span>
-                    <span className="font-semibold">${phase.amount?.toLocaleString()}</span>
+                    <span className="font-semibold">{formatCurrency(phase.amount ?? 0, phase.currency)}</span>
                   </div>
-                  {phase.order_source === "fiverr" && (
+                  {Number(phase.commission_amount) > 0 && (
                     <>
                       <div className="flex justify-between items-center text-sm">
-                        <span className="text-muted-foreground">Commission ({phase.commission_rate}%):</span>
-                        <span className="text-destructive">-${phase.commission_amount?.toLocaleString()}</span>
+                        <span className="text-muted-foreground">Commission ({+(Number(phase.commission_rate) * 100).toFixed(1)}%):</span>
+                        <span className="text-destructive">-{formatCurrency(phase.commission_amount ?? 0, phase.currency)}</span>
                       </div>
                       <Separator />
                       <div className="flex justify-between items-center text-sm font-bold">
                         <span>Net Amount:</span>
-                        <span className="text-primary">${phase.net_amount?.toLocaleString()}</span>
+                        <span className="text-primary">{formatCurrency(phase.net_amount ?? 0, phase.currency)}</span>
                       </div>
                     </>
                   )}
@@ -204,7 +254,7 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
               <div className="grid gap-2">
                 <div className="flex flex-col gap-1">
                   <span className="text-xs text-muted-foreground">Order Source</span>
-                  <Badge variant="secondary" className="w-fit capitalize">{phase.order_source || 'Direct'}</Badge>
+                  <Badge variant="secondary" className="w-fit capitalize">{getOrderSourceName(orderSources, phase.order_source)}</Badge>
                 </div>
                 {phase.updated_at && (
                   <div className="flex flex-col gap-1">
@@ -216,6 +266,41 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
             </div>
           </div>
 
+          {response && (
+            <div className={cn(
+              "rounded-lg border p-3 space-y-1",
+              response.decision === "accepted" ? "border-emerald-600/30 bg-emerald-500/5" : "border-destructive/30 bg-destructive/5"
+            )}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {response.decision === "accepted" ? (
+                    <IconCircleCheck className="h-4 w-4 text-emerald-600" />
+                  ) : (
+                    <IconCircleX className="h-4 w-4 text-destructive" />
+                  )}
+                  {response.decision === "accepted"
+                    ? `Signed by ${response.signature_name}`
+                    : "Declined by the client"}
+                </p>
+                {response.signed_pdf_path && (response.signed_pdf_uploaded_at ? (
+                  <Button variant="ghost" size="sm" className="h-7 gap-1.5" onClick={handleDownloadSigned}>
+                    <IconDownload className="h-3.5 w-3.5" />
+                    Signed PDF
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Signed PDF missing</span>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format(parseISO(response.responded_at), "MMM d, yyyy 'at' HH:mm")}
+                {response.ip_address && ` · IP ${response.ip_address}`}
+              </p>
+              {response.rejection_reason && (
+                <p className="text-sm whitespace-pre-wrap">{response.rejection_reason}</p>
+              )}
+            </div>
+          )}
+
           <Separator />
 
           <div className="space-y-4">
@@ -267,6 +352,22 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
           <Button variant="ghost" onClick={onClose} className="sm:w-24">
             Close
           </Button>
+          <Button variant="outline" onClick={() => setIsExportOpen(true)} className="gap-2">
+            <IconDownload className="h-4 w-4" />
+            Export PDF
+          </Button>
+          {isClient && phase.status === "sent" && (
+            <>
+              <Button variant="outline" onClick={() => setDecision("rejected")} className="gap-2">
+                <IconCircleX className="h-4 w-4" />
+                Decline
+              </Button>
+              <Button onClick={() => setDecision("accepted")} className="gap-2">
+                <IconSignature className="h-4 w-4" />
+                Accept & Sign
+              </Button>
+            </>
+          )}
           <Button asChild className="gap-2 sm:px-8">
             <Link to={`/dashboard/projects/${projectId}/phases/${phase.id}`}>
               <IconExternalLink className="h-4 w-4" />
@@ -275,6 +376,22 @@ export function PhaseDetailsModal({ phase, isOpen, onClose, projectId }: PhaseDe
           </Button>
         </div>
       </DialogContent>
+
+      <ExportProposalDialog
+        phase={phase}
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+      />
+
+      <ProposalResponseDialog
+        phase={phase}
+        decision={decision}
+        onOpenChange={(open) => !open && setDecision(null)}
+        onResponded={() => {
+          onClose()
+          onResponded?.()
+        }}
+      />
     </Dialog>
   )
 }
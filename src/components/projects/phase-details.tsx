@@ -1,8 +1,9 @@
 import * as React from "react"
 import { toast } from "sonner"
-import { IconFileText, IconEdit, IconLayoutKanban, IconGitPullRequest } from "@tabler/icons-react"
+import { IconFileText, IconEdit, IconLayoutKanban, IconGitPullRequest, IconCreditCard } from "@tabler/icons-react"
 import { supabase } from "@/lib/supabase"
 import type { Tables } from "@/lib/database.types"
+import { formatCurrency } from "@/lib/currency"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { PhaseForm } from "@/components/projects/phase-form"
@@ -25,8 +26,11 @@ import { MessageSquare } from "lucide-react"
 import { slugify, getErrorMessage } from "@/lib/utils"
 import { PhaseChat } from "./phase-chat"
 import { RevisionsManager } from "./revisions-manager"
+import { PaymentMilestonesTimeline } from "./payment-milestones-timeline"
+import { saveMilestones, type MilestoneDraft, type PaymentMilestoneWithInvoice } from "@/lib/milestones"
 
 import { useTasks } from "@/hooks/use-tasks"
+import { toDateColumn, getTaskPlanningColumns } from "@/lib/tasks"
 
 type Phase = Tables<"phases">
 
@@ -46,6 +50,7 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
   // Phase & Deliverables state
   const [phase, setPhase] = React.useState<Phase | null>(null)
   const [deliverables, setDeliverables] = React.useState<Deliverable[]>([])
+  const [milestones, setMilestones] = React.useState<PaymentMilestoneWithInvoice[]>([])
   const [isLoading, setIsLoading] = React.useState(true)
   const [isDialogOpen, setIsDialogOpen] = React.useState(false)
   const [isSubmitting, setIsSubmitting] = React.useState(false)
@@ -135,12 +140,17 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
       setPhase(phaseData)
 
       // Fetch deliverables, tasks, and members in parallel
-      const [deliverablesRes, membersRes, projectMembersRes] = await Promise.all([
+      const [deliverablesRes, milestonesRes, membersRes, projectMembersRes] = await Promise.all([
         supabase
           .from("deliverables")
           .select("*")
           .eq("phase_id", phaseId)
           .order("order_index", { ascending: true }),
+        supabase
+          .from("payment_milestones")
+          .select("*, invoices (invoice_number, status, amount, amount_paid, due_date)")
+          .eq("phase_id", phaseId)
+          .order("order_index", { ascending: true }),
         supabase
           .from("profiles")
           .select("*")
@@ -162,10 +172,12 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
       ])
 
       if (deliverablesRes.error) throw deliverablesRes.error
+      if (milestonesRes.error) throw milestonesRes.error
       if (membersRes.error) throw membersRes.error
       if (projectMembersRes.error) throw projectMembersRes.error
 
       setDeliverables(deliverablesRes.data || [])
+      setMilestones(milestonesRes.data || [])
       setMembers(membersRes.data || [])
 
       // Filter project members for employees only
@@ -189,7 +201,12 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
   }, [fetchData, phaseId])
 
   // --- Phase Actions ---
-  const handlePhaseSubmit = async (values: any, updatedDeliverables: Deliverable[], lineItems: LineItem[]) => {
+  const handlePhaseSubmit = async (
+    values: any,
+    updatedDeliverables: Deliverable[],
+    lineItems: LineItem[],
+    updatedMilestones: MilestoneDraft[]
+  ) => {
     try {
       setIsSubmitting(true)
 
@@ -224,6 +241,10 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
         await supabase.from("deliverables").insert(deliverablesToInsert)
       }
 
+      if (isAdmin) {
+        await saveMilestones(phaseId, updatedMilestones)
+      }
+
       toast.success("Phase updated successfully")
       setIsDialogOpen(false)
       fetchData()
@@ -294,6 +315,9 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
           title: values.title,
           description: values.description,
           type: values.type || 'feature',
+          start_date: toDateColumn(values.start_date),
+          due_date: toDateColumn(values.due_date),
+          ...getTaskPlanningColumns(values),
           user_id: finalUserId,
           project_id: projectId,
           phase_id: phaseId,
@@ -422,6 +446,9 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
         description: values.description || null,
         status: values.status || editingTask.status,
         type: values.type || editingTask.type || 'feature',
+        start_date: toDateColumn(values.start_date),
+        due_date: toDateColumn(values.due_date),
+        ...getTaskPlanningColumns(values),
         user_id: finalUserId,
         project_id: values.project_id === "none" ? null : (values.project_id || projectId),
         phase_id: values.phase_id === "none" ? null : (values.phase_id || phaseId),
@@ -614,10 +641,10 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
               <div className="text-right mr-4">
                 <p className="text-sm text-muted-foreground uppercase tracking-wider font-semibold">Total Amount</p>
                 <div className="flex flex-col items-end">
-                  <p className="text-2xl font-bold">${phase.amount?.toLocaleString()}</p>
-                  {phase.order_source === "fiverr" && (
+                  <p className="text-2xl font-bold">{formatCurrency(phase.amount ?? 0, phase.currency)}</p>
+                  {Number(phase.commission_amount) > 0 && (
                     <p className="text-xs text-muted-foreground">
-                      Net: <span className="font-medium text-primary">${phase.net_amount?.toLocaleString()}</span>
+                      Net: <span className="font-medium text-primary">{formatCurrency(phase.net_amount ?? 0, phase.currency)}</span>
                     </p>
                   )}
                 </div>
@@ -649,6 +676,11 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
                 <MessageSquare className="h-4 w-4" /> Messages
               </TabsTrigger>
             )}
+            {isAdmin && (
+              <TabsTrigger value="payments" className="gap-2">
+                <IconCreditCard className="h-4 w-4" /> Payments
+              </TabsTrigger>
+            )}
           </TabsList>
         </div>
 
@@ -711,6 +743,16 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
             )}
           </TabsContent>
         )}
+
+        {isAdmin && (
+          <TabsContent value="payments" className="flex-1 overflow-y-auto px-4 lg:px-6 pb-4 lg:pb-6">
+            <PaymentMilestonesTimeline
+              phase={phase}
+              milestones={milestones}
+              onInvoiceCreated={fetchData}
+            />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Dialogs */}
@@ -723,6 +765,7 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
           <PhaseForm 
             initialData={phase} 
             initialDeliverables={deliverables} 
+            initialMilestones={milestones}
             onSubmit={handlePhaseSubmit} 
             onCancel={() => setIsDialogOpen(false)} 
             isSubmitting={isSubmitting} 
@@ -792,6 +835,11 @@ export function PhaseDetails({ projectId, phaseId }: PhaseDetailsProps) {
                 description: editingTask.description || "", 
                 status: editingTask.status,
                 type: editingTask.type ?? undefined,
+                start_date: editingTask.start_date,
+                due_date: editingTask.due_date,
+                priority: editingTask.priority,
+                estimate: editingTask.estimate,
+                estimate_unit: editingTask.estimate_unit,
                 user_id: editingTask.user_id, 
                 project_id: (editingTask as any).project_id,
                 phase_id: editingTask.phase_id,
@@ -7,8 +7,32 @@ import { DeliverablesManager, type Deliverable } from "./deliverables-manager"
 import { LineItemsManager, type LineItem } from "./line-items-manager"
 import type { Tables } from "@/lib/database.types"
 import { useAuth } from "@/hooks/use-auth"
+import { useOrganization } from "@/hooks/use-organization"
+import { useOrderSources } from "@/hooks/use-order-sources"
 import { IconCode, IconClock, IconCreditCard, IconCopy } from "@tabler/icons-react"
 import { toast } from "sonner"
+import { CURRENCIES, formatCurrency, resolveCurrency } from "@/lib/currency"
+import { getDefaultTaxRate } from "@/lib/invoices"
+import {
+  DIRECT_ORDER_SOURCE,
+  calculateCommission,
+  describeCommission,
+  findOrderSource,
+  getOrderSourceName,
+} from "@/lib/order-sources"
+import {
+  DEFAULT_MILESTONES,
+  formatMilestoneSchedule,
+  getMilestoneAmount,
+  MILESTONE_TRIGGERS,
+  type MilestoneDraft,
+} from "@/lib/milestones"
+import {
+  getTemplateDeliverables,
+  getTemplateLineItems,
+  getTemplateMilestones,
+  type PhaseTemplate,
+} from "@/lib/phase-templates"
 
 const DEFAULT_TECH_FIELDS = [
   { key: "Frontend", value: "Next.js, React, Tailwind" },
@@ -26,12 +50,6 @@ interface KeyValueField {
   value: string
 }
 
-interface SplitItem {
-  id: string
-  label: string
-  percentage: number
-}
-
 import { IconPlus, IconTrash } from "@tabler/icons-react"
 
 interface KeyValueTemplateProps {
@@ -159,29 +177,35 @@ function KeyValueTemplate({
 interface PaymentScheduleTemplateProps {
   useTemplate: boolean
   onToggle: () => void
-  splits: SplitItem[]
+  milestones: MilestoneDraft[]
   onAdd: () => void
   onRemove: (id: string) => void
-  onChange: (id: string, field: "label" | "percentage", value: string | number) => void
+  onChange: (id: string, patch: Partial<MilestoneDraft>) => void
   totalAmount: number
+  currency: string
   textareaName: string
   textareaPlaceholder: string
   defaultValue?: string
+  /** Payment milestones are admin-only, so other roles see them without editing */
+  readOnly?: boolean
 }
 
 function PaymentScheduleTemplate({
   useTemplate,
   onToggle,
-  splits,
+  milestones,
   onAdd,
   onRemove,
   onChange,
   totalAmount,
+  currency,
   textareaName,
   textareaPlaceholder,
   defaultValue,
+  readOnly = false,
 }: PaymentScheduleTemplateProps) {
-  const totalPercentage = splits.reduce((sum, s) => sum + s.percentage, 0)
+  const scheduledAmount = milestones.reduce((sum, m) => sum + getMilestoneAmount(m, totalAmount), 0)
+  const isBalanced = Math.abs(scheduledAmount - totalAmount) < 0.01
 
   return (
     <div className="space-y-3">
@@ -198,13 +222,7 @@ function PaymentScheduleTemplate({
             onClick={() => {
               let text = ""
               if (useTemplate) {
-                text = splits
-                  .filter(split => split.label && split.percentage > 0)
-                  .map(split => {
-                    const splitAmount = (split.percentage / 100) * totalAmount
-                    return `• **${split.label}**: ${split.percentage}% ($${splitAmount.toFixed(2)})`
-                  })
-                  .join("\n")
+                text = formatMilestoneSchedule(milestones, totalAmount, currency)
               } else {
                 const textarea = document.getElementById(textareaName) as HTMLTextAreaElement
                 text = textarea?.value || defaultValue || ""
@@ -217,74 +235,139 @@ function PaymentScheduleTemplate({
             <IconCopy className="mr-1.5 size-3" />
             Copy
           </Button>
-          <Button
-            type="button"
-            variant="ghost"
-            size="sm"
-            onClick={onToggle}
-            className="h-7 px-2 text-[10px] uppercase font-bold tracking-wider text-muted-foreground hover:text-foreground"
-          >
-            {useTemplate ? "Switch to Custom Text" : "Use Structured Template"}
-          </Button>
+          {!readOnly && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onToggle}
+              className="h-7 px-2 text-[10px] uppercase font-bold tracking-wider text-muted-foreground hover:text-foreground"
+            >
+              {useTemplate ? "Switch to Custom Text" : "Use Structured Template"}
+            </Button>
+          )}
         </div>
       </div>
+      {readOnly && useTemplate && (
+        <p className="text-xs text-muted-foreground">
+          Only admins can change payment milestones, so they are shown read-only here.
+        </p>
+      )}
       {useTemplate ? (
-        <div className="space-y-2 p-3 rounded-xl border bg-muted/20 animate-in fade-in slide-in-from-top-1 duration-200">
-          <div className="grid grid-cols-12 gap-2 mb-1 px-1">
-            <span className="col-span-6 text-[10px] uppercase font-bold text-muted-foreground/70">Milestone / Split</span>
-            <span className="col-span-3 text-[10px] uppercase font-bold text-muted-foreground/70 text-right">Percent</span>
-            <span className="col-span-3 text-[10px] uppercase font-bold text-muted-foreground/70 text-right">Amount</span>
+        <fieldset
+          disabled={readOnly}
+          className="space-y-2 p-3 rounded-xl border bg-muted/20 animate-in fade-in slide-in-from-top-1 duration-200"
+        >
+          <div className="grid grid-cols-12 gap-2 mb-1 px-1 pr-10">
+            <span className="col-span-4 text-[10px] uppercase font-bold text-muted-foreground/70">Milestone</span>
+            <span className="col-span-3 text-[10px] uppercase font-bold text-muted-foreground/70 text-right">Share</span>
+            <span className="col-span-3 text-[10px] uppercase font-bold text-muted-foreground/70">Due</span>
+            <span className="col-span-2 text-[10px] uppercase font-bold text-muted-foreground/70 text-right">Amount</span>
           </div>
-          {splits.map((split) => (
-            <div key={split.id} className="flex gap-2 items-center">
-              <div className="grid grid-cols-12 gap-2 flex-1">
-                <Input
-                  placeholder="e.g. Deposit"
-                  value={split.label}
-                  onChange={(e) => onChange(split.id, "label", e.target.value)}
-                  className="col-span-6 h-8 text-xs bg-background/50 border-muted-foreground/20"
-                />
-                <div className="col-span-3 relative">
-                  <Input
-                    type="number"
-                    placeholder="50"
-                    value={split.percentage || ""}
-                    onChange={(e) => onChange(split.id, "percentage", parseFloat(e.target.value) || 0)}
-                    className="h-8 pr-5 text-right text-xs bg-background/50 border-muted-foreground/20"
-                  />
-                  <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">%</span>
-                </div>
-                <div className="col-span-3 h-8 flex items-center justify-end px-2 rounded-md border border-muted-foreground/10 bg-background/30 text-xs font-medium">
-                  ${((split.percentage / 100) * totalAmount).toFixed(2)}
+          {milestones.map((milestone) => {
+            const isInvoiced = !!milestone.invoice_id
+            const isFixed = milestone.amount !== null
+            return (
+              <div key={milestone.id} className="space-y-2">
+                <div className="flex gap-2 items-center">
+                  <div className="grid grid-cols-12 gap-2 flex-1">
+                    <Input
+                      placeholder="e.g. Deposit"
+                      value={milestone.label}
+                      onChange={(e) => onChange(milestone.id, { label: e.target.value })}
+                      className="col-span-4 h-8 text-xs bg-background/50 border-muted-foreground/20"
+                    />
+                    <div className="col-span-3 flex">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder={isFixed ? "0.00" : "50"}
+                        value={(isFixed ? milestone.amount : milestone.percentage) || ""}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value) || 0
+                          onChange(milestone.id, isFixed ? { amount: value } : { percentage: value })
+                        }}
+                        disabled={isInvoiced}
+                        className="h-8 rounded-r-none text-right text-xs bg-background/50 border-muted-foreground/20"
+                      />
+                      <select
+                        aria-label="Share type"
+                        value={isFixed ? "amount" : "percentage"}
+                        onChange={(e) => {
+                          const current = getMilestoneAmount(milestone, totalAmount)
+                          onChange(milestone.id, e.target.value === "amount"
+                            ? { amount: current, percentage: null }
+                            : {
+                                amount: null,
+                                percentage: totalAmount > 0 ? Math.round((current / totalAmount) * 10000) / 100 : 0,
+                              })
+                        }}
+                        disabled={isInvoiced}
+                        className="h-8 rounded-r-md border border-l-0 border-muted-foreground/20 bg-background/50 px-1 text-[10px] text-muted-foreground disabled:opacity-50"
+                      >
+                        <option value="percentage">%</option>
+                        <option value="amount">{currency}</option>
+                      </select>
+                    </div>
+                    <select
+                      aria-label="Due"
+                      value={milestone.trigger}
+                      onChange={(e) => onChange(milestone.id, { trigger: e.target.value })}
+                      className="col-span-3 h-8 rounded-md border border-muted-foreground/20 bg-background/50 px-2 text-xs"
+                    >
+                      {MILESTONE_TRIGGERS.map((t) => (
+                        <option key={t.value} value={t.value}>{t.label}</option>
+                      ))}
+                    </select>
+                    <div className="col-span-2 h-8 flex items-center justify-end px-2 rounded-md border border-muted-foreground/10 bg-background/30 text-xs font-medium">
+                      {formatCurrency(getMilestoneAmount(milestone, totalAmount), currency)}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRemove(milestone.id)}
+                    disabled={isInvoiced}
+                    title={isInvoiced ? "Already invoiced" : undefined}
+                    className="size-8 text-muted-foreground hover:text-destructive shrink-0"
+                  >
+                    <IconTrash className="size-3.5" />
+                  </Button>
                 </div>
+                {milestone.trigger === "on_date" && (
+                  <div className="flex items-center gap-2 pl-1 pr-10">
+                    <Label className="text-[10px] uppercase font-bold text-muted-foreground/70">Due date</Label>
+                    <Input
+                      type="date"
+                      value={milestone.due_date || ""}
+                      onChange={(e) => onChange(milestone.id, { due_date: e.target.value || null })}
+                      required
+                      className="h-8 w-44 text-xs bg-background/50 border-muted-foreground/20"
+                    />
+                  </div>
+                )}
               </div>
+            )
+          })}
+          <div className="flex justify-between items-center px-2 py-1">
+            {readOnly ? <span /> : (
               <Button
                 type="button"
-                variant="ghost"
-                size="icon"
-                onClick={() => onRemove(split.id)}
-                className="size-8 text-muted-foreground hover:text-destructive shrink-0"
+                variant="outline"
+                size="sm"
+                onClick={onAdd}
+                className="h-7 border-dashed bg-transparent text-[10px] gap-1 px-2"
               >
-                <IconTrash className="size-3.5" />
+                <IconPlus className="size-3" />
+                Add Milestone
               </Button>
-            </div>
-          ))}
-          <div className="flex justify-between items-center px-2 py-1">
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={onAdd}
-              className="h-7 border-dashed bg-transparent text-[10px] gap-1 px-2"
-            >
-              <IconPlus className="size-3" />
-              Add Split
-            </Button>
-            <div className={`text-[10px] font-bold ${totalPercentage !== 100 ? "text-destructive" : "text-primary"}`}>
-              Total: {totalPercentage}%
+            )}
+            <div className={`text-[10px] font-bold ${isBalanced ? "text-primary" : "text-destructive"}`}>
+              Total: {formatCurrency(scheduledAmount, currency)} of {formatCurrency(totalAmount, currency)}
             </div>
           </div>
-        </div>
+        </fieldset>
       ) : (
         <Textarea
           id={textareaName}
@@ -300,10 +383,19 @@ function PaymentScheduleTemplate({
 
 type Phase = Tables<"phases">
 
+// Stable default so the reset effect below doesn't run on every render
+const NO_MILESTONES: MilestoneDraft[] = []
+
 interface PhaseFormProps {
   initialData?: Phase | null
   initialDeliverables?: Deliverable[]
-  onSubmit: (values: any, deliverables: Deliverable[], lineItems: LineItem[]) => Promise<void>
+  initialMilestones?: MilestoneDraft[]
+  /** Pre-fills a new phase; remount the form (key) when it changes */
+  template?: PhaseTemplate | null
+  /** Currency for new phases, usually the client's or the organization's */
+  defaultCurrency?: string
+  /** milestones is empty when custom payment terms are used instead */
+  onSubmit: (values: any, deliverables: Deliverable[], lineItems: LineItem[], milestones: MilestoneDraft[]) => Promise<void>
   onCancel: () => void
   isSubmitting?: boolean
 }
@@ -311,16 +403,36 @@ interface PhaseFormProps {
 export function PhaseForm({
   initialData,
   initialDeliverables = [],
+  initialMilestones = NO_MILESTONES,
+  template,
+  defaultCurrency,
   onSubmit,
   onCancel,
   isSubmitting = false,
 }: PhaseFormProps) {
   const { role } = useAuth()
+  const { organization } = useOrganization()
+  const { orderSources } = useOrderSources()
   const isAdmin = role === "admin"
+  const fromTemplate = !initialData && !!template
+  // What the fields start from: the phase being edited, or the chosen template
+  const source = React.useMemo(() => initialData ?? (template ? {
+    title: template.title,
+    description: template.description,
+    tech_stack: template.tech_stack,
+    timeline: template.timeline,
+    payment_schedule: template.payment_schedule,
+    amount: template.amount,
+    currency: template.currency,
+  } : null), [initialData, template])
+
   const [deliverables, setDeliverables] = React.useState<Deliverable[]>(initialDeliverables)
-  const [lineItems, setLineItems] = React.useState<LineItem[]>((initialData as any)?.invoice_line_items || [])
-  const [orderSource, setOrderSource] = React.useState<string>(initialData?.order_source || "direct")
-  const [amount, setAmount] = React.useState<number>(Number(initialData?.amount) || 0)
+  const [lineItems, setLineItems] = React.useState<LineItem[]>(
+    fromTemplate ? getTemplateLineItems(template) : (initialData as any)?.invoice_line_items || []
+  )
+  const [orderSource, setOrderSource] = React.useState<string>(initialData?.order_source || DIRECT_ORDER_SOURCE)
+  const [amount, setAmount] = React.useState<number>(Number(source?.amount) || 0)
+  const [currency, setCurrency] = React.useState<string>(resolveCurrency(source?.currency, defaultCurrency))
 
   const [useTechTemplate, setUseTechTemplate] = React.useState(true)
   const [techStackItems, setTechStackItems] = React.useState<KeyValueField[]>([])
@@ -329,14 +441,15 @@ export function PhaseForm({
   const [timelineItems, setTimelineItems] = React.useState<KeyValueField[]>([])
 
   const [usePaymentTemplate, setUsePaymentTemplate] = React.useState(true)
-  const [paymentSplits, setPaymentSplits] = React.useState<SplitItem[]>([])
+  const [milestones, setMilestones] = React.useState<MilestoneDraft[]>([])
 
   React.useEffect(() => {
-    setDeliverables(initialDeliverables)
+    setDeliverables(fromTemplate ? getTemplateDeliverables(template) : initialDeliverables)
+    const startingMilestones = fromTemplate ? getTemplateMilestones(template) : initialMilestones
 
-    if (initialData) {
+    if (source) {
       // Parse Tech Stack
-      const tsMatches = initialData.tech_stack?.matchAll(/• \*\*(.*?)\*\*: (.*)/g)
+      const tsMatches = source.tech_stack?.matchAll(/• \*\*(.*?)\*\*: (.*)/g)
       const tsItems: KeyValueField[] = []
       if (tsMatches) {
         for (const match of tsMatches) {
@@ -347,14 +460,14 @@ export function PhaseForm({
       if (tsItems.length > 0) {
         setTechStackItems(tsItems)
         setUseTechTemplate(true)
-      } else if (initialData.tech_stack) {
+      } else if (source.tech_stack) {
         setUseTechTemplate(false)
       } else {
         setTechStackItems(DEFAULT_TECH_FIELDS.map(f => ({ ...f, id: crypto.randomUUID() })))
       }
 
       // Parse Timeline
-      const tlMatches = initialData.timeline?.matchAll(/• \*\*(.*?)\*\*: (.*)/g)
+      const tlMatches = source.timeline?.matchAll(/• \*\*(.*?)\*\*: (.*)/g)
       const tlItems: KeyValueField[] = []
       if (tlMatches) {
         for (const match of tlMatches) {
@@ -365,50 +478,42 @@ export function PhaseForm({
       if (tlItems.length > 0) {
         setTimelineItems(tlItems)
         setUseTimelineTemplate(true)
-      } else if (initialData.timeline) {
+      } else if (source.timeline) {
         setUseTimelineTemplate(false)
       } else {
         setTimelineItems(DEFAULT_TIMELINE_FIELDS.map(f => ({ ...f, id: crypto.randomUUID() })))
       }
 
-      // Parse Payment Splits
-      const pMatches = initialData.payment_schedule?.matchAll(/• \*\*(.*?)\*\*: (.*?) \((.*?)\)/g)
-      const pSplits: SplitItem[] = []
-      if (pMatches) {
-        for (const match of pMatches) {
-          pSplits.push({
-            id: crypto.randomUUID(),
-            label: match[1],
-            percentage: parseFloat(match[2].replace("%", "")) || 0
-          })
-        }
-      }
-
-      if (pSplits.length > 0) {
-        setPaymentSplits(pSplits)
+      if (startingMilestones.length > 0) {
+        setMilestones(startingMilestones)
         setUsePaymentTemplate(true)
-      } else if (initialData.payment_schedule) {
+      } else if (source.payment_schedule) {
         setUsePaymentTemplate(false)
       } else {
-        setPaymentSplits([
-          { id: crypto.randomUUID(), label: "Initial Deposit", percentage: 50 },
-          { id: crypto.randomUUID(), label: "Final Delivery", percentage: 50 },
-        ])
+        setMilestones(DEFAULT_MILESTONES.map(m => ({ ...m, id: crypto.randomUUID() })))
       }
     } else {
       // New Phase Defaults
       setTechStackItems(DEFAULT_TECH_FIELDS.map(f => ({ ...f, id: crypto.randomUUID() })))
       setTimelineItems(DEFAULT_TIMELINE_FIELDS.map(f => ({ ...f, id: crypto.randomUUID() })))
-      setPaymentSplits([
-        { id: crypto.randomUUID(), label: "Initial Deposit", percentage: 50 },
-        { id: crypto.randomUUID(), label: "Final Delivery", percentage: 50 },
-      ])
+      setMilestones(DEFAULT_MILESTONES.map(m => ({ ...m, id: crypto.randomUUID() })))
     }
-  }, [initialDeliverables, initialData])
-
-  const commissionRate = orderSource === "fiverr" ? 0.20 : 0
-  const commissionAmount = amount * commissionRate
-  const netAmount = amount - commissionAmount
+  }, [initialDeliverables, initialMilestones, source, fromTemplate, template])
+
+  const selectedSource = findOrderSource(orderSources, orderSource)
+  // A source deleted since the phase was saved keeps the rate it was saved with
+  const commissionSource = selectedSource ?? (
+    orderSource === initialData?.order_source && initialData?.commission_rate
+      ? { commission_type: "percentage", commission_percent: Number(initialData.commission_rate) * 100, commission_flat: 0, commission_tiers: [] }
+      : null
+  )
+  const {
+    rate: commissionRate,
+    amount: commissionAmount,
+    net: netAmount,
+  } = calculateCommission(commissionSource, amount)
+  const hasCommission = commissionAmount > 0
+  const isLegacySource = orderSource !== DIRECT_ORDER_SOURCE && !selectedSource
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
@@ -439,25 +544,20 @@ export function PhaseForm({
     }
 
     if (usePaymentTemplate) {
-      values.payment_schedule = paymentSplits
-        .filter(split => split.label && split.percentage > 0)
-        .map(split => {
-          const splitAmount = (split.percentage / 100) * amount
-          return `• **${split.label}**: ${split.percentage}% ($${splitAmount.toFixed(2)})`
-        })
-        .join("\n")
+      values.payment_schedule = formatMilestoneSchedule(milestones, amount, currency)
     } else {
       values.payment_schedule = formData.get("payment_schedule") as string
     }
 
     if (isAdmin) {
+      values.currency = currency
       values.amount = amount
       values.commission_rate = commissionRate
       values.commission_amount = commissionAmount
       values.net_amount = netAmount
     }
 
-    await onSubmit(values, deliverables, lineItems)
+    await onSubmit(values, deliverables, lineItems, usePaymentTemplate ? milestones : [])
   }
 
   return (
@@ -469,7 +569,7 @@ export function PhaseForm({
             id="title"
             name="title"
             placeholder="e.g. Website Redesign Phase 1"
-            defaultValue={initialData?.title}
+            defaultValue={source?.title}
             required
           />
         </div>
@@ -495,7 +595,7 @@ export function PhaseForm({
             id="description"
             name="description"
             placeholder="Briefly describe the phase..."
-            defaultValue={initialData?.description || ""}
+            defaultValue={source?.description || ""}
           />
         </div>
         <KeyValueTemplate
@@ -509,7 +609,7 @@ export function PhaseForm({
           onChange={(id, field, val) => setTechStackItems(techStackItems.map(i => i.id === id ? { ...i, [field]: val } : i))}
           textareaName="tech_stack"
           textareaPlaceholder="Describe the tools, technologies, and architecture..."
-          defaultValue={initialData?.tech_stack || ""}
+          defaultValue={source?.tech_stack || ""}
         />
 
         <KeyValueTemplate
@@ -523,20 +623,30 @@ export function PhaseForm({
           onChange={(id, field, val) => setTimelineItems(timelineItems.map(i => i.id === id ? { ...i, [field]: val } : i))}
           textareaName="timeline"
           textareaPlaceholder="Outline the key dates and milestones..."
-          defaultValue={initialData?.timeline || ""}
+          defaultValue={source?.timeline || ""}
         />
 
         <PaymentScheduleTemplate
           useTemplate={usePaymentTemplate}
           onToggle={() => setUsePaymentTemplate(!usePaymentTemplate)}
-          splits={paymentSplits}
-          onAdd={() => setPaymentSplits([...paymentSplits, { id: crypto.randomUUID(), label: "", percentage: 0 }])}
-          onRemove={(id) => setPaymentSplits(paymentSplits.filter(s => s.id !== id))}
-          onChange={(id, field, val) => setPaymentSplits(paymentSplits.map(s => s.id === id ? { ...s, [field]: val } : s))}
+          milestones={milestones}
+          onAdd={() => setMilestones([...milestones, {
+            id: crypto.randomUUID(),
+            label: "",
+            percentage: 0,
+            amount: null,
+            trigger: "on_delivery",
+            due_date: null,
+            invoice_id: null,
+          }])}
+          onRemove={(id) => setMilestones(milestones.filter(m => m.id !== id))}
+          onChange={(id, patch) => setMilestones(milestones.map(m => m.id === id ? { ...m, ...patch } : m))}
           totalAmount={amount}
+          currency={currency}
           textareaName="payment_schedule"
           textareaPlaceholder="Details about payment terms and schedule..."
-          defaultValue={initialData?.payment_schedule || ""}
+          defaultValue={source?.payment_schedule || ""}
+          readOnly={!isAdmin}
         />
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -548,8 +658,13 @@ export function PhaseForm({
               value={orderSource}
               onChange={(e) => setOrderSource(e.target.value)}
             >
-              <option value="direct">Direct (Bank Transfer)</option>
-              <option value="fiverr">Fiverr</option>
+              <option value={DIRECT_ORDER_SOURCE}>Direct (Bank Transfer)</option>
+              {orderSources.map(source => (
+                <option key={source.id} value={source.key}>{source.name}</option>
+              ))}
+              {isLegacySource && (
+                <option value={orderSource}>{getOrderSourceName(orderSources, orderSource)}</option>
+              )}
             </select>
           </div>
           <div className="space-y-2">
@@ -574,7 +689,21 @@ export function PhaseForm({
           <>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="amount">Gross Amount ($)</Label>
+                <Label htmlFor="currency">Currency</Label>
+                <select
+                  id="currency"
+                  name="currency"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c.code} value={c.code}>{c.code} · {c.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amount">Gross Amount ({currency})</Label>
                 <Input
                   id="amount"
                   name="amount"
@@ -586,19 +715,21 @@ export function PhaseForm({
                   required
                 />
               </div>
-              {orderSource === "fiverr" && (
+              {hasCommission && (
                 <div className="space-y-2">
-                  <Label>Commission (20%)</Label>
+                  <Label>
+                    Commission ({selectedSource ? describeCommission(selectedSource, currency) : `${(commissionRate * 100).toFixed(1)}%`})
+                  </Label>
                   <div className="h-10 flex items-center px-3 rounded-md border border-input bg-muted/50 text-sm">
-                    -${commissionAmount.toFixed(2)}
+                    -{formatCurrency(commissionAmount, currency)}
                   </div>
                 </div>
               )}
             </div>
-            {orderSource === "fiverr" && (
+            {hasCommission && (
               <div className="p-3 rounded-lg bg-primary/5 border border-primary/10 flex justify-between items-center">
                 <span className="text-sm font-medium">Net Revenue</span>
-                <span className="text-lg font-bold text-primary">${netAmount.toFixed(2)}</span>
+                <span className="text-lg font-bold text-primary">{formatCurrency(netAmount, currency)}</span>
               </div>
             )}
           </>
@@ -617,6 +748,9 @@ export function PhaseForm({
       <LineItemsManager
         lineItems={lineItems}
         onChange={setLineItems}
+        currency={currency}
+        showTax={!!organization.vat_enabled}
+        defaultTaxRate={getDefaultTaxRate(organization)}
       />
 
       <div className="flex flex-col sm:flex-row justify-between gap-3 pt-4 border-t">
@@ -8,7 +8,8 @@ import {
   IconExternalLink,
   IconSend,
   IconX,
-  IconPlayerPause
+  IconPlayerPause,
+  IconTemplate
 } from "@tabler/icons-react"
 import { toast } from "sonner"
 import { DataTable, DragHandle } from "@/components/data-table"
@@ -30,7 +31,10 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import type { Tables } from "@/lib/database.types"
+import { formatCurrency } from "@/lib/currency"
 import { useAuth } from "@/hooks/use-auth"
+import { useOrderSources } from "@/hooks/use-order-sources"
+import { getOrderSourceName, isInvoicedDirectly } from "@/lib/order-sources"
 
 type Phase = Tables<"phases">
 
@@ -43,6 +47,7 @@ interface PhasesTableProps {
   onStatusChange?: (id: string, status: string) => void
   onGenerateInvoice?: (phase: Phase) => void
   onExportProposal?: (phase: Phase) => void
+  onSaveAsTemplate?: (phase: Phase) => void
   onRowSelectionChange?: (rowSelection: any) => void
   onDataChange?: (data: Phase[]) => void
   isLoading?: boolean
@@ -58,12 +63,14 @@ export function PhasesTable({
   onStatusChange,
   onGenerateInvoice,
   onExportProposal,
+  onSaveAsTemplate,
   onRowSelectionChange,
   onDataChange,
   isLoading,
   toolbar
 }: PhasesTableProps) {
   const { role, checkPermission } = useAuth()
+  const { orderSources } = useOrderSources()
   const isAdmin = role === "admin"
 
   const canUpdate = checkPermission('update', 'phases')
@@ -161,10 +168,10 @@ export function PhasesTable({
         cell: ({ row }: { row: any }) => (
           <div className="text-right font-medium">
             <div className="flex flex-col items-end">
-              <span>${row.original.amount?.toLocaleString()}</span>
-              {row.original.order_source === "fiverr" && (
+              <span>{formatCurrency(row.original.amount, row.original.currency)}</span>
+              {Number(row.original.commission_amount) > 0 && (
                 <span className="text-[10px] text-muted-foreground">
-                  Net: ${row.original.net_amount?.toLocaleString()}
+                  Net: {formatCurrency(row.original.net_amount, row.original.currency)}
                 </span>
               )}
             </div>
@@ -177,7 +184,7 @@ export function PhasesTable({
       header: "Source",
       cell: ({ row }) => (
         <Badge variant="outline" className="capitalize">
-          {row.original.order_source === "fiverr" ? "Fiverr" : "Direct"}
+          {getOrderSourceName(orderSources, row.original.order_source)}
         </Badge>
       ),
     },
@@ -292,7 +299,7 @@ export function PhasesTable({
               <DropdownMenuItem onClick={() => onEdit(row.original)}>Edit</DropdownMenuItem>
             )}
 
-            {isAdmin && onGenerateInvoice && row.original.amount && row.original.order_source !== "fiverr" && (
+            {isAdmin && onGenerateInvoice && row.original.amount && isInvoicedDirectly(orderSources, row.original.order_source) && (
               <DropdownMenuItem onClick={() => onGenerateInvoice(row.original)}>
                 <IconFileText className="mr-2 h-4 w-4" /> Generate Invoice
               </DropdownMenuItem>
@@ -304,6 +311,12 @@ export function PhasesTable({
               </DropdownMenuItem>
             )}
 
+            {isAdmin && onSaveAsTemplate && (
+              <DropdownMenuItem onClick={() => onSaveAsTemplate(row.original)}>
+                <IconTemplate className="mr-2 h-4 w-4" /> Save as Template
+              </DropdownMenuItem>
+            )}
+
             <DropdownMenuItem onClick={() => {
               navigator.clipboard.writeText(row.original.id)
               toast.success("ID copied to clipboard")
@@ -1,5 +1,6 @@
 import * as React from "react"
 import { toast } from "sonner"
+import { useSearchParams } from "react-router-dom"
 import { supabase } from "@/lib/supabase"
 import type { Tables } from "@/lib/database.types"
 import { DocumentsTable } from "@/components/projects/documents-table"
@@ -32,6 +33,8 @@ interface ProjectDocumentsTabProps {
 }
 
 export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const documentIdParam = searchParams.get("documentId")
   const { user } = useAuth()
   const [documents, setDocuments] = React.useState<Document[]>([])
   const [phases, setPhases] = React.useState<Phase[]>([])
@@ -88,6 +91,27 @@ export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
     }
   }, [fetchDocuments, fetchPhases, projectId])
 
+  // Handle deep links from search
+  React.useEffect(() => {
+    if (documentIdParam && documents.length > 0 && editingDocument?.id !== documentIdParam) {
+      const doc = documents.find(d => d.id === documentIdParam)
+      if (doc) {
+        setEditingDocument(doc)
+        setIsDialogOpen(true)
+      }
+    }
+  }, [documentIdParam, documents, editingDocument])
+
+  // Clear documentId from URL when the dialog is closed
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open)
+    if (!open && searchParams.has("documentId")) {
+      const newParams = new URLSearchParams(searchParams)
+      newParams.delete("documentId")
+      setSearchParams(newParams)
+    }
+  }
+
   const handleAdd = () => {
     setEditingDocument(null)
     setIsDialogOpen(true)
@@ -195,7 +219,7 @@ export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
         toast.success("Document created successfully")
       }
 
-      setIsDialogOpen(false)
+      handleDialogOpenChange(false)
       fetchDocuments()
     } catch (error: any) {
       toast.error("Failed to save document: " + error.message)
@@ -222,7 +246,7 @@ export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
         isLoading={isLoading}
       />
 
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
         <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingDocument ? "Edit Document" : "New Document"}</DialogTitle>
@@ -236,7 +260,7 @@ export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
           <DocumentForm
             initialData={editingDocument}
             onSubmit={handleSubmit}
-            onCancel={() => setIsDialogOpen(false)}
+            onCancel={() => handleDialogOpenChange(false)}
             isSubmitting={isSubmitting}
           />
         </DialogContent>
@@ -0,0 +1,216 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
+import { IconPaperclip, IconReceipt, IconRepeat } from "@tabler/icons-react"
+import { supabase } from "@/lib/supabase"
+import { useOrganization } from "@/hooks/use-organization"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { convertToBaseCurrency, formatCurrency, resolveCurrency } from "@/lib/currency"
+import {
+  getExpenseCategoryName,
+  openReceipt,
+  summarizeExpensesByCategory,
+  type ExpenseWithCategory,
+} from "@/lib/expenses"
+
+interface ProjectFinancesTabProps {
+  projectId: string
+}
+
+export function ProjectFinancesTab({ projectId }: ProjectFinancesTabProps) {
+  const { organization } = useOrganization()
+  const baseCurrency = resolveCurrency(organization.currency)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [expenses, setExpenses] = React.useState<ExpenseWithCategory[]>([])
+  const [revenue, setRevenue] = React.useState(0)
+  const [unconvertedPayments, setUnconvertedPayments] = React.useState(0)
+
+  React.useEffect(() => {
+    async function fetchFinances() {
+      try {
+        setIsLoading(true)
+        const [expensesRes, paymentsRes, ratesRes] = await Promise.all([
+          supabase
+            .from("expenses")
+            .select("*, expense_categories(name)")
+            .eq("project_id", projectId)
+            .order("date", { ascending: false }),
+          supabase
+            .from("invoice_payments")
+            .select("amount, paid_on, invoices!inner(project_id, currency)")
+            .eq("invoices.project_id", projectId),
+          supabase
+            .from("exchange_rates")
+            .select("*"),
+        ])
+
+        if (expensesRes.error) throw expensesRes.error
+        if (paymentsRes.error) throw paymentsRes.error
+        if (ratesRes.error) throw ratesRes.error
+
+        let received = 0
+        let unconverted = 0
+        paymentsRes.data?.forEach(payment => {
+          const amount = convertToBaseCurrency(
+            Number(payment.amount) || 0,
+            resolveCurrency(payment.invoices?.currency),
+            payment.paid_on,
+            baseCurrency,
+            ratesRes.data || []
+          )
+          if (amount === null) unconverted += 1
+          else received += amount
+        })
+
+        setExpenses(expensesRes.data || [])
+        setRevenue(received)
+        setUnconvertedPayments(unconverted)
+      } catch (error: any) {
+        console.error("Error fetching project finances:", error)
+        toast.error("Failed to load project finances: " + error.message)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchFinances()
+  }, [projectId, baseCurrency])
+
+  const totalExpenses = expenses.reduce((acc, e) => acc + (Number(e.amount) || 0), 0)
+  const profit = revenue - totalExpenses
+  const margin = revenue ? (profit / revenue) * 100 : null
+  const byCategory = React.useMemo(() => summarizeExpensesByCategory(expenses), [expenses])
+
+  const handleViewReceipt = async (path: string) => {
+    try {
+      await openReceipt(path)
+    } catch (error) {
+      console.error("Error opening receipt:", error)
+      toast.error("Failed to open receipt")
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 md:grid-cols-3">
+        <Skeleton className="h-28" />
+        <Skeleton className="h-28" />
+        <Skeleton className="h-28" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4 overflow-y-auto">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Received</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(revenue, baseCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              {unconvertedPayments > 0
+                ? `${unconvertedPayments} payment(s) left out for lack of an exchange rate`
+                : "Payments on this project's invoices"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Expenses</CardDescription>
+            <CardTitle className="text-2xl text-red-600">{formatCurrency(totalExpenses, baseCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">{expenses.length} expense(s) booked to this project</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Margin</CardDescription>
+            <CardTitle className={`text-2xl ${profit < 0 ? "text-red-600" : "text-emerald-600"}`}>
+              {formatCurrency(profit, baseCurrency)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              {margin === null ? "No payments received yet" : `${margin.toFixed(1)}% of revenue`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-5">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>By Category</CardTitle>
+            <CardDescription>Where this project's costs go.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {byCategory.map(category => (
+              <div key={category.id} className="space-y-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{category.name}</span>
+                  <span className="font-mono">{formatCurrency(category.amount, baseCurrency)}</span>
+                </div>
+                <Progress value={totalExpenses ? (category.amount / totalExpenses) * 100 : 0} />
+              </div>
+            ))}
+            {byCategory.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">No expenses yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Expenses</CardTitle>
+            <CardDescription>Add expenses against this project from the Finances page.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {expenses.length === 0 ? (
+              <div className="flex flex-col items-center py-6 text-muted-foreground">
+                <IconReceipt className="h-10 w-10 opacity-20" />
+                <p className="mt-2 text-sm">Nothing booked to this project.</p>
+              </div>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {expenses.map(expense => (
+                  <div key={expense.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 space-y-0.5">
+                      <p className="flex items-center gap-1 text-sm font-medium">
+                        {expense.description}
+                        {expense.recurring_expense_id && <IconRepeat className="h-3 w-3 text-muted-foreground" />}
+                      </p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline" className="h-5 text-[10px]">{getExpenseCategoryName(expense)}</Badge>
+                        {expense.date && format(parseISO(expense.date), "MMM d, yyyy")}
+                      </div>
+                    </div>
+                    {expense.receipt_path && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        onClick={() => handleViewReceipt(expense.receipt_path!)}
+                      >
+                        <IconPaperclip className="h-4 w-4" />
+                        <span className="sr-only">View receipt</span>
+                      </Button>
+                    )}
+                    <span className="font-mono text-sm text-red-600">
+                      -{formatCurrency(Number(expense.amount) || 0, baseCurrency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,5 @@
 import * as React from "react"
 import { toast } from "sonner"
-import { jsPDF } from "jspdf"
-import autoTable from "jspdf-autotable"
 import { supabase } from "@/lib/supabase"
 import { useOrganization } from "@/hooks/use-organization"
 import type { Tables } from "@/lib/database.types"
@@ -19,12 +17,26 @@ import {
 } from "@/components/ui/dialog"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { Button } from "@/components/ui/button"
-import { IconFileText } from "@tabler/icons-react"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { IconFileText, IconTrash } from "@tabler/icons-react"
 import { updateProjectStatus } from "@/lib/projects"
 import { slugify } from "@/lib/utils"
 import { useAuth } from "@/hooks/use-auth"
-import { GenerateInvoiceDialog } from "./generate-invoice-dialog"
-import { AREHSOFT_LOGO_BASE64 } from "@/lib/logo-base64"
+import { GenerateInvoiceDialog, type BilledTime } from "./generate-invoice-dialog"
+import { ExportProposalDialog } from "./export-proposal-dialog"
+import { SavePhaseTemplateDialog } from "./save-phase-template-dialog"
+import { resolveCurrency } from "@/lib/currency"
+import { buildInvoicePdf } from "@/lib/invoice-pdf"
+import { calculateInvoiceTotals, getDefaultTaxRate } from "@/lib/invoices"
+import { saveMilestones, type MilestoneDraft } from "@/lib/milestones"
+import { getTemplateTasks, type PhaseTemplate } from "@/lib/phase-templates"
 
 type Phase = Tables<"phases">
 
@@ -34,8 +46,10 @@ interface ProjectPhasesTabProps {
 
 export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
   const { organization } = useOrganization()
-  const { role } = useAuth()
+  const { user, role, checkPermission } = useAuth()
   const isAdmin = role === "admin"
+  // Staff who can create phases can start from a template; only admins manage them
+  const canUseTemplates = checkPermission("create", "phases")
   const [phases, setPhases] = React.useState<Phase[]>([])
   const [isLoading, setIsLoading] = React.useState(true)
   const [isDialogOpen, setIsDialogOpen] = React.useState(false)
@@ -43,6 +57,7 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
   const [viewingPhase, setViewingPhase] = React.useState<Phase | null>(null)
   const [isViewModalOpen, setIsViewModalOpen] = React.useState(false)
   const [deliverables, setDeliverables] = React.useState<Deliverable[]>([])
+  const [milestones, setMilestones] = React.useState<MilestoneDraft[]>([])
   const [isSubmitting, setIsSubmitting] = React.useState(false)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = React.useState(false)
   const [phaseToDelete, setPhaseToDelete] = React.useState<string | null>(null)
@@ -51,6 +66,12 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
   const [isInvoiceDialogOpen, setIsInvoiceDialogOpen] = React.useState(false)
   const [phaseForInvoice, setPhaseForInvoice] = React.useState<Phase | null>(null)
   const [isGeneratingInvoice, setIsGeneratingInvoice] = React.useState(false)
+  const [clientCurrency, setClientCurrency] = React.useState<string | null>(null)
+  const [phaseForExport, setPhaseForExport] = React.useState<Phase | null>(null)
+  const [phaseForTemplate, setPhaseForTemplate] = React.useState<Phase | null>(null)
+  const [templates, setTemplates] = React.useState<PhaseTemplate[]>([])
+  const [selectedTemplate, setSelectedTemplate] = React.useState<PhaseTemplate | null>(null)
+  const [templateToDelete, setTemplateToDelete] = React.useState<PhaseTemplate | null>(null)
 
   const selectedPhases = React.useMemo(() => {
     return phases.filter(p => rowSelection[p.id])
@@ -61,184 +82,11 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
     setIsInvoiceDialogOpen(true)
   }
 
-  const handleExportProposal = async (phase: Phase) => {
-    try {
-      const { data: project, error: projectError } = await supabase
-        .from("projects")
-        .select(`
-          name,
-          clients (
-            first_name,
-            last_name,
-            email
-          )
-        `)
-        .eq("id", projectId)
-        .single()
-
-      if (projectError) throw projectError
-
-      const { data: deliverables, error: deliverablesError } = await supabase
-        .from("deliverables")
-        .select("*")
-        .eq("phase_id", phase.id)
-        .order("order_index", { ascending: true })
-
-      if (deliverablesError) throw deliverablesError
-
-      const doc = new jsPDF()
-      const client: any = project.clients
-
-      // Header
-      doc.addImage(AREHSOFT_LOGO_BASE64, "PNG", 20, 10, 15, 15)
-
-      doc.setFontSize(22)
-      doc.setTextColor(0, 0, 0)
-      doc.text("PROJECT PROPOSAL", 190, 20, { align: "right" })
-
-      doc.setFontSize(10)
-      doc.setTextColor(100)
-      doc.text(organization.name || "Arehsoft", 20, 30)
-      doc.text(organization.email || "contact@arehsoft.com", 20, 35)
-
-      // Proposal Date
-      doc.setFontSize(10)
-      doc.setTextColor(0)
-      doc.text(`Date: ${new Date().toLocaleDateString()}`, 190, 30, { align: "right" })
-
-      // Client Info
-      doc.setFontSize(12)
-      doc.text("Prepared For:", 20, 50)
-      doc.setFontSize(10)
-      if (client) {
-        const fullName = [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
-        doc.text(fullName, 20, 57)
-      } else {
-        doc.text("N/A", 20, 57)
-      }
-
-      // Project Info
-      doc.setFontSize(12)
-      doc.text("Project:", 120, 50)
-      doc.setFontSize(10)
-      doc.text(project.name, 120, 57)
-      doc.text(`Phase: ${phase.title}`, 120, 62)
-
-      // Summary
-      doc.setFontSize(14)
-      doc.text("Executive Summary", 20, 80)
-      doc.setFontSize(10)
-      const splitDescription = doc.splitTextToSize(phase.description || "No description provided.", 170)
-      doc.text(splitDescription, 20, 87)
-
-      const summaryHeight = splitDescription.length * 5
-      let nextY = 87 + summaryHeight + 15
-
-      // Deliverables
-      if (deliverables && deliverables.length > 0) {
-        doc.setFontSize(14)
-        doc.text("Deliverables", 20, nextY)
-        nextY += 7
-
-        const deliverableData = deliverables.map((d: any, index: number) => [
-          (index + 1).toString(),
-          d.title,
-          d.description || ""
-        ])
-
-        autoTable(doc, {
-          startY: nextY,
-          head: [["#", "Deliverable", "Description"]],
-          body: deliverableData,
-          theme: "grid",
-          headStyles: { fillColor: [0, 0, 0] },
-          margin: { left: 20, right: 20 },
-          styles: { fontSize: 9 },
-          columnStyles: {
-            0: { cellWidth: 10 },
-            1: { cellWidth: 50 },
-            2: { cellWidth: "auto" }
-          }
-        })
-
-        nextY = (doc as any).lastAutoTable.finalY + 15
-      }
-
-      // Technical Stack & Architecture
-      if (phase.tech_stack) {
-        if (nextY > 250) {
-          doc.addPage()
-          nextY = 20
-        }
-        doc.setFontSize(14)
-        doc.text("Technical Stack & Architecture", 20, nextY)
-        nextY += 7
-        doc.setFontSize(10)
-        const splitTechStack = doc.splitTextToSize(phase.tech_stack, 170)
-        doc.text(splitTechStack, 20, nextY)
-        nextY += (splitTechStack.length * 5) + 15
-      }
-
-      // Project Timeline & Milestones
-      if (phase.timeline) {
-        if (nextY > 250) {
-          doc.addPage()
-          nextY = 20
-        }
-        doc.setFontSize(14)
-        doc.text("Project Timeline & Milestones", 20, nextY)
-        nextY += 7
-        doc.setFontSize(10)
-        const splitTimeline = doc.splitTextToSize(phase.timeline, 170)
-        doc.text(splitTimeline, 20, nextY)
-        nextY += (splitTimeline.length * 5) + 15
-      }
-
-      // Payment Schedule
-      if (phase.payment_schedule) {
-        if (nextY > 250) {
-          doc.addPage()
-          nextY = 20
-        }
-        doc.setFontSize(14)
-        doc.text("Payment Schedule", 20, nextY)
-        nextY += 7
-        doc.setFontSize(10)
-        const splitPayment = doc.splitTextToSize(phase.payment_schedule, 170)
-        doc.text(splitPayment, 20, nextY)
-        nextY += (splitPayment.length * 5) + 15
-      }
-
-      // Investment
-      if (nextY > 250) {
-        doc.addPage()
-        nextY = 20
-      }
-
-      doc.setFontSize(14)
-      doc.text("Investment", 20, nextY)
-      nextY += 7
-
-      doc.setFontSize(10)
-      doc.text("The total investment for this phase is:", 20, nextY)
-      doc.setFontSize(16)
-      doc.text(`$${Number(phase.amount).toLocaleString()} USD`, 20, nextY + 10)
-
-      // Footer
-      doc.setFontSize(10)
-      doc.setTextColor(100)
-      const footerY = 280
-      doc.text("Thank you for considering our proposal.", 20, footerY)
-      doc.text("Valid for 30 days.", 190, footerY, { align: "right" })
-
-      doc.save(`Proposal-${project.name}-${phase.title}.pdf`)
-      toast.success("Proposal exported successfully")
-    } catch (error: any) {
-      toast.error("Failed to export proposal: " + error.message)
-    }
+  const handleExportProposal = (phase: Phase) => {
+    setPhaseForExport(phase)
   }
 
-  const handleConfirmInvoice = async (invoiceNumber: string, hideLineItems: boolean) => {
+  const handleConfirmInvoice = async (invoiceNumber: string, hideLineItems: boolean, billedTime: BilledTime) => {
     if (!phaseForInvoice) return
 
     try {
@@ -255,7 +103,9 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
             address,
             city,
             state,
-            country
+            country,
+            vat_number,
+            vat_treatment
           )
         `)
         .eq("id", projectId)
@@ -263,10 +113,28 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
 
       if (projectError) throw projectError
 
-      const lineItems: LineItem[] = (phaseForInvoice as any).invoice_line_items || []
-      const totalAmount = lineItems.length > 0
-        ? lineItems.reduce((sum, item) => sum + (Number(item.price) * Number(item.quantity)), 0)
-        : Number(phaseForInvoice.amount)
+      const phaseLineItems: LineItem[] = (phaseForInvoice as any).invoice_line_items || []
+      // The phase's own line items, or one line for its fixed amount, plus any billed hours
+      const baseLineItems: LineItem[] = phaseLineItems.length > 0
+        ? phaseLineItems
+        : Number(phaseForInvoice.amount) > 0
+          ? [{
+            id: phaseForInvoice.id,
+            description: phaseForInvoice.title,
+            details: phaseForInvoice.description || "Project Phase",
+            price: Number(phaseForInvoice.amount),
+            quantity: 1,
+          }]
+          : []
+      // Lines saved before VAT support, and billed hours, take the organization's rate
+      const defaultTaxRate = getDefaultTaxRate(organization)
+      const lineItems: LineItem[] = [...baseLineItems, ...billedTime.lineItems]
+        .map(item => ({ ...item, tax_rate: item.tax_rate ?? defaultTaxRate }))
+      const vatTreatment = project.clients?.vat_treatment || "standard"
+      const totals = calculateInvoiceTotals(lineItems, vatTreatment)
+
+      // Invoices are billed in the currency the phase was priced in
+      const invoiceCurrency = resolveCurrency(phaseForInvoice.currency)
 
       // Save to database
       const { data: invoice, error: invoiceError } = await supabase
@@ -276,7 +144,11 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
           project_id: projectId,
           phase_id: phaseForInvoice.id,
           client_id: project.client_id,
-          amount: totalAmount,
+          amount: totals.total,
+          subtotal: totals.subtotal,
+          tax_amount: totals.taxAmount,
+          vat_treatment: vatTreatment,
+          currency: invoiceCurrency,
           line_items: lineItems as any,
           status: "sent"
         })
@@ -291,95 +163,28 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
         .update({ invoice_id: invoice.id })
         .eq("id", phaseForInvoice.id)
 
-      const doc = new jsPDF()
-      const client: any = project.clients
-
-      // Header
-      doc.addImage(AREHSOFT_LOGO_BASE64, "PNG", 20, 10, 15, 15)
-
-      doc.setFontSize(10)
-      doc.setTextColor(100)
-      doc.text(organization.name || "Arehsoft", 20, 30)
-      doc.text(organization.email || "contact@arehsoft.com", 20, 35)
-      doc.text(organization.website || "arehsoft.com", 20, 40)
-
-      // Invoice Label
-      doc.setFontSize(24)
-      doc.setTextColor(0)
-      doc.text("INVOICE", 190, 20, { align: "right" })
-
-      doc.setFontSize(10)
-      doc.text(`Invoice #: ${invoiceNumber}`, 190, 30, { align: "right" })
-      doc.text(`Date: ${new Date().toLocaleDateString()}`, 190, 35, { align: "right" })
-
-      // Client Info
-      doc.setFontSize(12)
-      doc.text("Bill To:", 20, 55)
-      doc.setFontSize(10)
-      if (client) {
-        const fullName = [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
-        doc.text(fullName, 20, 62)
-        if (client.email) doc.text(client.email, 20, 67)
-      } else {
-        doc.text("N/A", 20, 62)
-      }
+      // Mark billed hours so they can't be invoiced twice
+      if (billedTime.entryIds.length > 0) {
+        const { error: timeError } = await supabase
+          .from("time_entries")
+          .update({ invoice_id: invoice.id })
+          .in("id", billedTime.entryIds)
 
-      // Table
-      const tableData = lineItems.length > 0
-        ? lineItems.map(item => {
-          const row = [item.description, item.details]
-          if (!hideLineItems) {
-            row.push(`$${Number(item.price).toLocaleString()}`)
-            row.push(item.quantity.toString())
-            row.push(`$${(Number(item.price) * Number(item.quantity)).toLocaleString()}`)
-          }
-          return row
-        })
-        : [
-          (() => {
-            const row = [phaseForInvoice.title, phaseForInvoice.description || "Project Phase"]
-            if (!hideLineItems) {
-              row.push(`$${Number(phaseForInvoice.amount).toLocaleString()}`)
-              row.push("1")
-              row.push(`$${Number(phaseForInvoice.amount).toLocaleString()}`)
-            }
-            return row
-          })()
-        ]
-
-      const head = ["Description", "Details"]
-      if (!hideLineItems) {
-        head.push("Price (USD)", "Qty", "Total (USD)")
+        if (timeError) throw timeError
       }
 
-      autoTable(doc, {
-        startY: 90,
-        head: [head],
-        body: tableData,
-        theme: "striped",
-        headStyles: { fillColor: [0, 0, 0] },
-        margin: { left: 20, right: 20 },
-        styles: { fontSize: 9 },
-        columnStyles: hideLineItems ? {} : {
-          2: { halign: 'right' },
-          3: { halign: 'center' },
-          4: { halign: 'right' }
-        }
-      })
-
-      const finalY = (doc as any).lastAutoTable.finalY + 15
-
-      doc.setFontSize(10)
-      doc.setTextColor(100)
-      doc.text("Total Amount (USD)", 190, finalY, { align: "right" })
-      doc.setFontSize(16)
-      doc.setTextColor(0)
-      doc.text(`$${totalAmount.toLocaleString()}`, 190, finalY + 10, { align: "right" })
-
-      // Footer
-      doc.setFontSize(10)
-      doc.setTextColor(100)
-      doc.text("Thank you for your business!", 20, finalY + 40)
+      const doc = buildInvoicePdf({
+        invoiceNumber,
+        date: new Date(),
+        currency: invoiceCurrency,
+        amount: totals.total,
+        subtotal: totals.subtotal,
+        taxAmount: totals.taxAmount,
+        vatTreatment,
+        lineItems,
+        fallbackItem: { description: phaseForInvoice.title, details: phaseForInvoice.description || "Project Phase" },
+        client: project.clients,
+      }, organization, hideLineItems)
 
       doc.save(`Invoice-${project.name}-${phaseForInvoice.title}.pdf`)
       toast.success("Invoice generated and saved successfully")
@@ -449,22 +254,90 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
     }
   }, [])
 
+  const fetchMilestones = React.useCallback(async (phaseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("payment_milestones")
+        .select("*")
+        .eq("phase_id", phaseId)
+        .order("order_index", { ascending: true })
+
+      if (error) throw error
+      setMilestones(data || [])
+    } catch (error: any) {
+      toast.error("Failed to fetch payment milestones: " + error.message)
+    }
+  }, [])
+
   React.useEffect(() => {
     if (projectId) {
       fetchPhases()
     }
   }, [fetchPhases, projectId])
 
+  // New phases are priced in the client's currency unless it is changed on the form
+  React.useEffect(() => {
+    if (!projectId) return
+
+    const fetchClientCurrency = async () => {
+      const { data, error } = await supabase
+        .from("projects")
+        .select("clients (currency)")
+        .eq("id", projectId)
+        .single()
+
+      if (error) {
+        console.error("Error fetching client currency:", error)
+        return
+      }
+      setClientCurrency(data?.clients?.currency ?? null)
+    }
+    fetchClientCurrency()
+  }, [projectId])
+
+  const fetchTemplates = async () => {
+    const { data, error } = await supabase
+      .from("phase_templates")
+      .select("*")
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching phase templates:", error)
+      return
+    }
+    setTemplates(data || [])
+  }
+
   const handleEdit = async (phase: Phase | null) => {
     setEditingPhase(phase)
+    setSelectedTemplate(null)
     if (phase) {
-      await fetchDeliverables(phase.id)
+      await Promise.all([fetchDeliverables(phase.id), fetchMilestones(phase.id)])
     } else {
       setDeliverables([])
+      setMilestones([])
+      if (canUseTemplates) await fetchTemplates()
     }
     setIsDialogOpen(true)
   }
 
+  const confirmDeleteTemplate = async () => {
+    if (!templateToDelete) return
+
+    try {
+      const { error } = await supabase.from("phase_templates").delete().eq("id", templateToDelete.id)
+      if (error) throw error
+
+      toast.success("Template deleted")
+      setTemplates(prev => prev.filter(t => t.id !== templateToDelete.id))
+      if (selectedTemplate?.id === templateToDelete.id) setSelectedTemplate(null)
+    } catch (error: any) {
+      toast.error("Failed to delete template: " + error.message)
+    } finally {
+      setTemplateToDelete(null)
+    }
+  }
+
   const handleView = (phase: Phase) => {
     setViewingPhase(phase)
     setIsViewModalOpen(true)
@@ -512,7 +385,12 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
     }
   }
 
-  const handleSubmit = async (values: any, updatedDeliverables: Deliverable[], lineItems: LineItem[]) => {
+  const handleSubmit = async (
+    values: any,
+    updatedDeliverables: Deliverable[],
+    lineItems: LineItem[],
+    updatedMilestones: MilestoneDraft[]
+  ) => {
     try {
       setIsSubmitting(true)
       let phaseId = editingPhase?.id
@@ -549,6 +427,23 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
           .single()
         if (error) throw error
         phaseId = data.id
+
+        const starterTasks = selectedTemplate ? getTemplateTasks(selectedTemplate) : []
+        if (starterTasks.length > 0) {
+          const { error: tasksError } = await supabase
+            .from("tasks")
+            .insert(starterTasks.map((task, index) => ({
+              ...task,
+              project_id: projectId,
+              phase_id: data.id,
+              status: "todo",
+              user_id: user?.id,
+              order_index: index,
+            })))
+
+          if (tasksError) throw tasksError
+        }
+
         toast.success("Phase added successfully")
       }
 
@@ -574,6 +469,10 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
 
           if (insertError) throw insertError
         }
+
+        if (isAdmin) {
+          await saveMilestones(phaseId, updatedMilestones)
+        }
       }
 
       await updateProjectStatus(projectId)
@@ -598,6 +497,7 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
         onStatusChange={handleStatusChange}
         onGenerateInvoice={handleGenerateInvoice}
         onExportProposal={handleExportProposal}
+        onSaveAsTemplate={setPhaseForTemplate}
         onRowSelectionChange={setRowSelection}
         onDataChange={handleReorder}
         isLoading={isLoading}
@@ -654,6 +554,19 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
         onOpenChange={setIsInvoiceDialogOpen}
         onConfirm={handleConfirmInvoice}
         isSubmitting={isGeneratingInvoice}
+        phaseId={phaseForInvoice?.id}
+        currency={resolveCurrency(phaseForInvoice?.currency)}
+      />
+
+      <ExportProposalDialog
+        phase={phaseForExport}
+        open={!!phaseForExport}
+        onOpenChange={(open) => !open && setPhaseForExport(null)}
+      />
+
+      <SavePhaseTemplateDialog
+        phase={phaseForTemplate}
+        onOpenChange={(open) => !open && setPhaseForTemplate(null)}
       />
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -667,9 +580,53 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
             </DialogDescription>
           </DialogHeader>
 
+          {!editingPhase && canUseTemplates && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Start from Template</Label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={selectedTemplate?.id ?? "none"}
+                  onValueChange={(value) => setSelectedTemplate(templates.find(t => t.id === value) ?? null)}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Blank phase" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Blank phase</SelectItem>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isAdmin && selectedTemplate && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setTemplateToDelete(selectedTemplate)}
+                  >
+                    <IconTrash className="h-4 w-4" />
+                    <span className="sr-only">Delete template</span>
+                  </Button>
+                )}
+              </div>
+              {selectedTemplate && getTemplateTasks(selectedTemplate).length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {getTemplateTasks(selectedTemplate).length} starter tasks will be added to the new phase.
+                </p>
+              )}
+            </div>
+          )}
+
           <PhaseForm
+            key={selectedTemplate?.id ?? "blank"}
+            template={selectedTemplate}
             initialData={editingPhase}
             initialDeliverables={deliverables}
+            initialMilestones={milestones}
+            defaultCurrency={resolveCurrency(clientCurrency, organization.currency)}
             onSubmit={handleSubmit}
             onCancel={() => setIsDialogOpen(false)}
             isSubmitting={isSubmitting}
@@ -684,6 +641,14 @@ export function ProjectPhasesTab({ projectId }: ProjectPhasesTabProps) {
         title="Delete Phase"
         description="Are you sure you want to delete this phase? This action cannot be undone."
       />
+
+      <ConfirmDialog
+        open={!!templateToDelete}
+        onOpenChange={(open) => !open && setTemplateToDelete(null)}
+        onConfirm={confirmDeleteTemplate}
+        title="Delete Template"
+        description={`Delete the "${templateToDelete?.name}" template? Phases created from it are not affected.`}
+      />
     </div>
   )
 }
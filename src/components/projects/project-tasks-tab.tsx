@@ -9,6 +9,7 @@ import type { Tables } from "@/lib/database.types"
 import { useAuth } from "@/hooks/use-auth"
 
 import { useTasks } from "@/hooks/use-tasks"
+import { toDateColumn, getTaskPlanningColumns } from "@/lib/tasks"
 
 interface ProjectTasksTabProps {
   projectId: string
@@ -165,6 +166,9 @@ export function ProjectTasksTab({ projectId }: ProjectTasksTabProps) {
       
       const taskData = {
         ...rest,
+        start_date: toDateColumn(rest.start_date),
+        due_date: toDateColumn(rest.due_date),
+        ...getTaskPlanningColumns(rest),
         project_id: projectId,
         phase_id: rest.phase_id === "none" ? null : (rest.phase_id || (selectedPhaseId === "all" ? (phases[0]?.id || null) : selectedPhaseId)),
       }
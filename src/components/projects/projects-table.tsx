@@ -8,6 +8,7 @@ import {
   IconPlus,
   IconCheck,
   IconBrandGithub,
+  IconCopy,
 } from "@tabler/icons-react"
 
 import { DataTable, DragHandle } from "@/components/data-table"
@@ -68,6 +69,7 @@ interface ProjectsTableProps {
   onDelete: (id: string) => void
   onAdd: () => void
   onViewPhases: (project: ProjectWithClient) => void
+  onDuplicate?: (project: ProjectWithClient) => void
   disablePadding?: boolean
   onRowClick?: (project: ProjectWithClient) => void
   onAssignMembers?: (projectId: string, memberIds: string[]) => Promise<void>
@@ -90,6 +92,7 @@ export function ProjectsTable({
   onDelete,
   onAdd,
   onViewPhases,
+  onDuplicate,
   disablePadding = true,
   onRowClick,
   onAssignMembers,
@@ -395,6 +398,12 @@ export function ProjectsTable({
               </DropdownMenuItem>
             )}
 
+            {canCreate && onDuplicate && (
+              <DropdownMenuItem onClick={() => onDuplicate(row.original)}>
+                <IconCopy className="mr-2 h-4 w-4" /> Duplicate
+              </DropdownMenuItem>
+            )}
+
             {canDelete && (
               <>
                 <DropdownMenuSeparator />
@@ -0,0 +1,193 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { Tables } from "@/lib/database.types"
+import { supabase } from "@/lib/supabase"
+import { formatCurrency } from "@/lib/currency"
+import { buildProposalPdf, getDefaultProposalOptions, loadOrganizationLogo } from "@/lib/proposal-pdf"
+import { getErrorMessage } from "@/lib/utils"
+import { useOrganization } from "@/hooks/use-organization"
+
+export type ProposalDecision = "accepted" | "rejected"
+
+interface ProposalResponseDialogProps {
+  phase: Tables<"phases">
+  decision: ProposalDecision | null
+  onOpenChange: (open: boolean) => void
+  onResponded: () => void
+}
+
+export function ProposalResponseDialog({ phase, decision, onOpenChange, onResponded }: ProposalResponseDialogProps) {
+  const { organization } = useOrganization()
+  const [signatureName, setSignatureName] = React.useState("")
+  const [agreed, setAgreed] = React.useState(false)
+  const [reason, setReason] = React.useState("")
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (decision) {
+      setSignatureName("")
+      setAgreed(false)
+      setReason("")
+    }
+  }, [decision])
+
+  const isAccepting = decision === "accepted"
+  const canSubmit = isAccepting ? signatureName.trim().length >= 2 && agreed : true
+
+  const storeSignedCopy = async (response: Tables<"proposal_responses">) => {
+    const [projectRes, deliverablesRes, logo] = await Promise.all([
+      supabase
+        .from("projects")
+        .select("name, clients (first_name, last_name, email, vat_treatment)")
+        .eq("id", phase.project_id!)
+        .single(),
+      supabase
+        .from("deliverables")
+        .select("title, description")
+        .eq("phase_id", phase.id)
+        .order("order_index", { ascending: true }),
+      loadOrganizationLogo(organization),
+    ])
+
+    if (projectRes.error) throw projectRes.error
+    if (deliverablesRes.error) throw deliverablesRes.error
+
+    const doc = buildProposalPdf({
+      phase,
+      projectName: projectRes.data.name,
+      client: projectRes.data.clients,
+      deliverables: deliverablesRes.data || [],
+      signature: response,
+    }, organization, { ...getDefaultProposalOptions(organization), logo })
+
+    const { error } = await supabase.storage
+      .from("signed-proposals")
+      .upload(response.signed_pdf_path!, doc.output("blob"), { contentType: "application/pdf" })
+
+    if (error) throw error
+
+    // Until this runs the response shows the signed copy as missing
+    const { error: confirmError } = await supabase.rpc("confirm_signed_proposal_upload", {
+      p_response_id: response.id,
+    })
+
+    if (confirmError) throw confirmError
+  }
+
+  const handleSubmit = async () => {
+    if (!decision) return
+    try {
+      setIsSubmitting(true)
+      const { data: response, error } = await supabase.rpc("respond_to_proposal", {
+        p_phase_id: phase.id,
+        p_decision: decision,
+        p_signature_name: isAccepting ? signatureName.trim() : undefined,
+        p_rejection_reason: isAccepting ? undefined : reason.trim() || undefined,
+      })
+
+      if (error) throw error
+
+      if (isAccepting) {
+        try {
+          await storeSignedCopy(response as Tables<"proposal_responses">)
+        } catch (uploadError) {
+          // The acceptance itself is recorded; only the stored copy is missing
+          console.error("Error storing signed proposal:", uploadError)
+          toast.warning("Proposal accepted, but the signed copy could not be saved")
+        }
+      }
+
+      toast.success(isAccepting ? "Proposal accepted. Thank you!" : "Proposal declined")
+      onOpenChange(false)
+      onResponded()
+    } catch (error) {
+      console.error("Error responding to proposal:", error)
+      toast.error("Failed to submit your response: " + getErrorMessage(error))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!decision} onOpenChange={(open) => !isSubmitting && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isAccepting ? "Accept Proposal" : "Decline Proposal"}</DialogTitle>
+          <DialogDescription>
+            {isAccepting
+              ? `You are accepting "${phase.title}" for ${formatCurrency(phase.amount ?? 0, phase.currency)}. Your typed name, the time and your IP address are recorded as your signature.`
+              : `Let us know why "${phase.title}" doesn't work for you so we can follow up.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAccepting ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="signature_name">Full Name</Label>
+              <Input
+                id="signature_name"
+                placeholder="Type your full name"
+                value={signatureName}
+                onChange={(e) => setSignatureName(e.target.value)}
+                autoComplete="name"
+              />
+              {signatureName.trim() && (
+                <p className="rounded-md border bg-muted/30 px-3 py-2 font-serif text-2xl italic">
+                  {signatureName}
+                </p>
+              )}
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="signature_agree"
+                checked={agreed}
+                onCheckedChange={(checked) => setAgreed(checked === true)}
+              />
+              <Label htmlFor="signature_agree" className="text-sm font-normal leading-snug">
+                I agree that typing my name above is my electronic signature and that I accept this proposal.
+              </Label>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="rejection_reason">Reason (Optional)</Label>
+            <Textarea
+              id="rejection_reason"
+              placeholder="e.g. The budget is higher than we planned for"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={isAccepting ? "default" : "destructive"}
+            onClick={handleSubmit}
+            disabled={!canSubmit || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isAccepting ? "Sign & Accept" : "Decline Proposal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
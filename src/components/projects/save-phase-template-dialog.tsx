@@ -0,0 +1,81 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Tables } from "@/lib/database.types"
+import { savePhaseAsTemplate } from "@/lib/phase-templates"
+import { getErrorMessage } from "@/lib/utils"
+
+interface SavePhaseTemplateDialogProps {
+  phase: Tables<"phases"> | null
+  onOpenChange: (open: boolean) => void
+  onSaved?: () => void
+}
+
+export function SavePhaseTemplateDialog({ phase, onOpenChange, onSaved }: SavePhaseTemplateDialogProps) {
+  const [name, setName] = React.useState("")
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    if (phase) setName(phase.title)
+  }, [phase])
+
+  const handleSave = async () => {
+    if (!phase || !name.trim()) return
+
+    try {
+      setIsSaving(true)
+      await savePhaseAsTemplate(phase, name.trim())
+      toast.success("Template saved")
+      onOpenChange(false)
+      onSaved?.()
+    } catch (error) {
+      console.error("Error saving phase template:", error)
+      toast.error("Failed to save template: " + getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!phase} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            The description, deliverables, line items, payment splits and top-level tasks are saved for reuse on new phases.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          <Label htmlFor="template_name">Template Name</Label>
+          <Input
+            id="template_name"
+            placeholder="e.g. Landing Page"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,64 @@
+import { format, parseISO } from "date-fns"
+import { IconCalendarDue, IconCalendarEvent } from "@tabler/icons-react"
+import { Badge } from "@/components/ui/badge"
+import { getTaskDueStatus, type TaskDueStatus } from "@/lib/tasks"
+import { cn } from "@/lib/utils"
+
+const dueStatusStyles: Record<TaskDueStatus, string> = {
+  overdue: "bg-red-500/10 text-red-600 hover:bg-red-500/20",
+  "due-today": "bg-orange-500/10 text-orange-600 hover:bg-orange-500/20",
+  "due-soon": "bg-amber-500/10 text-amber-600 hover:bg-amber-500/20",
+  upcoming: "bg-muted text-muted-foreground",
+}
+
+const dueStatusLabels: Record<TaskDueStatus, string> = {
+  overdue: "Overdue",
+  "due-today": "Due today",
+  "due-soon": "Due",
+  upcoming: "Due",
+}
+
+interface TaskDueBadgeProps {
+  task: {
+    status: string
+    start_date?: string | null
+    due_date?: string | null
+  }
+  className?: string
+}
+
+export function TaskDueBadge({ task, className }: TaskDueBadgeProps) {
+  if (!task.due_date && !task.start_date) return null
+
+  const dueStatus = getTaskDueStatus(task)
+
+  if (!task.due_date) {
+    return (
+      <Badge
+        variant="secondary"
+        className={cn("h-4 px-1 text-[9px] gap-0.5 flex items-center border-transparent font-medium", dueStatusStyles.upcoming, className)}
+      >
+        <IconCalendarEvent className="size-2.5" />
+        Starts {format(parseISO(task.start_date!), "MMM d")}
+      </Badge>
+    )
+  }
+
+  const dueLabel = format(parseISO(task.due_date), "MMM d")
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        "h-4 px-1 text-[9px] gap-0.5 flex items-center border-transparent font-medium",
+        dueStatus ? dueStatusStyles[dueStatus] : "bg-green-500/10 text-green-600 hover:bg-green-500/20",
+        className
+      )}
+    >
+      <IconCalendarDue className="size-2.5" />
+      {dueStatus === "due-today"
+        ? dueStatusLabels["due-today"]
+        : `${dueStatus ? dueStatusLabels[dueStatus] : "Due"} ${dueLabel}`}
+    </Badge>
+  )
+}
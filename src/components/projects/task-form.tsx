@@ -11,6 +11,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import {
   Select,
@@ -24,12 +25,14 @@ import type { Tables } from "@/lib/database.types"
 import type { Task } from "./kanban-board"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/hooks/use-auth"
-import imageCompression from "browser-image-compression"
+import { compressImage } from "@/lib/files"
 import { toast } from "sonner"
 
 import { MultiSelect } from "@/components/ui/multi-select"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { ReminderForm } from "@/components/reminder-form"
+import { TASK_PRIORITIES, TASK_STATUSES, type TaskPriority } from "@/lib/tasks"
+import { TaskTimeEntries } from "@/components/time-tracking/task-time-entries"
 
 const taskSchema = z.object({
   id: z.string().optional(),
@@ -37,6 +40,14 @@ const taskSchema = z.object({
   description: z.string().optional().nullable(),
   status: z.string().optional(),
   type: z.string().nullable().optional(),
+  start_date: z.string().nullable().optional(),
+  due_date: z.string().nullable().optional(),
+  priority: z.enum(["urgent", "high", "medium", "low"]).optional(),
+  estimate: z.string().nullable().optional().refine(
+    (val) => !val || (!isNaN(Number(val)) && Number(val) >= 0),
+    { message: "Estimate must be a positive number" }
+  ),
+  estimate_unit: z.enum(["points", "hours"]).optional(),
   user_id: z.string().nullable().optional(),
   assignee_ids: z.array(z.string()),
   project_id: z.string().nullable().optional(),
@@ -44,18 +55,13 @@ const taskSchema = z.object({
   parent_id: z.string().nullable().optional(),
   subtasks: z.array(z.string()).optional(),
   files: z.array(z.any()).optional(),
-})
+}).refine(
+  (values) => !values.start_date || !values.due_date || values.start_date <= values.due_date,
+  { message: "Due date must be on or after the start date", path: ["due_date"] }
+)
 
 export type TaskFormValues = z.infer<typeof taskSchema>
 
-const TASK_STATUSES = [
-  { id: "backlog", title: "Backlog" },
-  { id: "todo", title: "To Do" },
-  { id: "in progress", title: "In Progress" },
-  { id: "in review", title: "In Review" },
-  { id: "complete", title: "Complete" },
-]
-
 interface TaskFormProps {
   onSubmit: (values: TaskFormValues) => void
   onCancel: () => void
@@ -68,8 +74,14 @@ interface TaskFormProps {
   phases?: Tables<"phases">[]
   projects?: Tables<"projects">[]
   tasks?: Task[]
-  defaultValues?: Partial<TaskFormValues>
+  defaultValues?: Partial<Omit<TaskFormValues, "priority" | "estimate" | "estimate_unit">> & {
+    priority?: string | null
+    estimate?: string | number | null
+    estimate_unit?: string | null
+  }
   hideAssignee?: boolean
+  /** Personal tasks are not tied to a project, so time can't be tracked against them */
+  isPersonal?: boolean
 }
 
 export function TaskForm({ 
@@ -85,7 +97,8 @@ export function TaskForm({
   projects = [],
   tasks = [],
   defaultValues,
-  hideAssignee = false
+  hideAssignee = false,
+  isPersonal = false
 }: TaskFormProps) {
   const [isAddingSubtask, setIsAddingSubtask] = React.useState(false)
   const [newSubtaskTitle, setNewSubtaskTitle] = React.useState("")
@@ -128,6 +141,11 @@ export function TaskForm({
       description: defaultValues?.description || "",
       status: defaultValues?.status || "todo",
       type: defaultValues?.type || "feature",
+      start_date: defaultValues?.start_date || "",
+      due_date: defaultValues?.due_date || "",
+      priority: (defaultValues?.priority as TaskPriority) || "medium",
+      estimate: defaultValues?.estimate != null ? String(defaultValues.estimate) : "",
+      estimate_unit: defaultValues?.estimate_unit === "hours" ? "hours" : "points",
       user_id: defaultValues?.user_id || null,
       assignee_ids: initialAssigneeIds,
       project_id: initialProjectId,
@@ -190,22 +208,7 @@ export function TaskForm({
       setIsUploading(true)
       try {
         for (const file of Array.from(files)) {
-          let fileToUpload = file
-
-          // Compress if it's an image
-          if (file.type.startsWith('image/')) {
-            const options = {
-              maxSizeMB: 1,
-              maxWidthOrHeight: 1920,
-              useWebWorker: true
-            }
-            try {
-              fileToUpload = await imageCompression(file, options)
-            } catch (error) {
-              console.error("Compression error:", error)
-              // Fallback to original file
-            }
-          }
+          const fileToUpload = await compressImage(file)
 
           const fileExt = file.name.split('.').pop()
           const fileName = `${Math.random().toString(36).substring(2)}.${fileExt}`
@@ -464,6 +467,10 @@ export function TaskForm({
             </div>
           </div>
 
+          {defaultValues?.id && !isPersonal && (
+            <TaskTimeEntries taskId={defaultValues.id} />
+          )}
+
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <FormLabel>Reminders</FormLabel>
@@ -680,6 +687,101 @@ export function TaskForm({
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Priority</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    value={field.value || "medium"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select priority" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TASK_PRIORITIES.map((priority) => (
+                        <SelectItem key={priority.id} value={priority.id}>
+                          {priority.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2">
+              <FormField
+                control={form.control}
+                name="estimate"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Estimate</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.5" placeholder="0" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="estimate_unit"
+                render={({ field }) => (
+                  <FormItem className="w-24">
+                    <FormLabel className="invisible">Unit</FormLabel>
+                    <Select 
+                      onValueChange={field.onChange} 
+                      value={field.value || "points"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="points">Points</SelectItem>
+                        <SelectItem value="hours">Hours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="start_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="due_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Due Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             {!hideAssignee && (
               <FormField
                 control={form.control}
@@ -8,7 +8,8 @@ import {
   IconDotsVertical,
   IconPencil,
   IconTrash,
-  IconShare
+  IconShare,
+  IconFlag
 } from "@tabler/icons-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -21,8 +22,10 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { DataTable } from "@/components/data-table"
 import { type Task } from "./kanban-board"
-import { format } from "date-fns"
+import { TaskDueBadge } from "./task-due-badge"
+import { format, parseISO } from "date-fns"
 import { cn } from "@/lib/utils"
+import { TASK_PRIORITIES, formatEstimate, getPriorityRank } from "@/lib/tasks"
 
 interface TasksTableProps {
   tasks: Task[]
@@ -83,6 +86,51 @@ export function TasksTable({
           )
         },
       },
+      {
+        accessorKey: "priority",
+        header: "Priority",
+        sortingFn: (a, b) => getPriorityRank(a.original.priority) - getPriorityRank(b.original.priority),
+        cell: ({ row }) => {
+          const priority = TASK_PRIORITIES.find(p => p.id === (row.original.priority || "medium"))
+          if (!priority) return null
+          return (
+            <Badge variant="secondary" className={cn("gap-1 border-transparent whitespace-nowrap", priority.className)}>
+              <IconFlag className="size-3" />
+              {priority.title}
+            </Badge>
+          )
+        },
+      },
+      {
+        accessorKey: "estimate",
+        header: "Estimate",
+        sortUndefined: "last",
+        cell: ({ row }) => {
+          const label = formatEstimate(row.original.estimate, row.original.estimate_unit)
+          return label
+            ? <span className="text-sm tabular-nums">{label}</span>
+            : <span className="text-xs text-muted-foreground">-</span>
+        },
+      },
+      {
+        accessorKey: "due_date",
+        header: "Due",
+        cell: ({ row }) => {
+          const task = row.original
+          if (!task.due_date && !task.start_date) return <span className="text-xs text-muted-foreground">-</span>
+
+          return (
+            <div className="flex flex-col gap-0.5">
+              <TaskDueBadge task={task} className="h-5 px-1.5 text-[10px]" />
+              {task.start_date && task.due_date && (
+                <span className="text-[10px] text-muted-foreground">
+                  Starts {format(parseISO(task.start_date), "MMM d, yyyy")}
+                </span>
+              )}
+            </div>
+          )
+        },
+      },
       {
         accessorKey: "type",
         header: "Type",
@@ -221,10 +269,29 @@ export function TasksTable({
     [onTaskEdit, onTaskDelete, onTaskUpdate, onShare]
   )
 
+  const [priorityGroup, setPriorityGroup] = React.useState("all")
+
+  const groupedTasks = React.useMemo(() => {
+    if (priorityGroup === "all") return tasks
+    return tasks.filter(t => (t.priority || "medium") === priorityGroup)
+  }, [tasks, priorityGroup])
+
+  const priorityTabs = React.useMemo(() => [
+    { value: "all", label: "All", badge: tasks.length },
+    ...TASK_PRIORITIES.map(p => ({
+      value: p.id,
+      label: p.title,
+      badge: tasks.filter(t => (t.priority || "medium") === p.id).length,
+    })),
+  ], [tasks])
+
   return (
     <DataTable
       columns={columns}
-      data={tasks}
+      data={groupedTasks}
+      tabs={priorityTabs}
+      activeTab={priorityGroup}
+      onTabChange={setPriorityGroup}
       isLoading={isLoading}
       searchPlaceholder="Search tasks..."
       onRowClick={onTaskEdit}
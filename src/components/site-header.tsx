@@ -12,6 +12,8 @@ import { Link, useLocation } from "react-router-dom"
 import { ModeToggle } from "./mode-toggle"
 import { NotificationsButton } from "./notifications-button"
 import { TicketButton } from "./tickets/ticket-button"
+import { ActiveTimerIndicator } from "./time-tracking/active-timer-indicator"
+import { CommandPalette } from "./command-palette"
 import React from "react"
 
 const routeMap: Record<string, string> = {
@@ -120,6 +122,8 @@ export function SiteHeader() {
         </Breadcrumb>
       </div>
       <div className="flex items-center gap-2 px-4 lg:px-6">
+        <CommandPalette />
+        <ActiveTimerIndicator />
         <TicketButton />
         <ModeToggle />
         <NotificationsButton />
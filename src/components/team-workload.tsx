@@ -28,12 +28,18 @@ import {
 import { Skeleton } from "@/components/ui/skeleton"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, TrendingUp, Users, Briefcase, CheckCircle2 } from "lucide-react"
+import { subDays } from "date-fns"
+import { getEntrySeconds, secondsToHours } from "@/lib/time-tracking"
+
+// Logged hours are charted over this many trailing days
+const WORKLOAD_PERIOD_DAYS = 30
 
 interface WorkloadData {
   profiles: any[]
   tasks: any[]
   projects: any[]
   phases: any[]
+  timeEntries: any[]
 }
 
 export function TeamWorkload() {
@@ -49,19 +55,26 @@ export function TeamWorkload() {
           { data: profiles },
           { data: tasks },
           { data: projects },
-          { data: phases }
+          { data: phases },
+          { data: timeEntries }
         ] = await Promise.all([
           supabase.from('profiles').select('*').neq('role', 'client'),
           supabase.from('tasks').select('*'),
           supabase.from('projects').select('*'),
-          supabase.from('phases').select('*')
+          supabase.from('phases').select('*'),
+          supabase
+            .from('time_entries')
+            .select('*')
+            .gte('started_at', subDays(new Date(), WORKLOAD_PERIOD_DAYS).toISOString())
+            .not('ended_at', 'is', null)
         ])
 
         setData({
           profiles: profiles || [],
           tasks: tasks || [],
           projects: projects || [],
-          phases: phases || []
+          phases: phases || [],
+          timeEntries: timeEntries || []
         })
       } catch (err: any) {
         setError(err.message)
@@ -77,30 +90,31 @@ export function TeamWorkload() {
     if (!data) return []
 
     return data.profiles.map(profile => {
-      const memberTasks = data.tasks.filter(task => task.user_id === profile.id)
+      const memberEntries = data.timeEntries.filter(entry => entry.user_id === profile.id)
+      const billableSeconds = memberEntries
+        .filter(entry => entry.billable)
+        .reduce((sum, entry) => sum + getEntrySeconds(entry), 0)
+      const totalSeconds = memberEntries.reduce((sum, entry) => sum + getEntrySeconds(entry), 0)
       return {
         name: profile.full_name || profile.username || 'Unknown',
-        tasks: memberTasks.length,
-        active: memberTasks.filter(t => t.status !== 'completed' && t.status !== 'done').length,
-        completed: memberTasks.filter(t => t.status === 'completed' || t.status === 'done').length,
+        hours: secondsToHours(totalSeconds),
+        billable: secondsToHours(billableSeconds),
+        nonBillable: secondsToHours(totalSeconds - billableSeconds),
       }
-    }).sort((a, b) => b.tasks - a.tasks)
+    }).sort((a, b) => b.hours - a.hours)
   }, [data])
 
   const projectWorkloadData = React.useMemo(() => {
     if (!data) return []
 
     return data.projects.map(project => {
-      const projectPhases = data.phases.filter(p => p.project_id === project.id)
-      const phaseIds = projectPhases.map(p => p.id)
-      const projectTasks = data.tasks.filter(task => phaseIds.includes(task.phase_id))
+      const projectEntries = data.timeEntries.filter(entry => entry.project_id === project.id)
       
       return {
         name: project.name,
-        tasks: projectTasks.length,
-        active: projectTasks.filter(t => t.status !== 'completed' && t.status !== 'done').length,
+        hours: secondsToHours(projectEntries.reduce((sum, entry) => sum + getEntrySeconds(entry), 0)),
       }
-    }).filter(p => p.tasks > 0).sort((a, b) => b.tasks - a.tasks)
+    }).filter(p => p.hours > 0).sort((a, b) => b.hours - a.hours)
   }, [data])
 
   const statusData = React.useMemo(() => {
@@ -124,16 +138,16 @@ export function TeamWorkload() {
   }, [data])
 
   const chartConfig = {
-    active: {
-      label: "Active Tasks",
+    billable: {
+      label: "Billable Hours",
       color: "hsl(var(--chart-1))",
     },
-    completed: {
-      label: "Completed Tasks",
+    nonBillable: {
+      label: "Non-billable Hours",
       color: "hsl(var(--chart-2))",
     },
-    tasks: {
-      label: "Total Tasks",
+    hours: {
+      label: "Logged Hours",
       color: "hsl(var(--chart-3))",
     },
   }
@@ -180,7 +194,7 @@ export function TeamWorkload() {
               <Users className="h-5 w-5 text-muted-foreground" />
               <CardTitle>Member Workload</CardTitle>
             </div>
-            <CardDescription>Active vs Completed tasks per team member</CardDescription>
+            <CardDescription>Billable vs non-billable hours logged per team member in the last {WORKLOAD_PERIOD_DAYS} days</CardDescription>
           </CardHeader>
           <CardContent className="flex-1">
             <ChartContainer config={chartConfig} className="h-[350px] w-full">
@@ -202,13 +216,15 @@ export function TeamWorkload() {
                 <ChartTooltip content={<ChartTooltipContent />} />
                 <ChartLegend content={<ChartLegendContent />} />
                 <Bar 
-                  dataKey="active" 
-                  fill="var(--color-active)" 
-                  radius={[4, 4, 0, 0]} 
+                  dataKey="billable" 
+                  stackId="hours"
+                  fill="var(--color-billable)" 
+                  radius={[0, 0, 4, 4]} 
                 />
                 <Bar 
-                  dataKey="completed" 
-                  fill="var(--color-completed)" 
+                  dataKey="nonBillable" 
+                  stackId="hours"
+                  fill="var(--color-nonBillable)" 
                   radius={[4, 4, 0, 0]} 
                 />
               </BarChart>
@@ -291,7 +307,7 @@ export function TeamWorkload() {
             <Briefcase className="h-5 w-5 text-muted-foreground" />
             <CardTitle>Workload by Project</CardTitle>
           </div>
-          <CardDescription>Active tasks distribution across projects</CardDescription>
+          <CardDescription>Hours logged per project in the last {WORKLOAD_PERIOD_DAYS} days</CardDescription>
         </CardHeader>
         <CardContent>
           <ChartContainer config={chartConfig} className="h-[300px] w-full">
@@ -313,8 +329,8 @@ export function TeamWorkload() {
               <XAxis type="number" hide />
               <ChartTooltip content={<ChartTooltipContent />} />
               <Bar 
-                dataKey="active" 
-                fill="var(--color-active)" 
+                dataKey="hours" 
+                fill="var(--color-hours)" 
                 radius={[0, 4, 4, 0]} 
               />
             </BarChart>
@@ -0,0 +1,136 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Send, X } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import { useThreadReplies } from "@/hooks/use-chat-messages"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Skeleton } from "@/components/ui/skeleton"
+import { MentionTextarea } from "@/components/mention-textarea"
+import { MessageItem } from "@/components/message-item"
+import { cn } from "@/lib/utils"
+import type { ChatMessage } from "@/lib/chat"
+
+interface Member {
+  id: string
+  full_name: string | null
+  avatar_url: string | null
+  email: string | null
+  username: string | null
+}
+
+interface ThreadPanelProps {
+  parent: ChatMessage
+  members: Member[]
+  onClose: () => void
+  /** Reply to scroll to and highlight, e.g. from a mention notification */
+  highlightedId?: string | null
+  className?: string
+}
+
+export function ThreadPanel({ parent, members, onClose, highlightedId, className }: ThreadPanelProps) {
+  const { user } = useAuth()
+  const { replies, isLoading } = useThreadReplies(parent.id)
+  const [newReply, setNewReply] = React.useState("")
+  const bottomRef = React.useRef<HTMLDivElement>(null)
+  const scrolledToHighlight = React.useRef(false)
+
+  React.useEffect(() => {
+    if (isLoading) return
+    const highlighted = highlightedId && !scrolledToHighlight.current
+      ? document.getElementById(`thread-reply-${highlightedId}`)
+      : null
+    if (highlighted) {
+      scrolledToHighlight.current = true
+      highlighted.scrollIntoView({ block: "center" })
+    } else {
+      bottomRef.current?.scrollIntoView({ block: "end" })
+    }
+  }, [replies.length, isLoading, highlightedId])
+
+  const handleSendReply = async (content: string) => {
+    if (!content.trim() || !user || !parent.channel_id) return
+
+    setNewReply("")
+    const { error } = await supabase.from("messages").insert({
+      content: content.trim(),
+      channel_id: parent.channel_id,
+      parent_id: parent.id,
+      user_id: user.id,
+    })
+
+    if (error) {
+      console.error("Error sending reply:", error)
+      toast.error("Failed to send reply")
+    }
+  }
+
+  return (
+    <div className={cn("flex flex-col border-l bg-background", className)}>
+      <div className="flex h-14 items-center justify-between px-4 border-b">
+        <h4 className="font-bold text-sm">Thread</h4>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close thread</span>
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="space-y-4 p-4">
+          <MessageItem message={parent} members={members} size="sm" />
+
+          <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+            <span>{replies.length} {replies.length === 1 ? "reply" : "replies"}</span>
+            <div className="h-px flex-1 bg-border" />
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-3/4" />
+              <Skeleton className="h-10 w-2/3" />
+            </div>
+          ) : (
+            replies.map((reply) => (
+              <div
+                key={reply.id}
+                id={`thread-reply-${reply.id}`}
+                className={cn("rounded-lg", reply.id === highlightedId && "bg-primary/10 ring-1 ring-primary/30")}
+              >
+                <MessageItem message={reply} members={members} size="sm" />
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      {!parent.deleted_at && (
+        <div className="p-3">
+          <div className="rounded-xl border bg-background shadow-sm focus-within:ring-1 focus-within:ring-ring focus-within:border-ring transition-all">
+            <MentionTextarea
+              placeholder="Reply in thread..."
+              className="min-h-[60px]"
+              value={newReply}
+              onChange={(e) => setNewReply(e.target.value)}
+              onSendMessage={handleSendReply}
+              members={members}
+            />
+            <div className="flex justify-end px-2 py-1.5 border-t bg-muted/5 rounded-b-xl">
+              <Button
+                type="button"
+                size="sm"
+                className="h-8 px-3 gap-1.5"
+                disabled={!newReply.trim()}
+                onClick={() => handleSendReply(newReply)}
+              >
+                <span className="text-xs font-medium">Reply</span>
+                <Send className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { IconPlayerStop } from "@tabler/icons-react"
+import { Button } from "@/components/ui/button"
+import { useTimeTracker } from "@/hooks/use-time-tracker"
+import { useElapsedSeconds } from "@/hooks/use-elapsed-seconds"
+import { formatTimer } from "@/lib/time-tracking"
+
+/**
+ * Shows the current user's running timer in the header so it can be stopped from any page.
+ */
+export function ActiveTimerIndicator() {
+  const { activeEntry, stopTimer } = useTimeTracker()
+  const elapsed = useElapsedSeconds(activeEntry)
+
+  if (!activeEntry) return null
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="gap-1.5 border-red-500/30 bg-red-500/5 text-red-600 hover:bg-red-500/10 hover:text-red-600"
+      onClick={() => stopTimer()}
+      title={activeEntry.tasks?.title ? `Stop timer for "${activeEntry.tasks.title}"` : "Stop timer"}
+    >
+      <IconPlayerStop className="size-3.5" />
+      <span className="hidden max-w-[140px] truncate md:inline">{activeEntry.tasks?.title}</span>
+      <span className="font-mono tabular-nums">{formatTimer(elapsed)}</span>
+    </Button>
+  )
+}
@@ -0,0 +1,170 @@
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { IconClockPlus, IconTrash, IconCurrencyDollar } from "@tabler/icons-react"
+import { toast } from "sonner"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import { useTimeTracker } from "@/hooks/use-time-tracker"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { TaskTimerButton } from "./task-timer-button"
+import { TimeEntryForm, type TimeEntryPayload } from "./time-entry-form"
+import {
+  TIME_ENTRY_SELECT,
+  formatDuration,
+  getEntrySeconds,
+  type TimeEntryWithRelations,
+} from "@/lib/time-tracking"
+
+interface TaskTimeEntriesProps {
+  taskId: string
+}
+
+export function TaskTimeEntries({ taskId }: TaskTimeEntriesProps) {
+  const { user, role } = useAuth()
+  const { activeEntry } = useTimeTracker()
+  const [entries, setEntries] = React.useState<TimeEntryWithRelations[]>([])
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  const fetchEntries = React.useCallback(async () => {
+    const { data, error } = await supabase
+      .from("time_entries")
+      .select(TIME_ENTRY_SELECT)
+      .eq("task_id", taskId)
+      .order("started_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching time entries:", error)
+      return
+    }
+    setEntries((data || []) as unknown as TimeEntryWithRelations[])
+  }, [taskId])
+
+  // Refetch when a timer is started or stopped so the list stays current
+  React.useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries, activeEntry?.id])
+
+  const totalSeconds = entries
+    .filter(e => e.ended_at)
+    .reduce((sum, e) => sum + getEntrySeconds(e), 0)
+
+  const handleLogTime = async (payload: TimeEntryPayload) => {
+    if (!user) return
+    setIsSubmitting(true)
+    try {
+      const { error } = await supabase
+        .from("time_entries")
+        .insert({ ...payload, user_id: user.id })
+
+      if (error) throw error
+      toast.success("Time logged")
+      setIsDialogOpen(false)
+      fetchEntries()
+    } catch (error: any) {
+      console.error("Error logging time:", error)
+      toast.error("Failed to log time: " + error.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (entryId: string) => {
+    const { error } = await supabase.from("time_entries").delete().eq("id", entryId)
+    if (error) {
+      console.error("Error deleting time entry:", error)
+      toast.error("Failed to delete time entry")
+      return
+    }
+    setEntries(prev => prev.filter(e => e.id !== entryId))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>
+          Time Tracked
+          {totalSeconds > 0 && (
+            <span className="ml-1.5 text-xs font-normal text-muted-foreground">{formatDuration(totalSeconds)}</span>
+          )}
+        </Label>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs gap-1"
+            onClick={() => setIsDialogOpen(true)}
+          >
+            <IconClockPlus className="size-3" />
+            Log Time
+          </Button>
+          <TaskTimerButton taskId={taskId} variant="default" className="h-7 text-xs" />
+        </div>
+      </div>
+
+      <div className="space-y-1 border rounded-md p-2 bg-muted/30 max-h-40 overflow-y-auto custom-scrollbar">
+        {entries.length === 0 && (
+          <p className="text-xs text-muted-foreground py-2 text-center">No time logged yet</p>
+        )}
+        {entries.map(entry => {
+          const canDelete = role === "admin" || (entry.user_id === user?.id && !entry.invoice_id)
+          const name = entry.profiles?.full_name || entry.profiles?.email?.split("@")[0] || "Unknown"
+
+          return (
+            <div key={entry.id} className="flex items-center gap-2 text-xs group">
+              <Avatar className="h-5 w-5 shrink-0">
+                <AvatarImage src={entry.profiles?.avatar_url || undefined} />
+                <AvatarFallback className="text-[8px]">{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="truncate flex-1 min-w-0">
+                <span className="font-medium">{name}</span>
+                <span className="text-muted-foreground"> · {format(parseISO(entry.started_at), "MMM d")}</span>
+                {entry.description && <span className="text-muted-foreground"> · {entry.description}</span>}
+              </span>
+              {entry.billable && (
+                <IconCurrencyDollar className="size-3 text-green-600 shrink-0" aria-label="Billable" />
+              )}
+              {entry.invoice_id && (
+                <Badge variant="secondary" className="h-4 px-1 text-[9px]">Invoiced</Badge>
+              )}
+              <span className="tabular-nums shrink-0">
+                {entry.ended_at ? formatDuration(getEntrySeconds(entry)) : "Running"}
+              </span>
+              {canDelete && entry.ended_at && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="size-5 p-0 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-all"
+                  onClick={() => handleDelete(entry.id)}
+                >
+                  <IconTrash className="size-3" />
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Log Time</DialogTitle>
+            <DialogDescription>Add time you spent on this task manually.</DialogDescription>
+          </DialogHeader>
+          <TimeEntryForm
+            taskId={taskId}
+            onSubmit={handleLogTime}
+            onCancel={() => setIsDialogOpen(false)}
+            isLoading={isSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
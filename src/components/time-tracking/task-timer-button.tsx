@@ -0,0 +1,72 @@
+import * as React from "react"
+import { IconPlayerPlay, IconPlayerStop } from "@tabler/icons-react"
+import { Button } from "@/components/ui/button"
+import { useTimeTracker } from "@/hooks/use-time-tracker"
+import { useElapsedSeconds } from "@/hooks/use-elapsed-seconds"
+import { formatTimer } from "@/lib/time-tracking"
+import { cn } from "@/lib/utils"
+
+interface TaskTimerButtonProps {
+  taskId: string
+  variant?: "compact" | "default"
+  className?: string
+}
+
+export function TaskTimerButton({ taskId, variant = "compact", className }: TaskTimerButtonProps) {
+  const { activeEntry, startTimer, stopTimer } = useTimeTracker()
+  const [isPending, setIsPending] = React.useState(false)
+  const isRunning = activeEntry?.task_id === taskId
+  const elapsed = useElapsedSeconds(isRunning ? activeEntry : null)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setIsPending(true)
+    try {
+      if (isRunning) {
+        await stopTimer()
+      } else {
+        await startTimer(taskId)
+      }
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  if (variant === "default") {
+    return (
+      <Button
+        type="button"
+        variant={isRunning ? "destructive" : "outline"}
+        size="sm"
+        className={cn("gap-1.5 tabular-nums", className)}
+        onClick={handleClick}
+        disabled={isPending}
+      >
+        {isRunning ? <IconPlayerStop className="size-3.5" /> : <IconPlayerPlay className="size-3.5" />}
+        {isRunning ? formatTimer(elapsed) : "Start Timer"}
+      </Button>
+    )
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size={isRunning ? "sm" : "icon"}
+      className={cn(
+        "-mt-1 shrink-0 transition-opacity",
+        isRunning
+          ? "h-6 px-1.5 gap-1 text-[10px] font-medium tabular-nums bg-red-500/10 text-red-600 hover:bg-red-500/20 hover:text-red-600"
+          : "size-6 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground",
+        className
+      )}
+      onClick={handleClick}
+      onPointerDown={(e) => e.stopPropagation()}
+      disabled={isPending}
+      title={isRunning ? "Stop timer" : "Start timer"}
+    >
+      {isRunning ? <IconPlayerStop className="size-3" /> : <IconPlayerPlay className="size-3" />}
+      {isRunning && formatTimer(elapsed)}
+    </Button>
+  )
+}
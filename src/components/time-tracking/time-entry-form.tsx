@@ -0,0 +1,252 @@
+import * as React from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { Tables } from "@/lib/database.types"
+import { getManualEntryRange, parseDurationInput, type TimeEntry } from "@/lib/time-tracking"
+
+const timeEntrySchema = z.object({
+  date: z.string().min(1, "Date is required"),
+  duration: z.string().min(1, "Duration is required").refine(
+    (val) => (parseDurationInput(val) ?? 0) > 0,
+    { message: "Enter hours (1.5), hours and minutes (1:30) or minutes (90m)" }
+  ),
+  description: z.string().optional().nullable(),
+  billable: z.boolean(),
+  phase_id: z.string().nullable().optional(),
+  task_id: z.string().nullable().optional(),
+})
+
+type TimeEntryFormValues = z.infer<typeof timeEntrySchema>
+
+export type TimeEntryPayload = Pick<TimeEntry, "started_at" | "ended_at" | "description" | "billable" | "phase_id" | "task_id">
+
+interface TimeEntryFormProps {
+  onSubmit: (payload: TimeEntryPayload) => void | Promise<void>
+  onCancel: () => void
+  isLoading?: boolean
+  /** When set, the entry is logged against this task and the phase/task pickers are hidden. */
+  taskId?: string
+  phases?: Pick<Tables<"phases">, "id" | "title">[]
+  tasks?: Pick<Tables<"tasks">, "id" | "title" | "phase_id">[]
+  entry?: TimeEntry | null
+}
+
+function secondsToInput(seconds: number | null | undefined) {
+  if (!seconds) return ""
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.round((seconds % 3600) / 60)
+  return `${hours}:${minutes.toString().padStart(2, "0")}`
+}
+
+export function TimeEntryForm({
+  onSubmit,
+  onCancel,
+  isLoading,
+  taskId,
+  phases = [],
+  tasks = [],
+  entry,
+}: TimeEntryFormProps) {
+  const form = useForm<TimeEntryFormValues>({
+    resolver: zodResolver(timeEntrySchema),
+    defaultValues: {
+      date: entry ? format(parseISO(entry.started_at), "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd"),
+      duration: secondsToInput(entry?.duration_seconds),
+      description: entry?.description || "",
+      billable: entry?.billable ?? true,
+      phase_id: entry?.phase_id || null,
+      task_id: taskId || entry?.task_id || null,
+    },
+  })
+
+  const selectedPhaseId = form.watch("phase_id")
+
+  const phaseTasks = React.useMemo(() => {
+    if (!selectedPhaseId) return []
+    return tasks.filter(t => t.phase_id === selectedPhaseId)
+  }, [tasks, selectedPhaseId])
+
+  const handleSubmit = async (values: TimeEntryFormValues) => {
+    const seconds = parseDurationInput(values.duration) || 0
+    await onSubmit({
+      ...getManualEntryRange(values.date, seconds, entry?.started_at),
+      description: values.description || null,
+      billable: values.billable,
+      phase_id: taskId ? null : values.phase_id || null,
+      task_id: taskId || values.task_id || null,
+    })
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={(e) => {
+          // This form can be rendered inside the task form dialog
+          e.stopPropagation()
+          form.handleSubmit(handleSubmit)(e)
+        }}
+        className="space-y-4"
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="duration"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Duration</FormLabel>
+                <FormControl>
+                  <Input placeholder="1:30" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {!taskId && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="phase_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phase</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value === "none" ? null : value)
+                      form.setValue("task_id", null)
+                    }}
+                    value={field.value || "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select phase" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {phases.map((phase) => (
+                        <SelectItem key={phase.id} value={phase.id}>
+                          <span className="truncate max-w-[150px]">{phase.title}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="task_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Task</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                    value={field.value || "none"}
+                    disabled={phaseTasks.length === 0}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select task" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {phaseTasks.map((task) => (
+                        <SelectItem key={task.id} value={task.id}>
+                          <span className="truncate max-w-[150px]">{task.title}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What did you work on?"
+                  className="resize-none"
+                  {...field}
+                  value={field.value || ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="billable"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Billable</FormLabel>
+                <FormDescription>Billable hours can be added to client invoices.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : entry ? "Save Changes" : "Log Time"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -34,7 +34,7 @@ interface Profile {
   role: string | null
   email: string | null
   updated_at: string | null
-  pin: string | null
+  has_pin: boolean
 }
 
 interface UserDetailsModalProps {
@@ -155,7 +155,7 @@ export function UserDetailsModal({
                     <span className="text-xs text-muted-foreground font-medium uppercase tracking-wider">Security PIN</span>
                     <div className="flex items-center justify-between">
                       <span className="font-mono font-medium">
-                        {user.pin ? "••••" : "Not set"}
+                        {user.has_pin ? "••••" : "Not set"}
                       </span>
                       {onChangePin && (
                         <Button 
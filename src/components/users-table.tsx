@@ -67,7 +67,7 @@ interface Profile {
   role: string | null
   email: string | null
   updated_at: string | null
-  pin: string | null
+  has_pin: boolean
 }
 
 export function UsersTable({
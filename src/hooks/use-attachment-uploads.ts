@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { removeChatUpload, uploadChatAttachment } from "@/lib/chat-attachments"
+import type { NewMessageAttachment } from "@/lib/chat"
+import { getErrorMessage } from "@/lib/utils"
+
+export interface PendingUpload {
+  id: string
+  channelId: string
+  file: File
+  /** Object URL for image thumbnails */
+  previewUrl: string | null
+  status: "uploading" | "done"
+  attachment: NewMessageAttachment | null
+}
+
+/**
+ * Files picked, dropped or pasted into a message composer. Each one starts
+ * uploading straight away; `attachments` are the finished ones to send.
+ */
+export function useAttachmentUploads(channelId: string | null | undefined) {
+  const [uploads, setUploads] = useState<PendingUpload[]>([])
+  const previewUrls = useRef(new Set<string>())
+
+  useEffect(() => {
+    const urls = previewUrls.current
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url))
+      urls.clear()
+    }
+  }, [])
+
+  const revokePreview = useCallback((previewUrl: string | null) => {
+    if (!previewUrl) return
+    URL.revokeObjectURL(previewUrl)
+    previewUrls.current.delete(previewUrl)
+  }, [])
+
+  const addFiles = useCallback((files: FileList | File[]) => {
+    if (!channelId) return
+
+    Array.from(files).forEach(file => {
+      const previewUrl = file.type.startsWith("image/") ? URL.createObjectURL(file) : null
+      if (previewUrl) previewUrls.current.add(previewUrl)
+
+      const id = crypto.randomUUID()
+      setUploads(prev => [...prev, { id, channelId, file, previewUrl, status: "uploading", attachment: null }])
+
+      uploadChatAttachment(channelId, file)
+        .then(attachment => {
+          setUploads(prev => prev.map(u => (u.id === id ? { ...u, status: "done", attachment } : u)))
+        })
+        .catch(error => {
+          console.error("Error uploading attachment:", error)
+          toast.error(`Failed to upload ${file.name}: ${getErrorMessage(error)}`)
+          revokePreview(previewUrl)
+          setUploads(prev => prev.filter(u => u.id !== id))
+        })
+    })
+  }, [channelId, revokePreview])
+
+  const channelUploads = uploads.filter(u => u.channelId === channelId)
+
+  const removeUpload = useCallback((upload: PendingUpload) => {
+    revokePreview(upload.previewUrl)
+    setUploads(prev => prev.filter(u => u.id !== upload.id))
+    if (upload.attachment) {
+      removeChatUpload(upload.attachment.file_path).catch(error => {
+        console.error("Error removing upload:", error)
+      })
+    }
+  }, [revokePreview])
+
+  /** Forgets the channel's uploads once they've been sent */
+  const clearUploads = () => {
+    channelUploads.forEach(u => revokePreview(u.previewUrl))
+    setUploads(prev => prev.filter(u => u.channelId !== channelId))
+  }
+
+  return {
+    uploads: channelUploads,
+    attachments: channelUploads.flatMap(u => (u.attachment ? [u.attachment] : [])),
+    isUploading: channelUploads.some(u => u.status === "uploading"),
+    addFiles,
+    removeUpload,
+    clearUploads,
+  }
+}
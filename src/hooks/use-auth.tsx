@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
 import type { Session, User } from '@supabase/supabase-js'
+import { format } from 'date-fns'
 import { supabase } from '@/lib/supabase'
 import { hasPermission } from '@/lib/rbac'
 
@@ -11,18 +12,62 @@ interface AuthContextType {
   isEmployee: boolean
   isClient: boolean
   organizationId: string | null
-  pin: string | null
+  hasPin: boolean
   isPinVerified: boolean
   loading: boolean
   signOut: () => Promise<void>
   checkPermission: (action: string, resource: string) => boolean
-  verifyPin: (pin: string) => Promise<boolean>
-  setPin: (pin: string, isInitial?: boolean) => Promise<void>
+  verifyPin: (pin: string) => Promise<PinVerificationResult>
+  setPin: (pin: string, isInitial?: boolean, currentPin?: string) => Promise<void>
   resetPin: (password: string) => Promise<void>
-  logPinAttempt: (pin: string, type: string, success: boolean) => Promise<void>
+  lockPin: (reason: PinLockReason) => Promise<void>
   isPinBlacklisted: (pin: string) => boolean
 }
 
+export interface PinVerificationResult {
+  success: boolean
+  error?: 'invalid' | 'locked' | 'no_pin'
+  lockedUntil?: string
+  remainingAttempts?: number
+}
+
+export type PinLockReason = 'manual' | 'idle'
+
+interface PinRpcResponse {
+  success: boolean
+  error?: 'invalid' | 'locked' | 'no_pin' | 'invalid_format' | 'blacklisted' | 'exists' | 'reauthentication_required'
+  token?: string
+  expires_at?: string
+  locked_until?: string
+  remaining_attempts?: number
+}
+
+// The signed token returned by verify_pin/set_pin is kept here; the flag itself is never trusted
+const pinTokenKey = (userId: string) => `pin_token_${userId}`
+
+// Tokens are "<user id>.<expiry epoch seconds>.<token epoch>.<signature>"
+const getPinTokenExpiry = (token: string) => Number(token.split('.')[1]) * 1000
+
+const SET_PIN_ERRORS: Partial<Record<NonNullable<PinRpcResponse['error']>, string>> = {
+  invalid_format: 'PIN must be 4 digits',
+  blacklisted: "You've entered a commonly used passcode, please try another one.",
+  exists: 'A PIN is already set for this account',
+  no_pin: 'No PIN is set for this account yet',
+}
+
+const getSetPinErrorMessage = (response: PinRpcResponse) => {
+  if (response.error === 'locked' && response.locked_until) {
+    return `Too many incorrect attempts. Try again at ${format(new Date(response.locked_until), 'HH:mm')}.`
+  }
+  if (response.error === 'invalid') {
+    const attempts = response.remaining_attempts
+    return attempts === undefined
+      ? 'Current PIN is incorrect'
+      : `Current PIN is incorrect. ${attempts} ${attempts === 1 ? 'attempt' : 'attempts'} left.`
+  }
+  return (response.error && SET_PIN_ERRORS[response.error]) || 'Failed to set PIN'
+}
+
 const PIN_BLACKLIST = [
   '1970', '2819', '2008', '0609', '9575', '1234', '0000', '5755', '0908', '1111',
   '0317', '2021', '6767', '2807', '6969', '2022', '2023', '2020', '2024', '2025'
@@ -35,7 +80,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [role, setRole] = useState<string | null>(null)
   const [organizationId, setOrganizationId] = useState<string | null>(null)
-  const [pin, setPinState] = useState<string | null>(null)
+  const [hasPin, setHasPin] = useState(false)
   const [isPinVerified, setIsPinVerified] = useState(false)
   const [loading, setLoading] = useState(true)
 
@@ -48,15 +93,44 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     userRef.current = user
     roleRef.current = role
     organizationIdRef.current = organizationId
-    
-    // Check localStorage for PIN verification status when user changes
-    if (user) {
-      const isVerified = localStorage.getItem(`pin_verified_${user.id}`) === 'true'
-      if (isVerified) {
-        setIsPinVerified(true)
+  }, [user, role, organizationId])
+
+  // Lock again once the verification token expires
+  useEffect(() => {
+    if (!user || !isPinVerified) return
+
+    const token = localStorage.getItem(pinTokenKey(user.id))
+    const expiresAt = token ? getPinTokenExpiry(token) : 0
+    const timeout = setTimeout(() => {
+      localStorage.removeItem(pinTokenKey(user.id))
+      setIsPinVerified(false)
+    }, Math.max(0, expiresAt - Date.now()))
+
+    return () => clearTimeout(timeout)
+  }, [user, isPinVerified])
+
+  // Keep the lock state in sync when another tab locks or unlocks
+  useEffect(() => {
+    if (!user) return
+
+    const handleStorage = async (event: StorageEvent) => {
+      if (event.key !== pinTokenKey(user.id)) return
+
+      if (!event.newValue) {
+        setIsPinVerified(false)
+        return
       }
+
+      const { data: isValid, error } = await supabase.rpc('check_pin_token', { p_token: event.newValue })
+      if (error) {
+        console.error('AuthProvider: Error checking PIN token:', error)
+      }
+      setIsPinVerified(!!isValid)
     }
-  }, [user, role, organizationId])
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [user])
 
   const isPinBlacklisted = useCallback((pinToCheck: string) => {
     if (!pinToCheck) return false
@@ -64,21 +138,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return PIN_BLACKLIST.includes(sanitizedPin)
   }, [])
 
-  const logPinAttempt = useCallback(async (pinEntered: string, type: string, success: boolean) => {
-    const currentUser = userRef.current
-    if (!currentUser) return
-    try {
-      await supabase.from('pin_logs').insert({
-        user_id: currentUser.id,
-        pin_entered: pinEntered,
-        attempt_type: type,
-        is_success: success
-      })
-    } catch (error) {
-      console.error('Error logging pin attempt:', error)
-    }
-  }, []) // No deps needed as it uses ref
-
   const fetchData = useCallback(async (userId: string) => {
     console.log('AuthProvider: Starting fetchData for', userId)
     
@@ -86,7 +145,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('AuthProvider: Executing profiles query...')
       const { data, error } = await supabase
         .from('profiles')
-        .select('role, organization_id, pin')
+        .select('role, organization_id, has_pin')
         .eq('id', userId)
         .maybeSingle()
 
@@ -100,7 +159,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         console.log('AuthProvider: Setting role to', data.role)
         setRole(data.role?.toLowerCase() ?? null)
         setOrganizationId(data.organization_id ?? null)
-        setPinState(data.pin ?? null)
+        setHasPin(data.has_pin)
+
+        // A stored token only counts once the server confirms its signature and expiry
+        const token = localStorage.getItem(pinTokenKey(userId))
+        if (token && data.has_pin) {
+          const { data: isValid, error: tokenError } = await supabase.rpc('check_pin_token', { p_token: token })
+          if (tokenError) {
+            console.error('AuthProvider: Error checking PIN token:', tokenError)
+          }
+          if (!isValid) {
+            localStorage.removeItem(pinTokenKey(userId))
+          }
+          setIsPinVerified(!!isValid)
+        } else {
+          localStorage.removeItem(pinTokenKey(userId))
+          setIsPinVerified(false)
+        }
       } else {
         console.warn('AuthProvider: No profile found for user ID', userId)
       }
@@ -143,11 +218,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       fetchDataWithTimeout();
     } else {
       if (userRef.current) {
-        localStorage.removeItem(`pin_verified_${userRef.current.id}`)
+        localStorage.removeItem(pinTokenKey(userRef.current.id))
       }
       setRole(null)
       setOrganizationId(null)
-      setPinState(null)
+      setHasPin(false)
       setIsPinVerified(false)
       console.log(`AuthProvider: handleSession ${source} (no user) - setting loading to false`)
       setLoading(false)
@@ -215,77 +290,95 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     if (user) {
-      localStorage.removeItem(`pin_verified_${user.id}`)
+      localStorage.removeItem(pinTokenKey(user.id))
     }
     await supabase.auth.signOut()
   }
 
-  const verifyPin = async (enteredPin: string) => {
-    const success = enteredPin === pin
-    await logPinAttempt(enteredPin, 'verification', success)
-    if (success && user) {
-      setIsPinVerified(true)
-      localStorage.setItem(`pin_verified_${user.id}`, 'true')
+  const storePinToken = (response: PinRpcResponse) => {
+    if (!user || !response.token) return
+    localStorage.setItem(pinTokenKey(user.id), response.token)
+    setIsPinVerified(true)
+  }
+
+  const verifyPin = async (enteredPin: string): Promise<PinVerificationResult> => {
+    // Hash comparison, attempt counting, lockout and logging (including unlocks) all happen server-side
+    const { data, error } = await supabase.rpc('verify_pin', { p_pin: enteredPin })
+    if (error) throw error
+
+    const response = data as unknown as PinRpcResponse
+    if (response.success) {
+      storePinToken(response)
+    }
+
+    return {
+      success: response.success,
+      error: response.error as PinVerificationResult['error'],
+      lockedUntil: response.locked_until,
+      remainingAttempts: response.remaining_attempts,
     }
-    return success
   }
 
-  const setPin = async (newPin: string, isInitial: boolean = false) => {
+  const setPin = async (newPin: string, isInitial: boolean = false, currentPin?: string) => {
     if (!user) return
-    
-    const sanitizedPin = newPin.toString().trim()
-    if (isPinBlacklisted(sanitizedPin)) {
-      await logPinAttempt(sanitizedPin, isInitial ? 'setup_blocked' : 'update_blocked', false)
-      throw new Error("You've entered a commonly used passcode, please try another one.")
-    }
 
-    const { error } = await supabase
-      .from('profiles')
-      .update({ pin: sanitizedPin })
-      .eq('id', user.id)
+    // Format and blacklist checks run server-side too, so rejected PINs are logged there.
+    // Replacing an existing PIN is checked against the current one, with the usual lockout.
+    const { data, error } = await supabase.rpc('set_pin', {
+      p_pin: newPin.toString().trim(),
+      p_is_initial: isInitial,
+      p_current_pin: currentPin,
+    })
+    if (error) throw error
 
-    if (error) {
-      await logPinAttempt(sanitizedPin, isInitial ? 'setup_failed' : 'update_failed', false)
-      throw error
+    const response = data as unknown as PinRpcResponse
+    if (!response.success) {
+      throw new Error(getSetPinErrorMessage(response))
     }
-    
-    await logPinAttempt(sanitizedPin, isInitial ? 'setup' : 'update', true)
-    setPinState(sanitizedPin)
-    setIsPinVerified(true)
-    localStorage.setItem(`pin_verified_${user.id}`, 'true')
+
+    setHasPin(true)
+    storePinToken(response)
   }
 
   const resetPin = async (password: string) => {
     if (!user?.email) throw new Error('No user email found')
 
-    // Verify password by attempting to sign in
+    // Signing in again puts a fresh password sign-in on the session, which reset_pin requires
     const { error: authError } = await supabase.auth.signInWithPassword({
       email: user.email,
       password,
     })
 
     if (authError) {
-      await logPinAttempt('', 'reset_failed', false)
       throw new Error('Invalid password')
     }
 
-    // Clear PIN in profiles
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .update({ pin: null })
-      .eq('id', user.id)
+    const { data, error: resetError } = await supabase.rpc('reset_pin')
+    if (resetError) throw resetError
 
-    if (profileError) {
-      await logPinAttempt('', 'reset_profile_failed', false)
-      throw profileError
+    if (!(data as unknown as PinRpcResponse).success) {
+      throw new Error('Please confirm your password again to reset your PIN')
     }
-    
-    await logPinAttempt('', 'reset_success', true)
-    setPinState(null)
+
+    setHasPin(false)
     setIsPinVerified(false)
-    localStorage.removeItem(`pin_verified_${user.id}`)
+    localStorage.removeItem(pinTokenKey(user.id))
   }
 
+  const lockPin = useCallback(async (reason: PinLockReason) => {
+    const currentUser = userRef.current
+    if (!currentUser) return
+
+    localStorage.removeItem(pinTokenKey(currentUser.id))
+    setIsPinVerified(false)
+
+    // Revokes every token issued so far, so a copy of the stored one can't unlock the app either
+    const { error } = await supabase.rpc('lock_pin', { p_reason: reason })
+    if (error) {
+      console.error('AuthProvider: Error locking PIN:', error)
+    }
+  }, []) // Uses ref so idle timers aren't reset when the session refreshes
+
   const value = {
     session,
     user,
@@ -294,7 +387,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isEmployee: role === 'employee',
     isClient: role === 'client',
     organizationId,
-    pin,
+    hasPin,
     isPinVerified,
     loading,
     signOut,
@@ -302,7 +395,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     verifyPin,
     setPin,
     resetPin,
-    logPinAttempt,
+    lockPin,
     isPinBlacklisted
   }
 
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+
+/**
+ * Marks a channel read while it's open, again whenever a newer message shows
+ * up. Returns where the user had read up to before opening it, or null if
+ * they never had, for the "New messages" divider.
+ */
+export function useMarkChannelRead(channelId: string | null | undefined, latestMessageId: string | null | undefined) {
+  const [previous, setPrevious] = useState<{ channelId: string; lastReadAt: string | null } | null>(null)
+
+  useEffect(() => {
+    if (!channelId) return
+    let active = true
+
+    async function markRead() {
+      if (!channelId) return
+      const { data, error } = await supabase.rpc("mark_channel_read", { p_channel_id: channelId })
+
+      if (error) {
+        console.error("Error marking channel as read:", error)
+        return
+      }
+      if (active) {
+        setPrevious(prev => (prev?.channelId === channelId ? prev : { channelId, lastReadAt: data }))
+      }
+    }
+
+    markRead()
+    return () => {
+      active = false
+    }
+  }, [channelId, latestMessageId])
+
+  return previous && previous.channelId === channelId ? previous.lastReadAt : null
+}
+
+/** How far another member has read a channel, kept current for read receipts */
+export function useReadPosition(channelId: string | null | undefined, userId: string | null | undefined) {
+  const [position, setPosition] = useState<{ key: string; lastReadAt: string | null } | null>(null)
+  const key = `${channelId ?? ""}:${userId ?? ""}`
+
+  useEffect(() => {
+    if (!channelId || !userId) return
+    let active = true
+
+    async function fetchPosition() {
+      const { data, error } = await supabase
+        .from("channel_reads")
+        .select("last_read_at")
+        .eq("channel_id", channelId!)
+        .eq("user_id", userId!)
+        .maybeSingle()
+
+      if (error) {
+        console.error("Error fetching read position:", error)
+      } else if (active) {
+        setPosition({ key, lastReadAt: data?.last_read_at ?? null })
+      }
+    }
+
+    fetchPosition()
+
+    const subscription = supabase
+      .channel(`channel_reads:${channelId}:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "channel_reads", filter: `channel_id=eq.${channelId}` },
+        (payload) => {
+          const row = payload.new as { user_id?: string; last_read_at?: string }
+          if (row.user_id === userId && row.last_read_at) {
+            setPosition({ key, lastReadAt: row.last_read_at })
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      active = false
+      supabase.removeChannel(subscription)
+    }
+  }, [channelId, userId, key])
+
+  return position?.key === key ? position.lastReadAt : null
+}
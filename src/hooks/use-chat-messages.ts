@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import {
+  fetchLatestMessages,
+  fetchMessage,
+  fetchMessagesAfter,
+  fetchMessagesAround,
+  fetchMessagesBefore,
+  fetchReactions,
+  fetchThreadReplies,
+  getMessagePatch,
+  mergeMessages,
+  patchMessage,
+  subscribeToMessages,
+  type ChatMessage,
+  type MessageWindow,
+} from "@/lib/chat"
+
+interface ChatMessagesState extends MessageWindow {
+  /** Channel and target the window was loaded for */
+  key: string
+  isLoading: boolean
+  /** The linked message, which may be a thread reply rather than part of the window */
+  target: ChatMessage | null
+}
+
+/**
+ * A channel's messages, a page at a time. Starts from the latest page, or from
+ * the page around `targetMessageId` when following a link to a message. Thread
+ * replies aren't included; see useThreadReplies.
+ */
+export function useChatMessages(channelId: string | null | undefined, targetMessageId?: string | null) {
+  const key = `${channelId ?? ""}:${targetMessageId ?? ""}`
+  const [state, setState] = useState<ChatMessagesState>({
+    key: "",
+    messages: [],
+    hasOlder: false,
+    hasNewer: false,
+    isLoading: true,
+    target: null,
+  })
+  const isFetchingPage = useRef(false)
+  const loadedIds = useRef(new Set<string>())
+
+  const current = state.key === key
+    ? state
+    : { key, messages: [], hasOlder: false, hasNewer: false, isLoading: !!channelId, target: null }
+
+  useEffect(() => {
+    loadedIds.current = new Set(current.messages.map(m => m.id))
+  }, [current.messages])
+
+  useEffect(() => {
+    if (!channelId) return
+    let active = true
+
+    async function fetchInitialWindow() {
+      if (!channelId) return
+      try {
+        const around = targetMessageId ? await fetchMessagesAround(channelId, targetMessageId) : null
+        if (targetMessageId && !around) {
+          toast.error("That message is no longer available")
+        }
+        const window = around ?? await fetchLatestMessages(channelId)
+
+        if (active) setState({ key, ...window, isLoading: false, target: around?.target ?? null })
+      } catch (error) {
+        console.error("Error fetching messages:", error)
+        toast.error("Failed to load messages")
+        if (active) setState({ key, messages: [], hasOlder: false, hasNewer: false, isLoading: false, target: null })
+      }
+    }
+
+    fetchInitialWindow()
+    return () => {
+      active = false
+    }
+  }, [channelId, targetMessageId, key])
+
+  useEffect(() => {
+    if (!channelId) return
+
+    return subscribeToMessages(`messages:${channelId}`, `channel_id=eq.${channelId}`, {
+      onInsert: async (row) => {
+        if (row.parent_id) return
+        const message = await fetchMessage(row.id).catch(() => null)
+        if (!message) return
+
+        // While an older window is open the new message arrives with the newer pages
+        setState(prev => prev.key !== key || prev.hasNewer
+          ? prev
+          : { ...prev, messages: mergeMessages(prev.messages, [message], "after") })
+      },
+      onUpdate: (row) => {
+        setState(prev => prev.key !== key
+          ? prev
+          : { ...prev, messages: patchMessage(prev.messages, row.id, getMessagePatch(row)) })
+      },
+      onDelete: (id) => {
+        setState(prev => prev.key !== key || !prev.messages.some(m => m.id === id)
+          ? prev
+          : { ...prev, messages: prev.messages.filter(m => m.id !== id) })
+      },
+      onReactionChange: async (messageId) => {
+        if (!loadedIds.current.has(messageId)) return
+        const reactions = await fetchReactions(messageId).catch(() => null)
+        if (!reactions) return
+        setState(prev => prev.key !== key
+          ? prev
+          : { ...prev, messages: patchMessage(prev.messages, messageId, { message_reactions: reactions }) })
+      },
+    })
+  }, [channelId, key])
+
+  const oldest = current.messages[0]
+  const newest = current.messages[current.messages.length - 1]
+
+  const loadOlder = useCallback(async () => {
+    if (!channelId || !oldest || !current.hasOlder || isFetchingPage.current) return
+    isFetchingPage.current = true
+    try {
+      const page = await fetchMessagesBefore(channelId, oldest)
+      setState(prev => prev.key !== key
+        ? prev
+        : { ...prev, messages: mergeMessages(prev.messages, page.messages, "before"), hasOlder: page.hasMore })
+    } catch (error) {
+      console.error("Error fetching older messages:", error)
+      toast.error("Failed to load older messages")
+    } finally {
+      isFetchingPage.current = false
+    }
+  }, [channelId, key, oldest, current.hasOlder])
+
+  const loadNewer = useCallback(async () => {
+    if (!channelId || !newest || !current.hasNewer || isFetchingPage.current) return
+    isFetchingPage.current = true
+    try {
+      const page = await fetchMessagesAfter(channelId, newest)
+      setState(prev => prev.key !== key
+        ? prev
+        : { ...prev, messages: mergeMessages(prev.messages, page.messages, "after"), hasNewer: page.hasMore })
+    } catch (error) {
+      console.error("Error fetching newer messages:", error)
+      toast.error("Failed to load newer messages")
+    } finally {
+      isFetchingPage.current = false
+    }
+  }, [channelId, key, newest, current.hasNewer])
+
+  return {
+    messages: current.messages,
+    isLoading: current.isLoading,
+    hasOlder: current.hasOlder,
+    hasNewer: current.hasNewer,
+    targetMessage: current.target,
+    loadOlder,
+    loadNewer,
+  }
+}
+
+/** All replies in a thread, oldest first, kept in sync in realtime */
+export function useThreadReplies(parentId: string | null | undefined) {
+  const [state, setState] = useState<{ parentId: string; replies: ChatMessage[]; isLoading: boolean }>({
+    parentId: "",
+    replies: [],
+    isLoading: true,
+  })
+  const loadedIds = useRef(new Set<string>())
+
+  const current = state.parentId === parentId ? state : { parentId, replies: [], isLoading: !!parentId }
+
+  useEffect(() => {
+    loadedIds.current = new Set(current.replies.map(m => m.id))
+  }, [current.replies])
+
+  useEffect(() => {
+    if (!parentId) return
+    let active = true
+
+    async function fetchReplies() {
+      if (!parentId) return
+      try {
+        const replies = await fetchThreadReplies(parentId)
+        if (active) setState({ parentId, replies, isLoading: false })
+      } catch (error) {
+        console.error("Error fetching thread replies:", error)
+        toast.error("Failed to load replies")
+        if (active) setState({ parentId, replies: [], isLoading: false })
+      }
+    }
+
+    fetchReplies()
+
+    const update = (apply: (replies: ChatMessage[]) => ChatMessage[]) => {
+      setState(prev => (prev.parentId !== parentId ? prev : { ...prev, replies: apply(prev.replies) }))
+    }
+
+    const unsubscribe = subscribeToMessages(`thread:${parentId}`, `parent_id=eq.${parentId}`, {
+      onInsert: async (row) => {
+        const reply = await fetchMessage(row.id).catch(() => null)
+        if (reply) update(replies => mergeMessages(replies, [reply], "after"))
+      },
+      onUpdate: (row) => update(replies => patchMessage(replies, row.id, getMessagePatch(row))),
+      onDelete: (id) => update(replies => replies.filter(m => m.id !== id)),
+      onReactionChange: async (messageId) => {
+        if (!loadedIds.current.has(messageId)) return
+        const reactions = await fetchReactions(messageId).catch(() => null)
+        if (reactions) update(replies => patchMessage(replies, messageId, { message_reactions: reactions }))
+      },
+    })
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [parentId])
+
+  return { replies: current.replies, isLoading: current.isLoading }
+}
@@ -0,0 +1,98 @@
+import { useCallback, useState } from 'react'
+import { toast } from 'sonner'
+import { useAuth } from '@/hooks/use-auth'
+import { CredentialPinDialog } from '@/components/credentials/credential-pin-dialog'
+import {
+  getRevealErrorMessage,
+  logCredentialAccess,
+  revealCredential,
+  type CredentialAction,
+} from '@/lib/credentials'
+
+interface PendingRequest {
+  action: CredentialAction
+  onValue: (value: string) => void
+}
+
+/**
+ * Fetches a credential's decrypted value on demand, asking for the PIN first (or for a new
+ * one when the current user hasn't set it up). Render `pinDialog` somewhere in the calling component.
+ */
+export function useCredentialReveal(credentialId: string | null) {
+  const { hasPin, setPin } = useAuth()
+  const [revealedValue, setRevealedValue] = useState<string | null>(null)
+  const [pendingRequest, setPendingRequest] = useState<PendingRequest | null>(null)
+  const [isRevealing, setIsRevealing] = useState(false)
+
+  const runReveal = useCallback(async (request: PendingRequest, pin?: string) => {
+    if (!credentialId) return false
+
+    try {
+      setIsRevealing(true)
+      const result = await revealCredential(credentialId, request.action, pin)
+      if (!result.success || result.value === undefined) {
+        toast.error(getRevealErrorMessage(result))
+        return result.error === 'locked'
+      }
+
+      setRevealedValue(result.value)
+      request.onValue(result.value)
+      return true
+    } catch (error: any) {
+      console.error('Error revealing credential:', error)
+      toast.error('Failed to reveal credential: ' + error.message)
+      return false
+    } finally {
+      setIsRevealing(false)
+    }
+  }, [credentialId])
+
+  const requestValue = useCallback((action: CredentialAction, onValue: (value: string) => void) => {
+    if (!credentialId) return
+
+    // Already revealed in this view; copies are still audited
+    if (revealedValue !== null) {
+      if (action === 'copy') {
+        logCredentialAccess(credentialId, 'copy').catch((error) => {
+          console.error('Error logging credential copy:', error)
+        })
+      }
+      onValue(revealedValue)
+      return
+    }
+
+    setPendingRequest({ action, onValue })
+  }, [credentialId, revealedValue])
+
+  const clear = useCallback(() => {
+    setRevealedValue(null)
+    setPendingRequest(null)
+  }, [])
+
+  const pinDialog = (
+    <CredentialPinDialog
+      open={!!pendingRequest}
+      onOpenChange={(open) => !open && setPendingRequest(null)}
+      action={pendingRequest?.action ?? null}
+      isLoading={isRevealing}
+      isSetup={!hasPin}
+      onSubmit={async (pin) => {
+        if (!pendingRequest) return
+        if (!hasPin) {
+          try {
+            await setPin(pin, true)
+          } catch (error: any) {
+            toast.error(error.message || 'Failed to set PIN')
+            return
+          }
+        }
+        // Close on success, and on lockout since further attempts are pointless
+        if (await runReveal(pendingRequest, pin)) {
+          setPendingRequest(null)
+        }
+      }}
+    />
+  )
+
+  return { revealedValue, requestValue, clear, isRevealing, pinDialog }
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react"
+import { getEntrySeconds } from "@/lib/time-tracking"
+
+/**
+ * Re-renders every second while an entry is running and returns its elapsed seconds.
+ */
+export function useElapsedSeconds(entry: { started_at: string; ended_at: string | null; duration_seconds: number | null } | null) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    if (!entry || entry.ended_at) return
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [entry])
+
+  return entry ? getEntrySeconds(entry, now) : 0
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useOrganization } from "@/hooks/use-organization"
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "wheel"] as const
+// How often activity is written to localStorage and the idle time is checked
+const ACTIVITY_WRITE_INTERVAL_MS = 5_000
+const IDLE_CHECK_INTERVAL_MS = 10_000
+
+const activityKey = (userId: string) => `pin_last_activity_${userId}`
+
+/**
+ * Locks the PIN wall once the employee has been inactive in every open tab for
+ * the organization's idle timeout. Activity is shared between tabs through localStorage.
+ */
+export function useIdleLock() {
+  const { user, role, isPinVerified, lockPin } = useAuth()
+  const { organization } = useOrganization()
+  const timeoutMinutes = organization.pin_idle_timeout_minutes ?? 15
+
+  const isEnabled = !!user && role === "employee" && isPinVerified && timeoutMinutes > 0
+  const userId = user?.id
+
+  useEffect(() => {
+    if (!isEnabled || !userId) return
+
+    const key = activityKey(userId)
+    let lastWrite = 0
+
+    const recordActivity = () => {
+      const now = Date.now()
+      if (now - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return
+      lastWrite = now
+      localStorage.setItem(key, String(now))
+    }
+
+    // Unlocking counts as activity, otherwise a stale timestamp would lock straight away
+    lastWrite = Date.now()
+    localStorage.setItem(key, String(lastWrite))
+
+    const checkIdle = () => {
+      const lastActivity = Number(localStorage.getItem(key)) || 0
+      if (Date.now() - lastActivity >= timeoutMinutes * 60_000) {
+        lockPin("idle")
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, recordActivity, { passive: true }))
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, recordActivity))
+      clearInterval(interval)
+    }
+  }, [isEnabled, userId, timeoutMinutes, lockPin])
+}
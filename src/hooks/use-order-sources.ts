@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { OrderSource } from "@/lib/order-sources"
+
+export function useOrderSources() {
+  const [orderSources, setOrderSources] = useState<OrderSource[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+
+    async function fetchOrderSources() {
+      const { data, error } = await supabase
+        .from("order_sources")
+        .select("*")
+        .order("name")
+
+      if (!active) return
+      if (error) {
+        console.error("Error fetching order sources:", error)
+      } else {
+        setOrderSources(data || [])
+      }
+      setIsLoading(false)
+    }
+
+    fetchOrderSources()
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return { orderSources, isLoading }
+}
@@ -3,7 +3,7 @@ import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/hooks/use-auth'
 import { toast } from 'sonner'
 
-interface Organization {
+export interface Organization {
   id?: string
   name: string
   website: string | null
@@ -11,6 +11,16 @@ interface Organization {
   billing_email: string | null
   logo: string | null
   sidebar_settings?: Record<string, boolean>
+  kanban_wip_limits?: Record<string, number>
+  default_hourly_rate?: number
+  pin_idle_timeout_minutes?: number
+  currency?: string
+  vat_enabled?: boolean | null
+  vat_rate?: number | null
+  vat_number?: string | null
+  brand_color?: string
+  proposal_cover_page?: boolean
+  proposal_terms?: string | null
 }
 
 interface OrganizationContextType {
@@ -26,6 +36,10 @@ const DEFAULT_ORG: Organization = {
   billing_email: "",
   logo: "",
   sidebar_settings: {},
+  kanban_wip_limits: {},
+  default_hourly_rate: 0,
+  pin_idle_timeout_minutes: 15,
+  currency: "USD",
 }
 
 const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined)
@@ -0,0 +1,131 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import { TIME_ENTRY_SELECT, type TimeEntryWithRelations } from '@/lib/time-tracking'
+import { toast } from 'sonner'
+
+interface TimeTrackerContextType {
+  activeEntry: TimeEntryWithRelations | null
+  startTimer: (taskId: string) => Promise<void>
+  stopTimer: () => Promise<void>
+  loading: boolean
+}
+
+const TimeTrackerContext = createContext<TimeTrackerContextType | undefined>(undefined)
+
+export function TimeTrackerProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const [activeEntry, setActiveEntry] = useState<TimeEntryWithRelations | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchActiveEntry = useCallback(async () => {
+    if (!user) return
+
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select(TIME_ENTRY_SELECT)
+      .eq('user_id', user.id)
+      .is('ended_at', null)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching running timer:', error)
+    } else {
+      setActiveEntry(data as unknown as TimeEntryWithRelations | null)
+    }
+    setLoading(false)
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+
+    const init = async () => {
+      await fetchActiveEntry()
+    }
+    init()
+
+    // Keep the running timer in sync across tabs and devices
+    const channel = supabase
+      .channel(`time-entries:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'time_entries',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchActiveEntry()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, fetchActiveEntry])
+
+  const stopTimer = useCallback(async () => {
+    if (!activeEntry) return
+
+    const { error } = await supabase
+      .from('time_entries')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', activeEntry.id)
+
+    if (error) {
+      console.error('Error stopping timer:', error)
+      toast.error('Failed to stop timer')
+      return
+    }
+
+    setActiveEntry(null)
+    toast.success('Timer stopped')
+  }, [activeEntry])
+
+  const startTimer = useCallback(async (taskId: string) => {
+    if (!user) return
+
+    // Only one timer can run at a time, so starting a new one stops the current one
+    if (activeEntry) {
+      const { error } = await supabase
+        .from('time_entries')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('id', activeEntry.id)
+
+      if (error) {
+        console.error('Error stopping timer:', error)
+        toast.error('Failed to stop the running timer')
+        return
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('time_entries')
+      .insert({ user_id: user.id, task_id: taskId })
+      .select(TIME_ENTRY_SELECT)
+      .single()
+
+    if (error) {
+      console.error('Error starting timer:', error)
+      toast.error('Failed to start timer')
+      return
+    }
+
+    setActiveEntry(data as unknown as TimeEntryWithRelations)
+    toast.success('Timer started')
+  }, [user, activeEntry])
+
+  return (
+    <TimeTrackerContext.Provider value={{ activeEntry, startTimer, stopTimer, loading }}>
+      {children}
+    </TimeTrackerContext.Provider>
+  )
+}
+
+export const useTimeTracker = () => {
+  const context = useContext(TimeTrackerContext)
+  if (context === undefined) {
+    throw new Error('useTimeTracker must be used within a TimeTrackerProvider')
+  }
+  return context
+}
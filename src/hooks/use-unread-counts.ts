@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import type { Database } from "@/lib/database.types"
+
+type UnreadCountRow = Database["public"]["Functions"]["get_unread_counts"]["Returns"][number]
+
+/**
+ * Unread messages per channel for the current user, refreshed whenever a
+ * message is posted or one of their channels is read.
+ */
+export function useUnreadCounts() {
+  const { user } = useAuth()
+  const [rows, setRows] = useState<UnreadCountRow[]>([])
+  const lastFetchId = useRef(0)
+  // The sidebar and the chat page both use this hook; realtime-js hands back the
+  // existing channel for a repeated topic, so each instance needs its own
+  const instanceId = useId()
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!user) return
+
+    const fetchId = ++lastFetchId.current
+    const { data, error } = await supabase.rpc("get_unread_counts")
+    if (fetchId !== lastFetchId.current) return
+
+    if (error) {
+      console.error("Error fetching unread counts:", error)
+    } else {
+      setRows(data || [])
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+
+    const init = async () => {
+      await fetchUnreadCounts()
+    }
+    init()
+
+    let timeout: ReturnType<typeof setTimeout>
+    const debouncedFetch = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        fetchUnreadCounts()
+      }, 500)
+    }
+
+    const channel = supabase
+      .channel(`unread:${user.id}:${instanceId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages" }, debouncedFetch)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "channel_reads", filter: `user_id=eq.${user.id}` },
+        debouncedFetch
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+      clearTimeout(timeout)
+    }
+  }, [user, instanceId, fetchUnreadCounts])
+
+  return useMemo(() => {
+    const byChannel: Record<string, number> = {}
+    const byProject: Record<string, number> = {}
+    let channels = 0
+    let directMessages = 0
+
+    rows.forEach(row => {
+      byChannel[row.channel_id] = row.unread_count
+      if (row.is_direct) {
+        directMessages += row.unread_count
+        return
+      }
+      channels += row.unread_count
+      if (row.project_id) {
+        byProject[row.project_id] = (byProject[row.project_id] || 0) + row.unread_count
+      }
+    })
+
+    return { byChannel, byProject, channels, directMessages, refresh: fetchUnreadCounts }
+  }, [rows, fetchUnreadCounts])
+}
+
+/** Badge text for an unread count */
+export function formatUnreadCount(count: number) {
+  return count > 99 ? "99+" : count
+}
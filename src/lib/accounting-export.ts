@@ -0,0 +1,382 @@
+import { format, parseISO } from "date-fns"
+import type { Tables } from "./database.types"
+import { getExpenseCategoryName, type ExpenseWithCategory } from "./expenses"
+import { toCsv } from "./finances"
+import { getPaymentMethodLabel } from "./invoices"
+import type { LineItem } from "@/components/projects/line-items-manager"
+
+export type AccountingFormat = "csv" | "xero" | "quickbooks"
+export type AccountingDataset = "invoices" | "payments" | "expenses"
+
+export const ACCOUNTING_FORMATS: { value: AccountingFormat; label: string; description: string }[] = [
+  { value: "csv", label: "Generic CSV", description: "One row per document with net, tax and total in separate columns." },
+  {
+    value: "xero",
+    label: "Xero CSV",
+    description: "Invoices use Xero's sales invoice template (import as tax exclusive); payments and expenses use its bank statement template.",
+  },
+  {
+    value: "quickbooks",
+    label: "QuickBooks IIF",
+    description: "Balanced transactions for QuickBooks Desktop. Amounts are in each document's own currency.",
+  },
+]
+
+export const ACCOUNTING_DATASETS: { value: AccountingDataset; label: string }[] = [
+  { value: "invoices", label: "Invoices" },
+  { value: "payments", label: "Payments" },
+  { value: "expenses", label: "Expenses" },
+]
+
+/** Xero's default chart of accounts; adjust the mapping on import if yours differs */
+export const XERO_SALES_ACCOUNT = "200"
+export const XERO_TAX_TYPES: Record<string, string> = {
+  standard: "Tax on Sales",
+  zero_rated: "Zero Rated Income",
+  reverse_charge: "Reverse Charge",
+}
+
+export const QUICKBOOKS_ACCOUNTS = {
+  receivable: "Accounts Receivable",
+  income: "Sales",
+  tax: "Sales Tax Payable",
+  undeposited: "Undeposited Funds",
+  bank: "Checking",
+}
+
+type ExportClient = Pick<Tables<"clients">, "first_name" | "last_name"> & {
+  email?: string | null
+  vat_number?: string | null
+}
+
+export type ExportInvoice = Pick<
+  Tables<"invoices">,
+  | "id"
+  | "invoice_number"
+  | "created_at"
+  | "due_date"
+  | "status"
+  | "currency"
+  | "subtotal"
+  | "tax_amount"
+  | "amount"
+  | "amount_paid"
+  | "vat_treatment"
+  | "line_items"
+> & {
+  clients: ExportClient | null
+  projects: { name: string } | null
+}
+
+export type ExportPayment = Pick<Tables<"invoice_payments">, "id" | "amount" | "paid_on" | "method" | "reference"> & {
+  invoices: { invoice_number: string; currency: string; clients: ExportClient | null } | null
+}
+
+export type ExportExpense = Pick<ExpenseWithCategory, "id" | "date" | "description" | "amount" | "category" | "expense_categories"> & {
+  projects: { name: string } | null
+}
+
+export interface AccountingData {
+  invoices: ExportInvoice[]
+  payments: ExportPayment[]
+  expenses: ExportExpense[]
+}
+
+export interface AccountingFile {
+  dataset: AccountingDataset
+  filename: string
+  content: string
+  mimeType: string
+  rows: number
+}
+
+type Cell = string | number | null | undefined
+
+const money = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2)
+
+function clientName(client: ExportClient | null | undefined) {
+  return [client?.first_name?.trim(), client?.last_name?.trim()].filter(Boolean).join(" ") || "Unknown Client"
+}
+
+/**
+ * Issue date as the UTC calendar day, so the file doesn't depend on the
+ * exporter's time zone.
+ */
+function issueDate(invoice: Pick<ExportInvoice, "created_at">) {
+  return (invoice.created_at ?? "").slice(0, 10)
+}
+
+function formatDay(date: string | null | undefined, pattern: string) {
+  return date ? format(parseISO(date), pattern) : ""
+}
+
+interface ExportLine {
+  description: string
+  quantity: number
+  unitAmount: number
+  net: number
+  tax: number
+}
+
+/**
+ * Invoice lines with their tax. Falls back to a single line carrying the
+ * stored totals when there are no line items or they no longer add up to them,
+ * so every export balances to the amounts on the invoice.
+ */
+function getExportLines(invoice: ExportInvoice): ExportLine[] {
+  const items = (invoice.line_items as unknown as LineItem[] | null)?.filter(item => item.description) ?? []
+  const subtotal = Number(invoice.subtotal) || 0
+  const taxAmount = Number(invoice.tax_amount) || 0
+  const isStandard = invoice.vat_treatment === "standard"
+
+  const lines = items.map(item => {
+    const net = Number(item.price) * Number(item.quantity)
+    return {
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitAmount: Number(item.price),
+      net: Math.round(net * 100) / 100,
+      tax: isStandard ? Math.round(net * (Number(item.tax_rate) || 0)) / 100 : 0,
+    }
+  })
+
+  const sum = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100
+  if (lines.length > 0 && sum(lines.map(l => l.net)) === subtotal && sum(lines.map(l => l.tax)) === taxAmount) {
+    return lines
+  }
+
+  return [{
+    description: `Invoice ${invoice.invoice_number}`,
+    quantity: 1,
+    unitAmount: subtotal,
+    net: subtotal,
+    tax: taxAmount,
+  }]
+}
+
+// Stable ordering is what makes the same range produce byte-identical files
+const byKeys = <T>(...keys: ((row: T) => string)[]) => (a: T, b: T) => {
+  for (const key of keys) {
+    // Plain code-point comparison; localeCompare would vary with the browser locale
+    if (key(a) !== key(b)) return key(a) < key(b) ? -1 : 1
+  }
+  return 0
+}
+
+function sortData(data: AccountingData): AccountingData {
+  return {
+    invoices: [...data.invoices].sort(byKeys<ExportInvoice>(issueDate, i => i.invoice_number, i => i.id)),
+    payments: [...data.payments].sort(byKeys(p => p.paid_on, p => p.invoices?.invoice_number ?? "", p => p.id)),
+    expenses: [...data.expenses].sort(byKeys(e => e.date ?? "", e => e.id)),
+  }
+}
+
+function genericCsv(dataset: AccountingDataset, data: AccountingData, baseCurrency: string): Cell[][] {
+  switch (dataset) {
+    case "invoices":
+      return [
+        ["Invoice Number", "Issue Date", "Due Date", "Client", "Client VAT Number", "Project", "Status", "VAT Treatment", "Currency", "Net", "Tax", "Total", "Paid"],
+        ...data.invoices.map(i => [
+          i.invoice_number,
+          issueDate(i),
+          i.due_date ?? "",
+          clientName(i.clients),
+          i.clients?.vat_number ?? "",
+          i.projects?.name ?? "",
+          i.status,
+          i.vat_treatment,
+          i.currency,
+          money(Number(i.subtotal)),
+          money(Number(i.tax_amount)),
+          money(Number(i.amount)),
+          money(Number(i.amount_paid)),
+        ]),
+      ]
+    case "payments":
+      return [
+        ["Date", "Invoice Number", "Client", "Method", "Reference", "Currency", "Amount"],
+        ...data.payments.map(p => [
+          p.paid_on,
+          p.invoices?.invoice_number ?? "",
+          clientName(p.invoices?.clients),
+          getPaymentMethodLabel(p.method),
+          p.reference ?? "",
+          p.invoices?.currency ?? "",
+          money(Number(p.amount)),
+        ]),
+      ]
+    case "expenses":
+      return [
+        ["Date", "Description", "Category", "Project", "Currency", "Amount"],
+        ...data.expenses.map(e => [
+          e.date ?? "",
+          e.description,
+          getExpenseCategoryName(e),
+          e.projects?.name ?? "",
+          baseCurrency,
+          money(Number(e.amount)),
+        ]),
+      ]
+  }
+}
+
+function xeroCsv(dataset: AccountingDataset, data: AccountingData): Cell[][] {
+  const day = (date: string | null | undefined) => formatDay(date, "dd/MM/yyyy")
+
+  if (dataset === "invoices") {
+    return [
+      ["*ContactName", "EmailAddress", "*InvoiceNumber", "Reference", "*InvoiceDate", "*DueDate", "*Description", "*Quantity", "*UnitAmount", "*AccountCode", "*TaxType", "TaxAmount", "Currency"],
+      ...data.invoices.flatMap(i => getExportLines(i).map(line => [
+        clientName(i.clients),
+        i.clients?.email ?? "",
+        i.invoice_number,
+        i.projects?.name ?? "",
+        day(issueDate(i)),
+        day(i.due_date ?? issueDate(i)),
+        line.description,
+        line.quantity,
+        money(line.unitAmount),
+        XERO_SALES_ACCOUNT,
+        XERO_TAX_TYPES[i.vat_treatment] ?? XERO_TAX_TYPES.standard,
+        money(line.tax),
+        i.currency,
+      ])),
+    ]
+  }
+
+  const header = ["*Date", "*Amount", "Payee", "Description", "Reference"]
+  if (dataset === "payments") {
+    return [
+      header,
+      ...data.payments.map(p => [
+        day(p.paid_on),
+        money(Number(p.amount)),
+        clientName(p.invoices?.clients),
+        `Payment for ${p.invoices?.invoice_number ?? "invoice"}`,
+        p.reference || p.invoices?.invoice_number || "",
+      ]),
+    ]
+  }
+
+  return [
+    header,
+    ...data.expenses.map(e => [
+      day(e.date),
+      money(-Number(e.amount)),
+      e.description,
+      getExpenseCategoryName(e),
+      e.projects?.name ?? "",
+    ]),
+  ]
+}
+
+/** IIF is tab separated with no quoting, so tabs and line breaks can't appear in values */
+const iifValue = (value: Cell) => String(value ?? "").replace(/[\t\r\n]+/g, " ")
+const iifRow = (cells: Cell[]) => cells.map(iifValue).join("\t")
+
+function quickbooksIif(dataset: AccountingDataset, data: AccountingData): string {
+  const day = (date: string | null | undefined) => formatDay(date, "MM/dd/yyyy")
+  const columns = ["TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"]
+  const lines = [
+    iifRow(["!TRNS", "TRNSID", ...columns]),
+    iifRow(["!SPL", "SPLID", ...columns]),
+    iifRow(["!ENDTRNS"]),
+  ]
+  const transaction = (type: string, date: string, name: string, docNum: string, main: [string, number, string], splits: [string, number, string][]) => {
+    lines.push(iifRow(["TRNS", "", type, day(date), main[0], name, money(main[1]), docNum, main[2]]))
+    splits.forEach(([account, amount, memo]) => {
+      lines.push(iifRow(["SPL", "", type, day(date), account, name, money(amount), docNum, memo]))
+    })
+    lines.push(iifRow(["ENDTRNS"]))
+  }
+
+  switch (dataset) {
+    case "invoices":
+      data.invoices.forEach(i => {
+        const exportLines = getExportLines(i)
+        const tax = Number(i.tax_amount) || 0
+        transaction(
+          "INVOICE",
+          issueDate(i),
+          clientName(i.clients),
+          i.invoice_number,
+          [QUICKBOOKS_ACCOUNTS.receivable, Number(i.subtotal) + tax, i.projects?.name ?? ""],
+          [
+            ...exportLines.map((line): [string, number, string] => [QUICKBOOKS_ACCOUNTS.income, -line.net, line.description]),
+            ...(tax ? [[QUICKBOOKS_ACCOUNTS.tax, -tax, "VAT"] as [string, number, string]] : []),
+          ]
+        )
+      })
+      break
+    case "payments":
+      data.payments.forEach(p => {
+        const amount = Number(p.amount)
+        transaction(
+          "PAYMENT",
+          p.paid_on,
+          clientName(p.invoices?.clients),
+          p.invoices?.invoice_number ?? "",
+          [QUICKBOOKS_ACCOUNTS.undeposited, amount, p.reference ?? ""],
+          [[QUICKBOOKS_ACCOUNTS.receivable, -amount, getPaymentMethodLabel(p.method)]]
+        )
+      })
+      break
+    case "expenses":
+      data.expenses.forEach(e => {
+        const amount = Number(e.amount)
+        transaction(
+          "CHECK",
+          e.date ?? "",
+          "",
+          "",
+          [QUICKBOOKS_ACCOUNTS.bank, -amount, e.description],
+          [[getExpenseCategoryName(e), amount, e.projects?.name ? `${e.description} (${e.projects.name})` : e.description]]
+        )
+      })
+      break
+  }
+
+  return lines.join("\r\n") + "\r\n"
+}
+
+/**
+ * Builds one file per dataset. Rows are sorted and nothing time-dependent is
+ * written, so exporting the same range twice gives identical files.
+ */
+export function buildAccountingExport(
+  exportFormat: AccountingFormat,
+  datasets: AccountingDataset[],
+  data: AccountingData,
+  range: { from: string; to: string },
+  baseCurrency: string
+): AccountingFile[] {
+  const sorted = sortData(data)
+
+  return datasets.map(dataset => {
+    const filename = `${dataset}-${range.from}-to-${range.to}-${exportFormat}`
+    const rows = sorted[dataset].length
+
+    if (exportFormat === "quickbooks") {
+      return {
+        dataset,
+        filename: `${filename}.iif`,
+        content: quickbooksIif(dataset, sorted),
+        mimeType: "text/plain;charset=utf-8",
+        rows,
+      }
+    }
+
+    return {
+      dataset,
+      filename: `${filename}.csv`,
+      content: toCsv(exportFormat === "xero" ? xeroCsv(dataset, sorted) : genericCsv(dataset, sorted, baseCurrency)),
+      mimeType: "text/csv;charset=utf-8",
+      rows,
+    }
+  })
+}
+
+export async function getChecksum(content: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,261 @@
+import { differenceInCalendarDays, format, isValid, parse, parseISO } from "date-fns"
+import type { Tables } from "./database.types"
+import { getOutstandingBalance } from "./invoices"
+
+export type BankImportProfile = Tables<"bank_import_profiles">
+export type BankTransaction = Tables<"bank_transactions">
+
+export type BankMapping = Pick<
+  BankImportProfile,
+  | "delimiter"
+  | "has_header"
+  | "date_column"
+  | "date_format"
+  | "description_column"
+  | "reference_column"
+  | "amount_column"
+  | "debit_column"
+  | "credit_column"
+>
+
+export const CSV_DELIMITERS = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+]
+
+export const BANK_DATE_FORMATS = [
+  { value: "yyyy-MM-dd", label: "2026-10-19" },
+  { value: "dd/MM/yyyy", label: "19/10/2026" },
+  { value: "MM/dd/yyyy", label: "10/19/2026" },
+  { value: "dd.MM.yyyy", label: "19.10.2026" },
+  { value: "dd-MM-yyyy", label: "19-10-2026" },
+  { value: "d MMM yyyy", label: "19 Oct 2026" },
+]
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain delimiters, newlines and
+ * doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ""))
+}
+
+/**
+ * Header names for a statement, or "Column N" when the file has no header row.
+ */
+export function getCsvColumns(rows: string[][], hasHeader: boolean) {
+  const width = Math.max(0, ...rows.map(r => r.length))
+  return Array.from({ length: width }, (_, i) => {
+    const name = hasHeader ? rows[0]?.[i]?.trim() : ""
+    return name || `Column ${i + 1}`
+  })
+}
+
+/**
+ * Reads "1,234.56", "1.234,56", "1,234", "(45.00)", "-45", "45.00 CR" and "45.00 DR" style amounts.
+ * Commas that group digits in threes, with no dot, are thousands separators, and a trailing
+ * CR or DR sets the sign.
+ */
+export function parseAmount(value: string | undefined) {
+  if (!value) return 0
+  const trimmed = value.trim()
+  const suffix = trimmed.match(/(?:^|[^a-z])(CR|DR)\.?$/i)?.[1].toUpperCase()
+  let text = trimmed.replace(/[^\d,.\-()]/g, "")
+  const negative = suffix
+    ? suffix === "DR"
+    : text.startsWith("-") || (text.startsWith("(") && text.endsWith(")"))
+  text = text.replace(/[-()]/g, "")
+
+  const lastComma = text.lastIndexOf(",")
+  const lastDot = text.lastIndexOf(".")
+  const commaGroupsThousands = lastDot === -1 && /^\d{1,3}(,\d{3})+$/.test(text)
+  if (lastComma > lastDot && !commaGroupsThousands) {
+    // Comma is the decimal separator
+    text = text.replace(/\./g, "").replace(",", ".")
+  } else {
+    text = text.replace(/,/g, "")
+  }
+
+  const amount = Number(text)
+  if (isNaN(amount)) return 0
+  return negative ? -amount : amount
+}
+
+export interface ParsedTransaction {
+  transaction_date: string
+  description: string
+  reference: string | null
+  amount: number
+  fingerprint: string
+}
+
+export interface ParsedStatement {
+  transactions: ParsedTransaction[]
+  /** 1-based line numbers that couldn't be read */
+  skippedLines: number[]
+}
+
+export function parseStatement(rows: string[][], mapping: BankMapping): ParsedStatement {
+  const columns = getCsvColumns(rows, mapping.has_header)
+  const indexOf = (name: string | null) => (name ? columns.indexOf(name) : -1)
+  const dateIndex = indexOf(mapping.date_column)
+  const descriptionIndex = indexOf(mapping.description_column)
+  const referenceIndex = indexOf(mapping.reference_column)
+  const amountIndex = indexOf(mapping.amount_column)
+  const debitIndex = indexOf(mapping.debit_column)
+  const creditIndex = indexOf(mapping.credit_column)
+
+  const transactions: ParsedTransaction[] = []
+  const skippedLines: number[] = []
+  const seen = new Map<string, number>()
+
+  rows.forEach((row, index) => {
+    if (mapping.has_header && index === 0) return
+
+    const date = parse(row[dateIndex]?.trim() ?? "", mapping.date_format, new Date())
+    const amount = amountIndex >= 0
+      ? parseAmount(row[amountIndex])
+      : Math.abs(parseAmount(row[creditIndex])) - Math.abs(parseAmount(row[debitIndex]))
+
+    if (!isValid(date) || !amount) {
+      skippedLines.push(index + 1)
+      return
+    }
+
+    const transaction = {
+      transaction_date: format(date, "yyyy-MM-dd"),
+      description: row[descriptionIndex]?.trim() ?? "",
+      reference: referenceIndex >= 0 ? row[referenceIndex]?.trim() || null : null,
+      amount: Math.round(amount * 100) / 100,
+    }
+
+    // Identical lines on the same day (two equal card payments) stay distinct
+    const key = [transaction.transaction_date, transaction.amount.toFixed(2), transaction.description, transaction.reference ?? ""].join("|")
+    const occurrence = (seen.get(key) ?? 0) + 1
+    seen.set(key, occurrence)
+
+    transactions.push({ ...transaction, fingerprint: `${key}|${occurrence}` })
+  })
+
+  return { transactions, skippedLines }
+}
+
+export type MatchableInvoice = Pick<
+  Tables<"invoices">,
+  "id" | "invoice_number" | "amount" | "amount_paid" | "currency" | "status" | "due_date"
+> & {
+  clients?: { first_name: string; last_name: string | null } | null
+}
+
+export type MatchableExpense = Pick<Tables<"expenses">, "id" | "description" | "amount" | "date">
+
+export type SuggestedMatch =
+  | { type: "invoice"; invoice: MatchableInvoice; reason: string }
+  | { type: "expense"; expense: MatchableExpense; reason: string }
+
+function normalize(text: string | null | undefined) {
+  return (text ?? "").toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005
+
+/**
+ * Whether the text mentions the invoice number as a whole token. Separators
+ * inside the number are optional ("INV-1000" matches "inv 1000" and "INV1000"),
+ * but the surrounding characters must not continue it, so "INV1000" doesn't
+ * match "INV10001".
+ */
+function mentionsInvoiceNumber(text: string, invoiceNumber: string) {
+  const parts = invoiceNumber.toLowerCase().match(/[a-z]+|\d+/g)
+  if (!parts) return false
+  return new RegExp(`(?<![a-z0-9])${parts.join("[^a-z0-9]*")}(?![a-z0-9])`).test(text.toLowerCase())
+}
+
+/**
+ * Best guess for a statement line. Credits are matched to open invoices in the
+ * same currency, by invoice number in the description or reference first and
+ * then by an outstanding balance that only one invoice has. Debits are matched
+ * to expenses of the same amount booked within a week and not yet reconciled.
+ */
+export function suggestMatch(
+  transaction: Pick<BankTransaction, "amount" | "currency" | "description" | "reference" | "transaction_date">,
+  invoices: MatchableInvoice[],
+  expenses: MatchableExpense[]
+): SuggestedMatch | null {
+  const amount = Number(transaction.amount)
+
+  if (amount > 0) {
+    const candidates = invoices.filter(i => i.currency === transaction.currency && getOutstandingBalance(i) > 0)
+    const rawText = `${transaction.description} ${transaction.reference ?? ""}`
+    const text = normalize(rawText)
+
+    // The longest number wins when one is a prefix of another mentioned alongside it
+    const byNumber = candidates
+      .filter(i => mentionsInvoiceNumber(rawText, i.invoice_number))
+      .sort((a, b) => normalize(b.invoice_number).length - normalize(a.invoice_number).length)[0]
+    if (byNumber) {
+      return { type: "invoice", invoice: byNumber, reason: `Mentions ${byNumber.invoice_number}` }
+    }
+
+    const byAmount = candidates.filter(i => sameAmount(getOutstandingBalance(i), amount))
+    if (byAmount.length === 1) {
+      return { type: "invoice", invoice: byAmount[0], reason: "Same amount as the balance due" }
+    }
+
+    const byClient = byAmount.find(i => i.clients && text.includes(normalize(`${i.clients.first_name}${i.clients.last_name ?? ""}`)))
+    if (byClient) {
+      return { type: "invoice", invoice: byClient, reason: "Same amount and client name" }
+    }
+
+    return null
+  }
+
+  const date = parseISO(transaction.transaction_date)
+  const expense = expenses
+    .filter(e => sameAmount(Number(e.amount), Math.abs(amount)) && e.date)
+    .map(e => ({ expense: e, days: Math.abs(differenceInCalendarDays(parseISO(e.date!), date)) }))
+    .filter(e => e.days <= 7)
+    .sort((a, b) => a.days - b.days)[0]?.expense
+
+  return expense ? { type: "expense", expense, reason: "Same amount within a week" } : null
+}
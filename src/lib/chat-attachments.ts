@@ -0,0 +1,131 @@
+import { supabase } from "./supabase"
+import { compressImage, getFileExtension } from "./files"
+import type { MessageAttachment, NewMessageAttachment } from "./chat"
+
+const BUCKET = "chat-attachments"
+
+/** Largest file accepted in chat, after image compression */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+
+/** Image types the browser can preview inline */
+export function isImageAttachment(attachment: Pick<MessageAttachment, "file_type">) {
+  return attachment.file_type.startsWith("image/") && attachment.file_type !== "image/svg+xml"
+}
+
+/**
+ * Compresses images and uploads the file under the channel's folder, ready to
+ * be sent with sendMessage.
+ */
+export async function uploadChatAttachment(channelId: string, file: File): Promise<NewMessageAttachment> {
+  const fileToUpload = await compressImage(file)
+  if (fileToUpload.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`)
+  }
+
+  const extension = getFileExtension(file.name)
+  const filePath = `${channelId}/${crypto.randomUUID()}${extension ? `.${extension}` : ""}`
+  const fileType = fileToUpload.type || file.type || "application/octet-stream"
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, fileToUpload, { contentType: fileType })
+
+  if (error) throw error
+  return { file_path: filePath, file_name: file.name, file_type: fileType, file_size: fileToUpload.size }
+}
+
+/** Removes an upload that was never sent */
+export async function removeChatUpload(filePath: string) {
+  const { error } = await supabase.storage.from(BUCKET).remove([filePath])
+  if (error) throw error
+}
+
+/**
+ * Removes the stored files of a message that is being deleted. Deleting the
+ * message drops its attachment rows, but the files would otherwise stay
+ * readable by anyone in the channel.
+ */
+export async function removeMessageAttachments(attachments: Pick<MessageAttachment, "file_path">[]) {
+  if (attachments.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .remove(attachments.map(attachment => attachment.file_path))
+
+  if (error) throw error
+}
+
+const SIGNED_URL_SECONDS = 60 * 60
+const signedUrls = new Map<string, { url: string; expiresAt: number }>()
+
+/**
+ * Signed URL for viewing an attachment, reused while it has a few minutes left
+ * so scrolling back through a channel doesn't sign every image again.
+ */
+export async function getAttachmentUrl(filePath: string) {
+  const cached = signedUrls.get(filePath)
+  if (cached && cached.expiresAt - Date.now() > 5 * 60 * 1000) return cached.url
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(filePath, SIGNED_URL_SECONDS)
+
+  if (error) throw error
+  signedUrls.set(filePath, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 })
+  return data.signedUrl
+}
+
+export async function downloadAttachment(attachment: Pick<MessageAttachment, "file_path" | "file_name">) {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(attachment.file_path, 60, { download: attachment.file_name })
+
+  if (error) throw error
+  window.open(data.signedUrl, "_blank", "noopener,noreferrer")
+}
+
+export type ChannelFile = MessageAttachment & {
+  created_at: string
+  message_id: string
+  profiles: { full_name: string | null; email: string | null } | null
+}
+
+/** Files shared in a channel, newest first, leaving out deleted messages */
+export async function fetchChannelFiles(channelId: string) {
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .select("id, channel_id, message_id, file_path, file_name, file_type, file_size, created_at, profiles:user_id (full_name, email), messages!inner (deleted_at)")
+    .eq("channel_id", channelId)
+    .is("messages.deleted_at", null)
+    .order("created_at", { ascending: false })
+    .limit(200)
+
+  if (error) throw error
+  return (data as unknown as ChannelFile[]) || []
+}
+
+/**
+ * Copies a chat file into the task-attachments bucket and lists it on the task,
+ * the same way files uploaded from the task form are stored.
+ */
+export async function attachFileToTask(attachment: MessageAttachment, taskId: string, userId: string) {
+  const extension = getFileExtension(attachment.file_name)
+  const filePath = `${taskId}/${crypto.randomUUID()}${extension ? `.${extension}` : ""}`
+
+  const { error: copyError } = await supabase.storage
+    .from(BUCKET)
+    .copy(attachment.file_path, filePath, { destinationBucket: "task-attachments" })
+
+  if (copyError) throw copyError
+
+  const { error } = await supabase.from("task_attachments").insert({
+    task_id: taskId,
+    user_id: userId,
+    file_path: filePath,
+    file_name: attachment.file_name,
+    file_type: attachment.file_type,
+    file_size: attachment.file_size,
+  })
+
+  if (error) throw error
+}
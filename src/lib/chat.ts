@@ -0,0 +1,326 @@
+import { supabase } from "./supabase"
+import type { Tables } from "./database.types"
+
+export type MessageReaction = Pick<Tables<"message_reactions">, "emoji" | "user_id">
+export type MessageEdit = Tables<"message_edits">
+export type MessageAttachment = Pick<
+  Tables<"message_attachments">,
+  "id" | "channel_id" | "file_path" | "file_name" | "file_type" | "file_size"
+>
+
+export interface ChatMessage {
+  id: string
+  content: string
+  created_at: string
+  user_id: string
+  channel_id: string | null
+  parent_id: string | null
+  edited_at: string | null
+  deleted_at: string | null
+  reply_count: number
+  last_reply_at: string | null
+  profiles: {
+    full_name: string | null
+    avatar_url: string | null
+    email: string | null
+  }
+  message_reactions: MessageReaction[]
+  message_attachments: MessageAttachment[]
+}
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "👀", "✅"]
+
+/** Messages fetched per request, both for the first screen and each older or newer page */
+export const MESSAGE_PAGE_SIZE = 50
+
+const MESSAGE_SELECT = "*, profiles:user_id (full_name, avatar_url, email), message_reactions (emoji, user_id), " +
+  "message_attachments (id, channel_id, file_path, file_name, file_type, file_size)"
+
+export interface MessagePage {
+  /** Oldest first */
+  messages: ChatMessage[]
+  hasMore: boolean
+}
+
+/**
+ * Position in a channel's history. Messages sent in the same transaction share
+ * created_at, so the id breaks ties to keep pages from skipping any of them.
+ */
+export type MessageCursor = Pick<ChatMessage, "created_at" | "id">
+
+// PostgREST filter for rows on one side of the cursor in (created_at, id) order
+function cursorFilter(cursor: MessageCursor, direction: "lt" | "gt", inclusive = false) {
+  const idOperator = inclusive ? `${direction}e` : direction
+  return `created_at.${direction}."${cursor.created_at}",` +
+    `and(created_at.eq."${cursor.created_at}",id.${idOperator}.${cursor.id})`
+}
+
+/** A contiguous slice of a channel's history */
+export interface MessageWindow {
+  messages: ChatMessage[]
+  hasOlder: boolean
+  hasNewer: boolean
+}
+
+export async function fetchMessage(messageId: string) {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_SELECT)
+    .eq("id", messageId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as unknown as ChatMessage | null
+}
+
+/**
+ * The page of messages sent before the cursor, or the latest page without one.
+ * One extra row is requested to tell whether anything older is left.
+ */
+export async function fetchMessagesBefore(
+  channelId: string,
+  before?: MessageCursor,
+  { inclusive = false, limit = MESSAGE_PAGE_SIZE } = {}
+): Promise<MessagePage> {
+  let query = supabase
+    .from("messages")
+    .select(MESSAGE_SELECT)
+    .eq("channel_id", channelId)
+    .is("parent_id", null)
+
+  if (before) {
+    query = query.or(cursorFilter(before, "lt", inclusive))
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1)
+
+  if (error) throw error
+  const rows = (data as unknown as ChatMessage[]) || []
+  return { messages: rows.slice(0, limit).reverse(), hasMore: rows.length > limit }
+}
+
+export async function fetchMessagesAfter(
+  channelId: string,
+  after: MessageCursor,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_SELECT)
+    .eq("channel_id", channelId)
+    .is("parent_id", null)
+    .or(cursorFilter(after, "gt"))
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(limit + 1)
+
+  if (error) throw error
+  const rows = (data as unknown as ChatMessage[]) || []
+  return { messages: rows.slice(0, limit), hasMore: rows.length > limit }
+}
+
+export async function fetchLatestMessages(channelId: string): Promise<MessageWindow> {
+  const page = await fetchMessagesBefore(channelId)
+  return { messages: page.messages, hasOlder: page.hasMore, hasNewer: false }
+}
+
+/**
+ * A page centred on one message, for links to it. Links to a thread reply
+ * centre on the message that started the thread. Returns null when the message
+ * is gone or belongs to another channel.
+ */
+export async function fetchMessagesAround(
+  channelId: string,
+  messageId: string
+): Promise<(MessageWindow & { target: ChatMessage }) | null> {
+  const target = await fetchMessage(messageId)
+  if (!target) return null
+  const anchor = target.parent_id ? await fetchMessage(target.parent_id) : target
+  if (!anchor) return null
+
+  const half = Math.ceil(MESSAGE_PAGE_SIZE / 2)
+  const [before, after] = await Promise.all([
+    fetchMessagesBefore(channelId, anchor, { inclusive: true, limit: half }),
+    fetchMessagesAfter(channelId, anchor, half),
+  ])
+
+  if (!before.messages.some(m => m.id === anchor.id)) return null
+  return {
+    messages: [...before.messages, ...after.messages],
+    hasOlder: before.hasMore,
+    hasNewer: after.hasMore,
+    target,
+  }
+}
+
+export async function fetchThreadReplies(parentId: string) {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_SELECT)
+    .eq("parent_id", parentId)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return (data as unknown as ChatMessage[]) || []
+}
+
+export async function fetchReactions(messageId: string) {
+  const { data, error } = await supabase
+    .from("message_reactions")
+    .select("emoji, user_id")
+    .eq("message_id", messageId)
+    .order("created_at")
+
+  if (error) throw error
+  return data || []
+}
+
+export async function fetchMessageEdits(messageId: string) {
+  const { data, error } = await supabase
+    .from("message_edits")
+    .select("*")
+    .eq("message_id", messageId)
+    .order("edited_at", { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/** An uploaded file waiting to be sent, as send_message expects it */
+export type NewMessageAttachment = Pick<MessageAttachment, "file_path" | "file_name" | "file_type" | "file_size">
+
+/**
+ * Posts a message together with its already uploaded attachments, so realtime
+ * subscribers fetch it complete. Returns the new message's id.
+ */
+export async function sendMessage({
+  channelId,
+  content,
+  parentId,
+  attachments = [],
+}: {
+  channelId: string
+  content: string
+  parentId?: string
+  attachments?: NewMessageAttachment[]
+}) {
+  const { data, error } = await supabase.rpc("send_message", {
+    p_channel_id: channelId,
+    p_content: content,
+    p_parent_id: parentId,
+    p_attachments: attachments,
+  })
+
+  if (error) throw error
+  return data
+}
+
+export interface ReactionSummary {
+  emoji: string
+  count: number
+  userIds: string[]
+  /** Whether the current user is one of them */
+  reacted: boolean
+}
+
+/** Reactions grouped by emoji, in the order each emoji was first used */
+export function summarizeReactions(reactions: MessageReaction[], userId: string | undefined): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>()
+  reactions.forEach(reaction => {
+    const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, userIds: [], reacted: false }
+    summary.count += 1
+    summary.userIds.push(reaction.user_id)
+    summary.reacted ||= reaction.user_id === userId
+    byEmoji.set(reaction.emoji, summary)
+  })
+  return Array.from(byEmoji.values())
+}
+
+export async function toggleReaction(message: ChatMessage, emoji: string, userId: string) {
+  const existing = message.message_reactions.some(r => r.emoji === emoji && r.user_id === userId)
+  const { error } = existing
+    ? await supabase.from("message_reactions").delete()
+      .eq("message_id", message.id)
+      .eq("user_id", userId)
+      .eq("emoji", emoji)
+    : await supabase.from("message_reactions").insert({ message_id: message.id, user_id: userId, emoji })
+
+  if (error) throw error
+}
+
+/** Applies a realtime change to a loaded list, keeping the joined profile and reactions */
+export function patchMessage(messages: ChatMessage[], id: string, patch: Partial<ChatMessage>) {
+  return messages.some(m => m.id === id)
+    ? messages.map(m => (m.id === id ? { ...m, ...patch } : m))
+    : messages
+}
+
+/** Appends or prepends a page, dropping messages that realtime already delivered */
+export function mergeMessages(current: ChatMessage[], page: ChatMessage[], position: "before" | "after") {
+  const ids = new Set(current.map(m => m.id))
+  const fresh = page.filter(m => !ids.has(m.id))
+  return position === "before" ? [...fresh, ...current] : [...current, ...fresh]
+}
+
+export type MessageRow = Tables<"messages">
+
+interface MessageChangeHandlers {
+  onInsert: (row: MessageRow) => void
+  onUpdate: (row: MessageRow) => void
+  onDelete: (id: string) => void
+  onReactionChange: (messageId: string) => void
+}
+
+/**
+ * Realtime inserts and updates of the messages matching `filter`, plus deletes
+ * and reaction changes, which can't be filtered server-side, so handlers should
+ * ignore messages they don't hold. Returns the unsubscribe function.
+ */
+export function subscribeToMessages(topic: string, filter: string, handlers: MessageChangeHandlers) {
+  const subscription = supabase
+    .channel(topic)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "messages", filter },
+      (payload) => handlers.onInsert(payload.new as MessageRow)
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "messages", filter },
+      (payload) => handlers.onUpdate(payload.new as MessageRow)
+    )
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "messages" },
+      (payload) => {
+        if (payload.old.id) handlers.onDelete(payload.old.id)
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "message_reactions" },
+      (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<Tables<"message_reactions">>
+        if (row.message_id) handlers.onReactionChange(row.message_id)
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(subscription)
+  }
+}
+
+/** The realtime row without the joined profile and reactions, for patchMessage */
+export function getMessagePatch(row: MessageRow): Partial<ChatMessage> {
+  return {
+    content: row.content,
+    edited_at: row.edited_at,
+    deleted_at: row.deleted_at,
+    reply_count: row.reply_count,
+    last_reply_at: row.last_reply_at,
+  }
+}
@@ -0,0 +1,111 @@
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import { supabase } from "@/lib/supabase"
+
+export type CredentialAction = "reveal" | "copy"
+
+export type CredentialExpiryStatus = "expired" | "expiring-soon"
+
+// Credentials expiring within this many days are flagged on /dashboard/credentials
+export const EXPIRING_SOON_DAYS = 14
+
+export const ROTATION_INTERVALS = [
+  { days: 30, label: "30 days" },
+  { days: 60, label: "60 days" },
+  { days: 90, label: "90 days" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+]
+
+export interface CredentialRevealResult {
+  success: boolean
+  value?: string
+  error?: "invalid" | "locked" | "no_pin" | "forbidden"
+  lockedUntil?: string
+  remainingAttempts?: number
+}
+
+interface RevealRpcResponse {
+  success: boolean
+  value?: string
+  error?: CredentialRevealResult["error"]
+  locked_until?: string
+  remaining_attempts?: number
+}
+
+/**
+ * Decrypts a credential server-side. The PIN is checked against the same lockout as the PIN wall,
+ * and every successful call is written to audit_logs.
+ */
+export async function revealCredential(
+  credentialId: string,
+  action: CredentialAction,
+  pin?: string
+): Promise<CredentialRevealResult> {
+  const { data, error } = await supabase.rpc("reveal_credential", {
+    p_credential_id: credentialId,
+    p_action: action,
+    p_pin: pin,
+  })
+  if (error) throw error
+
+  const response = data as unknown as RevealRpcResponse
+  return {
+    success: response.success,
+    value: response.value,
+    error: response.error,
+    lockedUntil: response.locked_until,
+    remainingAttempts: response.remaining_attempts,
+  }
+}
+
+/**
+ * Records a copy of a value that has already been revealed, without asking for the PIN again.
+ */
+export async function logCredentialAccess(credentialId: string, action: CredentialAction) {
+  const { error } = await supabase.rpc("log_credential_access", {
+    p_credential_id: credentialId,
+    p_action: action,
+  })
+  if (error) throw error
+}
+
+export function getCredentialExpiryStatus(
+  credential: { expires_at?: string | null },
+  now: Date = new Date()
+): CredentialExpiryStatus | null {
+  if (!credential.expires_at) return null
+
+  const daysLeft = differenceInCalendarDays(parseISO(credential.expires_at), now)
+  if (daysLeft < 0) return "expired"
+  if (daysLeft <= EXPIRING_SOON_DAYS) return "expiring-soon"
+  return null
+}
+
+/**
+ * "Email Password" credentials store both parts as a JSON string.
+ */
+export function parseEmailPassword(value: string) {
+  try {
+    const parsed = JSON.parse(value)
+    return { email: parsed.email || "", password: parsed.password || "" }
+  } catch {
+    return { email: "", password: value }
+  }
+}
+
+export function getRevealErrorMessage(result: CredentialRevealResult) {
+  switch (result.error) {
+    case "locked":
+      return "Too many incorrect PIN attempts. Try again later."
+    case "invalid":
+      return result.remainingAttempts !== undefined
+        ? `Incorrect PIN. ${result.remainingAttempts} ${result.remainingAttempts === 1 ? "attempt" : "attempts"} left.`
+        : "Incorrect PIN"
+    case "no_pin":
+      return "Set up a security PIN before revealing credentials"
+    case "forbidden":
+      return "You don't have access to this credential"
+    default:
+      return "Failed to reveal credential"
+  }
+}
@@ -0,0 +1,71 @@
+import { format, parseISO } from "date-fns"
+import type { Tables } from "@/lib/database.types"
+
+export type ExchangeRate = Tables<"exchange_rates">
+
+export const DEFAULT_CURRENCY = "USD"
+
+// The locale decides symbol placement and separators, e.g. "£1,234.50" vs "$1,234.50"
+export const CURRENCIES = [
+  { code: "USD", label: "US Dollar", locale: "en-US" },
+  { code: "GBP", label: "British Pound", locale: "en-GB" },
+  { code: "EUR", label: "Euro", locale: "en-IE" },
+  { code: "CAD", label: "Canadian Dollar", locale: "en-CA" },
+  { code: "AUD", label: "Australian Dollar", locale: "en-AU" },
+]
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY) {
+  let formatter = formatters.get(currency)
+  if (!formatter) {
+    const locale = CURRENCIES.find(c => c.code === currency)?.locale ?? "en-US"
+    formatter = new Intl.NumberFormat(locale, { style: "currency", currency })
+    formatters.set(currency, formatter)
+  }
+  return formatter.format(Number(amount) || 0)
+}
+
+/**
+ * Picks the first currency that is set, e.g. a phase's own currency, then its
+ * client's default, then the organization's base currency.
+ */
+export function resolveCurrency(...candidates: (string | null | undefined)[]) {
+  return candidates.find(Boolean) || DEFAULT_CURRENCY
+}
+
+/**
+ * Exchange rates are stored against the first day of their month.
+ */
+export function toRateMonth(date: string | Date) {
+  return format(typeof date === "string" ? parseISO(date) : date, "yyyy-MM-01")
+}
+
+/**
+ * Rate for converting `currency` into the base currency in the month of `date`.
+ * Falls back to the most recent earlier month so a missing entry doesn't drop revenue,
+ * and returns null if no rate has ever been entered for the currency.
+ */
+export function findExchangeRate(rates: ExchangeRate[], currency: string, date: string | Date) {
+  const month = toRateMonth(date)
+  let match: ExchangeRate | null = null
+
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.month > month) continue
+    if (!match || rate.month > match.month) match = rate
+  }
+
+  return match ? Number(match.rate) : null
+}
+
+export function convertToBaseCurrency(
+  amount: number,
+  currency: string,
+  date: string | Date,
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): number | null {
+  if (currency === baseCurrency) return amount
+  const rate = findExchangeRate(rates, currency, date)
+  return rate === null ? null : amount * rate
+}
@@ -55,6 +55,224 @@ export type Database = {
           },
         ]
       }
+      bank_import_profiles: {
+        Row: {
+          amount_column: string | null
+          created_at: string
+          created_by: string | null
+          credit_column: string | null
+          currency: string
+          date_column: string
+          date_format: string
+          debit_column: string | null
+          delimiter: string
+          description_column: string
+          has_header: boolean
+          id: string
+          name: string
+          organization_id: string
+          reference_column: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount_column?: string | null
+          created_at?: string
+          created_by?: string | null
+          credit_column?: string | null
+          currency?: string
+          date_column: string
+          date_format?: string
+          debit_column?: string | null
+          delimiter?: string
+          description_column: string
+          has_header?: boolean
+          id?: string
+          name: string
+          organization_id: string
+          reference_column?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount_column?: string | null
+          created_at?: string
+          created_by?: string | null
+          credit_column?: string | null
+          currency?: string
+          date_column?: string
+          date_format?: string
+          debit_column?: string | null
+          delimiter?: string
+          description_column?: string
+          has_header?: boolean
+          id?: string
+          name?: string
+          organization_id?: string
+          reference_column?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_import_profiles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_import_profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          description: string
+          expense_created: boolean
+          expense_id: string | null
+          fingerprint: string
+          id: string
+          import_profile_id: string | null
+          invoice_id: string | null
+          invoice_payment_id: string | null
+          matched_at: string | null
+          matched_by: string | null
+          organization_id: string
+          reference: string | null
+          status: string
+          transaction_date: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          description?: string
+          expense_created?: boolean
+          expense_id?: string | null
+          fingerprint: string
+          id?: string
+          import_profile_id?: string | null
+          invoice_id?: string | null
+          invoice_payment_id?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          organization_id: string
+          reference?: string | null
+          status?: string
+          transaction_date: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          description?: string
+          expense_created?: boolean
+          expense_id?: string | null
+          fingerprint?: string
+          id?: string
+          import_profile_id?: string | null
+          invoice_id?: string | null
+          invoice_payment_id?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          organization_id?: string
+          reference?: string | null
+          status?: string
+          transaction_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_import_profile_id_fkey"
+            columns: ["import_profile_id"]
+            isOneToOne: false
+            referencedRelation: "bank_import_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_invoice_payment_id_fkey"
+            columns: ["invoice_payment_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_matched_by_fkey"
+            columns: ["matched_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_reads: {
+        Row: {
+          channel_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          channel_id: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          channel_id?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_reads_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "channels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "channel_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       channels: {
         Row: {
           created_at: string | null
@@ -120,80 +338,159 @@ export type Database = {
           city: string | null
           country: string | null
           created_at: string
+          currency: string | null
           email: string | null
           first_name: string
           id: string
           last_name: string | null
           notes: string | null
           phone: string | null
+          search_vector: unknown
           state: string | null
           timezone: string | null
           user_id: string | null
+          vat_number: string | null
+          vat_treatment: string
         }
         Insert: {
           address?: string | null
           city?: string | null
           country?: string | null
           created_at?: string
+          currency?: string | null
           email?: string | null
           first_name: string
           id?: string
           last_name?: string | null
           notes?: string | null
           phone?: string | null
+          search_vector?: never
           state?: string | null
           timezone?: string | null
           user_id?: string | null
+          vat_number?: string | null
+          vat_treatment?: string
         }
         Update: {
           address?: string | null
           city?: string | null
           country?: string | null
           created_at?: string
+          currency?: string | null
           email?: string | null
           first_name?: string
           id?: string
           last_name?: string | null
           notes?: string | null
           phone?: string | null
+          search_vector?: never
           state?: string | null
           timezone?: string | null
           user_id?: string | null
+          vat_number?: string | null
+          vat_treatment?: string
         }
         Relationships: []
       }
+      credential_versions: {
+        Row: {
+          credential_id: string
+          id: string
+          replaced_at: string
+          replaced_by: string | null
+          valid_from: string | null
+          value_encrypted: string
+        }
+        Insert: {
+          credential_id: string
+          id?: string
+          replaced_at?: string
+          replaced_by?: string | null
+          valid_from?: string | null
+          value_encrypted: string
+        }
+        Update: {
+          credential_id?: string
+          id?: string
+          replaced_at?: string
+          replaced_by?: string | null
+          valid_from?: string | null
+          value_encrypted?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credential_versions_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credential_versions_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       credentials: {
         Row: {
           created_at: string | null
+          created_by: string | null
+          expires_at: string | null
           id: string
+          last_rotated_at: string
           name: string
           notes: string | null
           project_id: string | null
+          rotation_interval_days: number | null
+          search_vector: unknown
           type: string
           user_id: string | null
-          value: string
+          value: string | null
+          value_encrypted: string | null
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
           id?: string
+          last_rotated_at?: string
           name: string
           notes?: string | null
           project_id?: string | null
+          rotation_interval_days?: number | null
+          search_vector?: never
           type: string
           user_id?: string | null
-          value: string
+          value?: string | null
+          value_encrypted?: string | null
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
           id?: string
+          last_rotated_at?: string
           name?: string
           notes?: string | null
           project_id?: string | null
+          rotation_interval_days?: number | null
+          search_vector?: never
           type?: string
           user_id?: string | null
-          value?: string
+          value?: string | null
+          value_encrypted?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "credentials_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "credentials_project_id_fkey"
             columns: ["project_id"]
@@ -258,6 +555,7 @@ export type Database = {
           id: string
           is_converted: boolean | null
           project_id: string
+          search_vector: unknown
           title: string
           updated_at: string | null
           user_id: string | null
@@ -268,6 +566,7 @@ export type Database = {
           id?: string
           is_converted?: boolean | null
           project_id: string
+          search_vector?: never
           title: string
           updated_at?: string | null
           user_id?: string | null
@@ -278,6 +577,7 @@ export type Database = {
           id?: string
           is_converted?: boolean | null
           project_id?: string
+          search_vector?: never
           title?: string
           updated_at?: string | null
           user_id?: string | null
@@ -292,41 +592,134 @@ export type Database = {
           },
         ]
       }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          month: string
+          organization_id: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          id?: string
+          month: string
+          organization_id: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          month?: string
+          organization_id?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exchange_rates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_categories_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expenses: {
         Row: {
           amount: number
           category: string | null
+          category_id: string | null
           created_at: string | null
           date: string | null
           description: string
           id: string
           organization_id: string | null
           project_id: string | null
+          receipt_path: string | null
+          recurring_expense_id: string | null
           user_id: string | null
         }
         Insert: {
           amount: number
           category?: string | null
+          category_id?: string | null
           created_at?: string | null
           date?: string | null
           description: string
           id?: string
           organization_id?: string | null
           project_id?: string | null
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
           user_id?: string | null
         }
         Update: {
           amount?: number
           category?: string | null
+          category_id?: string | null
           created_at?: string | null
           date?: string | null
           description?: string
           id?: string
           organization_id?: string | null
           project_id?: string | null
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "expenses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "expenses_organization_id_fkey"
             columns: ["organization_id"]
@@ -341,6 +734,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "expenses_user_id_fkey"
             columns: ["user_id"]
@@ -350,51 +750,123 @@ export type Database = {
           },
         ]
       }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          paid_on: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          method?: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
           amount: number
+          amount_paid: number
           client_id: string | null
           created_at: string | null
+          currency: string
           due_date: string | null
           id: string
           invoice_number: string
           line_items: Json | null
           notes: string | null
+          paid_at: string | null
           phase_id: string | null
           project_id: string | null
+          recurring_invoice_id: string | null
           status: string
+          subtotal: number
+          tax_amount: number
           updated_at: string | null
           user_id: string | null
+          vat_treatment: string
         }
         Insert: {
           amount?: number
+          amount_paid?: number
           client_id?: string | null
           created_at?: string | null
+          currency?: string
           due_date?: string | null
           id?: string
           invoice_number: string
           line_items?: Json | null
           notes?: string | null
+          paid_at?: string | null
           phase_id?: string | null
           project_id?: string | null
+          recurring_invoice_id?: string | null
           status?: string
+          subtotal?: number
+          tax_amount?: number
           updated_at?: string | null
           user_id?: string | null
+          vat_treatment?: string
         }
         Update: {
           amount?: number
+          amount_paid?: number
           client_id?: string | null
           created_at?: string | null
+          currency?: string
           due_date?: string | null
           id?: string
           invoice_number?: string
           line_items?: Json | null
           notes?: string | null
+          paid_at?: string | null
           phase_id?: string | null
           project_id?: string | null
+          recurring_invoice_id?: string | null
           status?: string
+          subtotal?: number
+          tax_amount?: number
           updated_at?: string | null
           user_id?: string | null
+          vat_treatment?: string
         }
         Relationships: [
           {
@@ -425,28 +897,189 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      messages: {
+      message_attachments: {
+        Row: {
+          channel_id: string
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          channel_id: string
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          message_id: string
+          user_id?: string
+        }
+        Update: {
+          channel_id?: string
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "channels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
         Row: {
-          channel_id: string | null
+          content: string
+          edited_at: string
+          edited_by: string | null
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          channel_id: string | null
           content: string
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
           id: string
+          last_reply_at: string | null
+          parent_id: string | null
+          reply_count: number
+          search_vector: unknown
           user_id: string | null
         }
         Insert: {
           channel_id?: string | null
           content: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
+          last_reply_at?: string | null
+          parent_id?: string | null
+          reply_count?: number
+          search_vector?: never
           user_id?: string | null
         }
         Update: {
           channel_id?: string | null
           content?: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
+          last_reply_at?: string | null
+          parent_id?: string | null
+          reply_count?: number
+          search_vector?: never
           user_id?: string | null
         }
         Relationships: [
@@ -457,6 +1090,13 @@ export type Database = {
             referencedRelation: "channels"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_user_id_fkey"
             columns: ["user_id"]
@@ -545,55 +1185,195 @@ export type Database = {
           },
         ]
       }
+      order_sources: {
+        Row: {
+          collects_payment: boolean
+          commission_flat: number
+          commission_percent: number
+          commission_tiers: Json
+          commission_type: string
+          created_at: string
+          id: string
+          key: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          collects_payment?: boolean
+          commission_flat?: number
+          commission_percent?: number
+          commission_tiers?: Json
+          commission_type?: string
+          created_at?: string
+          id?: string
+          key: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          collects_payment?: boolean
+          commission_flat?: number
+          commission_percent?: number
+          commission_tiers?: Json
+          commission_type?: string
+          created_at?: string
+          id?: string
+          key?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_sources_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizations: {
         Row: {
           billing_email: string | null
+          brand_color: string
           created_at: string | null
+          currency: string
+          default_hourly_rate: number
           email: string | null
           id: string
+          kanban_wip_limits: Json
           logo: string | null
           name: string
+          pin_idle_timeout_minutes: number
+          proposal_cover_page: boolean
+          proposal_terms: string | null
           sidebar_settings: Json | null
           updated_at: string | null
           vat_enabled: boolean | null
+          vat_number: string | null
           vat_rate: number | null
           website: string | null
         }
         Insert: {
           billing_email?: string | null
+          brand_color?: string
           created_at?: string | null
+          currency?: string
+          default_hourly_rate?: number
           email?: string | null
           id?: string
+          kanban_wip_limits?: Json
           logo?: string | null
           name: string
+          pin_idle_timeout_minutes?: number
+          proposal_cover_page?: boolean
+          proposal_terms?: string | null
           sidebar_settings?: Json | null
           updated_at?: string | null
           vat_enabled?: boolean | null
+          vat_number?: string | null
           vat_rate?: number | null
           website?: string | null
         }
         Update: {
           billing_email?: string | null
+          brand_color?: string
           created_at?: string | null
+          currency?: string
+          default_hourly_rate?: number
           email?: string | null
           id?: string
+          kanban_wip_limits?: Json
           logo?: string | null
           name?: string
+          pin_idle_timeout_minutes?: number
+          proposal_cover_page?: boolean
+          proposal_terms?: string | null
           sidebar_settings?: Json | null
           updated_at?: string | null
           vat_enabled?: boolean | null
+          vat_number?: string | null
           vat_rate?: number | null
           website?: string | null
         }
         Relationships: []
       }
+      payment_milestones: {
+        Row: {
+          amount: number | null
+          created_at: string
+          due_date: string | null
+          id: string
+          invoice_id: string | null
+          label: string
+          order_index: number
+          percentage: number | null
+          phase_id: string
+          trigger: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          label: string
+          order_index?: number
+          percentage?: number | null
+          phase_id: string
+          trigger?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          label?: string
+          order_index?: number
+          percentage?: number | null
+          phase_id?: string
+          trigger?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_milestones_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_milestones_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_milestones_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       personal_tasks: {
         Row: {
           created_at: string | null
           description: string | null
+          due_date: string | null
+          estimate: number | null
+          estimate_unit: string
           id: string
           order_index: number | null
           parent_id: string | null
+          priority: string
+          start_date: string | null
           status: string
           title: string
           type: string | null
@@ -602,9 +1382,14 @@ export type Database = {
         Insert: {
           created_at?: string | null
           description?: string | null
+          due_date?: string | null
+          estimate?: number | null
+          estimate_unit?: string
           id?: string
           order_index?: number | null
           parent_id?: string | null
+          priority?: string
+          start_date?: string | null
           status?: string
           title: string
           type?: string | null
@@ -613,9 +1398,14 @@ export type Database = {
         Update: {
           created_at?: string | null
           description?: string | null
+          due_date?: string | null
+          estimate?: number | null
+          estimate_unit?: string
           id?: string
           order_index?: number | null
           parent_id?: string | null
+          priority?: string
+          start_date?: string | null
           status?: string
           title?: string
           type?: string | null
@@ -638,12 +1428,78 @@ export type Database = {
           },
         ]
       }
+      phase_templates: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          deliverables: Json
+          description: string | null
+          id: string
+          line_items: Json
+          milestones: Json
+          name: string
+          payment_schedule: string | null
+          tasks: Json
+          tech_stack: string | null
+          timeline: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deliverables?: Json
+          description?: string | null
+          id?: string
+          line_items?: Json
+          milestones?: Json
+          name: string
+          payment_schedule?: string | null
+          tasks?: Json
+          tech_stack?: string | null
+          timeline?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deliverables?: Json
+          description?: string | null
+          id?: string
+          line_items?: Json
+          milestones?: Json
+          name?: string
+          payment_schedule?: string | null
+          tasks?: Json
+          tech_stack?: string | null
+          timeline?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phase_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       phases: {
         Row: {
           amount: number | null
           commission_amount: number | null
           commission_rate: number | null
           created_at: string | null
+          currency: string
           description: string | null
           id: string
           invoice_id: string | null
@@ -653,6 +1509,7 @@ export type Database = {
           order_source: string | null
           payment_schedule: string | null
           project_id: string | null
+          search_vector: unknown
           status: string | null
           tech_stack: string | null
           timeline: string | null
@@ -665,6 +1522,7 @@ export type Database = {
           commission_amount?: number | null
           commission_rate?: number | null
           created_at?: string | null
+          currency?: string
           description?: string | null
           id?: string
           invoice_id?: string | null
@@ -674,6 +1532,7 @@ export type Database = {
           order_source?: string | null
           payment_schedule?: string | null
           project_id?: string | null
+          search_vector?: never
           status?: string | null
           tech_stack?: string | null
           timeline?: string | null
@@ -686,6 +1545,7 @@ export type Database = {
           commission_amount?: number | null
           commission_rate?: number | null
           created_at?: string | null
+          currency?: string
           description?: string | null
           id?: string
           invoice_id?: string | null
@@ -695,6 +1555,7 @@ export type Database = {
           order_source?: string | null
           payment_schedule?: string | null
           project_id?: string | null
+          search_vector?: never
           status?: string | null
           tech_stack?: string | null
           timeline?: string | null
@@ -725,7 +1586,6 @@ export type Database = {
           created_at: string | null
           id: string
           is_success: boolean
-          pin_entered: string
           user_id: string | null
         }
         Insert: {
@@ -733,7 +1593,6 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_success: boolean
-          pin_entered: string
           user_id?: string | null
         }
         Update: {
@@ -741,7 +1600,6 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_success?: boolean
-          pin_entered?: string
           user_id?: string | null
         }
         Relationships: [
@@ -759,9 +1617,9 @@ export type Database = {
           avatar_url: string | null
           email: string | null
           full_name: string | null
+          has_pin: boolean
           id: string
           organization_id: string | null
-          pin: string | null
           role: string | null
           updated_at: string | null
           username: string | null
@@ -770,9 +1628,9 @@ export type Database = {
           avatar_url?: string | null
           email?: string | null
           full_name?: string | null
+          has_pin?: boolean
           id: string
           organization_id?: string | null
-          pin?: string | null
           role?: string | null
           updated_at?: string | null
           username?: string | null
@@ -781,9 +1639,9 @@ export type Database = {
           avatar_url?: string | null
           email?: string | null
           full_name?: string | null
+          has_pin?: boolean
           id?: string
           organization_id?: string | null
-          pin?: string | null
           role?: string | null
           updated_at?: string | null
           username?: string | null
@@ -798,119 +1656,355 @@ export type Database = {
           },
         ]
       }
-      project_members: {
+      project_members: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          role: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          role?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          role?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          deployment_repo: string | null
+          description: string | null
+          id: string
+          name: string
+          order_index: number | null
+          source_repo: string | null
+          status: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          deployment_repo?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          order_index?: number | null
+          source_repo?: string | null
+          status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          deployment_repo?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          order_index?: number | null
+          source_repo?: string | null
+          status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_responses: {
+        Row: {
+          decision: string
+          id: string
+          ip_address: string | null
+          phase_id: string
+          rejection_reason: string | null
+          responded_at: string
+          responded_by: string | null
+          signature_name: string | null
+          signed_pdf_path: string | null
+          signed_pdf_uploaded_at: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          decision: string
+          id?: string
+          ip_address?: string | null
+          phase_id: string
+          rejection_reason?: string | null
+          responded_at?: string
+          responded_by?: string | null
+          signature_name?: string | null
+          signed_pdf_path?: string | null
+          signed_pdf_uploaded_at?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          decision?: string
+          id?: string
+          ip_address?: string | null
+          phase_id?: string
+          rejection_reason?: string | null
+          responded_at?: string
+          responded_by?: string | null
+          signature_name?: string | null
+          signed_pdf_path?: string | null
+          signed_pdf_uploaded_at?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_responses_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_responses_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_responses_responded_by_fkey"
+            columns: ["responded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          created_at: string | null
+          id: string
+          subscription: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          subscription: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          subscription?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recurring_expenses: {
         Row: {
+          amount: number
+          category_id: string | null
           created_at: string
+          created_by: string | null
+          description: string
+          end_date: string | null
           id: string
-          project_id: string
-          role: string | null
-          user_id: string
+          interval: string
+          is_active: boolean
+          last_run_at: string | null
+          next_run_on: string
+          organization_id: string
+          project_id: string | null
+          runs_generated: number
+          start_date: string
+          updated_at: string
         }
         Insert: {
+          amount: number
+          category_id?: string | null
           created_at?: string
+          created_by?: string | null
+          description: string
+          end_date?: string | null
           id?: string
-          project_id: string
-          role?: string | null
-          user_id: string
+          interval?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_on?: string
+          organization_id: string
+          project_id?: string | null
+          runs_generated?: number
+          start_date?: string
+          updated_at?: string
         }
         Update: {
+          amount?: number
+          category_id?: string | null
           created_at?: string
+          created_by?: string | null
+          description?: string
+          end_date?: string | null
           id?: string
-          project_id?: string
-          role?: string | null
-          user_id?: string
+          interval?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_on?: string
+          organization_id?: string
+          project_id?: string | null
+          runs_generated?: number
+          start_date?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_members_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "recurring_expenses_category_id_fkey"
+            columns: ["category_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "expense_categories"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_members_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "recurring_expenses_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recurring_expenses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_expenses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      projects: {
+      recurring_invoices: {
         Row: {
           client_id: string | null
-          created_at: string | null
-          deployment_repo: string | null
-          description: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          due_in_days: number
+          end_date: string | null
           id: string
-          name: string
-          order_index: number | null
-          source_repo: string | null
-          status: string | null
-          updated_at: string | null
-          user_id: string | null
+          interval: string
+          is_active: boolean
+          issue_as: string
+          last_run_at: string | null
+          line_items: Json
+          next_run_on: string
+          project_id: string | null
+          runs_generated: number
+          start_date: string
+          title: string
+          updated_at: string
         }
         Insert: {
           client_id?: string | null
-          created_at?: string | null
-          deployment_repo?: string | null
-          description?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          due_in_days?: number
+          end_date?: string | null
           id?: string
-          name: string
-          order_index?: number | null
-          source_repo?: string | null
-          status?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          interval?: string
+          is_active?: boolean
+          issue_as?: string
+          last_run_at?: string | null
+          line_items?: Json
+          next_run_on?: string
+          project_id?: string | null
+          runs_generated?: number
+          start_date?: string
+          title: string
+          updated_at?: string
         }
         Update: {
           client_id?: string | null
-          created_at?: string | null
-          deployment_repo?: string | null
-          description?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          due_in_days?: number
+          end_date?: string | null
           id?: string
-          name?: string
-          order_index?: number | null
-          source_repo?: string | null
-          status?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          interval?: string
+          is_active?: boolean
+          issue_as?: string
+          last_run_at?: string | null
+          line_items?: Json
+          next_run_on?: string
+          project_id?: string | null
+          runs_generated?: number
+          start_date?: string
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_client_id_fkey"
+            foreignKeyName: "recurring_invoices_client_id_fkey"
             columns: ["client_id"]
             isOneToOne: false
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recurring_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      push_subscriptions: {
-        Row: {
-          created_at: string | null
-          id: string
-          subscription: Json
-          user_id: string
-        }
-        Insert: {
-          created_at?: string | null
-          id?: string
-          subscription: Json
-          user_id: string
-        }
-        Update: {
-          created_at?: string | null
-          id?: string
-          subscription?: Json
-          user_id?: string
-        }
-        Relationships: []
-      }
       reminders: {
         Row: {
           created_at: string | null
+          credential_id: string | null
           description: string | null
           id: string
           is_sent: boolean | null
@@ -923,6 +2017,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          credential_id?: string | null
           description?: string | null
           id?: string
           is_sent?: boolean | null
@@ -935,6 +2030,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          credential_id?: string | null
           description?: string | null
           id?: string
           is_sent?: boolean | null
@@ -946,6 +2042,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "reminders_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "reminders_task_id_fkey"
             columns: ["task_id"]
@@ -1119,11 +2222,17 @@ export type Database = {
           created_at: string | null
           deliverable_id: string | null
           description: string | null
+          due_date: string | null
+          estimate: number | null
+          estimate_unit: string
           id: string
           order_index: number | null
           parent_id: string | null
           phase_id: string | null
+          priority: string
           project_id: string | null
+          search_vector: unknown
+          start_date: string | null
           status: string
           title: string
           type: string | null
@@ -1134,11 +2243,17 @@ export type Database = {
           created_at?: string | null
           deliverable_id?: string | null
           description?: string | null
+          due_date?: string | null
+          estimate?: number | null
+          estimate_unit?: string
           id?: string
           order_index?: number | null
           parent_id?: string | null
           phase_id?: string | null
+          priority?: string
           project_id?: string | null
+          search_vector?: never
+          start_date?: string | null
           status?: string
           title: string
           type?: string | null
@@ -1149,11 +2264,17 @@ export type Database = {
           created_at?: string | null
           deliverable_id?: string | null
           description?: string | null
+          due_date?: string | null
+          estimate?: number | null
+          estimate_unit?: string
           id?: string
           order_index?: number | null
           parent_id?: string | null
           phase_id?: string | null
+          priority?: string
           project_id?: string | null
+          search_vector?: never
+          start_date?: string | null
           status?: string
           title?: string
           type?: string | null
@@ -1239,6 +2360,90 @@ export type Database = {
           },
         ]
       }
+      time_entries: {
+        Row: {
+          billable: boolean
+          created_at: string
+          description: string | null
+          duration_seconds: number | null
+          ended_at: string | null
+          id: string
+          invoice_id: string | null
+          phase_id: string | null
+          project_id: string | null
+          started_at: string
+          task_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          billable?: boolean
+          created_at?: string
+          description?: string | null
+          duration_seconds?: never
+          ended_at?: string | null
+          id?: string
+          invoice_id?: string | null
+          phase_id?: string | null
+          project_id?: string | null
+          started_at?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          billable?: boolean
+          created_at?: string
+          description?: string | null
+          duration_seconds?: never
+          ended_at?: string | null
+          id?: string
+          invoice_id?: string | null
+          phase_id?: string | null
+          project_id?: string | null
+          started_at?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       proposals: {
@@ -1302,11 +2507,216 @@ export type Database = {
       }
     }
     Functions: {
+      admin_set_pin: {
+        Args: { p_pin: string; p_user_id: string }
+        Returns: undefined
+      }
+      can_access_channel: { Args: { p_channel_id: string }; Returns: boolean }
+      can_access_credential: {
+        Args: { p_project_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_access_credential_project: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      check_pin_token: { Args: { p_token: string }; Returns: boolean }
+      confirm_signed_proposal_upload: {
+        Args: { p_response_id: string }
+        Returns: string
+      }
+      create_bank_transaction_expense: {
+        Args: {
+          p_category_id: string
+          p_description: string
+          p_project_id?: string
+          p_transaction_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          description: string
+          expense_created: boolean
+          expense_id: string | null
+          fingerprint: string
+          id: string
+          import_profile_id: string | null
+          invoice_id: string | null
+          invoice_payment_id: string | null
+          matched_at: string | null
+          matched_by: string | null
+          organization_id: string
+          reference: string | null
+          status: string
+          transaction_date: string
+        }
+      }
       delete_user_account: {
         Args: { user_id_to_delete: string }
         Returns: undefined
       }
+      duplicate_project: {
+        Args: { p_client_id: string; p_name: string; p_project_id: string }
+        Returns: string
+      }
+      generate_recurring_expenses: { Args: never; Returns: number }
+      generate_recurring_invoices: { Args: never; Returns: number }
+      get_unread_counts: {
+        Args: never
+        Returns: {
+          channel_id: string
+          is_direct: boolean
+          project_id: string | null
+          unread_count: number
+        }[]
+      }
+      log_accounting_export: {
+        Args: { p_files: Json; p_format: string; p_from: string; p_to: string }
+        Returns: undefined
+      }
+      lock_pin: { Args: { p_reason: string }; Returns: undefined }
+      log_credential_access: {
+        Args: { p_action: string; p_credential_id: string }
+        Returns: undefined
+      }
+      mark_channel_read: { Args: { p_channel_id: string }; Returns: string }
+      match_bank_transaction: {
+        Args: {
+          p_expense_id?: string
+          p_invoice_id?: string
+          p_transaction_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          description: string
+          expense_created: boolean
+          expense_id: string | null
+          fingerprint: string
+          id: string
+          import_profile_id: string | null
+          invoice_id: string | null
+          invoice_payment_id: string | null
+          matched_at: string | null
+          matched_by: string | null
+          organization_id: string
+          reference: string | null
+          status: string
+          transaction_date: string
+        }
+      }
+      next_invoice_number: { Args: never; Returns: string }
+      process_overdue_invoices: { Args: never; Returns: undefined }
       process_reminders: { Args: never; Returns: undefined }
+      process_task_due_notifications: { Args: never; Returns: undefined }
+      recurring_invoice_step: { Args: { p_interval: string }; Returns: string }
+      reset_pin: { Args: never; Returns: Json }
+      respond_to_proposal: {
+        Args: {
+          p_decision: string
+          p_phase_id: string
+          p_rejection_reason?: string
+          p_signature_name?: string
+        }
+        Returns: {
+          decision: string
+          id: string
+          ip_address: string | null
+          phase_id: string
+          rejection_reason: string | null
+          responded_at: string
+          responded_by: string | null
+          signature_name: string | null
+          signed_pdf_path: string | null
+          signed_pdf_uploaded_at: string | null
+          user_agent: string | null
+        }
+      }
+      restore_credential_version: {
+        Args: { p_version_id: string }
+        Returns: undefined
+      }
+      reveal_credential: {
+        Args: { p_action?: string; p_credential_id: string; p_pin?: string }
+        Returns: Json
+      }
+      search_channel_messages: {
+        Args: {
+          p_author_id?: string
+          p_channel_id: string
+          p_from?: string
+          p_limit?: number
+          p_query?: string
+          p_to?: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          parent_id: string | null
+          snippet: string
+          user_id: string | null
+        }[]
+      }
+      search_query: { Args: { p_query: string }; Returns: unknown }
+      search_workspace: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          channel_id: string | null
+          context: string | null
+          created_at: string | null
+          id: string
+          is_direct: boolean
+          kind: string
+          phase_id: string | null
+          project_id: string | null
+          rank: number
+          snippet: string | null
+          title: string
+        }[]
+      }
+      send_message: {
+        Args: {
+          p_attachments?: Json
+          p_channel_id: string
+          p_content: string
+          p_parent_id?: string
+        }
+        Returns: string
+      }
+      set_pin: {
+        Args: { p_current_pin?: string; p_is_initial?: boolean; p_pin: string }
+        Returns: Json
+      }
+      unmatch_bank_transaction: {
+        Args: {
+          p_transaction_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          description: string
+          expense_created: boolean
+          expense_id: string | null
+          fingerprint: string
+          id: string
+          import_profile_id: string | null
+          invoice_id: string | null
+          invoice_payment_id: string | null
+          matched_at: string | null
+          matched_by: string | null
+          organization_id: string
+          reference: string | null
+          status: string
+          transaction_date: string
+        }
+      }
+      verify_pin: { Args: { p_pin: string }; Returns: Json }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,79 @@
+import { supabase } from "./supabase"
+import type { Tables } from "./database.types"
+import { compressImage, getFileExtension } from "./files"
+
+export type ExpenseCategory = Tables<"expense_categories">
+export type RecurringExpense = Tables<"recurring_expenses">
+
+/**
+ * Expense row as selected with its category and project, for tables and breakdowns.
+ */
+export type ExpenseWithCategory = Tables<"expenses"> & {
+  expense_categories: Pick<ExpenseCategory, "name"> | null
+}
+
+/** Recurring expense schedule as selected with its category */
+export type RecurringExpenseWithCategory = RecurringExpense & {
+  expense_categories: Pick<ExpenseCategory, "name"> | null
+}
+
+/**
+ * Category name, falling back to the free-text category older expenses were
+ * filed under before categories were managed per organization.
+ */
+export function getExpenseCategoryName(
+  expense: Partial<Pick<ExpenseWithCategory, "category">> & Pick<ExpenseWithCategory, "expense_categories">
+) {
+  return expense.expense_categories?.name || expense.category || "Uncategorized"
+}
+
+/**
+ * Compresses and stores a receipt under the organization's folder, returning
+ * the storage path to save on the expense.
+ */
+export async function uploadReceipt(organizationId: string, file: File) {
+  const fileToUpload = await compressImage(file)
+  const extension = getFileExtension(file.name)
+  const filePath = `${organizationId}/${crypto.randomUUID()}${extension ? `.${extension}` : ""}`
+
+  const { error } = await supabase.storage
+    .from("expense-receipts")
+    .upload(filePath, fileToUpload, { contentType: fileToUpload.type || file.type })
+
+  if (error) throw error
+  return filePath
+}
+
+export async function openReceipt(path: string) {
+  const { data, error } = await supabase.storage
+    .from("expense-receipts")
+    .createSignedUrl(path, 60)
+
+  if (error) throw error
+  window.open(data.signedUrl, "_blank", "noopener,noreferrer")
+}
+
+export interface CategoryTotal {
+  id: string
+  name: string
+  amount: number
+  count: number
+}
+
+/**
+ * Expense totals per category, largest first.
+ */
+export function summarizeExpensesByCategory(expenses: ExpenseWithCategory[]): CategoryTotal[] {
+  const totals = new Map<string, CategoryTotal>()
+
+  expenses.forEach(expense => {
+    const name = getExpenseCategoryName(expense)
+    const id = expense.category_id || name
+    const total = totals.get(id) || { id, name, amount: 0, count: 0 }
+    total.amount += Number(expense.amount) || 0
+    total.count += 1
+    totals.set(id, total)
+  })
+
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount)
+}
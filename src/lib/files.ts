@@ -0,0 +1,37 @@
+import imageCompression from "browser-image-compression"
+
+/**
+ * Shrinks images to at most ~1MB / 1920px before upload. Other files, and
+ * images that fail to compress, are returned unchanged.
+ */
+export async function compressImage(file: File): Promise<File> {
+  if (!file.type.startsWith("image/")) return file
+
+  try {
+    return await imageCompression(file, {
+      maxSizeMB: 1,
+      maxWidthOrHeight: 1920,
+      useWebWorker: true,
+    })
+  } catch (error) {
+    console.error("Compression error:", error)
+    return file
+  }
+}
+
+export function getFileExtension(fileName: string) {
+  return fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : ""
+}
+
+/** Human readable size, e.g. "240 KB" or "3.1 MB" */
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ["KB", "MB", "GB"]
+  let size = bytes / 1024
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`
+}
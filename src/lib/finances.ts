@@ -0,0 +1,219 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  isWithinInterval,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subMonths,
+  subQuarters,
+  subYears,
+} from "date-fns"
+
+export type FinancePeriod = "month" | "quarter" | "year" | "custom"
+
+export const FINANCE_PERIODS: { value: FinancePeriod; label: string; previousLabel: string }[] = [
+  { value: "month", label: "This Month", previousLabel: "last month" },
+  { value: "quarter", label: "This Quarter", previousLabel: "last quarter" },
+  { value: "year", label: "This Year", previousLabel: "last year" },
+  { value: "custom", label: "Custom Range", previousLabel: "the previous period" },
+]
+
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+/**
+ * A payment or expense already converted into the base currency, tagged with
+ * the project and client it belongs to (if any).
+ */
+export interface FinanceEntry {
+  date: string
+  amount: number
+  projectId: string | null
+  projectName: string | null
+  clientId: string | null
+  clientName: string | null
+}
+
+export interface FinanceSummary {
+  revenue: number
+  expenses: number
+  profit: number
+}
+
+export interface MonthlyFinance extends FinanceSummary {
+  /** e.g. "2026-10" */
+  id: string
+  label: string
+}
+
+export interface ProfitRow extends FinanceSummary {
+  id: string
+  name: string
+  /** Profit as a share of revenue, or null without revenue */
+  margin: number | null
+}
+
+export function getPeriodRange(period: FinancePeriod, custom?: { from: string; to: string }, now = new Date()): DateRange {
+  switch (period) {
+    case "quarter":
+      return { from: startOfQuarter(now), to: endOfQuarter(now) }
+    case "year":
+      return { from: startOfYear(now), to: endOfYear(now) }
+    case "custom":
+      if (custom?.from && custom?.to) {
+        return { from: startOfDay(parseISO(custom.from)), to: endOfDay(parseISO(custom.to)) }
+      }
+      return { from: startOfMonth(now), to: endOfMonth(now) }
+    default:
+      return { from: startOfMonth(now), to: endOfMonth(now) }
+  }
+}
+
+/**
+ * The period a range is compared against: the previous calendar month, quarter
+ * or year, or for custom ranges the same number of days immediately before.
+ */
+export function getPreviousRange(period: FinancePeriod, range: DateRange): DateRange {
+  switch (period) {
+    case "month": {
+      const from = subMonths(range.from, 1)
+      return { from, to: endOfMonth(from) }
+    }
+    case "quarter": {
+      const from = subQuarters(range.from, 1)
+      return { from, to: endOfQuarter(from) }
+    }
+    case "year": {
+      const from = subYears(range.from, 1)
+      return { from, to: endOfYear(from) }
+    }
+    default: {
+      const days = differenceInCalendarDays(range.to, range.from) + 1
+      return { from: addDays(range.from, -days), to: addDays(range.to, -days) }
+    }
+  }
+}
+
+/**
+ * Change from `previous` to `current` in percent. Null when there is nothing
+ * to compare against.
+ */
+export function getPercentChange(current: number, previous: number) {
+  if (!previous) return null
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+function inRange(entry: FinanceEntry, range: DateRange) {
+  return isWithinInterval(parseISO(entry.date), { start: range.from, end: range.to })
+}
+
+function sum(entries: FinanceEntry[]) {
+  return entries.reduce((acc, entry) => acc + entry.amount, 0)
+}
+
+export function summarizeFinances(revenue: FinanceEntry[], expenses: FinanceEntry[], range: DateRange): FinanceSummary {
+  const totalRevenue = sum(revenue.filter(e => inRange(e, range)))
+  const totalExpenses = sum(expenses.filter(e => inRange(e, range)))
+  return { revenue: totalRevenue, expenses: totalExpenses, profit: totalRevenue - totalExpenses }
+}
+
+/**
+ * Revenue and expenses per calendar month. Short ranges are widened to the six
+ * months ending with the range so the chart still shows a trend.
+ */
+export function getMonthlyFinances(revenue: FinanceEntry[], expenses: FinanceEntry[], range: DateRange, minMonths = 6): MonthlyFinance[] {
+  const from = startOfMonth(subMonths(range.to, minMonths - 1))
+  const months = eachMonthOfInterval({ start: range.from < from ? range.from : from, end: range.to })
+
+  const totals = new Map<string, MonthlyFinance>(months.map(month => {
+    const id = format(month, "yyyy-MM")
+    return [id, { id, label: format(month, "MMM yyyy"), revenue: 0, expenses: 0, profit: 0 }]
+  }))
+
+  const add = (entries: FinanceEntry[], key: "revenue" | "expenses") => {
+    entries.forEach(entry => {
+      const month = totals.get(entry.date.slice(0, 7))
+      if (month) month[key] += entry.amount
+    })
+  }
+  add(revenue, "revenue")
+  add(expenses, "expenses")
+
+  return Array.from(totals.values()).map(month => ({ ...month, profit: month.revenue - month.expenses }))
+}
+
+/**
+ * Profit per project or client within the range, most profitable first.
+ * Expenses not tied to a project are grouped under "General".
+ */
+export function getProfitBy(
+  groupBy: "project" | "client",
+  revenue: FinanceEntry[],
+  expenses: FinanceEntry[],
+  range: DateRange
+): ProfitRow[] {
+  const rows = new Map<string, ProfitRow>()
+
+  const add = (entries: FinanceEntry[], key: "revenue" | "expenses") => {
+    entries.filter(e => inRange(e, range)).forEach(entry => {
+      const id = (groupBy === "project" ? entry.projectId : entry.clientId) ?? "general"
+      const name = (groupBy === "project" ? entry.projectName : entry.clientName) ?? "General"
+      const row = rows.get(id) || { id, name, revenue: 0, expenses: 0, profit: 0, margin: null }
+      row[key] += entry.amount
+      rows.set(id, row)
+    })
+  }
+  add(revenue, "revenue")
+  add(expenses, "expenses")
+
+  return Array.from(rows.values())
+    .map(row => ({
+      ...row,
+      profit: row.revenue - row.expenses,
+      margin: row.revenue ? ((row.revenue - row.expenses) / row.revenue) * 100 : null,
+    }))
+    .sort((a, b) => b.profit - a.profit)
+}
+
+export function formatDateRange(range: DateRange) {
+  return `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`
+}
+
+function escapeCsvValue(value: string | number | null | undefined) {
+  if (value === null || value === undefined) return ""
+  let text = String(value)
+  // Spreadsheets run text starting with these as a formula; plain numbers like "-12.50" are left alone
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]) {
+  return rows.map(row => row.map(escapeCsvValue).join(",")).join("\r\n")
+}
+
+export function downloadCsv(filename: string, rows: (string | number | null | undefined)[][]) {
+  downloadTextFile(filename, toCsv(rows), "text/csv;charset=utf-8")
+}
+
+export function downloadTextFile(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,150 @@
+import { jsPDF } from "jspdf"
+import autoTable from "jspdf-autotable"
+import type { LineItem } from "@/components/projects/line-items-manager"
+import type { Organization } from "@/hooks/use-organization"
+import { formatCurrency } from "@/lib/currency"
+import { calculateInvoiceTotals, VAT_TREATMENTS } from "@/lib/invoices"
+import { AREHSOFT_LOGO_BASE64 } from "@/lib/logo-base64"
+
+export interface InvoicePdfData {
+  invoiceNumber: string
+  date: string | Date
+  dueDate?: string | null
+  currency: string
+  amount: number
+  /** Stored breakdown; worked out from the line items when missing */
+  subtotal?: number | null
+  taxAmount?: number | null
+  vatTreatment?: string | null
+  lineItems: LineItem[]
+  /** Single row shown when the invoice has no line items */
+  fallbackItem: { description: string; details: string }
+  client: {
+    first_name?: string | null
+    last_name?: string | null
+    email?: string | null
+    vat_number?: string | null
+  } | null
+}
+
+/**
+ * Renders an invoice with every amount in the invoice's own currency.
+ * Shared by invoice generation on phases and downloads from /dashboard/invoices.
+ */
+export function buildInvoicePdf(invoice: InvoicePdfData, organization: Organization, hideLineItems: boolean) {
+  const doc = new jsPDF()
+  const money = (amount: number) => formatCurrency(amount, invoice.currency)
+
+  // Header
+  doc.addImage(AREHSOFT_LOGO_BASE64, "PNG", 20, 10, 15, 15)
+
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text(organization.name || "Arehsoft", 20, 30)
+  doc.text(organization.email || "contact@arehsoft.com", 20, 35)
+  doc.text(organization.website || "arehsoft.com", 20, 40)
+  if (organization.vat_number) {
+    doc.text(`VAT No: ${organization.vat_number}`, 20, 45)
+  }
+
+  // Invoice Label
+  doc.setFontSize(24)
+  doc.setTextColor(0)
+  doc.text("INVOICE", 190, 20, { align: "right" })
+
+  doc.setFontSize(10)
+  doc.text(`Invoice #: ${invoice.invoiceNumber}`, 190, 30, { align: "right" })
+  doc.text(`Date: ${new Date(invoice.date).toLocaleDateString()}`, 190, 35, { align: "right" })
+  if (invoice.dueDate) {
+    doc.text(`Due Date: ${new Date(invoice.dueDate).toLocaleDateString()}`, 190, 40, { align: "right" })
+  }
+  doc.text(`Currency: ${invoice.currency}`, 190, invoice.dueDate ? 45 : 40, { align: "right" })
+
+  // Client Info
+  doc.setFontSize(12)
+  doc.text("Bill To:", 20, 55)
+  doc.setFontSize(10)
+  const client = invoice.client
+  if (client) {
+    const fullName = [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
+    doc.text(fullName, 20, 62)
+    if (client.email) doc.text(client.email, 20, 67)
+    if (client.vat_number) doc.text(`VAT No: ${client.vat_number}`, 20, client.email ? 72 : 67)
+  } else {
+    doc.text("N/A", 20, 62)
+  }
+
+  // Table
+  const items: LineItem[] = invoice.lineItems.length > 0
+    ? invoice.lineItems
+    : [{ id: "fallback", ...invoice.fallbackItem, price: Number(invoice.amount), quantity: 1 }]
+
+  const vatTreatment = invoice.vatTreatment || "standard"
+  const computed = calculateInvoiceTotals(items, vatTreatment)
+  const subtotal = invoice.subtotal ?? computed.subtotal
+  const taxAmount = invoice.taxAmount ?? computed.taxAmount
+  const showTax = !hideLineItems && items.some(item => Number(item.tax_rate) > 0)
+
+  const tableData = items.map(item => {
+    const row = [item.description, item.details || ""]
+    if (!hideLineItems) {
+      row.push(money(Number(item.price)))
+      row.push(item.quantity.toString())
+      if (showTax) row.push(`${vatTreatment === "standard" ? Number(item.tax_rate) || 0 : 0}%`)
+      row.push(money(Number(item.price) * Number(item.quantity)))
+    }
+    return row
+  })
+
+  const head = ["Description", "Details"]
+  if (!hideLineItems) {
+    head.push(`Price (${invoice.currency})`, "Qty")
+    if (showTax) head.push("VAT")
+    head.push(`Net (${invoice.currency})`)
+  }
+
+  autoTable(doc, {
+    startY: 90,
+    head: [head],
+    body: tableData,
+    theme: "striped",
+    headStyles: { fillColor: [0, 0, 0] },
+    margin: { left: 20, right: 20 },
+    styles: { fontSize: 9 },
+    columnStyles: hideLineItems ? {} : {
+      2: { halign: 'right' },
+      3: { halign: 'center' },
+      4: { halign: showTax ? 'center' : 'right' },
+      5: { halign: 'right' }
+    }
+  })
+
+  let finalY = (doc as any).lastAutoTable.finalY + 15
+
+  // Totals
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  if (taxAmount > 0 || vatTreatment !== "standard") {
+    doc.text(`Subtotal: ${money(Number(subtotal))}`, 190, finalY, { align: "right" })
+    doc.text(`VAT: ${money(Number(taxAmount))}`, 190, finalY + 5, { align: "right" })
+    finalY += 12
+  }
+  doc.text(`Total Amount (${invoice.currency})`, 190, finalY, { align: "right" })
+  doc.setFontSize(16)
+  doc.setTextColor(0)
+  doc.text(money(Number(invoice.amount)), 190, finalY + 10, { align: "right" })
+
+  const treatmentNote = VAT_TREATMENTS.find(t => t.value === vatTreatment)?.note
+  if (treatmentNote) {
+    doc.setFontSize(9)
+    doc.setTextColor(100)
+    doc.text(treatmentNote, 20, finalY + 25)
+  }
+
+  // Footer
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text("Thank you for your business!", 20, finalY + 40)
+
+  return doc
+}
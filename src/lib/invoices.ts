@@ -1,28 +1,192 @@
+import { addMonths, addWeeks, addYears, getQuarter, getYear, parseISO } from "date-fns"
 import { supabase } from "./supabase"
+import type { Tables } from "./database.types"
+import { convertToBaseCurrency, type ExchangeRate } from "./currency"
+import type { LineItem } from "@/components/projects/line-items-manager"
+import type { Organization } from "@/hooks/use-organization"
 
+/**
+ * Numbering lives in the next_invoice_number() database function so invoices
+ * raised here and ones issued by recurring templates share one sequence.
+ */
 export async function getNextInvoiceNumber(): Promise<string> {
-  const { data, error } = await supabase
-    .from("invoices")
-    .select("invoice_number")
-    .order("invoice_number", { ascending: false })
-    .limit(1)
+  const { data, error } = await supabase.rpc("next_invoice_number")
 
   if (error) {
-    console.error("Error fetching last invoice number:", error)
+    console.error("Error fetching next invoice number:", error)
     return "INV-0001"
   }
 
-  if (!data || data.length === 0) {
-    return "INV-0001"
-  }
+  return data || "INV-0001"
+}
+
+export type VatTreatment = "standard" | "reverse_charge" | "zero_rated"
+
+export const VAT_TREATMENTS: { value: VatTreatment; label: string; note?: string }[] = [
+  { value: "standard", label: "Standard rate" },
+  {
+    value: "reverse_charge",
+    label: "Reverse charge",
+    note: "Reverse charge: the customer is liable to account for the VAT on this supply.",
+  },
+  {
+    value: "zero_rated",
+    label: "Zero-rated",
+    note: "Zero-rated supply: VAT charged at 0%.",
+  },
+]
+
+export interface InvoiceTotals {
+  subtotal: number
+  taxAmount: number
+  total: number
+}
+
+function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Tax is worked out per line from its own rate. Reverse-charge and zero-rated
+ * invoices carry no VAT whatever the line rates say.
+ */
+export function calculateInvoiceTotals(lineItems: LineItem[], vatTreatment: string = "standard"): InvoiceTotals {
+  const subtotal = roundMoney(lineItems.reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0))
+  const taxAmount = vatTreatment === "standard"
+    ? roundMoney(lineItems.reduce((sum, item) => (
+      sum + Number(item.price) * Number(item.quantity) * (Number(item.tax_rate) || 0) / 100
+    ), 0))
+    : 0
+
+  return { subtotal, taxAmount, total: roundMoney(subtotal + taxAmount) }
+}
+
+/**
+ * Rate applied to new line items. Zero when the organization isn't VAT registered.
+ */
+export function getDefaultTaxRate(organization: Pick<Organization, "vat_enabled" | "vat_rate">) {
+  return organization.vat_enabled ? Number(organization.vat_rate) || 0 : 0
+}
+
+export interface VatQuarter {
+  /** e.g. "2026-Q3" */
+  id: string
+  label: string
+  invoiceCount: number
+  /** Net sales at the standard rate */
+  taxableSales: number
+  /** Net sales that were reverse-charged or zero-rated */
+  exemptSales: number
+  vatCollected: number
+  /** Invoices in a currency without an exchange rate, left out of the amounts */
+  unconvertedCount: number
+}
+
+type VatInvoice = Pick<Tables<"invoices">, "created_at" | "currency" | "subtotal" | "tax_amount" | "vat_treatment">
+
+/**
+ * Groups issued invoices by calendar quarter for VAT returns, converting each
+ * into the base currency with the rate for the month it was issued in.
+ */
+export function summarizeVatByQuarter(invoices: VatInvoice[], baseCurrency: string, rates: ExchangeRate[]): VatQuarter[] {
+  const quarters = new Map<string, VatQuarter>()
 
-  const lastNumber = data[0].invoice_number
-  const match = lastNumber.match(/INV-(\d+)/)
-  
-  if (match) {
-    const nextNum = parseInt(match[1]) + 1
-    return `INV-${nextNum.toString().padStart(4, "0")}`
+  invoices.forEach(invoice => {
+    const issuedAt = invoice.created_at ? parseISO(invoice.created_at) : new Date()
+    const key = `${getYear(issuedAt)}-Q${getQuarter(issuedAt)}`
+    const quarter = quarters.get(key) || {
+      id: key,
+      label: `Q${getQuarter(issuedAt)} ${getYear(issuedAt)}`,
+      invoiceCount: 0,
+      taxableSales: 0,
+      exemptSales: 0,
+      vatCollected: 0,
+      unconvertedCount: 0,
+    }
+    quarter.invoiceCount += 1
+
+    const currency = invoice.currency || baseCurrency
+    const subtotal = convertToBaseCurrency(Number(invoice.subtotal) || 0, currency, issuedAt, baseCurrency, rates)
+    const tax = convertToBaseCurrency(Number(invoice.tax_amount) || 0, currency, issuedAt, baseCurrency, rates)
+
+    if (subtotal === null || tax === null) {
+      quarter.unconvertedCount += 1
+    } else {
+      if (invoice.vat_treatment === "standard") {
+        quarter.taxableSales += subtotal
+      } else {
+        quarter.exemptSales += subtotal
+      }
+      quarter.vatCollected += tax
+    }
+
+    quarters.set(key, quarter)
+  })
+
+  return Array.from(quarters.values()).sort((a, b) => b.id.localeCompare(a.id))
+}
+
+export const PAYMENT_METHODS = [
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "paypal", label: "PayPal" },
+  { value: "stripe", label: "Stripe" },
+  { value: "other", label: "Other" },
+]
+
+export function getPaymentMethodLabel(method: string) {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label ?? method
+}
+
+/**
+ * Amount still owed. amount_paid is kept in sync with invoice_payments by a trigger.
+ */
+export function getOutstandingBalance(invoice: Pick<Tables<"invoices">, "amount" | "amount_paid">) {
+  return Math.max(0, roundMoney(Number(invoice.amount) - Number(invoice.amount_paid || 0)))
+}
+
+export type RecurringInvoice = Tables<"recurring_invoices">
+
+export const RECURRING_INTERVALS = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+]
+
+/**
+ * Date of the nth run (0-based), counted from the start date like
+ * recurring_invoice_step() does so month ends don't drift.
+ */
+export function getRecurringRunDate(startDate: string, interval: string, run: number) {
+  const start = parseISO(startDate)
+  switch (interval) {
+    case "weekly": return addWeeks(start, run)
+    case "quarterly": return addMonths(start, run * 3)
+    case "yearly": return addYears(start, run)
+    default: return addMonths(start, run)
   }
+}
+
+export interface UpcomingRun {
+  template: RecurringInvoice
+  date: Date
+}
+
+/**
+ * Next runs across all active templates, soonest first.
+ */
+export function getUpcomingRuns(templates: RecurringInvoice[], limit = 10): UpcomingRun[] {
+  const runs: UpcomingRun[] = []
+
+  templates.filter(t => t.is_active).forEach(template => {
+    for (let i = 0; i < limit; i++) {
+      const date = getRecurringRunDate(template.start_date, template.interval, template.runs_generated + i)
+      if (template.end_date && date > parseISO(template.end_date)) break
+      runs.push({ template, date })
+    }
+  })
 
-  return "INV-0001"
+  return runs.sort((a, b) => a.date.getTime() - b.date.getTime()).slice(0, limit)
 }
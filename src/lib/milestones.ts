@@ -0,0 +1,167 @@
+import { addDays, format, isAfter, parseISO } from "date-fns"
+import { supabase } from "./supabase"
+import type { Tables } from "./database.types"
+import { formatCurrency, resolveCurrency } from "./currency"
+import {
+  calculateInvoiceTotals,
+  getDefaultTaxRate,
+  getNextInvoiceNumber,
+} from "./invoices"
+import type { LineItem } from "@/components/projects/line-items-manager"
+import type { Organization } from "@/hooks/use-organization"
+
+export type PaymentMilestone = Tables<"payment_milestones">
+
+export type PaymentMilestoneWithInvoice = PaymentMilestone & {
+  invoices: Pick<Tables<"invoices">, "invoice_number" | "status" | "amount" | "amount_paid" | "due_date"> | null
+}
+
+/** What the phase form edits; invoice_id is read-only there */
+export type MilestoneDraft = Pick<
+  PaymentMilestone,
+  "id" | "label" | "percentage" | "amount" | "trigger" | "due_date" | "invoice_id"
+>
+
+export const MILESTONE_TRIGGERS = [
+  { value: "on_acceptance", label: "On acceptance" },
+  { value: "on_delivery", label: "On delivery" },
+  { value: "on_date", label: "On date" },
+]
+
+// Days to pay milestones that aren't tied to a date
+const MILESTONE_PAYMENT_TERMS_DAYS = 14
+
+export const DEFAULT_MILESTONES: Omit<MilestoneDraft, "id">[] = [
+  { label: "Initial Deposit", percentage: 50, amount: null, trigger: "on_acceptance", due_date: null, invoice_id: null },
+  { label: "Final Delivery", percentage: 50, amount: null, trigger: "on_delivery", due_date: null, invoice_id: null },
+]
+
+export function getMilestoneAmount(milestone: Pick<PaymentMilestone, "percentage" | "amount">, phaseAmount: number) {
+  if (milestone.amount !== null) return Number(milestone.amount)
+  return Math.round(Number(phaseAmount) * Number(milestone.percentage || 0)) / 100
+}
+
+export function describeMilestoneTrigger(milestone: Pick<PaymentMilestone, "trigger" | "due_date">) {
+  if (milestone.trigger === "on_date" && milestone.due_date) {
+    return `Due ${format(parseISO(milestone.due_date), "MMM d, yyyy")}`
+  }
+  return MILESTONE_TRIGGERS.find(t => t.value === milestone.trigger)?.label ?? milestone.trigger
+}
+
+/**
+ * Printable summary kept in phases.payment_schedule for proposals.
+ */
+export function formatMilestoneSchedule(milestones: MilestoneDraft[], phaseAmount: number, currency: string) {
+  return milestones
+    .filter(m => m.label)
+    .map(m => {
+      const share = m.percentage !== null ? `${m.percentage}%` : "Fixed"
+      const amount = formatCurrency(getMilestoneAmount(m, phaseAmount), currency)
+      return `• **${m.label}**: ${share} (${amount}) · ${describeMilestoneTrigger(m)}`
+    })
+    .join("\n")
+}
+
+/**
+ * Replaces a phase's milestones with the edited list. Milestones that were
+ * already invoiced are kept even if removed in the form.
+ */
+export async function saveMilestones(phaseId: string, milestones: MilestoneDraft[]) {
+  const rows = milestones
+    .filter(m => m.label && (m.percentage || m.amount))
+    .map((m, index) => ({
+      id: m.id,
+      phase_id: phaseId,
+      order_index: index,
+      label: m.label,
+      percentage: m.amount !== null ? null : m.percentage,
+      amount: m.amount,
+      trigger: m.trigger,
+      due_date: m.trigger === "on_date" ? m.due_date : null,
+      updated_at: new Date().toISOString(),
+    }))
+
+  let deleteQuery = supabase
+    .from("payment_milestones")
+    .delete()
+    .eq("phase_id", phaseId)
+    .is("invoice_id", null)
+  if (rows.length > 0) {
+    deleteQuery = deleteQuery.not("id", "in", `(${rows.map(r => r.id).join(",")})`)
+  }
+
+  const { error: deleteError } = await deleteQuery
+  if (deleteError) throw deleteError
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from("payment_milestones").upsert(rows)
+    if (error) throw error
+  }
+}
+
+/**
+ * Raises an invoice for a single milestone in the phase's currency, with the
+ * client's VAT treatment, and links the milestone to it.
+ */
+export async function createMilestoneInvoice(
+  milestone: PaymentMilestone,
+  phase: Pick<Tables<"phases">, "id" | "project_id" | "title" | "amount" | "currency">,
+  organization: Organization
+) {
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("client_id, clients (vat_treatment)")
+    .eq("id", phase.project_id!)
+    .single()
+
+  if (projectError) throw projectError
+
+  const currency = resolveCurrency(phase.currency)
+  const lineItems: LineItem[] = [{
+    id: milestone.id,
+    description: `${phase.title}: ${milestone.label}`,
+    details: milestone.percentage !== null
+      ? `${milestone.percentage}% of ${formatCurrency(Number(phase.amount), currency)}`
+      : "Payment milestone",
+    price: getMilestoneAmount(milestone, Number(phase.amount)),
+    quantity: 1,
+    tax_rate: getDefaultTaxRate(organization),
+  }]
+  const vatTreatment = project.clients?.vat_treatment || "standard"
+  const totals = calculateInvoiceTotals(lineItems, vatTreatment)
+
+  const dueDate = milestone.trigger === "on_date" && milestone.due_date && isAfter(parseISO(milestone.due_date), new Date())
+    ? milestone.due_date
+    : format(addDays(new Date(), MILESTONE_PAYMENT_TERMS_DAYS), "yyyy-MM-dd")
+
+  const invoiceNumber = await getNextInvoiceNumber()
+  const { data: invoice, error: invoiceError } = await supabase
+    .from("invoices")
+    .insert({
+      invoice_number: invoiceNumber,
+      project_id: phase.project_id,
+      phase_id: phase.id,
+      client_id: project.client_id,
+      amount: totals.total,
+      subtotal: totals.subtotal,
+      tax_amount: totals.taxAmount,
+      vat_treatment: vatTreatment,
+      currency,
+      line_items: lineItems as any,
+      due_date: dueDate,
+      status: "sent",
+    })
+    .select()
+    .single()
+
+  if (invoiceError) throw invoiceError
+
+  const { error: linkError } = await supabase
+    .from("payment_milestones")
+    .update({ invoice_id: invoice.id, updated_at: new Date().toISOString() })
+    .eq("id", milestone.id)
+
+  if (linkError) throw linkError
+
+  return invoice
+}
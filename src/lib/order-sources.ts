@@ -0,0 +1,191 @@
+import { eachMonthOfInterval, format, isWithinInterval, parseISO, startOfMonth, subMonths } from "date-fns"
+import type { Tables } from "./database.types"
+import { convertToBaseCurrency, formatCurrency, type ExchangeRate } from "./currency"
+import type { DateRange } from "./finances"
+
+export type OrderSource = Tables<"order_sources">
+export type CommissionType = "percentage" | "flat" | "tiered"
+
+export interface CommissionTier {
+  /** Upper bound of the band; null for the open-ended last band */
+  up_to: number | null
+  percent: number
+}
+
+/** Work that comes straight from the client. Built in, never takes a commission. */
+export const DIRECT_ORDER_SOURCE = "direct"
+
+export const COMMISSION_TYPES: { value: CommissionType; label: string }[] = [
+  { value: "percentage", label: "Percentage" },
+  { value: "flat", label: "Flat fee" },
+  { value: "tiered", label: "Tiered" },
+]
+
+type CommissionSettings = Pick<
+  OrderSource,
+  "commission_type" | "commission_percent" | "commission_flat" | "commission_tiers"
+>
+
+export function getCommissionTiers(source: Pick<OrderSource, "commission_tiers">): CommissionTier[] {
+  const tiers = Array.isArray(source.commission_tiers) ? (source.commission_tiers as unknown as CommissionTier[]) : []
+  return [...tiers].sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity))
+}
+
+export interface Commission {
+  /** Effective share of the gross amount, e.g. 0.2 for 20% */
+  rate: number
+  amount: number
+  net: number
+}
+
+/**
+ * Commission on a gross amount. Tiers apply marginally: with 20% up to 500 and
+ * 10% above, 1,000 costs 100 + 50. A flat fee never exceeds the amount itself.
+ */
+export function calculateCommission(source: CommissionSettings | null | undefined, gross: number): Commission {
+  let amount = 0
+
+  if (source && gross > 0) {
+    switch (source.commission_type) {
+      case "flat":
+        amount = Math.min(Number(source.commission_flat) || 0, gross)
+        break
+      case "tiered": {
+        let lower = 0
+        for (const tier of getCommissionTiers(source)) {
+          const upper = tier.up_to ?? Infinity
+          if (gross <= lower) break
+          amount += (Math.min(gross, upper) - lower) * (Number(tier.percent) || 0) / 100
+          lower = upper
+        }
+        break
+      }
+      default:
+        amount = gross * (Number(source.commission_percent) || 0) / 100
+    }
+  }
+
+  amount = Math.round(amount * 100) / 100
+  return { rate: gross > 0 ? amount / gross : 0, amount, net: gross - amount }
+}
+
+export function describeCommission(source: CommissionSettings, currency?: string) {
+  switch (source.commission_type) {
+    case "flat":
+      return `${formatCurrency(Number(source.commission_flat) || 0, currency)} per phase`
+    case "tiered":
+      return getCommissionTiers(source)
+        .map(tier => `${tier.percent}%${tier.up_to === null ? " above" : ` to ${tier.up_to.toLocaleString()}`}`)
+        .join(", ")
+    default:
+      return `${Number(source.commission_percent) || 0}%`
+  }
+}
+
+export function findOrderSource(sources: OrderSource[], key: string | null | undefined) {
+  return sources.find(s => s.key === key) ?? null
+}
+
+/**
+ * Display name for a phase's source. Keys of deleted sources are shown as-is.
+ */
+export function getOrderSourceName(sources: OrderSource[], key: string | null | undefined) {
+  if (!key || key === DIRECT_ORDER_SOURCE) return "Direct"
+  return findOrderSource(sources, key)?.name ?? key.charAt(0).toUpperCase() + key.slice(1)
+}
+
+/**
+ * Whether we bill the client ourselves. Phases from sources that collect
+ * payment through their platform aren't invoiced.
+ */
+export function isInvoicedDirectly(sources: OrderSource[], key: string | null | undefined) {
+  return !findOrderSource(sources, key)?.collects_payment
+}
+
+export type CommissionPhase = Pick<
+  Tables<"phases">,
+  "amount" | "commission_amount" | "currency" | "created_at" | "order_source"
+>
+
+export interface SourceCommission {
+  id: string
+  name: string
+  phases: number
+  gross: number
+  commission: number
+  net: number
+}
+
+export interface MonthlyCommission {
+  /** e.g. "2026-10" */
+  id: string
+  label: string
+  net: number
+  commission: number
+}
+
+export interface CommissionReport {
+  bySource: SourceCommission[]
+  monthly: MonthlyCommission[]
+  /** Phases left out for lack of an exchange rate */
+  unconverted: number
+}
+
+/**
+ * Gross, commission and net in the base currency per source, dated by when the
+ * phase was created. Months are widened to at least six like the finance chart.
+ */
+export function getCommissionReport(
+  phases: CommissionPhase[],
+  sources: OrderSource[],
+  range: DateRange,
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  minMonths = 6
+): CommissionReport {
+  const from = startOfMonth(subMonths(range.to, minMonths - 1))
+  const start = range.from < from ? range.from : from
+  const monthly = new Map<string, MonthlyCommission>(
+    eachMonthOfInterval({ start, end: range.to }).map(month => {
+      const id = format(month, "yyyy-MM")
+      return [id, { id, label: format(month, "MMM yyyy"), net: 0, commission: 0 }]
+    })
+  )
+  const bySource = new Map<string, SourceCommission>()
+  let unconverted = 0
+
+  phases.forEach(phase => {
+    if (!phase.created_at || !phase.amount) return
+    const date = parseISO(phase.created_at)
+    if (!isWithinInterval(date, { start, end: range.to })) return
+
+    const gross = convertToBaseCurrency(Number(phase.amount), phase.currency, date, baseCurrency, rates)
+    const commission = convertToBaseCurrency(Number(phase.commission_amount) || 0, phase.currency, date, baseCurrency, rates)
+    if (gross === null || commission === null) {
+      unconverted += 1
+      return
+    }
+
+    const month = monthly.get(format(date, "yyyy-MM"))
+    if (month) {
+      month.net += gross - commission
+      month.commission += commission
+    }
+
+    if (!isWithinInterval(date, { start: range.from, end: range.to })) return
+
+    const id = phase.order_source || DIRECT_ORDER_SOURCE
+    const row = bySource.get(id) || { id, name: getOrderSourceName(sources, id), phases: 0, gross: 0, commission: 0, net: 0 }
+    row.phases += 1
+    row.gross += gross
+    row.commission += commission
+    row.net += gross - commission
+    bySource.set(id, row)
+  })
+
+  return {
+    bySource: Array.from(bySource.values()).sort((a, b) => b.gross - a.gross),
+    monthly: Array.from(monthly.values()),
+    unconverted,
+  }
+}
@@ -0,0 +1,80 @@
+const LOWERCASE = "abcdefghijkmnopqrstuvwxyz"
+const UPPERCASE = "ABCDEFGHJKLMNPQRSTUVWXYZ"
+const DIGITS = "23456789"
+const SYMBOLS = "!@#$%^&*()-_=+[]{}<>?"
+
+// 256 short, unambiguous words so each word adds 8 bits of entropy
+const PASSPHRASE_WORDS = [
+  "able", "acid", "aged", "also", "area", "army", "atom", "aunt", "away", "baby", "back", "bake", "ball", "band", "bank", "barn",
+  "base", "bath", "beam", "bean", "bear", "beat", "bell", "belt", "bend", "bike", "bird", "blue", "boat", "body", "bold", "bolt",
+  "bone", "book", "boot", "born", "boss", "bowl", "brave", "bread", "brick", "bride", "brush", "buck", "bulb", "bulk", "bush", "cafe",
+  "cake", "calm", "camp", "cane", "cape", "card", "care", "cart", "case", "cash", "cave", "cell", "chalk", "chef", "chin", "chip",
+  "city", "clay", "clip", "club", "coal", "coat", "code", "coin", "cold", "comb", "cook", "cool", "cope", "copy", "cord", "core",
+  "corn", "cost", "crab", "crew", "crop", "crow", "cube", "cult", "curl", "dart", "dash", "data", "dawn", "deal", "deck", "deer",
+  "desk", "dial", "dice", "dish", "dive", "dock", "dome", "door", "dove", "draw", "drum", "duck", "dune", "dust", "duty", "east",
+  "echo", "edge", "epic", "exit", "face", "fact", "fair", "farm", "fast", "fawn", "fern", "file", "film", "fire", "fish", "flag",
+  "flat", "flax", "flip", "flow", "foam", "fog", "fold", "folk", "font", "food", "foot", "fork", "form", "fort", "fox", "frog",
+  "fuel", "gain", "gale", "game", "gate", "gear", "gift", "glad", "glow", "glue", "goal", "goat", "gold", "golf", "gown", "grab",
+  "gray", "grid", "grin", "grip", "gulf", "hail", "hair", "half", "hall", "hand", "harp", "hawk", "heat", "herb", "hero", "hill",
+  "hint", "hive", "hold", "hole", "hood", "hook", "horn", "host", "hush", "icon", "idea", "inch", "iron", "isle", "jade", "jazz",
+  "jeep", "jest", "jolt", "june", "jury", "keen", "kelp", "kick", "kind", "king", "kite", "knee", "knot", "lace", "lake", "lamb",
+  "lamp", "lane", "lark", "lava", "lawn", "leaf", "lens", "lily", "lime", "lion", "loaf", "loft", "loop", "lord", "luck", "lump",
+  "lung", "mail", "malt", "mane", "maple", "mark", "mask", "mast", "maze", "meal", "melt", "mesh", "mild", "mill", "mint", "mist",
+  "moat", "mode", "mole", "monk", "moon", "moss", "moth", "mule", "muse", "nail", "navy", "neat", "nest", "news", "node", "nose",
+]
+
+export interface PasswordOptions {
+  length: number
+  symbols: boolean
+}
+
+export interface PassphraseOptions {
+  words: number
+  separator: string
+}
+
+export const DEFAULT_PASSWORD_OPTIONS: PasswordOptions = { length: 24, symbols: true }
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = { words: 6, separator: "-" }
+
+/**
+ * Unbiased random integer in [0, max) using the Web Crypto API.
+ */
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max
+  const buffer = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(buffer)
+  } while (buffer[0] >= limit)
+  return buffer[0] % max
+}
+
+function pick(characters: string) {
+  return characters[randomInt(characters.length)]
+}
+
+/**
+ * Generates a password that always contains at least one character from every enabled set.
+ */
+export function generatePassword({ length, symbols }: PasswordOptions): string {
+  const sets = [LOWERCASE, UPPERCASE, DIGITS, ...(symbols ? [SYMBOLS] : [])]
+  const all = sets.join("")
+  const characters = sets.map(pick)
+
+  while (characters.length < Math.max(length, sets.length)) {
+    characters.push(pick(all))
+  }
+
+  // Fisher-Yates shuffle so the guaranteed characters aren't always first
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[characters[i], characters[j]] = [characters[j], characters[i]]
+  }
+
+  return characters.join("")
+}
+
+export function generatePassphrase({ words, separator }: PassphraseOptions): string {
+  const chosen = Array.from({ length: words }, () => PASSPHRASE_WORDS[randomInt(PASSPHRASE_WORDS.length)])
+  // A trailing number keeps passphrases acceptable to sites that require a digit
+  return [...chosen, String(randomInt(90) + 10)].join(separator)
+}
@@ -0,0 +1,106 @@
+import { supabase } from "./supabase"
+import type { Json, Tables } from "./database.types"
+import type { MilestoneDraft } from "./milestones"
+import type { Deliverable } from "@/components/projects/deliverables-manager"
+import type { LineItem } from "@/components/projects/line-items-manager"
+
+export type PhaseTemplate = Tables<"phase_templates">
+
+export interface TemplateDeliverable {
+  title: string
+  description: string | null
+}
+
+export type TemplateMilestone = Pick<MilestoneDraft, "label" | "percentage" | "amount" | "trigger">
+
+export interface TemplateTask {
+  title: string
+  description: string | null
+  priority: string
+  estimate: number | null
+  estimate_unit: string
+}
+
+export function getTemplateDeliverables(template: PhaseTemplate): Deliverable[] {
+  return ((template.deliverables as unknown as TemplateDeliverable[]) || []).map((d, index) => ({
+    id: crypto.randomUUID(),
+    title: d.title,
+    description: d.description,
+    order_index: index,
+  }))
+}
+
+export function getTemplateMilestones(template: PhaseTemplate): MilestoneDraft[] {
+  return ((template.milestones as unknown as TemplateMilestone[]) || []).map(m => ({
+    id: crypto.randomUUID(),
+    label: m.label,
+    percentage: m.percentage,
+    amount: m.amount,
+    trigger: m.trigger,
+    due_date: null,
+    invoice_id: null,
+  }))
+}
+
+export function getTemplateLineItems(template: PhaseTemplate): LineItem[] {
+  return ((template.line_items as unknown as LineItem[]) || []).map(item => ({
+    ...item,
+    id: crypto.randomUUID(),
+  }))
+}
+
+export function getTemplateTasks(template: PhaseTemplate): TemplateTask[] {
+  return (template.tasks as unknown as TemplateTask[]) || []
+}
+
+/**
+ * Snapshots a phase, its deliverables, payment milestones and top-level tasks
+ * as a new template.
+ */
+export async function savePhaseAsTemplate(phase: Tables<"phases">, name: string) {
+  const [deliverablesRes, milestonesRes, tasksRes] = await Promise.all([
+    supabase
+      .from("deliverables")
+      .select("title, description")
+      .eq("phase_id", phase.id)
+      .order("order_index", { ascending: true }),
+    supabase
+      .from("payment_milestones")
+      .select("label, percentage, amount, trigger")
+      .eq("phase_id", phase.id)
+      .neq("trigger", "on_date")
+      .order("order_index", { ascending: true }),
+    supabase
+      .from("tasks")
+      .select("title, description, priority, estimate, estimate_unit")
+      .eq("phase_id", phase.id)
+      .is("parent_id", null)
+      .order("order_index", { ascending: true }),
+  ])
+
+  if (deliverablesRes.error) throw deliverablesRes.error
+  if (milestonesRes.error) throw milestonesRes.error
+  if (tasksRes.error) throw tasksRes.error
+
+  const { data, error } = await supabase
+    .from("phase_templates")
+    .insert({
+      name,
+      title: phase.title,
+      description: phase.description,
+      tech_stack: phase.tech_stack,
+      timeline: phase.timeline,
+      payment_schedule: phase.payment_schedule,
+      amount: Number(phase.amount) || 0,
+      currency: phase.currency,
+      deliverables: (deliverablesRes.data || []) as Json,
+      line_items: phase.invoice_line_items || [],
+      milestones: (milestonesRes.data || []) as Json,
+      tasks: (tasksRes.data || []) as Json,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
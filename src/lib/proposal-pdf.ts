@@ -0,0 +1,357 @@
+import { jsPDF } from "jspdf"
+import autoTable from "jspdf-autotable"
+import { format, parseISO } from "date-fns"
+import type { Tables } from "@/lib/database.types"
+import type { Organization } from "@/hooks/use-organization"
+import type { LineItem } from "@/components/projects/line-items-manager"
+import { formatCurrency, resolveCurrency } from "@/lib/currency"
+import { calculateInvoiceTotals, VAT_TREATMENTS } from "@/lib/invoices"
+import { AREHSOFT_LOGO_BASE64 } from "@/lib/logo-base64"
+
+export const DEFAULT_BRAND_COLOR = "#000000"
+
+export interface ProposalPdfData {
+  phase: Pick<
+    Tables<"phases">,
+    "title" | "description" | "tech_stack" | "timeline" | "payment_schedule" | "amount" | "currency" | "invoice_line_items"
+  >
+  projectName: string
+  client: {
+    first_name?: string | null
+    last_name?: string | null
+    email?: string | null
+    vat_treatment?: string | null
+  } | null
+  deliverables: Pick<Tables<"deliverables">, "title" | "description">[]
+  /** The client's acceptance, printed as a signature block on signed copies */
+  signature?: Pick<Tables<"proposal_responses">, "signature_name" | "responded_at" | "ip_address"> | null
+}
+
+export interface ProposalPdfOptions {
+  coverPage: boolean
+  includeTerms: boolean
+  /** Data URL from loadOrganizationLogo; the bundled logo is used without one */
+  logo?: string | null
+}
+
+export function getDefaultProposalOptions(organization: Organization): ProposalPdfOptions {
+  return {
+    coverPage: organization.proposal_cover_page ?? true,
+    includeTerms: !!organization.proposal_terms?.trim(),
+  }
+}
+
+const PDF_IMAGE_FORMATS: Record<string, string> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/jpg": "JPEG",
+  "image/webp": "WEBP",
+}
+
+/**
+ * Fetches organizations.logo as a data URL jsPDF can embed. Falls back to the
+ * bundled logo when there is none or it can't be loaded (e.g. SVG or CORS).
+ */
+export async function loadOrganizationLogo(organization: Organization): Promise<string> {
+  if (!organization.logo) return AREHSOFT_LOGO_BASE64
+  if (organization.logo.startsWith("data:")) return organization.logo
+
+  try {
+    const response = await fetch(organization.logo)
+    if (!response.ok) throw new Error(`Logo request failed with ${response.status}`)
+    const blob = await response.blob()
+    if (!PDF_IMAGE_FORMATS[blob.type]) return AREHSOFT_LOGO_BASE64
+
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(blob)
+    })
+  } catch (error) {
+    console.error("Error loading organization logo:", error)
+    return AREHSOFT_LOGO_BASE64
+  }
+}
+
+function getImageFormat(dataUrl: string) {
+  const mime = dataUrl.substring(5, dataUrl.indexOf(";"))
+  return PDF_IMAGE_FORMATS[mime] || "PNG"
+}
+
+function hexToRgb(hex: string | null | undefined): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex?.trim() || "")
+  const value = parseInt(match ? match[1] : DEFAULT_BRAND_COLOR.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Renders a phase as a client-facing proposal in the organization's branding.
+ * Used for exports from phases and for the signed copy stored when a client
+ * accepts.
+ */
+export function buildProposalPdf(
+  proposal: ProposalPdfData,
+  organization: Organization,
+  options: ProposalPdfOptions = getDefaultProposalOptions(organization)
+) {
+  const doc = new jsPDF()
+  const { phase, client, deliverables, signature } = proposal
+  const logo = options.logo || AREHSOFT_LOGO_BASE64
+  const logoFormat = getImageFormat(logo)
+  const brand = hexToRgb(organization.brand_color)
+  const currency = resolveCurrency(phase.currency)
+  const money = (amount: number) => formatCurrency(amount, currency)
+  const clientName = client
+    ? [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
+    : "N/A"
+  const orgName = organization.name || "Arehsoft"
+
+  // Cover Page
+  if (options.coverPage) {
+    doc.setFillColor(...brand)
+    doc.rect(0, 0, 210, 8, "F")
+    doc.addImage(logo, logoFormat, 85, 45, 40, 40)
+
+    doc.setFontSize(12)
+    doc.setTextColor(...brand)
+    doc.text("PROJECT PROPOSAL", 105, 110, { align: "center" })
+
+    doc.setFontSize(26)
+    doc.setTextColor(0)
+    const titleLines = doc.splitTextToSize(phase.title, 160)
+    doc.text(titleLines, 105, 125, { align: "center" })
+
+    doc.setFontSize(13)
+    doc.setTextColor(100)
+    doc.text(proposal.projectName, 105, 125 + titleLines.length * 10 + 2, { align: "center" })
+
+    doc.setFontSize(11)
+    doc.setTextColor(0)
+    doc.text(`Prepared for ${clientName}`, 105, 215, { align: "center" })
+    doc.text(`Prepared by ${orgName}`, 105, 222, { align: "center" })
+    doc.setTextColor(100)
+    doc.text(format(new Date(), "MMMM d, yyyy"), 105, 229, { align: "center" })
+
+    doc.setFontSize(9)
+    doc.text(
+      [organization.email || "contact@arehsoft.com", organization.website || "arehsoft.com"].join("  ·  "),
+      105,
+      280,
+      { align: "center" }
+    )
+    doc.rect(0, 289, 210, 8, "F")
+    doc.addPage()
+  }
+
+  // Header
+  doc.addImage(logo, logoFormat, 20, 10, 15, 15)
+
+  doc.setFontSize(22)
+  doc.setTextColor(...brand)
+  doc.text("PROJECT PROPOSAL", 190, 20, { align: "right" })
+
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text(orgName, 20, 30)
+  doc.text(organization.email || "contact@arehsoft.com", 20, 35)
+
+  // Proposal Date
+  doc.setFontSize(10)
+  doc.setTextColor(0)
+  doc.text(`Date: ${new Date().toLocaleDateString()}`, 190, 30, { align: "right" })
+
+  // Client Info
+  doc.setFontSize(12)
+  doc.text("Prepared For:", 20, 50)
+  doc.setFontSize(10)
+  doc.text(clientName || "N/A", 20, 57)
+
+  // Project Info
+  doc.setFontSize(12)
+  doc.text("Project:", 120, 50)
+  doc.setFontSize(10)
+  doc.text(proposal.projectName, 120, 57)
+  doc.text(`Phase: ${phase.title}`, 120, 62)
+
+  let nextY = 80
+
+  const ensureSpace = (height: number) => {
+    if (nextY + height > 270) {
+      doc.addPage()
+      nextY = 20
+    }
+  }
+
+  const addHeading = (title: string) => {
+    ensureSpace(20)
+    doc.setFontSize(14)
+    doc.setTextColor(...brand)
+    doc.text(title, 20, nextY)
+    doc.setTextColor(0)
+    nextY += 7
+  }
+
+  // Long sections flow onto further pages instead of running off the bottom
+  const addSection = (title: string, text: string) => {
+    addHeading(title)
+    doc.setFontSize(10)
+    for (const line of doc.splitTextToSize(text, 170) as string[]) {
+      ensureSpace(5)
+      doc.text(line, 20, nextY)
+      nextY += 5
+    }
+    nextY += 10
+  }
+
+  addSection("Executive Summary", phase.description || "No description provided.")
+
+  // Deliverables
+  if (deliverables.length > 0) {
+    addHeading("Deliverables")
+
+    autoTable(doc, {
+      startY: nextY,
+      head: [["#", "Deliverable", "Description"]],
+      body: deliverables.map((d, index) => [
+        (index + 1).toString(),
+        d.title,
+        d.description || ""
+      ]),
+      theme: "grid",
+      headStyles: { fillColor: brand },
+      margin: { left: 20, right: 20 },
+      styles: { fontSize: 9 },
+      columnStyles: {
+        0: { cellWidth: 10 },
+        1: { cellWidth: 50 },
+        2: { cellWidth: "auto" }
+      }
+    })
+
+    nextY = (doc as any).lastAutoTable.finalY + 15
+  }
+
+  if (phase.tech_stack) addSection("Technical Stack & Architecture", phase.tech_stack)
+  if (phase.timeline) addSection("Project Timeline & Milestones", phase.timeline)
+  if (phase.payment_schedule) addSection("Payment Schedule", phase.payment_schedule)
+
+  // Investment
+  const lineItems = ((phase.invoice_line_items as unknown as LineItem[]) || []).filter(item => item.description)
+  addHeading("Investment")
+
+  if (lineItems.length > 0) {
+    const vatTreatment = client?.vat_treatment || "standard"
+    const totals = calculateInvoiceTotals(lineItems, vatTreatment)
+    const showTax = lineItems.some(item => Number(item.tax_rate) > 0)
+
+    const head = ["Description", `Price (${currency})`, "Qty"]
+    if (showTax) head.push("VAT")
+    head.push(`Net (${currency})`)
+
+    autoTable(doc, {
+      startY: nextY,
+      head: [head],
+      body: lineItems.map(item => {
+        const row = [
+          item.details ? `${item.description}\n${item.details}` : item.description,
+          money(Number(item.price)),
+          item.quantity.toString(),
+        ]
+        if (showTax) row.push(`${vatTreatment === "standard" ? Number(item.tax_rate) || 0 : 0}%`)
+        row.push(money(Number(item.price) * Number(item.quantity)))
+        return row
+      }),
+      theme: "striped",
+      headStyles: { fillColor: brand },
+      margin: { left: 20, right: 20 },
+      styles: { fontSize: 9 },
+      columnStyles: {
+        1: { halign: "right" },
+        2: { halign: "center" },
+        3: { halign: showTax ? "center" : "right" },
+        4: { halign: "right" }
+      }
+    })
+
+    nextY = (doc as any).lastAutoTable.finalY + 10
+    ensureSpace(35)
+    doc.setFontSize(10)
+    doc.setTextColor(100)
+    if (totals.taxAmount > 0 || vatTreatment !== "standard") {
+      doc.text(`Subtotal: ${money(totals.subtotal)}`, 190, nextY, { align: "right" })
+      doc.text(`VAT: ${money(totals.taxAmount)}`, 190, nextY + 5, { align: "right" })
+      nextY += 12
+    }
+    doc.text(`Total Investment (${currency})`, 190, nextY, { align: "right" })
+    doc.setFontSize(16)
+    doc.setTextColor(0)
+    doc.text(money(totals.total), 190, nextY + 10, { align: "right" })
+
+    const treatmentNote = VAT_TREATMENTS.find(t => t.value === vatTreatment)?.note
+    if (treatmentNote) {
+      doc.setFontSize(9)
+      doc.setTextColor(100)
+      doc.text(treatmentNote, 20, nextY + 18)
+    }
+    nextY += 28
+  } else {
+    doc.setFontSize(10)
+    doc.text("The total investment for this phase is:", 20, nextY)
+    doc.setFontSize(16)
+    doc.text(`${money(Number(phase.amount))} ${currency}`, 20, nextY + 10)
+    nextY += 25
+  }
+
+  // Terms
+  if (options.includeTerms && organization.proposal_terms?.trim()) {
+    doc.setTextColor(0)
+    addSection("Terms & Conditions", organization.proposal_terms.trim())
+  }
+
+  // Acceptance
+  if (signature) {
+    ensureSpace(40)
+    addHeading("Acceptance")
+    doc.setFontSize(10)
+    doc.text("This proposal was accepted and signed electronically by:", 20, nextY)
+    doc.setFont("times", "italic")
+    doc.setFontSize(22)
+    doc.text(signature.signature_name || "", 20, nextY + 13)
+    doc.setFont("helvetica", "normal")
+    doc.setDrawColor(150)
+    doc.line(20, nextY + 16, 110, nextY + 16)
+    doc.setFontSize(9)
+    doc.setTextColor(100)
+    doc.text(`Signed on ${format(parseISO(signature.responded_at), "MMM d, yyyy 'at' HH:mm xxx")}`, 20, nextY + 22)
+    doc.text(`IP address: ${signature.ip_address || "Not recorded"}`, 20, nextY + 27)
+  }
+
+  // Footer
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  const footerY = 280
+  if (signature) {
+    doc.text("Signed electronically.", 20, footerY)
+    doc.text(`Accepted ${format(parseISO(signature.responded_at), "MMM d, yyyy")}`, 190, footerY, { align: "right" })
+  } else {
+    doc.text("Thank you for considering our proposal.", 20, footerY)
+    doc.text("Valid for 30 days.", 190, footerY, { align: "right" })
+  }
+
+  // Page numbers, skipping the cover
+  const firstPage = options.coverPage ? 2 : 1
+  const pageCount = doc.getNumberOfPages()
+  doc.setFontSize(8)
+  for (let page = firstPage; page <= pageCount; page++) {
+    doc.setPage(page)
+    doc.text(
+      `${orgName} · ${phase.title} · Page ${page - firstPage + 1} of ${pageCount - firstPage + 1}`,
+      105,
+      290,
+      { align: "center" }
+    )
+  }
+
+  return doc
+}
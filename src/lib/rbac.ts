@@ -21,6 +21,7 @@ export const ROLES: Record<Role, RoleData> = {
       'deliverables:*',
       'phases:*',
       'clients:*',
+      'documents:*',
       'team:read',
       'chat:*',
       'credentials:*',
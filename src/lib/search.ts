@@ -0,0 +1,104 @@
+import { supabase } from "./supabase"
+import type { Database } from "./database.types"
+
+type Functions = Database["public"]["Functions"]
+
+export type SearchResult = Functions["search_workspace"]["Returns"][number]
+export type ChannelSearchResult = Functions["search_channel_messages"]["Returns"][number]
+
+export type SearchResultKind = "message" | "task" | "phase" | "document" | "client" | "credential"
+
+/**
+ * Palette groups in display order, with the permission from rbac.ts needed to
+ * see each. search_workspace applies the same rules server side.
+ */
+export const SEARCH_RESULT_KINDS: {
+  kind: SearchResultKind
+  label: string
+  permission: { action: string; resource: string }
+}[] = [
+  { kind: "message", label: "Messages", permission: { action: "read", resource: "chat" } },
+  { kind: "task", label: "Tasks", permission: { action: "read", resource: "tasks" } },
+  { kind: "phase", label: "Phases", permission: { action: "read", resource: "phases" } },
+  { kind: "document", label: "Documents", permission: { action: "read", resource: "documents" } },
+  { kind: "client", label: "Clients", permission: { action: "read", resource: "clients" } },
+  { kind: "credential", label: "Credentials", permission: { action: "read", resource: "credentials" } },
+]
+
+/** Shortest query worth sending to the server */
+export const MIN_SEARCH_LENGTH = 2
+
+export async function searchWorkspace(query: string, limit = 8) {
+  const { data, error } = await supabase.rpc("search_workspace", { p_query: query, p_limit: limit })
+  if (error) throw error
+  return data || []
+}
+
+export interface ChannelSearchFilters {
+  query?: string
+  authorId?: string | null
+  /** Inclusive start date, yyyy-MM-dd */
+  from?: string | null
+  /** Inclusive end date, yyyy-MM-dd */
+  to?: string | null
+}
+
+export async function searchChannelMessages(channelId: string, filters: ChannelSearchFilters) {
+  // Dates are whole local days, so the end of the range is midnight after `to`
+  const to = filters.to ? new Date(`${filters.to}T00:00:00`) : null
+  to?.setDate(to.getDate() + 1)
+
+  const { data, error } = await supabase.rpc("search_channel_messages", {
+    p_channel_id: channelId,
+    p_query: filters.query?.trim() || undefined,
+    p_author_id: filters.authorId || undefined,
+    p_from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    p_to: to ? to.toISOString() : undefined,
+  })
+  if (error) throw error
+  return data || []
+}
+
+/** Route for a chat message, opening its thread when it's a reply */
+export function getMessageUrl(channel: { id: string; project_id: string | null; is_direct: boolean }, messageId: string) {
+  const base = channel.is_direct
+    ? `/dashboard/chat/dms/${channel.id}`
+    : channel.project_id
+      ? `/dashboard/projects/${channel.project_id}/chat/${channel.id}`
+      : `/dashboard/chat/${channel.id}`
+  return `${base}?message=${messageId}`
+}
+
+export function getSearchResultUrl(result: SearchResult) {
+  switch (result.kind) {
+    case "message":
+      return result.channel_id
+        ? getMessageUrl({ id: result.channel_id, project_id: result.project_id, is_direct: result.is_direct }, result.id)
+        : "/dashboard/chat"
+    case "task":
+      return result.project_id && result.phase_id
+        ? `/dashboard/projects/${result.project_id}/phases/${result.phase_id}?taskId=${result.id}`
+        : `/dashboard/tasks?taskId=${result.id}`
+    case "phase":
+      return `/dashboard/projects/${result.project_id}/phases/${result.id}`
+    case "document":
+      return `/dashboard/projects/${result.project_id}/documents?documentId=${result.id}`
+    case "client":
+      return `/dashboard/clients/${result.id}/overview`
+    case "credential":
+      return `/dashboard/credentials?credentialId=${result.id}`
+    default:
+      return "/dashboard"
+  }
+}
+
+/** Splits a ts_headline snippet into plain and <mark>ed parts, without rendering it as HTML */
+export function splitHighlights(snippet: string) {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^<mark>(.*)<\/mark>$/)
+      return match ? { text: match[1], highlighted: true } : { text: part, highlighted: false }
+    })
+}
@@ -0,0 +1,136 @@
+import { differenceInCalendarDays, endOfWeek, parseISO } from "date-fns"
+
+export const TASK_STATUSES = [
+  { id: "backlog", title: "Backlog" },
+  { id: "todo", title: "To Do" },
+  { id: "in progress", title: "In Progress" },
+  { id: "in review", title: "In Review" },
+  { id: "complete", title: "Complete" },
+]
+
+export type TaskPriority = "urgent" | "high" | "medium" | "low"
+
+export const TASK_PRIORITIES: { id: TaskPriority; title: string; className: string; iconClassName: string }[] = [
+  { id: "urgent", title: "Urgent", className: "bg-red-500/10 text-red-600 hover:bg-red-500/20", iconClassName: "text-red-600" },
+  { id: "high", title: "High", className: "bg-orange-500/10 text-orange-600 hover:bg-orange-500/20", iconClassName: "text-orange-600" },
+  { id: "medium", title: "Medium", className: "bg-amber-500/10 text-amber-600 hover:bg-amber-500/20", iconClassName: "text-amber-600" },
+  { id: "low", title: "Low", className: "bg-slate-500/10 text-slate-600 hover:bg-slate-500/20", iconClassName: "text-slate-600" },
+]
+
+export type TaskSortKey = "manual" | "priority" | "due_date" | "estimate"
+
+export type TaskDueStatus = "overdue" | "due-today" | "due-soon" | "upcoming"
+
+export type TaskDueFilter = "all" | "overdue" | "due-this-week"
+
+// Tasks due within this many days are flagged as "due soon" (mirrors process_task_due_notifications)
+export const DUE_SOON_DAYS = 2
+
+type SortableTask = {
+  order_index: number | null
+  priority?: string | null
+  estimate?: number | null
+  due_date?: string | null
+}
+
+type DatedTask = {
+  status: string
+  due_date?: string | null
+}
+
+/**
+ * Classifies a task's due date relative to today.
+ * Completed tasks and tasks without a due date have no due status.
+ */
+export function getTaskDueStatus(task: DatedTask, now: Date = new Date()): TaskDueStatus | null {
+  if (!task.due_date || task.status === "complete") return null
+
+  const daysLeft = differenceInCalendarDays(parseISO(task.due_date), now)
+
+  if (daysLeft < 0) return "overdue"
+  if (daysLeft === 0) return "due-today"
+  if (daysLeft <= DUE_SOON_DAYS) return "due-soon"
+  return "upcoming"
+}
+
+/**
+ * Returns true if the task should be shown for the given due date filter.
+ * "due-this-week" covers open tasks due between today and the end of the current (Mon-Sun) week.
+ */
+export function matchesDueFilter(task: DatedTask, filter: TaskDueFilter, now: Date = new Date()): boolean {
+  if (filter === "all") return true
+
+  const status = getTaskDueStatus(task, now)
+  if (!status) return false
+  if (filter === "overdue") return status === "overdue"
+
+  if (status === "overdue") return false
+  return differenceInCalendarDays(endOfWeek(now, { weekStartsOn: 1 }), parseISO(task.due_date!)) >= 0
+}
+
+/**
+ * Normalizes a date input value for the database: empty strings become null.
+ */
+export function toDateColumn(value: string | null | undefined): string | null {
+  return value ? value : null
+}
+
+type TaskPlanningValues = {
+  priority?: string | null
+  estimate?: string | number | null
+  estimate_unit?: string | null
+}
+
+/**
+ * Maps the priority and estimate fields of a task form to database columns,
+ * parsing the estimate into a number.
+ */
+export function getTaskPlanningColumns(values: TaskPlanningValues) {
+  const estimate = values.estimate === "" || values.estimate == null ? null : Number(values.estimate)
+
+  return {
+    priority: values.priority || "medium",
+    estimate: estimate !== null && !isNaN(estimate) ? estimate : null,
+    estimate_unit: values.estimate_unit || "points",
+  }
+}
+
+/**
+ * Ranks a priority for sorting: urgent first, unknown or missing values last.
+ */
+export function getPriorityRank(priority: string | null | undefined): number {
+  const index = TASK_PRIORITIES.findIndex(p => p.id === priority)
+  return index === -1 ? TASK_PRIORITIES.length : index
+}
+
+/**
+ * Returns a comparator for the given Kanban/table sort key.
+ * Ties (and the "manual" key) fall back to order_index.
+ */
+export function getTaskComparator(sortKey: TaskSortKey) {
+  return (a: SortableTask, b: SortableTask): number => {
+    let result = 0
+
+    if (sortKey === "priority") {
+      result = getPriorityRank(a.priority) - getPriorityRank(b.priority)
+    } else if (sortKey === "due_date") {
+      // Tasks without a due date go to the bottom
+      if (a.due_date && b.due_date) result = a.due_date.localeCompare(b.due_date)
+      else if (a.due_date) result = -1
+      else if (b.due_date) result = 1
+    } else if (sortKey === "estimate") {
+      // Largest estimates first, unestimated tasks last
+      result = (b.estimate ?? -1) - (a.estimate ?? -1)
+    }
+
+    return result || (a.order_index || 0) - (b.order_index || 0)
+  }
+}
+
+/**
+ * Formats a task estimate for display, e.g. "3 pts" or "1.5h".
+ */
+export function formatEstimate(estimate: number | null | undefined, unit: string | null | undefined): string | null {
+  if (estimate === null || estimate === undefined) return null
+  return unit === "hours" ? `${estimate}h` : `${estimate} ${estimate === 1 ? "pt" : "pts"}`
+}
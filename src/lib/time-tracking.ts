@@ -0,0 +1,115 @@
+import { addSeconds, differenceInSeconds, format, parseISO } from "date-fns"
+import type { Tables } from "./database.types"
+import type { LineItem } from "@/components/projects/line-items-manager"
+
+export type TimeEntry = Tables<"time_entries">
+
+export type TimeEntryWithRelations = TimeEntry & {
+  tasks?: { id: string; title: string } | null
+  phases?: { id: string; title: string } | null
+  projects?: { id: string; name: string } | null
+  profiles?: { id: string; full_name: string | null; email: string | null; avatar_url: string | null } | null
+}
+
+export const TIME_ENTRY_SELECT = `
+  *,
+  tasks (id, title),
+  phases (id, title),
+  projects (id, name),
+  profiles:user_id (id, full_name, email, avatar_url)
+`
+
+/**
+ * Returns the tracked duration of an entry in seconds.
+ * Running timers are measured up to `now`.
+ */
+export function getEntrySeconds(entry: Pick<TimeEntry, "started_at" | "ended_at" | "duration_seconds">, now: Date = new Date()): number {
+  if (entry.ended_at) {
+    return entry.duration_seconds ?? Math.max(0, differenceInSeconds(parseISO(entry.ended_at), parseISO(entry.started_at)))
+  }
+  return Math.max(0, differenceInSeconds(now, parseISO(entry.started_at)))
+}
+
+export function secondsToHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100
+}
+
+/**
+ * Formats a duration for display, e.g. "1h 05m" or "12m".
+ */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.floor(seconds / 60)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  if (hours === 0) return `${minutes}m`
+  return `${hours}h ${minutes.toString().padStart(2, "0")}m`
+}
+
+/**
+ * Formats a running timer as a clock, e.g. "1:05:09".
+ */
+export function formatTimer(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+/**
+ * Parses a manual duration input such as "1.5", "1:30" or "90m" into seconds.
+ * Returns null when the input cannot be understood.
+ */
+export function parseDurationInput(value: string): number | null {
+  const input = value.trim().toLowerCase()
+  if (!input) return null
+
+  const clock = input.match(/^(\d+):([0-5]\d)$/)
+  if (clock) return parseInt(clock[1]) * 3600 + parseInt(clock[2]) * 60
+
+  const minutes = input.match(/^(\d+)\s*m$/)
+  if (minutes) return parseInt(minutes[1]) * 60
+
+  const hours = Number(input.replace(/h$/, ""))
+  if (isNaN(hours) || hours < 0) return null
+  return Math.round(hours * 3600)
+}
+
+/**
+ * Builds the start/end timestamps of a manual entry logged on `date` (yyyy-MM-dd).
+ * Manual entries start at 09:00 unless they are edits of an entry on the same day.
+ */
+export function getManualEntryRange(date: string, seconds: number, existingStartedAt?: string | null) {
+  const existing = existingStartedAt ? parseISO(existingStartedAt) : null
+  const start = existing && format(existing, "yyyy-MM-dd") === date
+    ? existing
+    : parseISO(`${date}T09:00:00`)
+
+  return {
+    started_at: start.toISOString(),
+    ended_at: addSeconds(start, seconds).toISOString(),
+  }
+}
+
+/**
+ * Groups billable time entries into invoice line items, one per task
+ * (entries without a task are grouped by phase), priced at the hourly rate.
+ */
+export function buildTimeLineItems(entries: TimeEntryWithRelations[], hourlyRate: number): LineItem[] {
+  const groups = new Map<string, { description: string; seconds: number }>()
+
+  entries.forEach(entry => {
+    const key = entry.task_id || `phase-${entry.phase_id || "none"}`
+    const description = entry.tasks?.title || entry.description || entry.phases?.title || "Logged time"
+    const group = groups.get(key) || { description, seconds: 0 }
+    group.seconds += getEntrySeconds(entry)
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    id: `time-${key}`,
+    description: group.description,
+    details: `${formatDuration(group.seconds)} logged`,
+    price: hourlyRate,
+    quantity: secondsToHours(group.seconds),
+  }))
+}
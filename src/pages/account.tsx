@@ -18,6 +18,7 @@ export default function AccountPage() {
   const [fullName, setFullName] = useState("")
   const [password, setPassword] = useState("")
   const [confirmPassword, setConfirmPassword] = useState("")
+  const [currentPin, setCurrentPin] = useState("")
   const [newPin, setNewPin] = useState("")
   const [isUpdatingProfile, setIsUpdatingProfile] = useState(false)
   const [isUpdatingPassword, setIsUpdatingPassword] = useState(false)
@@ -89,6 +90,11 @@ export default function AccountPage() {
   }
 
   const handleUpdatePin = async () => {
+    if (currentPin.length !== 4) {
+      toast.error("Enter your current PIN")
+      return
+    }
+
     const sanitizedPin = newPin.toString().trim()
     if (sanitizedPin.length !== 4) {
       toast.error("PIN must be 4 digits")
@@ -102,8 +108,9 @@ export default function AccountPage() {
 
     try {
       setIsUpdatingPin(true)
-      await setPin(sanitizedPin)
+      await setPin(sanitizedPin, false, currentPin)
       toast.success("PIN updated successfully")
+      setCurrentPin("")
       setNewPin("")
     } catch (error: any) {
       toast.error(error.message || "Failed to update PIN")
@@ -209,26 +216,44 @@ export default function AccountPage() {
                 <CardHeader>
                   <CardTitle>Security PIN</CardTitle>
                   <CardDescription>
-                    Update your 4-digit security PIN for account access.
+                    Enter your current PIN, then choose a new 4-digit security PIN.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4 flex flex-col items-center">
-                  <InputOTP
-                    maxLength={4}
-                    value={newPin}
-                    onChange={(val) => setNewPin(val)}
-                  >
-                    <InputOTPGroup>
-                      <InputOTPSlot index={0} />
-                      <InputOTPSlot index={1} />
-                      <InputOTPSlot index={2} />
-                      <InputOTPSlot index={3} />
-                    </InputOTPGroup>
-                  </InputOTP>
+                  <div className="space-y-2 flex flex-col items-center">
+                    <Label>Current PIN</Label>
+                    <InputOTP
+                      maxLength={4}
+                      value={currentPin}
+                      onChange={(val) => setCurrentPin(val)}
+                    >
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <div className="space-y-2 flex flex-col items-center">
+                    <Label>New PIN</Label>
+                    <InputOTP
+                      maxLength={4}
+                      value={newPin}
+                      onChange={(val) => setNewPin(val)}
+                    >
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
                   <Button 
                     variant="outline" 
                     onClick={handleUpdatePin} 
-                    disabled={isUpdatingPin || newPin.length !== 4}
+                    disabled={isUpdatingPin || currentPin.length !== 4 || newPin.length !== 4}
                     className="w-full"
                   >
                     {isUpdatingPin && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
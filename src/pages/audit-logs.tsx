@@ -125,6 +125,10 @@ export default function AuditLogsPage() {
       case 'INSERT': return 'bg-green-500/10 text-green-500 border-green-500/20'
       case 'UPDATE': return 'bg-blue-500/10 text-blue-500 border-blue-500/20'
       case 'DELETE': return 'bg-red-500/10 text-red-500 border-red-500/20'
+      case 'REVEAL': return 'bg-amber-500/10 text-amber-500 border-amber-500/20'
+      case 'COPY': return 'bg-purple-500/10 text-purple-500 border-purple-500/20'
+      case 'RESTORE': return 'bg-cyan-500/10 text-cyan-500 border-cyan-500/20'
+      case 'EXPORT': return 'bg-indigo-500/10 text-indigo-500 border-indigo-500/20'
       default: return 'bg-gray-500/10 text-gray-500 border-gray-500/20'
     }
   }
@@ -244,6 +248,10 @@ export default function AuditLogsPage() {
                 <SelectItem value="INSERT">INSERT</SelectItem>
                 <SelectItem value="UPDATE">UPDATE</SelectItem>
                 <SelectItem value="DELETE">DELETE</SelectItem>
+                <SelectItem value="REVEAL">REVEAL</SelectItem>
+                <SelectItem value="COPY">COPY</SelectItem>
+                <SelectItem value="RESTORE">RESTORE</SelectItem>
+                <SelectItem value="EXPORT">EXPORT</SelectItem>
               </SelectContent>
             </Select>
           </div>
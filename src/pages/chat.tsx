@@ -4,7 +4,7 @@ import { useParams, useNavigate, useLocation } from "react-router-dom"
 import { SEO } from "@/components/seo"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/hooks/use-auth"
-import { Hash, Plus, MessageSquare, Send, Search, Bell, Info, ChevronDown, Globe, Settings, Trash2, ChevronLeft } from "lucide-react"
+import { Hash, Plus, MessageSquare, Send, Search, Bell, Info, ChevronDown, Globe, Settings, Trash2, ChevronLeft, FolderOpen } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -27,6 +27,18 @@ import { usePresence } from "@/hooks/use-presence"
 import { useNotifications } from "@/hooks/use-notifications"
 import { MentionTextarea } from "@/components/mention-textarea"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useChatMessages } from "@/hooks/use-chat-messages"
+import { formatUnreadCount, useUnreadCounts } from "@/hooks/use-unread-counts"
+import { useMarkChannelRead, useReadPosition } from "@/hooks/use-channel-read"
+import { Badge } from "@/components/ui/badge"
+import { MessageList } from "@/components/message-list"
+import { MessageItem } from "@/components/message-item"
+import { ThreadPanel } from "@/components/thread-panel"
+import { ChannelSearchPanel } from "@/components/channel-search-panel"
+import { ChannelFilesPanel } from "@/components/channel-files-panel"
+import { AttachFilesButton, AttachmentDropZone, PendingUploads } from "@/components/chat-attachments"
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads"
+import { sendMessage, type ChatMessage } from "@/lib/chat"
 
 interface Project {
   id: string
@@ -41,18 +53,6 @@ interface Channel {
   created_by: string | null
 }
 
-interface Message {
-  id: string
-  content: string
-  created_at: string
-  user_id: string
-  profiles: {
-    full_name: string | null
-    avatar_url: string | null
-    email: string | null
-  }
-}
-
 interface Profile {
   id: string
   full_name: string | null
@@ -69,6 +69,7 @@ export default function ChatPage() {
   const { user, role, checkPermission, loading: authLoading } = useAuth()
   const { isOnline } = usePresence()
   const { notifications, markAsRead } = useNotifications()
+  const unread = useUnreadCounts()
   const isMobile = useIsMobile()
   
   const canReadChat = checkPermission('read', 'chat')
@@ -77,12 +78,12 @@ export default function ChatPage() {
 
   const searchParams = new URLSearchParams(location.search)
   const dmUserId = searchParams.get("with")
+  const targetMessageId = searchParams.get("message")
   const isDMMode = location.pathname.includes("/chat/dms")
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(routeProjectId || null)
   const [projects, setProjects] = useState<Project[]>([])
   const [channels, setChannels] = useState<Channel[]>([])
   const [selectedChannel, setSelectedChannel] = useState<Channel | null>(null)
-  const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState("")
   const [newChannelName, setNewChannelName] = useState("")
   const [isNewChannelDialogOpen, setIsNewChannelDialogOpen] = useState(false)
@@ -91,6 +92,7 @@ export default function ChatPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [members, setMembers] = useState<Profile[]>([])
   const [isSidebarOpen, setIsSidebarOpen] = useState(true)
+  const [sidePanel, setSidePanel] = useState<"search" | "files" | null>(null)
   const isCreatingDM = React.useRef(false)
 
   // Channel Settings State
@@ -386,91 +388,63 @@ export default function ChatPage() {
     }
   }, [routeChannelId, channels, isDMMode, currentProjectId, selectedChannel?.id, isMobile])
 
-  // Fetch messages when selectedChannel changes
-  useEffect(() => {
-    if (!selectedChannel) {
-      setMessages([])
-      return
-    }
-
-    const channelId = selectedChannel.id
-    setMessages([]) // Clear messages when channel changes
-
-    async function fetchMessages() {
-      const { data, error } = await supabase
-        .from("messages")
-        .select(`
-          *,
-          profiles:user_id (
-            full_name,
-            avatar_url,
-            email
-          )
-        `)
-        .eq("channel_id", channelId)
-        .order("created_at", { ascending: true })
-
-      if (error) {
-        toast.error("Failed to load messages")
-      } else {
-        setMessages((data as unknown as Message[]) || [])
-      }
-    }
-
-    fetchMessages()
-
-    // Subscribe to new messages
-    const subscription = supabase
-      .channel(`channel:${channelId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channelId}`,
-        },
-        async (payload) => {
-          // Fetch the full message with profile info
-          const { data, error } = await supabase
-            .from("messages")
-            .select(`
-              *,
-              profiles:user_id (
-                full_name,
-                avatar_url,
-                email
-              )
-            `)
-            .eq("id", payload.new.id)
-            .single()
-
-          if (!error && data) {
-            setMessages((prev) => [...prev, data as unknown as Message])
-          }
-        }
-      )
-      .subscribe()
-
-    return () => {
-      supabase.removeChannel(subscription)
-    }
-  }, [selectedChannel])
+  const {
+    messages,
+    isLoading: isLoadingMessages,
+    hasOlder,
+    hasNewer,
+    targetMessage,
+    loadOlder,
+    loadNewer,
+  } = useChatMessages(selectedChannel?.id, targetMessageId)
+
+  // Links to a thread reply open its thread until another one is picked or it's closed
+  const threadKey = `${selectedChannel?.id ?? ""}:${targetMessageId ?? ""}`
+  const [threadSelection, setThreadSelection] = useState<{ key: string; id: string | null } | null>(null)
+  const threadId = threadSelection?.key === threadKey ? threadSelection.id : targetMessage?.parent_id ?? null
+  const threadParent = threadId ? messages.find(m => m.id === threadId) ?? null : null
+  const openThread = React.useCallback((message: ChatMessage) => {
+    setThreadSelection({ key: threadKey, id: message.id })
+  }, [threadKey])
+
+  const previousReadAt = useMarkChannelRead(selectedChannel?.id, messages[messages.length - 1]?.id)
+  const unreadFromId = React.useMemo(() => {
+    if (!previousReadAt) return null
+    const readUntil = new Date(previousReadAt).getTime()
+    return messages.find(m => m.user_id !== user?.id && new Date(m.created_at).getTime() > readUntil)?.id ?? null
+  }, [messages, previousReadAt, user?.id])
+
+  // Read receipts: the newest of our messages the other person has read
+  const dmPartnerId = selectedChannel?.name.startsWith("dm--")
+    ? selectedChannel.name.replace("dm--", "").split("--").find(id => id !== user?.id) ?? null
+    : null
+  const partnerReadAt = useReadPosition(dmPartnerId ? selectedChannel?.id : null, dmPartnerId)
+  const seenMessageId = React.useMemo(() => {
+    if (!partnerReadAt) return null
+    const readUntil = new Date(partnerReadAt).getTime()
+    return messages.filter(m => m.user_id === user?.id && new Date(m.created_at).getTime() <= readUntil).pop()?.id ?? null
+  }, [messages, partnerReadAt, user?.id])
+
+  // Sending from an older window jumps back to the latest messages
+  const { uploads, attachments, isUploading, addFiles, removeUpload, clearUploads } = useAttachmentUploads(selectedChannel?.id)
+
+  const showLatestMessages = () => {
+    if (hasNewer) navigate(location.pathname, { replace: true })
+  }
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!newMessage.trim() || !selectedChannel || !user) return
+  const handleSendMessage = async (content: string) => {
+    if (!selectedChannel || !user || isUploading) return
+    const messageContent = content.trim()
+    if (!messageContent && attachments.length === 0) return
 
-    const messageContent = newMessage.trim()
     setNewMessage("")
+    clearUploads()
+    showLatestMessages()
 
-    const { error } = await supabase.from("messages").insert({
-      content: messageContent,
-      channel_id: selectedChannel.id,
-      user_id: user.id,
-    })
-
-    if (error) {
+    try {
+      await sendMessage({ channelId: selectedChannel.id, content: messageContent, attachments })
+    } catch (error) {
+      console.error("Error sending message:", error)
       toast.error("Failed to send message")
     }
   }
@@ -560,6 +534,16 @@ export default function ChatPage() {
 
   const dmChannels = channels.filter(c => c.name.startsWith("dm--"))
 
+  const globalUnread = channels
+    .filter(c => !c.project_id && !c.name.startsWith("dm--"))
+    .reduce((sum, c) => sum + (unread.byChannel[c.id] || 0), 0)
+
+  const renderUnreadBadge = (count: number | undefined) => !!count && (
+    <Badge className="ml-auto h-5 min-w-5 shrink-0 rounded-full px-1.5 text-[10px] tabular-nums">
+      {formatUnreadCount(count)}
+    </Badge>
+  )
+
   const filteredMembers = members.filter(m => 
     m.id !== user?.id && 
     (m.full_name?.toLowerCase().includes(dmSearchQuery.toLowerCase()) || 
@@ -606,6 +590,7 @@ export default function ChatPage() {
                     <DropdownMenuItem onClick={() => handleProjectChange(null)} className="flex items-center gap-2">
                       <Globe className="h-4 w-4" />
                       <span>Global Workspace</span>
+                      {renderUnreadBadge(globalUnread)}
                     </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     {projects.map((project) => (
@@ -618,6 +603,7 @@ export default function ChatPage() {
                           {project.name.charAt(0)}
                         </div>
                         <span className="truncate">{project.name}</span>
+                        {renderUnreadBadge(unread.byProject[project.id])}
                       </DropdownMenuItem>
                     ))}
                   </DropdownMenuContent>
@@ -686,7 +672,10 @@ export default function ChatPage() {
                           "h-4 w-4 shrink-0 transition-opacity",
                           selectedChannel?.id === channel.id ? "opacity-100" : "opacity-50"
                         )} />
-                        <span className="truncate">{channel.name}</span>
+                        <span className={cn("truncate", unread.byChannel[channel.id] && "font-semibold text-foreground")}>
+                          {channel.name}
+                        </span>
+                        {selectedChannel?.id !== channel.id && renderUnreadBadge(unread.byChannel[channel.id])}
                       </button>
                     ))
                   )}
@@ -791,9 +780,10 @@ export default function ChatPage() {
                               <span className="absolute -bottom-0.5 -right-0.5 h-1.5 w-1.5 rounded-full border border-background bg-emerald-500" />
                             )}
                           </div>
-                          <span className="truncate">
+                          <span className={cn("truncate", unread.byChannel[channel.id] && "font-semibold text-foreground")}>
                             {otherUser?.full_name || otherUser?.username || otherUser?.email?.split("@")[0] || "Deleted User"}
                           </span>
+                          {selectedChannel?.id !== channel.id && renderUnreadBadge(unread.byChannel[channel.id])}
                         </button>
                       )
                     })
@@ -867,9 +857,22 @@ export default function ChatPage() {
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="hidden sm:flex items-center gap-1">
-                    <Button variant="ghost" size="icon" className="h-8 w-8">
+                    <Button
+                      variant={sidePanel === "search" ? "secondary" : "ghost"}
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setSidePanel(sidePanel === "search" ? null : "search")}
+                    >
                       <Search className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant={sidePanel === "files" ? "secondary" : "ghost"}
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setSidePanel(sidePanel === "files" ? null : "files")}
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
                     <Button variant="ghost" size="icon" className="h-8 w-8">
                       <Bell className="h-4 w-4" />
                     </Button>
@@ -942,10 +945,26 @@ export default function ChatPage() {
                 variant="destructive"
               />
 
-              {/* Message List */}
-              <ScrollArea className="flex-1">
-                <div className="flex flex-col gap-6 p-4 md:p-6">
-                  {messages.length === 0 ? (
+              <AttachmentDropZone onFiles={addFiles} className="flex min-h-0 flex-1 flex-col">
+                {/* Message List */}
+                <MessageList
+                  key={`${selectedChannel.id}:${targetMessageId ?? ""}`}
+                  messages={messages}
+                  hasOlder={hasOlder}
+                  hasNewer={hasNewer}
+                  onLoadOlder={loadOlder}
+                  onLoadNewer={loadNewer}
+                  highlightedId={targetMessage?.parent_id ?? targetMessageId}
+                  unreadFromId={unreadFromId}
+                  contentClassName="p-4 md:p-6"
+                  rowClassName="pb-6"
+                  empty={isLoadingMessages ? (
+                    <div className="space-y-6">
+                      <Skeleton className="h-12 w-2/3" />
+                      <Skeleton className="h-12 w-1/2" />
+                      <Skeleton className="h-12 w-3/5" />
+                    </div>
+                  ) : (
                     <div className="flex flex-col items-center justify-center py-20 text-center">
                       <div className="h-20 w-20 rounded-full bg-muted flex items-center justify-center mb-6">
                         {selectedChannel.name.startsWith("dm--") ? (
@@ -965,97 +984,53 @@ export default function ChatPage() {
                           : `This is the start of the #${selectedChannel.name} channel. ${selectedChannel.description || "Use it to discuss anything related to this topic."}`}
                       </p>
                     </div>
-                  ) : (
-                    messages.map((message) => (
-                      <div key={message.id} className="flex gap-4 group">
-                        <Avatar className="h-9 w-9 shrink-0">
-                          <AvatarImage src={message.profiles?.avatar_url || ""} />
-                          <AvatarFallback className="bg-primary/10 text-primary text-xs">
-                            {(message.profiles?.full_name || message.profiles?.email || "U").charAt(0).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1 min-w-0 space-y-1">
-                          <div className="flex items-center gap-2">
-                            <span className="font-semibold text-sm">
-                              {message.profiles?.full_name || message.profiles?.email?.split("@")[0]}
-                            </span>
-                            <span className="text-[10px] text-muted-foreground">
-                              {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            </span>
-                          </div>
-                          <div className="text-sm text-foreground/90 leading-normal whitespace-pre-wrap break-words">
-                            {(() => {
-                              if (!message.content.includes("@")) return message.content
-                              
-                              // Match @ followed by word characters, dots, or hyphens
-                              const parts = message.content.split(/(@[\w.-]+)/g)
-                              return parts.map((part, i) => {
-                                if (part.startsWith("@")) {
-                                  const username = part.slice(1).toLowerCase()
-                                  const isMember = members.some(m => 
-                                    (m.username?.toLowerCase() === username) || 
-                                    (m.full_name?.replace(/\s+/g, "").toLowerCase() === username)
-                                  )
-                                  if (isMember) {
-                                    return (
-                                      <span key={i} className="text-primary font-semibold bg-primary/10 px-1 rounded-sm">
-                                        {part}
-                                      </span>
-                                    )
-                                  }
-                                }
-                                return part
-                              })
-                            })()}
-                          </div>
-                        </div>
-                      </div>
-                    ))
                   )}
-                </div>
-              </ScrollArea>
-
-              {/* Message Input */}
-              <div className="px-4 pb-4">
-                <form 
-                  onSubmit={handleSendMessage}
-                  className="relative rounded-xl border bg-background shadow-sm focus-within:ring-1 focus-within:ring-ring focus-within:border-ring transition-all"
-                >
-                  <MentionTextarea
-                    placeholder={selectedChannel.name.startsWith("dm--") 
-                      ? `Message ${getOtherUserFromDM(selectedChannel)?.full_name || "user"}`
-                      : `Message #${selectedChannel.name}`}
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    onSendMessage={(content) => {
-                      if (!content.trim() || !selectedChannel || !user) return
-                      
-                      const messageContent = content.trim()
-                      setNewMessage("")
-                      
-                      supabase.from("messages").insert({
-                        content: messageContent,
-                        channel_id: selectedChannel.id,
-                        user_id: user.id,
-                      }).then(({ error }) => {
-                        if (error) toast.error("Failed to send message")
-                      })
+                  renderMessage={(message: ChatMessage) => (
+                    <MessageItem
+                      message={message}
+                      members={members}
+                      onReply={openThread}
+                      seenAt={message.id === seenMessageId ? partnerReadAt : null}
+                    />
+                  )}
+                />
+
+                {/* Message Input */}
+                <div className="px-4 pb-4">
+                  <form 
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      handleSendMessage(newMessage)
                     }}
-                    members={members}
-                  />
-                  <div className="flex items-center justify-between px-2 py-1.5 border-t bg-muted/5 rounded-b-xl">
-                    <div className="flex gap-0.5">
-                      <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-                        <Plus className="h-4 w-4" />
+                    className="relative rounded-xl border bg-background shadow-sm focus-within:ring-1 focus-within:ring-ring focus-within:border-ring transition-all"
+                  >
+                    <PendingUploads uploads={uploads} onRemove={removeUpload} className="px-3 pt-3" />
+                    <MentionTextarea
+                      placeholder={selectedChannel.name.startsWith("dm--") 
+                        ? `Message ${getOtherUserFromDM(selectedChannel)?.full_name || "user"}`
+                        : `Message #${selectedChannel.name}`}
+                      value={newMessage}
+                      onChange={(e) => setNewMessage(e.target.value)}
+                      onSendMessage={handleSendMessage}
+                      members={members}
+                    />
+                    <div className="flex items-center justify-between px-2 py-1.5 border-t bg-muted/5 rounded-b-xl">
+                      <div className="flex gap-0.5">
+                        <AttachFilesButton onFiles={addFiles} />
+                      </div>
+                      <Button
+                        type="submit"
+                        size="sm"
+                        className="h-8 px-3 gap-1.5"
+                        disabled={isUploading || (!newMessage.trim() && attachments.length === 0)}
+                      >
+                        <span className="text-xs font-medium">Send</span>
+                        <Send className="h-3 w-3" />
                       </Button>
                     </div>
-                    <Button type="submit" size="sm" className="h-8 px-3 gap-1.5" disabled={!newMessage.trim()}>
-                      <span className="text-xs font-medium">Send</span>
-                      <Send className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </form>
-              </div>
+                  </form>
+                </div>
+              </AttachmentDropZone>
             </>
           ) : (
             <div className="flex flex-1 flex-col items-center justify-center text-center p-6">
@@ -1068,8 +1043,49 @@ export default function ChatPage() {
           )}
         </div>
 
+        {/* Channel Search */}
+        {sidePanel === "search" && selectedChannel && (
+          <ChannelSearchPanel
+            key={selectedChannel.id}
+            channelId={selectedChannel.id}
+            members={members}
+            onClose={() => setSidePanel(null)}
+            onSelect={(result) => {
+              setSidePanel(null)
+              navigate(`${location.pathname}?message=${result.id}`)
+            }}
+            className={isMobile ? "fixed inset-0 z-50 w-full" : "w-80 xl:w-96"}
+          />
+        )}
+
+        {/* Channel Files */}
+        {sidePanel === "files" && selectedChannel && (
+          <ChannelFilesPanel
+            key={selectedChannel.id}
+            channelId={selectedChannel.id}
+            onClose={() => setSidePanel(null)}
+            onSelect={(file) => {
+              setSidePanel(null)
+              navigate(`${location.pathname}?message=${file.message_id}`)
+            }}
+            className={isMobile ? "fixed inset-0 z-50 w-full" : "w-80 xl:w-96"}
+          />
+        )}
+
+        {/* Thread Panel */}
+        {threadParent && !sidePanel && (
+          <ThreadPanel
+            key={threadParent.id}
+            parent={threadParent}
+            members={members}
+            highlightedId={targetMessage?.parent_id === threadParent.id ? targetMessage.id : null}
+            onClose={() => setThreadSelection({ key: threadKey, id: null })}
+            className={isMobile ? "fixed inset-0 z-50 w-full" : "w-80 xl:w-96"}
+          />
+        )}
+
         {/* Right Sidebar - Member List */}
-        {isSidebarOpen && selectedChannel && (
+        {isSidebarOpen && selectedChannel && !threadParent && !sidePanel && (
           <div className="hidden lg:flex w-64 flex-col border-l bg-muted/20">
             <div className="flex h-14 items-center justify-between px-4 border-b">
               <h4 className="font-bold text-sm">Details</h4>
@@ -195,13 +195,22 @@ export default function ClientsPage() {
           clientValues.user_id = authData.user.id
           
           // Save credentials to credentials table for admin visibility
-          await supabase.from("credentials").insert([{
+          const { error: credentialError } = await supabase.from("credentials").insert([{
             name: `Client Login: ${values.first_name} ${values.last_name || ""}`.trim(),
             type: "Email Password",
             value: JSON.stringify({ email, password }),
             user_id: authData.user.id,
             notes: `Autogenerated credentials for client ${values.first_name}`
           }])
+
+          // The login already exists, so show the password rather than lose it
+          if (credentialError) {
+            console.error("Failed to save client login credentials:", credentialError)
+            toast.error("Failed to save client login credentials: " + credentialError.message, {
+              description: `Note the password now, it can't be shown again: ${password}`,
+              duration: Infinity,
+            })
+          }
         }
       } else if (!enable_login && editingClient?.user_id) {
         // Disable login access by removing the link to auth user
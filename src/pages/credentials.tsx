@@ -1,4 +1,5 @@
 import * as React from "react"
+import { useSearchParams } from "react-router-dom"
 import { toast } from "sonner"
 import { supabase } from "@/lib/supabase"
 import { PageContainer } from "@/components/page-container"
@@ -16,6 +17,8 @@ import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { CredentialDetailsModal } from "@/components/credentials/credential-details-modal"
 
 export default function CredentialsPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const credentialIdParam = searchParams.get("credentialId")
   const [credentials, setCredentials] = React.useState<CredentialWithProject[]>([])
   const [isLoading, setIsLoading] = React.useState(true)
   const [isDialogOpen, setIsDialogOpen] = React.useState(false)
@@ -47,6 +50,27 @@ export default function CredentialsPage() {
     fetchCredentials()
   }, [fetchCredentials])
 
+  // Handle deep links from expiry reminders
+  React.useEffect(() => {
+    if (credentialIdParam && credentials.length > 0 && !selectedCredential) {
+      const credential = credentials.find(c => c.id === credentialIdParam)
+      if (credential) {
+        setSelectedCredential(credential)
+        setIsDetailsOpen(true)
+      }
+    }
+  }, [credentialIdParam, credentials, selectedCredential])
+
+  // Clear credentialId from URL when the details dialog is closed
+  const handleDetailsOpenChange = (open: boolean) => {
+    setIsDetailsOpen(open)
+    if (!open && searchParams.has("credentialId")) {
+      const newParams = new URLSearchParams(searchParams)
+      newParams.delete("credentialId")
+      setSearchParams(newParams)
+    }
+  }
+
   const handleAddCredential = () => {
     setEditingCredential(null)
     setIsDialogOpen(true)
@@ -158,10 +182,12 @@ export default function CredentialsPage() {
       </div>
 
       <CredentialDetailsModal
+        key={selectedCredential?.id}
         credential={selectedCredential}
         open={isDetailsOpen}
-        onOpenChange={setIsDetailsOpen}
+        onOpenChange={handleDetailsOpenChange}
         onEdit={handleEditCredential}
+        onRestored={fetchCredentials}
       />
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
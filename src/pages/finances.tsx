@@ -1,58 +1,163 @@
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { PageContainer } from "@/components/page-container"
 import { SEO } from "@/components/seo"
 import { supabase } from "@/lib/supabase"
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { DataTable } from "@/components/data-table"
+import { Switch } from "@/components/ui/switch"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { Badge } from "@/components/ui/badge"
-import { formatCurrency } from "@/lib/utils"
+import { format, parseISO, subMonths } from "date-fns"
+import {
+  convertToBaseCurrency,
+  formatCurrency,
+  resolveCurrency,
+  type ExchangeRate,
+} from "@/lib/currency"
+import { getPaymentMethodLabel, RECURRING_INTERVALS, summarizeVatByQuarter } from "@/lib/invoices"
+import {
+  getExpenseCategoryName,
+  openReceipt,
+  uploadReceipt,
+  type ExpenseCategory,
+  type RecurringExpense,
+  type RecurringExpenseWithCategory,
+} from "@/lib/expenses"
+import {
+  FINANCE_PERIODS,
+  downloadCsv,
+  formatDateRange,
+  getMonthlyFinances,
+  getPercentChange,
+  getPeriodRange,
+  getPreviousRange,
+  getProfitBy,
+  summarizeFinances,
+  type FinanceEntry,
+  type FinancePeriod,
+  type ProfitRow,
+} from "@/lib/finances"
 import { 
   TrendingUp, 
+  TrendingDown,
   DollarSign, 
   Receipt, 
   ArrowUpRight, 
   Wallet,
-  Plus
+  Plus,
+  ArrowLeftRight,
+  AlertCircle,
+  Trash2,
+  Landmark,
+  Download,
+  PieChart,
+  Paperclip,
+  Repeat,
+  Tags,
+  Pencil,
+  FileSpreadsheet
 } from "lucide-react"
-import { ChartAreaInteractive } from "@/components/chart-area-interactive"
+import { RevenueExpenseChart } from "@/components/finances/revenue-expense-chart"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { ExpenseForm } from "@/components/finances/expense-form"
+import { ExpenseForm, type ExpenseFormValues } from "@/components/finances/expense-form"
+import { RecurringExpenseForm, type RecurringExpenseFormValues } from "@/components/finances/recurring-expense-form"
+import { ExpenseCategoriesDialog } from "@/components/finances/expense-categories-dialog"
+import { BankReconciliation } from "@/components/finances/bank-reconciliation"
+import { AccountingExportDialog } from "@/components/finances/accounting-export-dialog"
+import { CommissionReport } from "@/components/finances/commission-report"
+import { ExchangeRateForm, type ExchangeRateFormValues } from "@/components/finances/exchange-rate-form"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { toast } from "sonner"
 import { useAuth } from "@/hooks/use-auth"
+import { useOrganization } from "@/hooks/use-organization"
+
+function formatClientName(client?: { first_name?: string | null; last_name?: string | null } | null) {
+  if (!client) return null
+  return [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
+}
+
+interface TrendIndicatorProps {
+  change: number | null
+  previousLabel: string
+  /** For costs, where going up is bad */
+  inverse?: boolean
+}
+
+function TrendIndicator({ change, previousLabel, inverse }: TrendIndicatorProps) {
+  if (change === null) {
+    return <p className="text-xs text-muted-foreground">No data for {previousLabel}</p>
+  }
+
+  const isUp = change >= 0
+  const isGood = inverse ? !isUp : isUp
+  const Icon = isUp ? TrendingUp : TrendingDown
+
+  return (
+    <p className="text-xs text-muted-foreground flex items-center gap-1">
+      <span className={`${isGood ? "text-emerald-500" : "text-red-500"} flex items-center gap-0.5`}>
+        <Icon className="h-3 w-3" /> {isUp ? "+" : ""}{change.toFixed(1)}%
+      </span> from {previousLabel}
+    </p>
+  )
+}
 
 export default function FinancesPage() {
   const { user, organizationId, role } = useAuth()
+  const { organization } = useOrganization()
   const isAdmin = role === "admin"
+  const baseCurrency = resolveCurrency(organization.currency)
   const [loading, setLoading] = useState(true)
   const [revenueData, setRevenueData] = useState<any[]>([])
   const [expenseData, setExpenseData] = useState<any[]>([])
   const [projects, setProjects] = useState<any[]>([])
   const [isDialogOpen, setIsDialogOpen] = useState(false)
-  const [stats, setStats] = useState({
-    totalRevenue: 0,
-    totalExpenses: 0,
-    netProfit: 0,
-    pendingInvoices: 0,
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [issuedInvoices, setIssuedInvoices] = useState<any[]>([])
+  const [isRateDialogOpen, setIsRateDialogOpen] = useState(false)
+  const [pendingInvoices, setPendingInvoices] = useState(0)
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [isCategoriesDialogOpen, setIsCategoriesDialogOpen] = useState(false)
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpenseWithCategory[]>([])
+  const [editingRecurring, setEditingRecurring] = useState<RecurringExpense | null>(null)
+  const [isRecurringDialogOpen, setIsRecurringDialogOpen] = useState(false)
+  const [recurringToDelete, setRecurringToDelete] = useState<string | null>(null)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [period, setPeriod] = useState<FinancePeriod>("month")
+  const [customRange, setCustomRange] = useState({
+    from: format(subMonths(new Date(), 1), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
   })
 
   const fetchData = async () => {
     setLoading(true)
     try {
       const [
-        { data: phases },
+        { data: payments },
         { data: expenses },
         { data: projectsData },
-        { count: pendingInvoicesCount }
+        { count: pendingInvoicesCount },
+        { data: ratesData },
+        { data: invoicesData },
+        { data: categoriesData },
+        { data: recurringData }
       ] = await Promise.all([
         supabase
-          .from("phases")
-          .select("*, projects(name, clients(first_name, last_name))")
-          .order("created_at", { ascending: false }),
+          .from("invoice_payments")
+          .select("*, invoices(invoice_number, currency, project_id, projects(name, client_id, clients(first_name, last_name)))")
+          .order("paid_on", { ascending: false }),
         supabase
           .from("expenses")
-          .select("*, projects(name)")
+          .select("*, expense_categories(name), projects(name, client_id, clients(first_name, last_name))")
           .order("date", { ascending: false }),
         supabase
           .from("projects")
@@ -61,22 +166,34 @@ export default function FinancesPage() {
         supabase
           .from("invoices")
           .select("*", { count: 'exact', head: true })
-          .neq("status", "paid")
+          .in("status", ["sent", "overdue"]),
+        supabase
+          .from("exchange_rates")
+          .select("*")
+          .order("month", { ascending: false })
+          .order("currency"),
+        supabase
+          .from("invoices")
+          .select("created_at, currency, subtotal, tax_amount, vat_treatment")
+          .not("status", "in", "(draft,cancelled)"),
+        supabase
+          .from("expense_categories")
+          .select("*")
+          .order("name"),
+        supabase
+          .from("recurring_expenses")
+          .select("*, expense_categories(name)")
+          .order("next_run_on")
       ])
 
-      const totalRevenue = phases?.reduce((acc, p) => acc + (Number(p.net_amount ?? p.amount) || 0), 0) || 0
-      const totalExpenses = expenses?.reduce((acc, e) => acc + (Number(e.amount) || 0), 0) || 0
-      
-      setRevenueData(phases || [])
+      setRevenueData(payments || [])
       setExpenseData(expenses || [])
       setProjects(projectsData || [])
-      
-      setStats({
-        totalRevenue,
-        totalExpenses,
-        netProfit: totalRevenue - totalExpenses,
-        pendingInvoices: pendingInvoicesCount || 0
-      })
+      setExchangeRates(ratesData || [])
+      setIssuedInvoices(invoicesData || [])
+      setPendingInvoices(pendingInvoicesCount || 0)
+      setCategories(categoriesData || [])
+      setRecurringExpenses(recurringData || [])
     } catch (error) {
       console.error("Error fetching finance data:", error)
     } finally {
@@ -90,16 +207,124 @@ export default function FinancesPage() {
     }
   }, [isAdmin])
 
-  const handleAddExpense = async (values: any) => {
+  // Revenue is the money actually received, converted with the rate for the month each payment came in
+  const convertedRevenue = useMemo(() => revenueData.map(p => ({
+    ...p,
+    currency: resolveCurrency(p.invoices?.currency),
+    base_amount: convertToBaseCurrency(
+      Number(p.amount) || 0,
+      resolveCurrency(p.invoices?.currency),
+      p.paid_on,
+      baseCurrency,
+      exchangeRates
+    ),
+  })), [revenueData, exchangeRates, baseCurrency])
+
+  // Currencies with revenue but no exchange rate, which are left out of the totals
+  const missingRateCurrencies = [...new Set(
+    convertedRevenue.filter(p => p.base_amount === null).map(p => p.currency)
+  )]
+
+  const revenueEntries = useMemo<FinanceEntry[]>(() => convertedRevenue
+    .filter(p => p.base_amount !== null)
+    .map(p => ({
+      date: p.paid_on,
+      amount: p.base_amount ?? 0,
+      projectId: p.invoices?.project_id ?? null,
+      projectName: p.invoices?.projects?.name ?? null,
+      clientId: p.invoices?.projects?.client_id ?? null,
+      clientName: formatClientName(p.invoices?.projects?.clients),
+    })), [convertedRevenue])
+
+  // Expenses are recorded in the base currency
+  const expenseEntries = useMemo<FinanceEntry[]>(() => expenseData.map(e => ({
+    date: e.date ?? e.created_at,
+    amount: Number(e.amount) || 0,
+    projectId: e.project_id,
+    projectName: e.projects?.name ?? null,
+    clientId: e.projects?.client_id ?? null,
+    clientName: formatClientName(e.projects?.clients),
+  })), [expenseData])
+
+  const range = useMemo(() => getPeriodRange(period, customRange), [period, customRange])
+  const previousRange = useMemo(() => getPreviousRange(period, range), [period, range])
+  const previousLabel = FINANCE_PERIODS.find(p => p.value === period)?.previousLabel ?? "the previous period"
+
+  const current = useMemo(
+    () => summarizeFinances(revenueEntries, expenseEntries, range),
+    [revenueEntries, expenseEntries, range]
+  )
+  const previous = useMemo(
+    () => summarizeFinances(revenueEntries, expenseEntries, previousRange),
+    [revenueEntries, expenseEntries, previousRange]
+  )
+  const monthly = useMemo(
+    () => getMonthlyFinances(revenueEntries, expenseEntries, range),
+    [revenueEntries, expenseEntries, range]
+  )
+  const profitByProject = useMemo(
+    () => getProfitBy("project", revenueEntries, expenseEntries, range),
+    [revenueEntries, expenseEntries, range]
+  )
+  const profitByClient = useMemo(
+    () => getProfitBy("client", revenueEntries, expenseEntries, range),
+    [revenueEntries, expenseEntries, range]
+  )
+
+  const handleExportCsv = () => {
+    const formatChange = (change: number | null) => change === null ? "" : change.toFixed(1)
+    const amount = (value: number) => value.toFixed(2)
+    const profitRows = (rows: ProfitRow[]) => rows.map(row => [
+      row.name,
+      amount(row.revenue),
+      amount(row.expenses),
+      amount(row.profit),
+      row.margin === null ? "" : row.margin.toFixed(1),
+    ])
+
+    downloadCsv(`finances-${format(range.from, "yyyy-MM-dd")}-to-${format(range.to, "yyyy-MM-dd")}.csv`, [
+      ["Period", formatDateRange(range)],
+      ["Compared with", formatDateRange(previousRange)],
+      ["Currency", baseCurrency],
+      [],
+      ["Metric", "Current", "Previous", "Change %"],
+      ["Revenue", amount(current.revenue), amount(previous.revenue), formatChange(getPercentChange(current.revenue, previous.revenue))],
+      ["Expenses", amount(current.expenses), amount(previous.expenses), formatChange(getPercentChange(current.expenses, previous.expenses))],
+      ["Net Profit", amount(current.profit), amount(previous.profit), formatChange(getPercentChange(current.profit, previous.profit))],
+      [],
+      ["Month", "Revenue", "Expenses", "Profit"],
+      ...monthly.map(month => [month.label, amount(month.revenue), amount(month.expenses), amount(month.profit)]),
+      [],
+      ["Project", "Revenue", "Expenses", "Profit", "Margin %"],
+      ...profitRows(profitByProject),
+      [],
+      ["Client", "Revenue", "Expenses", "Profit", "Margin %"],
+      ...profitRows(profitByClient),
+    ])
+  }
+
+  const vatQuarters = useMemo(
+    () => summarizeVatByQuarter(issuedInvoices, baseCurrency, exchangeRates),
+    [issuedInvoices, baseCurrency, exchangeRates]
+  )
+
+  const handleAddExpense = async (values: ExpenseFormValues, receipt: File | null) => {
     try {
       if (!organizationId) {
         toast.error("No organization found. Please try again.")
         return
       }
 
+      const receiptPath = receipt ? await uploadReceipt(organizationId, receipt) : null
+
       const { error } = await supabase.from("expenses").insert({
-        ...values,
+        description: values.description,
         amount: Number(values.amount),
+        category_id: values.category_id,
+        category: categories.find(c => c.id === values.category_id)?.name ?? null,
+        date: format(values.date, "yyyy-MM-dd"),
+        project_id: values.project_id || null,
+        receipt_path: receiptPath,
         user_id: user?.id,
         organization_id: organizationId
       })
@@ -115,22 +340,138 @@ export default function FinancesPage() {
     }
   }
 
+  const handleViewReceipt = async (path: string) => {
+    try {
+      await openReceipt(path)
+    } catch (error) {
+      console.error("Error opening receipt:", error)
+      toast.error("Failed to open receipt")
+    }
+  }
+
+  const handleSaveRecurring = async (values: RecurringExpenseFormValues) => {
+    try {
+      if (!organizationId) {
+        toast.error("No organization found. Please try again.")
+        return
+      }
+
+      const payload = {
+        description: values.description,
+        amount: Number(values.amount),
+        category_id: values.category_id,
+        project_id: values.project_id || null,
+        interval: values.interval,
+        start_date: values.start_date,
+        end_date: values.end_date || null,
+        organization_id: organizationId,
+      }
+
+      const { error } = editingRecurring
+        ? await supabase.from("recurring_expenses").update(payload).eq("id", editingRecurring.id)
+        : await supabase.from("recurring_expenses").insert(payload)
+
+      if (error) throw error
+      toast.success(editingRecurring ? "Recurring expense updated" : "Recurring expense scheduled")
+      setIsRecurringDialogOpen(false)
+      fetchData()
+    } catch (error) {
+      console.error("Error saving recurring expense:", error)
+      toast.error("Failed to save recurring expense")
+    }
+  }
+
+  const handleToggleRecurring = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("recurring_expenses")
+        .update({ is_active: isActive })
+        .eq("id", id)
+
+      if (error) throw error
+      toast.success(isActive ? "Schedule resumed" : "Schedule paused")
+      fetchData()
+    } catch (error) {
+      console.error("Error updating recurring expense:", error)
+      toast.error("Failed to update schedule")
+    }
+  }
+
+  const handleDeleteRecurring = async () => {
+    if (!recurringToDelete) return
+    try {
+      const { error } = await supabase
+        .from("recurring_expenses")
+        .delete()
+        .eq("id", recurringToDelete)
+
+      if (error) throw error
+      toast.success("Recurring expense deleted")
+      fetchData()
+    } catch (error) {
+      console.error("Error deleting recurring expense:", error)
+      toast.error("Failed to delete recurring expense")
+    } finally {
+      setRecurringToDelete(null)
+    }
+  }
+
+  const handleSaveRate = async (values: ExchangeRateFormValues) => {
+    try {
+      if (!organizationId) {
+        toast.error("No organization found. Please try again.")
+        return
+      }
+
+      const { error } = await supabase.from("exchange_rates").upsert({
+        organization_id: organizationId,
+        month: `${values.month}-01`,
+        currency: values.currency,
+        rate: Number(values.rate),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "organization_id,month,currency" })
+
+      if (error) throw error
+
+      toast.success("Exchange rate saved")
+      setIsRateDialogOpen(false)
+      fetchData()
+    } catch (error) {
+      console.error("Error saving exchange rate:", error)
+      toast.error("Failed to save exchange rate")
+    }
+  }
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id)
+      if (error) throw error
+
+      toast.success("Exchange rate deleted")
+      fetchData()
+    } catch (error) {
+      console.error("Error deleting exchange rate:", error)
+      toast.error("Failed to delete exchange rate")
+    }
+  }
+
   const revenueColumns = [
     {
-      accessorKey: "title",
-      header: "Phase/Invoice",
+      id: "invoice",
+      accessorFn: (row: any) => row.invoices?.invoice_number,
+      header: "Invoice",
       cell: ({ row }: any) => (
         <div className="flex flex-col">
-          <span className="font-medium">{row.getValue("title")}</span>
-          <span className="text-xs text-muted-foreground">{row.original.projects?.name}</span>
+          <span className="font-mono font-medium">{row.original.invoices?.invoice_number}</span>
+          <span className="text-xs text-muted-foreground">{row.original.invoices?.projects?.name}</span>
         </div>
       )
     },
     {
-      accessorKey: "projects.clients",
+      id: "client",
       header: "Client",
       cell: ({ row }: any) => {
-        const client = row.original.projects?.clients
+        const client = row.original.invoices?.projects?.clients
         if (!client) return "N/A"
         return [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
       }
@@ -140,15 +481,15 @@ export default function FinancesPage() {
       header: "Amount",
       cell: ({ row }: any) => {
         const amount = Number(row.getValue("amount") || 0)
-        const netAmount = Number(row.original.net_amount ?? amount)
-        const isFiverr = row.original.order_source === "fiverr"
+        const currency: string = row.original.currency
+        const baseAmount: number | null = row.original.base_amount
 
         return (
           <div className="flex flex-col">
-            <span className="font-mono text-emerald-600">+{formatCurrency(netAmount)}</span>
-            {isFiverr && (
+            <span className="font-mono text-emerald-600">+{formatCurrency(amount, currency)}</span>
+            {currency !== baseCurrency && (
               <span className="text-[10px] text-muted-foreground">
-                Gross: {formatCurrency(amount)}
+                {baseAmount === null ? `No ${currency} rate` : `≈ ${formatCurrency(baseAmount, baseCurrency)}`}
               </span>
             )}
           </div>
@@ -156,33 +497,23 @@ export default function FinancesPage() {
       }
     },
     {
-      accessorKey: "order_source",
-      header: "Source",
-      cell: ({ row }: any) => (
-        <Badge variant="outline" className="capitalize">
-          {row.getValue("order_source") || "Direct"}
-        </Badge>
-      )
-    },
-    {
-      accessorKey: "status",
-      header: "Status",
+      accessorKey: "method",
+      header: "Method",
       cell: ({ row }: any) => (
-        <Badge 
-          variant={
-            row.getValue("status") === "accepted" ? "default" : 
-            row.getValue("status") === "sent" ? "secondary" : "outline"
-          } 
-          className="capitalize"
-        >
-          {row.getValue("status")}
-        </Badge>
+        <div className="flex flex-col">
+          <Badge variant="outline" className="w-fit">
+            {getPaymentMethodLabel(row.getValue("method"))}
+          </Badge>
+          {row.original.reference && (
+            <span className="text-[10px] text-muted-foreground">{row.original.reference}</span>
+          )}
+        </div>
       )
     },
     {
-      accessorKey: "created_at",
-      header: "Date",
-      cell: ({ row }: any) => new Date(row.getValue("created_at")).toLocaleDateString()
+      accessorKey: "paid_on",
+      header: "Received",
+      cell: ({ row }: any) => format(parseISO(row.getValue("paid_on")), "MMM d, yyyy")
     }
   ]
 
@@ -192,17 +523,21 @@ export default function FinancesPage() {
       header: "Description",
       cell: ({ row }: any) => (
         <div className="flex flex-col">
-          <span className="font-medium">{row.getValue("description")}</span>
+          <span className="font-medium flex items-center gap-1">
+            {row.getValue("description")}
+            {row.original.recurring_expense_id && <Repeat className="h-3 w-3 text-muted-foreground" />}
+          </span>
           <span className="text-xs text-muted-foreground">{row.original.projects?.name || "General"}</span>
         </div>
       )
     },
     {
-      accessorKey: "category",
+      id: "category",
+      accessorFn: (row: any) => getExpenseCategoryName(row),
       header: "Category",
       cell: ({ row }: any) => (
         <Badge variant="outline" className="capitalize">
-          {row.getValue("category")}
+          {getExpenseCategoryName(row.original)}
         </Badge>
       )
     },
@@ -210,13 +545,223 @@ export default function FinancesPage() {
       accessorKey: "amount",
       header: "Amount",
       cell: ({ row }: any) => (
-        <span className="font-mono text-red-600">-{formatCurrency(row.getValue("amount") || 0)}</span>
+        <span className="font-mono text-red-600">-{formatCurrency(row.getValue("amount") || 0, baseCurrency)}</span>
       )
     },
     {
       accessorKey: "date",
       header: "Date",
       cell: ({ row }: any) => new Date(row.getValue("date")).toLocaleDateString()
+    },
+    {
+      id: "receipt",
+      cell: ({ row }: any) => row.original.receipt_path && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          onClick={() => handleViewReceipt(row.original.receipt_path)}
+        >
+          <Paperclip className="h-4 w-4" />
+          <span className="sr-only">View receipt</span>
+        </Button>
+      )
+    }
+  ]
+
+  const recurringColumns = [
+    {
+      accessorKey: "description",
+      header: "Schedule",
+      cell: ({ row }: any) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.getValue("description")}</span>
+          <span className="text-xs text-muted-foreground">
+            {getExpenseCategoryName(row.original)}
+            {row.original.project_id && ` · ${projects.find(p => p.id === row.original.project_id)?.name || "Project"}`}
+          </span>
+        </div>
+      )
+    },
+    {
+      accessorKey: "interval",
+      header: "Repeats",
+      cell: ({ row }: any) => (
+        <Badge variant="outline">
+          {RECURRING_INTERVALS.find(i => i.value === row.getValue("interval"))?.label}
+        </Badge>
+      )
+    },
+    {
+      accessorKey: "amount",
+      header: "Amount",
+      cell: ({ row }: any) => (
+        <span className="font-mono text-red-600">-{formatCurrency(row.getValue("amount") || 0, baseCurrency)}</span>
+      )
+    },
+    {
+      accessorKey: "next_run_on",
+      header: "Next Run",
+      cell: ({ row }: any) => {
+        const template: RecurringExpense = row.original
+        if (!template.is_active) return <span className="text-muted-foreground">Paused</span>
+        return format(parseISO(template.next_run_on), "MMM d, yyyy")
+      }
+    },
+    {
+      accessorKey: "is_active",
+      header: "Active",
+      cell: ({ row }: any) => (
+        <Switch
+          checked={row.original.is_active}
+          onCheckedChange={(checked) => handleToggleRecurring(row.original.id, checked)}
+        />
+      )
+    },
+    {
+      id: "actions",
+      cell: ({ row }: any) => (
+        <div className="flex justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground"
+            onClick={() => {
+              setEditingRecurring(row.original)
+              setIsRecurringDialogOpen(true)
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => setRecurringToDelete(row.original.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    }
+  ]
+
+  const exchangeRateColumns = [
+    {
+      accessorKey: "month",
+      header: "Month",
+      cell: ({ row }: any) => format(parseISO(row.getValue("month")), "MMMM yyyy")
+    },
+    {
+      accessorKey: "currency",
+      header: "Currency",
+      cell: ({ row }: any) => (
+        <Badge variant="outline">{row.getValue("currency")}</Badge>
+      )
+    },
+    {
+      accessorKey: "rate",
+      header: "Rate",
+      cell: ({ row }: any) => (
+        <span className="font-mono">
+          1 {row.original.currency} = {Number(row.getValue("rate")).toLocaleString(undefined, { maximumFractionDigits: 6 })} {baseCurrency}
+        </span>
+      )
+    },
+    {
+      id: "actions",
+      cell: ({ row }: any) => (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          onClick={() => handleDeleteRate(row.original.id)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )
+    }
+  ]
+
+  const profitColumns = (label: string) => [
+    {
+      accessorKey: "name",
+      header: label,
+      cell: ({ row }: any) => <span className="font-medium">{row.getValue("name")}</span>
+    },
+    {
+      accessorKey: "revenue",
+      header: "Revenue",
+      cell: ({ row }: any) => (
+        <span className="font-mono text-emerald-600">{formatCurrency(row.getValue("revenue"), baseCurrency)}</span>
+      )
+    },
+    {
+      accessorKey: "expenses",
+      header: "Expenses",
+      cell: ({ row }: any) => (
+        <span className="font-mono text-red-600">{formatCurrency(row.getValue("expenses"), baseCurrency)}</span>
+      )
+    },
+    {
+      accessorKey: "profit",
+      header: "Profit",
+      cell: ({ row }: any) => {
+        const profit: number = row.getValue("profit")
+        return (
+          <div className="flex flex-col">
+            <span className={`font-mono font-semibold ${profit < 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(profit, baseCurrency)}
+            </span>
+            {row.original.margin !== null && (
+              <span className="text-[10px] text-muted-foreground">{row.original.margin.toFixed(1)}% margin</span>
+            )}
+          </div>
+        )
+      }
+    }
+  ]
+
+  const vatColumns = [
+    {
+      accessorKey: "label",
+      header: "Quarter",
+      cell: ({ row }: any) => <span className="font-medium">{row.getValue("label")}</span>
+    },
+    {
+      accessorKey: "invoiceCount",
+      header: "Invoices",
+      cell: ({ row }: any) => (
+        <div className="flex flex-col">
+          <span>{row.getValue("invoiceCount")}</span>
+          {row.original.unconvertedCount > 0 && (
+            <span className="text-[10px] text-muted-foreground">
+              {row.original.unconvertedCount} without an exchange rate
+            </span>
+          )}
+        </div>
+      )
+    },
+    {
+      accessorKey: "taxableSales",
+      header: "Standard-Rated Sales",
+      cell: ({ row }: any) => (
+        <span className="font-mono">{formatCurrency(row.getValue("taxableSales"), baseCurrency)}</span>
+      )
+    },
+    {
+      accessorKey: "exemptSales",
+      header: "Zero-Rated / Reverse Charge",
+      cell: ({ row }: any) => (
+        <span className="font-mono">{formatCurrency(row.getValue("exemptSales"), baseCurrency)}</span>
+      )
+    },
+    {
+      accessorKey: "vatCollected",
+      header: "VAT Collected",
+      cell: ({ row }: any) => (
+        <span className="font-mono font-semibold">{formatCurrency(row.getValue("vatCollected"), baseCurrency)}</span>
+      )
     }
   ]
 
@@ -240,45 +785,86 @@ export default function FinancesPage() {
             <h1 className="text-3xl font-bold tracking-tight">Finances</h1>
             <p className="text-muted-foreground">Track your income, expenses and overall financial performance.</p>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Expense
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Add Expense</DialogTitle>
-              </DialogHeader>
-              <ExpenseForm onSubmit={handleAddExpense} projects={projects} />
-            </DialogContent>
-          </Dialog>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Select value={period} onValueChange={(value) => setPeriod(value as FinancePeriod)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FINANCE_PERIODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {period === "custom" && (
+              <>
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={customRange.from}
+                  max={customRange.to}
+                  onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                />
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={customRange.to}
+                  min={customRange.from}
+                  onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                />
+              </>
+            )}
+            <Button variant="outline" onClick={handleExportCsv} disabled={loading}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={() => setIsExportDialogOpen(true)}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Accounting Export
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Expense
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Add Expense</DialogTitle>
+                </DialogHeader>
+                <ExpenseForm onSubmit={handleAddExpense} projects={projects} categories={categories} />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+              <CardTitle className="text-sm font-medium">Revenue</CardTitle>
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{formatCurrency(stats.totalRevenue)}</div>
-              <p className="text-xs text-muted-foreground flex items-center gap-1">
-                <span className="text-emerald-500 flex items-center"><TrendingUp className="h-3 w-3" /> +12.5%</span> from last month
-              </p>
+              <div className="text-2xl font-bold">{formatCurrency(current.revenue, baseCurrency)}</div>
+              <TrendIndicator
+                change={getPercentChange(current.revenue, previous.revenue)}
+                previousLabel={previousLabel}
+              />
             </CardContent>
           </Card>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Expenses</CardTitle>
+              <CardTitle className="text-sm font-medium">Expenses</CardTitle>
               <Receipt className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-red-600">{formatCurrency(stats.totalExpenses)}</div>
-              <p className="text-xs text-muted-foreground flex items-center gap-1">
-                <span className="text-red-500 flex items-center"><TrendingUp className="h-3 w-3" /> +4.2%</span> from last month
-              </p>
+              <div className="text-2xl font-bold text-red-600">{formatCurrency(current.expenses, baseCurrency)}</div>
+              <TrendIndicator
+                change={getPercentChange(current.expenses, previous.expenses)}
+                previousLabel={previousLabel}
+                inverse
+              />
             </CardContent>
           </Card>
           <Card>
@@ -287,10 +873,13 @@ export default function FinancesPage() {
               <Wallet className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-emerald-600">{formatCurrency(stats.netProfit)}</div>
-              <p className="text-xs text-muted-foreground flex items-center gap-1">
-                <span className="text-emerald-500 flex items-center"><TrendingUp className="h-3 w-3" /> +18.2%</span> from last month
-              </p>
+              <div className={`text-2xl font-bold ${current.profit < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                {formatCurrency(current.profit, baseCurrency)}
+              </div>
+              <TrendIndicator
+                change={getPercentChange(current.profit, previous.profit)}
+                previousLabel={previousLabel}
+              />
             </CardContent>
           </Card>
           <Card>
@@ -299,17 +888,33 @@ export default function FinancesPage() {
               <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.pendingInvoices}</div>
+              <div className="text-2xl font-bold">{pendingInvoices}</div>
               <p className="text-xs text-muted-foreground">Currently awaiting payment</p>
             </CardContent>
           </Card>
         </div>
 
+        {missingRateCurrencies.length > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Missing exchange rates</AlertTitle>
+            <AlertDescription>
+              Revenue in {missingRateCurrencies.join(", ")} is left out of the totals until a rate to {baseCurrency} is added under Exchange Rates.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Tabs defaultValue="overview" className="space-y-4">
           <TabsList>
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="profitability">Profitability</TabsTrigger>
             <TabsTrigger value="revenue">Revenue</TabsTrigger>
             <TabsTrigger value="expenses">Expenses</TabsTrigger>
+            <TabsTrigger value="recurring">Recurring</TabsTrigger>
+            <TabsTrigger value="sources">Sources</TabsTrigger>
+            <TabsTrigger value="bank">Bank</TabsTrigger>
+            <TabsTrigger value="exchange-rates">Exchange Rates</TabsTrigger>
+            <TabsTrigger value="vat">VAT</TabsTrigger>
           </TabsList>
           
           <TabsContent value="overview" className="space-y-4">
@@ -317,9 +922,12 @@ export default function FinancesPage() {
               <Card className="col-span-4">
                 <CardHeader>
                   <CardTitle>Revenue vs Expenses</CardTitle>
+                  <CardDescription>
+                    Monthly totals in {baseCurrency} up to {format(range.to, "MMMM yyyy")}.
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="pl-2">
-                  <ChartAreaInteractive />
+                  <RevenueExpenseChart data={monthly} currency={baseCurrency} />
                 </CardContent>
               </Card>
               <Card className="col-span-3">
@@ -331,16 +939,16 @@ export default function FinancesPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-8">
-                    {revenueData.slice(0, 3).map((item) => (
+                    {convertedRevenue.slice(0, 3).map((item) => (
                       <div key={item.id} className="flex items-center">
                         <div className="ml-4 space-y-1">
-                          <p className="text-sm font-medium leading-none">{item.title}</p>
+                          <p className="text-sm font-medium leading-none">Payment for {item.invoices?.invoice_number}</p>
                           <p className="text-sm text-muted-foreground">
-                            {[item.projects?.clients?.first_name?.trim(), item.projects?.clients?.last_name?.trim()].filter(Boolean).join(" ")}
+                            {[item.invoices?.projects?.clients?.first_name?.trim(), item.invoices?.projects?.clients?.last_name?.trim()].filter(Boolean).join(" ")}
                           </p>
                         </div>
                         <div className="ml-auto font-medium text-emerald-600">
-                          +{formatCurrency(item.net_amount ?? item.amount)}
+                          +{formatCurrency(item.amount, item.currency)}
                         </div>
                       </div>
                     ))}
@@ -348,10 +956,10 @@ export default function FinancesPage() {
                       <div key={item.id} className="flex items-center">
                         <div className="ml-4 space-y-1">
                           <p className="text-sm font-medium leading-none">{item.description}</p>
-                          <p className="text-sm text-muted-foreground capitalize">{item.category}</p>
+                          <p className="text-sm text-muted-foreground capitalize">{getExpenseCategoryName(item)}</p>
                         </div>
                         <div className="ml-auto font-medium text-red-600">
-                          -{formatCurrency(item.amount)}
+                          -{formatCurrency(item.amount, baseCurrency)}
                         </div>
                       </div>
                     ))}
@@ -364,18 +972,50 @@ export default function FinancesPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="profitability" className="space-y-4">
+            {[
+              { title: "Profit by Project", label: "Project", rows: profitByProject },
+              { title: "Profit by Client", label: "Client", rows: profitByClient },
+            ].map(section => (
+              <Card key={section.title}>
+                <CardHeader>
+                  <CardTitle>{section.title}</CardTitle>
+                  <CardDescription>
+                    Payments received less expenses for {formatDateRange(range)}. Expenses without a project count as General.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    columns={profitColumns(section.label)}
+                    data={section.rows}
+                    isLoading={loading}
+                  />
+                  {section.rows.length === 0 && !loading && (
+                    <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                      <div className="text-center">
+                        <PieChart className="mx-auto h-12 w-12 opacity-20" />
+                        <h3 className="mt-4 text-lg font-semibold">Nothing in this period</h3>
+                        <p className="text-sm">Pick a longer period to see profit per {section.label.toLowerCase()}.</p>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
           <TabsContent value="revenue" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Revenue Sources</CardTitle>
+                <CardTitle>Payments Received</CardTitle>
                 <CardDescription>
-                  Detailed breakdown of all income from projects and phases.
+                  Every payment recorded against an invoice. Revenue is counted when the money arrives.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <DataTable 
                   columns={revenueColumns} 
-                  data={revenueData} 
+                  data={convertedRevenue} 
                   isLoading={loading}
                 />
               </CardContent>
@@ -384,11 +1024,17 @@ export default function FinancesPage() {
 
           <TabsContent value="expenses" className="space-y-4">
             <Card>
-              <CardHeader>
-                <CardTitle>Business Expenses</CardTitle>
-                <CardDescription>
-                  Track what you're spending on your business operations.
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Business Expenses</CardTitle>
+                  <CardDescription>
+                    Track what you're spending on your business operations.
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setIsCategoriesDialogOpen(true)}>
+                  <Tags className="mr-2 h-4 w-4" />
+                  Categories
+                </Button>
               </CardHeader>
               <CardContent>
                 <DataTable 
@@ -408,8 +1054,174 @@ export default function FinancesPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="recurring" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Recurring Expenses</CardTitle>
+                  <CardDescription>
+                    Hosting, subscriptions and other repeat costs. An expense is booked automatically each morning a run is due.
+                  </CardDescription>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    setEditingRecurring(null)
+                    setIsRecurringDialogOpen(true)
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Schedule
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <DataTable
+                  columns={recurringColumns}
+                  data={recurringExpenses}
+                  isLoading={loading}
+                />
+                {recurringExpenses.length === 0 && !loading && (
+                  <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <Repeat className="mx-auto h-12 w-12 opacity-20" />
+                      <h3 className="mt-4 text-lg font-semibold">No recurring expenses</h3>
+                      <p className="text-sm">Schedule the costs you pay every month or year.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="exchange-rates" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Exchange Rates</CardTitle>
+                  <CardDescription>
+                    Monthly rates used to convert revenue into {baseCurrency}. Months without a rate use the latest earlier one.
+                  </CardDescription>
+                </div>
+                <Dialog open={isRateDialogOpen} onOpenChange={setIsRateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Rate
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                      <DialogTitle>Add Exchange Rate</DialogTitle>
+                    </DialogHeader>
+                    <ExchangeRateForm onSubmit={handleSaveRate} baseCurrency={baseCurrency} />
+                  </DialogContent>
+                </Dialog>
+              </CardHeader>
+              <CardContent>
+                <DataTable 
+                  columns={exchangeRateColumns} 
+                  data={exchangeRates} 
+                  isLoading={loading}
+                />
+                {exchangeRates.length === 0 && !loading && (
+                  <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <ArrowLeftRight className="mx-auto h-12 w-12 opacity-20" />
+                      <h3 className="mt-4 text-lg font-semibold">No exchange rates</h3>
+                      <p className="text-sm">Add a rate for each currency your clients pay in.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="sources" className="space-y-4">
+            <CommissionReport
+              organizationId={organizationId}
+              range={range}
+              baseCurrency={baseCurrency}
+              exchangeRates={exchangeRates}
+            />
+          </TabsContent>
+
+          <TabsContent value="bank" className="space-y-4">
+            <BankReconciliation
+              organizationId={organizationId}
+              baseCurrency={baseCurrency}
+              categories={categories}
+              projects={projects}
+              onChange={fetchData}
+            />
+          </TabsContent>
+
+          <TabsContent value="vat" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>VAT by Quarter</CardTitle>
+                <CardDescription>
+                  Net sales and VAT on issued invoices, grouped by the quarter they were raised in and converted to {baseCurrency}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataTable 
+                  columns={vatColumns} 
+                  data={vatQuarters} 
+                  isLoading={loading}
+                />
+                {vatQuarters.length === 0 && !loading && (
+                  <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <Landmark className="mx-auto h-12 w-12 opacity-20" />
+                      <h3 className="mt-4 text-lg font-semibold">No invoices issued</h3>
+                      <p className="text-sm">VAT totals appear here once invoices are sent.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
+
+      <Dialog open={isRecurringDialogOpen} onOpenChange={setIsRecurringDialogOpen}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>{editingRecurring ? "Edit Recurring Expense" : "New Recurring Expense"}</DialogTitle>
+          </DialogHeader>
+          <RecurringExpenseForm
+            key={editingRecurring?.id || "new"}
+            initialData={editingRecurring}
+            categories={categories}
+            projects={projects}
+            onSubmit={handleSaveRecurring}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AccountingExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        range={range}
+        baseCurrency={baseCurrency}
+      />
+
+      <ExpenseCategoriesDialog
+        open={isCategoriesDialogOpen}
+        onOpenChange={setIsCategoriesDialogOpen}
+        organizationId={organizationId}
+        categories={categories}
+        onChange={fetchData}
+      />
+
+      <ConfirmDialog
+        open={!!recurringToDelete}
+        onOpenChange={(open) => !open && setRecurringToDelete(null)}
+        onConfirm={handleDeleteRecurring}
+        title="Delete Recurring Expense"
+        description="Stop booking this expense? Expenses it already created are kept."
+      />
     </PageContainer>
   )
 }
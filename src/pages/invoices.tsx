@@ -1,17 +1,33 @@
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { PageContainer } from "@/components/page-container"
 import { SEO } from "@/components/seo"
 import { supabase } from "@/lib/supabase"
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { DataTable } from "@/components/data-table"
 import { Badge } from "@/components/ui/badge"
-import { formatCurrency } from "@/lib/utils"
+import { format, parseISO } from "date-fns"
+import { formatCurrency } from "@/lib/currency"
+import {
+  calculateInvoiceTotals,
+  getOutstandingBalance,
+  getUpcomingRuns,
+  RECURRING_INTERVALS,
+  type RecurringInvoice,
+} from "@/lib/invoices"
 import { 
   FileText,
   Download,
   Trash2,
   MoreHorizontal,
-  Edit2
+  Edit2,
+  Banknote,
+  Repeat,
+  Plus,
+  CalendarClock
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { 
@@ -31,6 +47,9 @@ import { toast } from "sonner"
 import { useAuth } from "@/hooks/use-auth"
 import { EditInvoiceModal } from "@/components/invoices/edit-invoice-modal"
 import { DownloadInvoiceDialog } from "@/components/invoices/download-invoice-dialog"
+import { InvoicePaymentsModal } from "@/components/invoices/invoice-payments-modal"
+import { RecurringInvoiceForm, type RecurringInvoiceFormValues } from "@/components/invoices/recurring-invoice-form"
+import type { LineItem } from "@/components/projects/line-items-manager"
 import type { Tables } from "@/lib/database.types"
 
 export default function InvoicesPage() {
@@ -41,6 +60,14 @@ export default function InvoicesPage() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isDownloadDialogOpen, setIsDownloadDialogOpen] = useState(false)
   const [invoiceToDownload, setInvoiceToDownload] = useState<any>(null)
+  const [invoiceForPayments, setInvoiceForPayments] = useState<Tables<"invoices"> | null>(null)
+  const [isPaymentsModalOpen, setIsPaymentsModalOpen] = useState(false)
+  const [recurringInvoices, setRecurringInvoices] = useState<RecurringInvoice[]>([])
+  const [clients, setClients] = useState<any[]>([])
+  const [projects, setProjects] = useState<any[]>([])
+  const [editingRecurring, setEditingRecurring] = useState<RecurringInvoice | null>(null)
+  const [isRecurringDialogOpen, setIsRecurringDialogOpen] = useState(false)
+  const [recurringToDelete, setRecurringToDelete] = useState<string | null>(null)
 
   const fetchInvoices = async () => {
     setLoading(true)
@@ -50,7 +77,8 @@ export default function InvoicesPage() {
         .select(`
           *,
           projects (name),
-          clients (first_name, last_name, email)
+          clients (first_name, last_name, email, vat_number),
+          recurring_invoices (title)
         `)
         .order("created_at", { ascending: false })
 
@@ -64,10 +92,114 @@ export default function InvoicesPage() {
     }
   }
 
+  const fetchRecurringInvoices = async () => {
+    try {
+      const [
+        { data: recurringData, error },
+        { data: clientsData },
+        { data: projectsData }
+      ] = await Promise.all([
+        supabase
+          .from("recurring_invoices")
+          .select("*")
+          .order("next_run_on"),
+        supabase
+          .from("clients")
+          .select("id, first_name, last_name, currency")
+          .order("first_name"),
+        supabase
+          .from("projects")
+          .select("id, name, client_id")
+          .order("name")
+      ])
+
+      if (error) throw error
+      setRecurringInvoices(recurringData || [])
+      setClients(clientsData || [])
+      setProjects(projectsData || [])
+    } catch (error) {
+      console.error("Error fetching recurring invoices:", error)
+      toast.error("Failed to load recurring invoices")
+    }
+  }
+
   useEffect(() => {
     fetchInvoices()
+    fetchRecurringInvoices()
   }, [])
 
+  const upcomingRuns = useMemo(() => getUpcomingRuns(recurringInvoices), [recurringInvoices])
+
+  const handleSaveRecurring = async (values: RecurringInvoiceFormValues, lineItems: LineItem[]) => {
+    try {
+      const payload = {
+        title: values.title,
+        client_id: values.client_id,
+        project_id: values.project_id || null,
+        interval: values.interval,
+        start_date: values.start_date,
+        end_date: values.end_date || null,
+        due_in_days: Number(values.due_in_days),
+        issue_as: values.issue_as,
+        currency: values.currency,
+        line_items: lineItems as any,
+      }
+
+      const { error } = editingRecurring
+        ? await supabase.from("recurring_invoices").update(payload).eq("id", editingRecurring.id)
+        : await supabase.from("recurring_invoices").insert(payload)
+
+      if (error) throw error
+      toast.success(editingRecurring ? "Recurring invoice updated" : "Recurring invoice scheduled")
+      setIsRecurringDialogOpen(false)
+      fetchRecurringInvoices()
+    } catch (error) {
+      console.error("Error saving recurring invoice:", error)
+      toast.error("Failed to save recurring invoice")
+    }
+  }
+
+  const handleToggleRecurring = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("recurring_invoices")
+        .update({ is_active: isActive })
+        .eq("id", id)
+
+      if (error) throw error
+      toast.success(isActive ? "Schedule resumed" : "Schedule paused")
+      fetchRecurringInvoices()
+    } catch (error) {
+      console.error("Error updating recurring invoice:", error)
+      toast.error("Failed to update schedule")
+    }
+  }
+
+  const handleDeleteRecurring = async () => {
+    if (!recurringToDelete) return
+    try {
+      const { error } = await supabase
+        .from("recurring_invoices")
+        .delete()
+        .eq("id", recurringToDelete)
+
+      if (error) throw error
+      toast.success("Recurring invoice deleted")
+      fetchRecurringInvoices()
+    } catch (error) {
+      console.error("Error deleting recurring invoice:", error)
+      toast.error("Failed to delete recurring invoice")
+    } finally {
+      setRecurringToDelete(null)
+    }
+  }
+
+  const getClientName = (clientId: string | null) => {
+    const client = clients.find(c => c.id === clientId)
+    if (!client) return "N/A"
+    return [client.first_name?.trim(), client.last_name?.trim()].filter(Boolean).join(" ")
+  }
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this invoice?")) return
 
@@ -111,7 +243,17 @@ export default function InvoicesPage() {
     {
       accessorKey: "invoice_number",
       header: "Invoice #",
-      cell: ({ row }: any) => <span className="font-mono font-medium">{row.getValue("invoice_number")}</span>
+      cell: ({ row }: any) => (
+        <div className="flex flex-col">
+          <span className="font-mono font-medium">{row.getValue("invoice_number")}</span>
+          {row.original.recurring_invoices && (
+            <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <Repeat className="h-3 w-3" />
+              {row.original.recurring_invoices.title}
+            </span>
+          )}
+        </div>
+      )
     },
     {
       accessorKey: "projects.name",
@@ -130,7 +272,31 @@ export default function InvoicesPage() {
     {
       accessorKey: "amount",
       header: "Amount",
-      cell: ({ row }: any) => formatCurrency(row.getValue("amount"))
+      cell: ({ row }: any) => formatCurrency(row.getValue("amount"), row.original.currency)
+    },
+    {
+      id: "outstanding",
+      header: "Outstanding",
+      accessorFn: (row: any) => getOutstandingBalance(row),
+      cell: ({ row }: any) => {
+        const invoice = row.original
+        const outstanding = getOutstandingBalance(invoice)
+        if (invoice.status === "draft" || invoice.status === "cancelled") {
+          return <span className="text-muted-foreground">—</span>
+        }
+        return (
+          <div className="flex flex-col">
+            <span className={outstanding > 0 ? "font-medium" : "text-muted-foreground"}>
+              {formatCurrency(outstanding, invoice.currency)}
+            </span>
+            {outstanding > 0 && Number(invoice.amount_paid) > 0 && (
+              <span className="text-[10px] text-muted-foreground">
+                {formatCurrency(invoice.amount_paid, invoice.currency)} paid
+              </span>
+            )}
+          </div>
+        )
+      }
     },
     {
       accessorKey: "status",
@@ -142,6 +308,7 @@ export default function InvoicesPage() {
             <Badge 
               variant={
                 status === "paid" ? "default" : 
+                status === "overdue" ? "destructive" :
                 status === "sent" ? "secondary" : "outline"
               } 
               className="capitalize"
@@ -155,13 +322,14 @@ export default function InvoicesPage() {
             value={status}
             onValueChange={(value) => handleStatusChange(row.original.id, value)}
           >
-            <SelectTrigger className="h-8 w-[110px] capitalize">
+            <SelectTrigger className={`h-8 w-[110px] capitalize ${status === "overdue" ? "text-red-600" : ""}`}>
               <SelectValue>{status}</SelectValue>
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="draft" className="capitalize">Draft</SelectItem>
               <SelectItem value="sent" className="capitalize">Sent</SelectItem>
-              <SelectItem value="paid" className="capitalize">Paid</SelectItem>
+              <SelectItem value="overdue" className="capitalize" disabled>Overdue</SelectItem>
+              <SelectItem value="paid" className="capitalize" disabled>Paid</SelectItem>
               <SelectItem value="cancelled" className="capitalize">Cancelled</SelectItem>
             </SelectContent>
           </Select>
@@ -190,6 +358,12 @@ export default function InvoicesPage() {
               </DropdownMenuItem>
               {isAdmin && (
                 <>
+                  <DropdownMenuItem onClick={() => {
+                    setInvoiceForPayments(invoice)
+                    setIsPaymentsModalOpen(true)
+                  }}>
+                    <Banknote className="mr-2 h-4 w-4" /> Payments
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => {
                     setSelectedInvoice(invoice)
                     setIsEditModalOpen(true)
@@ -208,6 +382,88 @@ export default function InvoicesPage() {
     }
   ]
 
+  const recurringColumns = [
+    {
+      accessorKey: "title",
+      header: "Schedule",
+      cell: ({ row }: any) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.getValue("title")}</span>
+          <span className="text-xs text-muted-foreground">
+            {getClientName(row.original.client_id)}
+            {row.original.project_id && ` · ${projects.find(p => p.id === row.original.project_id)?.name || "Project"}`}
+          </span>
+        </div>
+      )
+    },
+    {
+      accessorKey: "interval",
+      header: "Repeats",
+      cell: ({ row }: any) => (
+        <Badge variant="outline">
+          {RECURRING_INTERVALS.find(i => i.value === row.getValue("interval"))?.label}
+        </Badge>
+      )
+    },
+    {
+      id: "amount",
+      header: "Per Invoice",
+      cell: ({ row }: any) => formatCurrency(
+        calculateInvoiceTotals(row.original.line_items || []).total,
+        row.original.currency
+      )
+    },
+    {
+      accessorKey: "next_run_on",
+      header: "Next Run",
+      cell: ({ row }: any) => {
+        const template: RecurringInvoice = row.original
+        if (!template.is_active) return <span className="text-muted-foreground">Paused</span>
+        return (
+          <div className="flex flex-col">
+            <span>{format(parseISO(template.next_run_on), "MMM d, yyyy")}</span>
+            <span className="text-[10px] text-muted-foreground capitalize">
+              Issued as {template.issue_as}, due in {template.due_in_days} days
+            </span>
+          </div>
+        )
+      }
+    },
+    {
+      accessorKey: "is_active",
+      header: "Active",
+      cell: ({ row }: any) => (
+        <Switch
+          checked={row.original.is_active}
+          onCheckedChange={(checked) => handleToggleRecurring(row.original.id, checked)}
+        />
+      )
+    },
+    {
+      id: "actions",
+      cell: ({ row }: any) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="h-8 w-8 p-0">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => {
+              setEditingRecurring(row.original)
+              setIsRecurringDialogOpen(true)
+            }}>
+              <Edit2 className="mr-2 h-4 w-4" /> Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setRecurringToDelete(row.original.id)} className="text-red-600">
+              <Trash2 className="mr-2 h-4 w-4" /> Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )
+    }
+  ]
+
   if (!isAdmin) {
     return (
       <PageContainer>
@@ -230,30 +486,135 @@ export default function InvoicesPage() {
           </div>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>All Invoices</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <DataTable 
-              columns={columns} 
-              data={invoices} 
-              isLoading={loading}
-              searchPlaceholder="Search invoices..."
-            />
-            {invoices.length === 0 && !loading && (
-              <div className="h-[200px] flex items-center justify-center text-muted-foreground">
-                <div className="text-center">
-                  <FileText className="mx-auto h-12 w-12 opacity-20" />
-                  <h3 className="mt-4 text-lg font-semibold">No invoices found</h3>
-                  <p className="text-sm">Invoices you generate will appear here.</p>
+        <Tabs defaultValue="all" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="all">All Invoices</TabsTrigger>
+            <TabsTrigger value="recurring">Recurring</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="all" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>All Invoices</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DataTable 
+                  columns={columns} 
+                  data={invoices} 
+                  isLoading={loading}
+                  searchPlaceholder="Search invoices..."
+                />
+                {invoices.length === 0 && !loading && (
+                  <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <FileText className="mx-auto h-12 w-12 opacity-20" />
+                      <h3 className="mt-4 text-lg font-semibold">No invoices found</h3>
+                      <p className="text-sm">Invoices you generate will appear here.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="recurring" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Recurring Invoices</CardTitle>
+                  <CardDescription>
+                    Retainers and other repeat billing. Invoices are issued automatically each morning a run is due.
+                  </CardDescription>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    setEditingRecurring(null)
+                    setIsRecurringDialogOpen(true)
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Schedule
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <DataTable
+                  columns={recurringColumns}
+                  data={recurringInvoices}
+                  isLoading={loading}
+                  searchPlaceholder="Search schedules..."
+                />
+                {recurringInvoices.length === 0 && !loading && (
+                  <div className="h-[200px] flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <Repeat className="mx-auto h-12 w-12 opacity-20" />
+                      <h3 className="mt-4 text-lg font-semibold">No recurring invoices</h3>
+                      <p className="text-sm">Set up a schedule for clients on a retainer.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Upcoming Runs</CardTitle>
+                <CardDescription>
+                  The next invoices your schedules will issue.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {upcomingRuns.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">Nothing scheduled.</p>
+                ) : (
+                  <div className="divide-y rounded-lg border">
+                    {upcomingRuns.map(({ template, date }) => (
+                      <div key={`${template.id}-${date.toISOString()}`} className="flex items-center gap-3 px-3 py-2">
+                        <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                        <div className="flex-1 space-y-0.5">
+                          <p className="text-sm font-medium">{template.title}</p>
+                          <p className="text-xs text-muted-foreground">{getClientName(template.client_id)}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-medium">
+                            {formatCurrency(calculateInvoiceTotals((template.line_items as unknown as LineItem[]) || []).total, template.currency)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{format(date, "EEE, MMM d, yyyy")}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
 
+      <Dialog open={isRecurringDialogOpen} onOpenChange={setIsRecurringDialogOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRecurring ? "Edit Recurring Invoice" : "New Recurring Invoice"}</DialogTitle>
+          </DialogHeader>
+          <RecurringInvoiceForm
+            key={editingRecurring?.id || "new"}
+            initialData={editingRecurring}
+            clients={clients}
+            projects={projects}
+            onSubmit={handleSaveRecurring}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!recurringToDelete}
+        onOpenChange={(open) => !open && setRecurringToDelete(null)}
+        onConfirm={handleDeleteRecurring}
+        title="Delete Recurring Invoice"
+        description="No further invoices will be issued from this schedule. Invoices it already created are kept."
+        confirmText="Delete"
+      />
+
       <EditInvoiceModal
         invoice={selectedInvoice}
         open={isEditModalOpen}
@@ -261,6 +622,13 @@ export default function InvoicesPage() {
         onSuccess={fetchInvoices}
       />
 
+      <InvoicePaymentsModal
+        invoice={invoiceForPayments}
+        open={isPaymentsModalOpen}
+        onOpenChange={setIsPaymentsModalOpen}
+        onSuccess={fetchInvoices}
+      />
+
       <DownloadInvoiceDialog
         invoice={invoiceToDownload}
         open={isDownloadDialogOpen}
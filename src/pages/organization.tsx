@@ -13,15 +13,27 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { toast } from "sonner"
 import { Building2, Globe, Mail, Save, Upload, AlertCircle } from "lucide-react"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { useOrganization } from "@/hooks/use-organization"
 import { useAuth } from "@/hooks/use-auth"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { TASK_STATUSES } from "@/lib/tasks"
+import { CURRENCIES, DEFAULT_CURRENCY } from "@/lib/currency"
+import { DEFAULT_BRAND_COLOR } from "@/lib/proposal-pdf"
 
 const SIDEBAR_ITEMS = [
   { id: "My Tasks", label: "My Tasks" },
+  { id: "Timesheets", label: "Timesheets" },
   { id: "Notifications", label: "Notifications" },
   { id: "Clients", label: "Clients" },
   { id: "Projects", label: "Projects" },
@@ -65,6 +77,17 @@ export default function OrganizationPage() {
     })
   }
 
+  const handleWipLimitChange = (statusId: string, value: string) => {
+    const limits = { ...(orgData.kanban_wip_limits || {}) }
+    const limit = parseInt(value, 10)
+    if (value === "" || isNaN(limit) || limit <= 0) {
+      delete limits[statusId]
+    } else {
+      limits[statusId] = limit
+    }
+    setOrgData({ ...orgData, kanban_wip_limits: limits })
+  }
+
   const initials = orgData.name
     ? orgData.name.substring(0, 2).toUpperCase()
     : "OR"
@@ -187,6 +210,36 @@ export default function OrganizationPage() {
             </CardContent>
           </Card>
 
+          <Card className="col-span-4 lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Kanban WIP Limits</CardTitle>
+              <CardDescription>
+                Maximum number of tasks per board column. Leave empty for no limit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4">
+                {TASK_STATUSES.map((status) => (
+                  <div key={status.id} className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`wip-${status.id}`} className="flex-1">
+                      {status.title}
+                    </Label>
+                    <Input
+                      id={`wip-${status.id}`}
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={orgData.kanban_wip_limits?.[status.id] ?? ""}
+                      onChange={(e) => handleWipLimitChange(status.id, e.target.value)}
+                      placeholder="None"
+                      disabled={!isAdmin}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           <Card className="col-span-4 lg:col-span-3">
             <CardHeader>
               <CardTitle>Billing Contact</CardTitle>
@@ -208,6 +261,174 @@ export default function OrganizationPage() {
               <p className="text-xs text-muted-foreground">
                 Invoices will be sent to this email address. If empty, the contact email will be used.
               </p>
+              <Separator />
+              <div className="grid gap-2">
+                <Label htmlFor="base-currency">Base Currency</Label>
+                <Select
+                  value={orgData.currency || DEFAULT_CURRENCY}
+                  onValueChange={(value) => setOrgData({ ...orgData, currency: value })}
+                  disabled={!isAdmin}
+                >
+                  <SelectTrigger id="base-currency">
+                    <SelectValue placeholder="Select currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((c) => (
+                      <SelectItem key={c.code} value={c.code}>{c.code} · {c.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Finances are reported in this currency. It is also the default for clients without their own.
+              </p>
+              <Separator />
+              <div className="grid gap-2">
+                <Label htmlFor="hourly-rate">Default Hourly Rate ({orgData.currency || DEFAULT_CURRENCY})</Label>
+                <Input
+                  id="hourly-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={orgData.default_hourly_rate ?? 0}
+                  onChange={(e) => setOrgData({ ...orgData, default_hourly_rate: Number(e.target.value) || 0 })}
+                  disabled={!isAdmin}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Used to price billable hours when they are added to an invoice.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="col-span-4 lg:col-span-3">
+            <CardHeader>
+              <CardTitle>VAT</CardTitle>
+              <CardDescription>
+                Tax charged on invoice line items.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="vat-enabled" className="flex-1 cursor-pointer">
+                  VAT Registered
+                </Label>
+                <Switch
+                  id="vat-enabled"
+                  checked={!!orgData.vat_enabled}
+                  onCheckedChange={(checked) => setOrgData({ ...orgData, vat_enabled: checked })}
+                  disabled={!isAdmin}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vat-rate">Default VAT Rate (%)</Label>
+                <Input
+                  id="vat-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={orgData.vat_rate ?? 0}
+                  onChange={(e) => setOrgData({ ...orgData, vat_rate: Number(e.target.value) || 0 })}
+                  disabled={!isAdmin || !orgData.vat_enabled}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vat-number">VAT Number</Label>
+                <Input
+                  id="vat-number"
+                  value={orgData.vat_number || ""}
+                  onChange={(e) => setOrgData({ ...orgData, vat_number: e.target.value || null })}
+                  placeholder="GB123456789"
+                  disabled={!isAdmin}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                New line items start at the default rate and the VAT number is printed on invoices. Clients can be set to reverse charge or zero-rated instead.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="col-span-4 lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Proposals</CardTitle>
+              <CardDescription>
+                Branding and defaults for exported proposal PDFs.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-2">
+                <Label htmlFor="brand-color">Brand Color</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="color"
+                    aria-label="Pick brand color"
+                    className="h-9 w-12 cursor-pointer p-1"
+                    value={orgData.brand_color || DEFAULT_BRAND_COLOR}
+                    onChange={(e) => setOrgData({ ...orgData, brand_color: e.target.value })}
+                    disabled={!isAdmin}
+                  />
+                  <Input
+                    id="brand-color"
+                    className="font-mono"
+                    value={orgData.brand_color || DEFAULT_BRAND_COLOR}
+                    onChange={(e) => setOrgData({ ...orgData, brand_color: e.target.value })}
+                    placeholder={DEFAULT_BRAND_COLOR}
+                    maxLength={7}
+                    disabled={!isAdmin}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="proposal-cover-page" className="flex-1 cursor-pointer">
+                  Cover Page by Default
+                </Label>
+                <Switch
+                  id="proposal-cover-page"
+                  checked={orgData.proposal_cover_page ?? true}
+                  onCheckedChange={(checked) => setOrgData({ ...orgData, proposal_cover_page: checked })}
+                  disabled={!isAdmin}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="proposal-terms">Terms & Conditions</Label>
+                <Textarea
+                  id="proposal-terms"
+                  className="min-h-[140px]"
+                  value={orgData.proposal_terms || ""}
+                  onChange={(e) => setOrgData({ ...orgData, proposal_terms: e.target.value || null })}
+                  placeholder="Payment terms, ownership of work, revision policy..."
+                  disabled={!isAdmin}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The brand color is used for headings and tables, and the terms are printed at the end of every proposal. The logo above appears on the cover and header.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="col-span-4 lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Security</CardTitle>
+              <CardDescription>
+                Lock the app for employees when they step away.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-2">
+                <Label htmlFor="idle-timeout">Idle Auto-Lock (minutes)</Label>
+                <Input
+                  id="idle-timeout"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={orgData.pin_idle_timeout_minutes ?? 15}
+                  onChange={(e) => setOrgData({ ...orgData, pin_idle_timeout_minutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  disabled={!isAdmin}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Employees must re-enter their security PIN after this long without activity in any tab. Set to 0 to disable.
+              </p>
             </CardContent>
           </Card>
         </div>
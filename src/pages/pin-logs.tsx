@@ -35,7 +35,6 @@ interface PinLog {
   id: string
   created_at: string
   user_id: string
-  pin_entered: string
   attempt_type: string
   is_success: boolean
   profiles?: {
@@ -44,6 +43,9 @@ interface PinLog {
   }
 }
 
+// Attempts recorded by verify_pin when an employee is locked out after too many failures
+const LOCKOUT_TYPES = ["lockout", "verification_locked"]
+
 export default function PinLogsPage() {
   const { user, role } = useAuth()
   const [logs, setLogs] = useState<PinLog[]>([])
@@ -165,21 +167,15 @@ export default function PinLogsPage() {
         </div>
       ),
     },
-    {
-      accessorKey: "pin_entered",
-      header: "PIN Tried",
-      cell: ({ row }) => (
-        <span className="font-mono font-bold tracking-widest bg-muted px-2 py-1 rounded text-sm">
-          {row.original.pin_entered}
-        </span>
-      ),
-    },
     {
       accessorKey: "attempt_type",
       header: "Type",
       cell: ({ row }) => (
-        <Badge variant="outline" className="capitalize">
-          {row.original.attempt_type.replace('_', ' ')}
+        <Badge
+          variant="outline"
+          className={`capitalize ${LOCKOUT_TYPES.includes(row.original.attempt_type) ? "border-orange-500/30 text-orange-600" : ""}`}
+        >
+          {row.original.attempt_type.replaceAll('_', ' ')}
         </Badge>
       ),
     },
@@ -222,7 +218,7 @@ export default function PinLogsPage() {
 
   return (
     <PageContainer>
-      <SEO title="PIN Logs" description="Monitor employee security PIN attempts and entries." />
+      <SEO title="PIN Logs" description="Monitor employee security PIN attempts and lockouts." />
       <div className="flex flex-col gap-6">
         <div className="flex items-center justify-between">
           <div>
@@ -230,7 +226,7 @@ export default function PinLogsPage() {
               <ShieldCheck className="size-6 text-primary" />
               Security PIN Logs
             </h1>
-            <p className="text-sm text-muted-foreground">Track all PIN entries and setup attempts by employees</p>
+            <p className="text-sm text-muted-foreground">Track PIN verification outcomes, lockouts and setup attempts by employees</p>
           </div>
           <div className="flex items-center gap-2">
             <AlertDialog>
@@ -273,9 +269,19 @@ export default function PinLogsPage() {
               <SelectContent>
                 <SelectItem value="all">All Types</SelectItem>
                 <SelectItem value="setup_initial">Initial Setup</SelectItem>
-                <SelectItem value="setup_confirmation">Setup Confirm</SelectItem>
+                <SelectItem value="setup_confirmation_mismatch">Setup Mismatch</SelectItem>
+                <SelectItem value="setup">Setup</SelectItem>
                 <SelectItem value="verification">Verification</SelectItem>
+                <SelectItem value="lockout">Lockout</SelectItem>
+                <SelectItem value="verification_locked">Attempt While Locked</SelectItem>
+                <SelectItem value="lock_idle">Idle Lock</SelectItem>
+                <SelectItem value="lock_manual">Manual Lock</SelectItem>
+                <SelectItem value="unlock">Unlock</SelectItem>
+                <SelectItem value="credential_reveal">Credential Reveal</SelectItem>
+                <SelectItem value="credential_copy">Credential Copy</SelectItem>
                 <SelectItem value="update">Update</SelectItem>
+                <SelectItem value="admin_update">Admin Update</SelectItem>
+                <SelectItem value="reset_success">Reset</SelectItem>
               </SelectContent>
             </Select>
           </div>
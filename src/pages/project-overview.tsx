@@ -12,8 +12,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ProjectPhasesTab } from "@/components/projects/project-phases-tab"
 import { ProjectDocumentsTab } from "@/components/projects/project-documents-tab"
 import { ProjectTasksTab } from "@/components/projects/project-tasks-tab"
+import { ProjectFinancesTab } from "@/components/projects/project-finances-tab"
 import { useAuth } from "@/hooks/use-auth"
-import { IconLayoutKanban } from "@tabler/icons-react"
+import { IconCoin, IconLayoutKanban } from "@tabler/icons-react"
 
 export default function ProjectOverviewPage() {
   const { projectId } = useParams()
@@ -21,6 +22,7 @@ export default function ProjectOverviewPage() {
   const location = useLocation()
   const { role } = useAuth()
   const isClient = role === 'client'
+  const isAdmin = role === 'admin'
   const [project, setProject] = React.useState<any>(null)
   const [isLoading, setIsLoading] = React.useState(true)
 
@@ -28,7 +30,7 @@ export default function ProjectOverviewPage() {
   const pathParts = location.pathname.split('/')
   const lastPart = pathParts[pathParts.length - 1]
   const [activeTab, setActiveTab] = React.useState(
-    ["phases", "documents", "tasks"].includes(lastPart) ? lastPart : "phases"
+    ["phases", "documents", "tasks", "finances"].includes(lastPart) ? lastPart : "phases"
   )
 
   const fetchProjectDetails = React.useCallback(async () => {
@@ -76,18 +78,18 @@ export default function ProjectOverviewPage() {
     const pathParts = location.pathname.split('/')
     const lastPart = pathParts[pathParts.length - 1]
     
-    if (isClient && (lastPart === "documents" || lastPart === "tasks")) {
+    if ((isClient && (lastPart === "documents" || lastPart === "tasks")) || (role && !isAdmin && lastPart === "finances")) {
       setActiveTab("phases")
       navigate(`/dashboard/projects/${projectId}/phases`, { replace: true })
       return
     }
 
-    if (["phases", "documents", "tasks"].includes(lastPart)) {
+    if (["phases", "documents", "tasks", "finances"].includes(lastPart)) {
       setActiveTab(lastPart)
     } else if (lastPart === projectId) {
       setActiveTab("phases")
     }
-  }, [location.pathname, projectId, isClient, navigate])
+  }, [location.pathname, projectId, role, isClient, isAdmin, navigate])
 
   const handleTabChange = (value: string) => {
     setActiveTab(value)
@@ -161,6 +163,11 @@ export default function ProjectOverviewPage() {
                 <IconFileText className="h-4 w-4" /> Documents
               </TabsTrigger>
             )}
+            {isAdmin && (
+              <TabsTrigger value="finances" className="gap-2">
+                <IconCoin className="h-4 w-4" /> Finances
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <div className="flex-1 flex flex-col min-h-0">
@@ -177,6 +184,11 @@ export default function ProjectOverviewPage() {
                 <ProjectDocumentsTab projectId={projectId as string} />
               </TabsContent>
             )}
+            {isAdmin && (
+              <TabsContent value="finances" className="m-0 border-none p-0 flex-1 flex flex-col min-h-0">
+                <ProjectFinancesTab projectId={projectId as string} />
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </div>
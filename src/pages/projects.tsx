@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/dialog"
 import { ProjectForm } from "@/components/projects/project-form"
 import { ProjectsTable, type ProjectWithClient } from "@/components/projects/projects-table"
+import { DuplicateProjectDialog } from "@/components/projects/duplicate-project-dialog"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import type { Tables } from "@/lib/database.types"
 
@@ -27,6 +28,7 @@ export default function ProjectsPage() {
   const [editingProject, setEditingProject] = React.useState<ProjectWithClient | null>(null)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = React.useState(false)
   const [projectToDelete, setProjectToDelete] = React.useState<string | null>(null)
+  const [projectToDuplicate, setProjectToDuplicate] = React.useState<ProjectWithClient | null>(null)
 
   const fetchProfiles = React.useCallback(async () => {
     try {
@@ -320,6 +322,7 @@ export default function ProjectsPage() {
             onDelete={handleDeleteProject}
             onAdd={handleAddProject}
             onViewPhases={handleViewDetails}
+            onDuplicate={role === "admin" ? setProjectToDuplicate : undefined}
             onRowClick={handleEditProject}
             onAssignMembers={handleAssignMembers}
             onReorder={handleReorder}
@@ -346,6 +349,12 @@ export default function ProjectsPage() {
         </DialogContent>
       </Dialog>
 
+      <DuplicateProjectDialog
+        project={projectToDuplicate}
+        onOpenChange={(open) => !open && setProjectToDuplicate(null)}
+        onDuplicated={() => fetchProjects()}
+      />
+
       <ConfirmDialog
         open={deleteConfirmOpen}
         onOpenChange={setDeleteConfirmOpen}
@@ -106,6 +106,7 @@ export default function ProposalsPage() {
           setViewingPhase(null)
         }}
         projectId={viewingPhase?.project_id || ""}
+        onResponded={fetchPhases}
       />
     </PageContainer>
   )
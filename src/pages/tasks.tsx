@@ -1,6 +1,6 @@
 import * as React from "react"
 import { toast } from "sonner"
-import { IconLayoutKanban, IconPlus, IconTable } from "@tabler/icons-react"
+import { IconCalendarDue, IconLayoutKanban, IconPlus, IconTable } from "@tabler/icons-react"
 import { supabase } from "@/lib/supabase"
 import type { Tables } from "@/lib/database.types"
 import { PageContainer } from "@/components/page-container"
@@ -9,6 +9,12 @@ import { Button } from "@/components/ui/button"
 import { KanbanBoard, type Task } from "@/components/projects/kanban-board"
 import { TasksTable } from "@/components/projects/tasks-table"
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   Dialog,
   DialogContent,
@@ -20,6 +26,7 @@ import { TaskForm, type TaskFormValues } from "@/components/projects/task-form"
 import { useAuth } from "@/hooks/use-auth"
 import { useSearchParams } from "react-router-dom"
 import { useTasks } from "@/hooks/use-tasks"
+import { matchesDueFilter, toDateColumn, getTaskPlanningColumns, type TaskDueFilter } from "@/lib/tasks"
 
 export default function TasksPage() {
   const { user, role, loading: authLoading } = useAuth()
@@ -37,9 +44,20 @@ export default function TasksPage() {
   const [isSubmitting, setIsSubmitting] = React.useState(false)
   const [kanbanMode, setKanbanMode] = React.useState<"development" | "admin">("development")
   const [viewMode, setViewMode] = React.useState<"kanban" | "table">("kanban")
+  const [dueFilter, setDueFilter] = React.useState<TaskDueFilter>("all")
 
   const { tasks, isLoading: isTasksLoading, setTasks } = useTasks()
 
+  const visibleTasks = React.useMemo(() => {
+    if (dueFilter === "all") return tasks
+    return tasks.filter(t => matchesDueFilter(t, dueFilter))
+  }, [tasks, dueFilter])
+
+  const dueTaskFilter = React.useMemo(() => {
+    if (dueFilter === "all") return undefined
+    return (task: Task) => matchesDueFilter(task, dueFilter)
+  }, [dueFilter])
+
   const fetchMetadata = React.useCallback(async () => {
     if (!user || authLoading) return
 
@@ -179,6 +197,9 @@ export default function TasksPage() {
           title: values.title,
           description: values.description,
           type: values.type || 'feature',
+          start_date: toDateColumn(values.start_date),
+          due_date: toDateColumn(values.due_date),
+          ...getTaskPlanningColumns(values),
           user_id: finalUserId,
           project_id: values.project_id === "none" ? null : values.project_id,
           phase_id: values.phase_id === "none" ? null : values.phase_id,
@@ -289,6 +310,9 @@ export default function TasksPage() {
         description: values.description || null,
         status: values.status || editingTask.status,
         type: values.type || editingTask.type || 'feature',
+        start_date: toDateColumn(values.start_date),
+        due_date: toDateColumn(values.due_date),
+        ...getTaskPlanningColumns(values),
         user_id: finalUserId,
         project_id: values.project_id === "none" ? null : (values.project_id || null),
         phase_id: values.phase_id === "none" ? null : (values.phase_id || null),
@@ -427,6 +451,25 @@ export default function TasksPage() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant={dueFilter === "all" ? "outline" : "secondary"} size="sm">
+                    <IconCalendarDue className="mr-2 h-4 w-4" />
+                    {dueFilter === "all" ? "Any Due Date" : dueFilter === "overdue" ? "Overdue" : "Due This Week"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setDueFilter("all")}>
+                    Any Due Date
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setDueFilter("overdue")}>
+                    Overdue
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setDueFilter("due-this-week")}>
+                    Due This Week
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <ToggleGroup 
                 type="single" 
                 value={viewMode} 
@@ -454,6 +497,7 @@ export default function TasksPage() {
           {viewMode === "kanban" ? (
             <KanbanBoard 
               tasks={tasks} 
+              taskFilter={dueTaskFilter}
               members={members}
               onTaskUpdate={handleTaskUpdate}
               onTaskCreate={handleTaskCreateTrigger}
@@ -468,7 +512,7 @@ export default function TasksPage() {
             />
           ) : (
             <TasksTable 
-              tasks={tasks}
+              tasks={visibleTasks}
               onTaskEdit={handleTaskEditTrigger}
               onTaskDelete={handleTaskDelete}
               onTaskUpdate={handleTaskUpdate}
@@ -564,6 +608,11 @@ export default function TasksPage() {
                 description: editingTask.description || "",
                 status: editingTask.status,
                 type: editingTask.type ?? undefined,
+                start_date: editingTask.start_date,
+                due_date: editingTask.due_date,
+                priority: editingTask.priority,
+                estimate: editingTask.estimate,
+                estimate_unit: editingTask.estimate_unit,
                 user_id: editingTask.user_id,
                 project_id: (editingTask as any).project_id,
                 phase_id: editingTask.phase_id,
@@ -36,7 +36,7 @@ interface Profile {
   role: string | null
   email: string | null
   updated_at: string | null
-  pin: string | null
+  has_pin: boolean
 }
 
 export default function TeamPage() {
@@ -168,21 +168,23 @@ export default function TeamPage() {
       return
     }
 
+    if (profile.id === user?.id) {
+      toast.error("Change your own PIN from your account page")
+      return
+    }
+
     try {
       setIsUpdatingPin(true)
-      const { data, error } = await supabase
-        .from('profiles')
-        .update({ pin })
-        .eq('id', profile.id)
-        .select()
+      // The PIN is hashed server-side; only admins may set it for someone else
+      const { error } = await supabase.rpc('admin_set_pin', {
+        p_user_id: profile.id,
+        p_pin: pin.trim(),
+      })
 
       if (error) throw error
-      
-      if (!data || data.length === 0) {
-        throw new Error("No profile was updated. You might not have permission or the user does not exist.")
-      }
-      
-      setProfiles(profiles.map(p => p.id === profile.id ? { ...p, pin } : p))
+
+      setProfiles(profiles.map(p => p.id === profile.id ? { ...p, has_pin: true } : p))
+      setSelectedUser(current => current?.id === profile.id ? { ...current, has_pin: true } : current)
       toast.success(`User PIN updated successfully`)
       setPinChangeOpen(false)
       setNewPin("")
@@ -354,7 +356,9 @@ export default function TeamPage() {
               <Input
                 id="pin"
                 type="text"
-                placeholder="Enter 4-6 digit PIN"
+                placeholder="Enter 4 digit PIN"
+                inputMode="numeric"
+                maxLength={4}
                 value={newPin}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPin(e.target.value)}
               />
@@ -364,7 +368,7 @@ export default function TeamPage() {
             <Button variant="outline" onClick={() => setPinChangeOpen(false)}>Cancel</Button>
             <Button 
               onClick={() => selectedUser && handlePinChange(selectedUser, newPin)}
-              disabled={isUpdatingPin || !newPin}
+              disabled={isUpdatingPin || newPin.trim().length !== 4}
             >
               {isUpdatingPin ? "Updating..." : "Update PIN"}
             </Button>
@@ -0,0 +1,499 @@
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { type ColumnDef } from "@tanstack/react-table"
+import { addDays, addWeeks, endOfWeek, format, isSameDay, parseISO, startOfWeek } from "date-fns"
+import { ChevronLeft, ChevronRight, Clock, DollarSign, Plus, Timer, Trash2, Pencil } from "lucide-react"
+import { toast } from "sonner"
+import { PageContainer } from "@/components/page-container"
+import { SEO } from "@/components/seo"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import { DataTable } from "@/components/data-table"
+import { TimeEntryForm, type TimeEntryPayload } from "@/components/time-tracking/time-entry-form"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/hooks/use-auth"
+import { useTimeTracker } from "@/hooks/use-time-tracker"
+import type { Tables } from "@/lib/database.types"
+import { cn } from "@/lib/utils"
+import {
+  TIME_ENTRY_SELECT,
+  formatDuration,
+  getEntrySeconds,
+  type TimeEntryWithRelations,
+} from "@/lib/time-tracking"
+
+interface TimesheetRow {
+  key: string
+  label: string
+  isProject: boolean
+  days: number[]
+  total: number
+}
+
+export default function TimesheetsPage() {
+  const { user, role } = useAuth()
+  const { activeEntry } = useTimeTracker()
+  const isAdmin = role === "admin"
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
+  const [entries, setEntries] = useState<TimeEntryWithRelations[]>([])
+  const [members, setMembers] = useState<Tables<"profiles">[]>([])
+  const [phases, setPhases] = useState<Pick<Tables<"phases">, "id" | "title">[]>([])
+  const [tasks, setTasks] = useState<Pick<Tables<"tasks">, "id" | "title" | "phase_id">[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingEntry, setEditingEntry] = useState<TimeEntryWithRelations | null>(null)
+  const [entryToDelete, setEntryToDelete] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const userId = selectedUserId || user?.id
+  const isOwnTimesheet = userId === user?.id
+  const weekEnd = useMemo(() => endOfWeek(weekStart, { weekStartsOn: 1 }), [weekStart])
+  const weekDays = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart])
+
+  const fetchEntries = useCallback(async () => {
+    if (!userId) return
+    setIsLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from("time_entries")
+        .select(TIME_ENTRY_SELECT)
+        .eq("user_id", userId)
+        .gte("started_at", weekStart.toISOString())
+        .lte("started_at", weekEnd.toISOString())
+        .order("started_at", { ascending: true })
+
+      if (error) throw error
+      setEntries((data || []) as unknown as TimeEntryWithRelations[])
+    } catch (error: any) {
+      console.error("Error fetching time entries:", error)
+      toast.error("Failed to fetch time entries: " + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId, weekStart, weekEnd])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries, activeEntry?.id])
+
+  useEffect(() => {
+    const fetchMetadata = async () => {
+      const [{ data: phasesData }, { data: tasksData }, { data: profilesData }] = await Promise.all([
+        supabase
+          .from("phases")
+          .select("id, title")
+          .in("status", ["active", "on_hold"])
+          .order("title"),
+        supabase
+          .from("tasks")
+          .select("id, title, phase_id")
+          .neq("status", "complete")
+          .order("title"),
+        isAdmin
+          ? supabase.from("profiles").select("*").neq("role", "client").order("full_name")
+          : Promise.resolve({ data: [] as Tables<"profiles">[] }),
+      ])
+
+      setPhases(phasesData || [])
+      setTasks(tasksData || [])
+      setMembers(profilesData || [])
+    }
+
+    fetchMetadata()
+  }, [isAdmin])
+
+  const completedEntries = useMemo(() => entries.filter(e => e.ended_at), [entries])
+
+  const totals = useMemo(() => {
+    const total = completedEntries.reduce((sum, e) => sum + getEntrySeconds(e), 0)
+    const billable = completedEntries.filter(e => e.billable).reduce((sum, e) => sum + getEntrySeconds(e), 0)
+    return { total, billable, nonBillable: total - billable }
+  }, [completedEntries])
+
+  // Roll entries up into project rows followed by their phase rows, with a column per weekday
+  const timesheetRows = useMemo(() => {
+    const projects = new Map<string, { row: TimesheetRow; phases: Map<string, TimesheetRow> }>()
+
+    completedEntries.forEach(entry => {
+      const projectKey = entry.project_id || "none"
+      const phaseKey = entry.phase_id || "none"
+      const dayIndex = weekDays.findIndex(day => isSameDay(day, parseISO(entry.started_at)))
+      if (dayIndex === -1) return
+
+      if (!projects.has(projectKey)) {
+        projects.set(projectKey, {
+          row: { key: projectKey, label: entry.projects?.name || "No Project", isProject: true, days: Array(7).fill(0), total: 0 },
+          phases: new Map(),
+        })
+      }
+      const project = projects.get(projectKey)!
+
+      if (!project.phases.has(phaseKey)) {
+        project.phases.set(phaseKey, {
+          key: `${projectKey}-${phaseKey}`,
+          label: entry.phases?.title || "No Phase",
+          isProject: false,
+          days: Array(7).fill(0),
+          total: 0,
+        })
+      }
+      const phase = project.phases.get(phaseKey)!
+
+      const seconds = getEntrySeconds(entry)
+      project.row.days[dayIndex] += seconds
+      project.row.total += seconds
+      phase.days[dayIndex] += seconds
+      phase.total += seconds
+    })
+
+    return Array.from(projects.values())
+      .sort((a, b) => b.row.total - a.row.total)
+      .flatMap(project => [
+        project.row,
+        ...Array.from(project.phases.values()).sort((a, b) => b.total - a.total),
+      ])
+  }, [completedEntries, weekDays])
+
+  const dayTotals = useMemo(() => {
+    return weekDays.map((_, i) =>
+      timesheetRows.filter(r => r.isProject).reduce((sum, r) => sum + r.days[i], 0)
+    )
+  }, [timesheetRows, weekDays])
+
+  const handleSubmit = async (payload: TimeEntryPayload) => {
+    if (!user) return
+    setIsSubmitting(true)
+    try {
+      if (editingEntry) {
+        const { error } = await supabase
+          .from("time_entries")
+          .update(payload)
+          .eq("id", editingEntry.id)
+        if (error) throw error
+        toast.success("Time entry updated")
+      } else {
+        const { error } = await supabase
+          .from("time_entries")
+          .insert({ ...payload, user_id: user.id })
+        if (error) throw error
+        toast.success("Time logged")
+      }
+      setIsFormOpen(false)
+      setEditingEntry(null)
+      fetchEntries()
+    } catch (error: any) {
+      console.error("Error saving time entry:", error)
+      toast.error("Failed to save time entry: " + error.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("time_entries").delete().eq("id", id)
+      if (error) throw error
+      setEntries(prev => prev.filter(e => e.id !== id))
+      toast.success("Time entry deleted")
+    } catch (error: any) {
+      toast.error("Failed to delete time entry: " + error.message)
+    }
+  }
+
+  const canModify = (entry: TimeEntryWithRelations) => isAdmin || (entry.user_id === user?.id && !entry.invoice_id)
+
+  const columns: ColumnDef<TimeEntryWithRelations>[] = [
+    {
+      accessorKey: "started_at",
+      header: "Date",
+      cell: ({ row }) => format(parseISO(row.original.started_at), "EEE, MMM d"),
+    },
+    {
+      id: "work",
+      accessorFn: (row) => row.tasks?.title || row.phases?.title || "",
+      header: "Work",
+      cell: ({ row }) => (
+        <div className="flex flex-col">
+          <span className="font-medium">{row.original.tasks?.title || row.original.phases?.title || "General"}</span>
+          <span className="text-xs text-muted-foreground">
+            {[row.original.projects?.name, row.original.tasks ? row.original.phases?.title : null].filter(Boolean).join(" · ") || "No project"}
+          </span>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "description",
+      header: "Notes",
+      cell: ({ row }) => (
+        <span className="text-sm text-muted-foreground line-clamp-1">{row.original.description || "-"}</span>
+      ),
+    },
+    {
+      accessorKey: "duration_seconds",
+      header: "Duration",
+      cell: ({ row }) => row.original.ended_at
+        ? <span className="font-mono text-sm">{formatDuration(getEntrySeconds(row.original))}</span>
+        : <Badge variant="secondary" className="bg-red-500/10 text-red-600">Running</Badge>,
+    },
+    {
+      accessorKey: "billable",
+      header: "Billing",
+      cell: ({ row }) => row.original.invoice_id
+        ? <Badge variant="default">Invoiced</Badge>
+        : row.original.billable
+          ? <Badge variant="secondary">Billable</Badge>
+          : <Badge variant="outline">Non-billable</Badge>,
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => canModify(row.original) && row.original.ended_at ? (
+        <div className="flex justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => {
+              setEditingEntry(row.original)
+              setIsFormOpen(true)
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+            onClick={() => setEntryToDelete(row.original.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : null,
+    },
+  ]
+
+  return (
+    <PageContainer>
+      <SEO title="Timesheets" description="Review logged hours per week, rolled up by project and phase." />
+      <div className="flex flex-1 flex-col gap-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Timesheets</h1>
+            <p className="text-muted-foreground">Weekly hours logged against projects and phases.</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {isAdmin && members.length > 0 && (
+              <Select value={userId || undefined} onValueChange={setSelectedUserId}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map(member => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addWeeks(prev, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+              >
+                {format(weekStart, "MMM d")} – {format(weekEnd, "MMM d, yyyy")}
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addWeeks(prev, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            {isOwnTimesheet && (
+              <Button
+                onClick={() => {
+                  setEditingEntry(null)
+                  setIsFormOpen(true)
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Log Time
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Hours</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatDuration(totals.total)}</div>
+              <p className="text-xs text-muted-foreground">Logged this week</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Billable</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-emerald-600">{formatDuration(totals.billable)}</div>
+              <p className="text-xs text-muted-foreground">
+                {totals.total > 0 ? Math.round((totals.billable / totals.total) * 100) : 0}% of logged time
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Non-billable</CardTitle>
+              <Timer className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatDuration(totals.nonBillable)}</div>
+              <p className="text-xs text-muted-foreground">Internal and admin work</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Summary</CardTitle>
+            <CardDescription>Hours per day, grouped by project and phase.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[200px]">Project / Phase</TableHead>
+                  {weekDays.map(day => (
+                    <TableHead key={day.toISOString()} className="text-right">
+                      {format(day, "EEE d")}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {timesheetRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="h-24 text-center text-muted-foreground">
+                      {isLoading ? "Loading..." : "No time logged this week"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  timesheetRows.map(row => (
+                    <TableRow key={row.key} className={cn(row.isProject && "bg-muted/40 font-medium")}>
+                      <TableCell className={cn(!row.isProject && "pl-8 text-muted-foreground")}>
+                        {row.label}
+                      </TableCell>
+                      {row.days.map((seconds, i) => (
+                        <TableCell key={i} className="text-right font-mono text-xs">
+                          {seconds > 0 ? formatDuration(seconds) : "-"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono text-xs">{formatDuration(row.total)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {timesheetRows.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    {dayTotals.map((seconds, i) => (
+                      <TableCell key={i} className="text-right font-mono text-xs">
+                        {seconds > 0 ? formatDuration(seconds) : "-"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono text-xs">{formatDuration(totals.total)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Time Entries</CardTitle>
+            <CardDescription>Every timer and manual entry logged this week.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              columns={columns}
+              data={entries}
+              isLoading={isLoading}
+              searchPlaceholder="Search entries..."
+              disablePadding
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog
+        open={isFormOpen}
+        onOpenChange={(open) => {
+          setIsFormOpen(open)
+          if (!open) setEditingEntry(null)
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingEntry ? "Edit Time Entry" : "Log Time"}</DialogTitle>
+            <DialogDescription>
+              Record time spent on a phase or task.
+            </DialogDescription>
+          </DialogHeader>
+          <TimeEntryForm
+            key={editingEntry?.id || "new"}
+            entry={editingEntry}
+            phases={phases}
+            tasks={tasks}
+            onSubmit={handleSubmit}
+            onCancel={() => {
+              setIsFormOpen(false)
+              setEditingEntry(null)
+            }}
+            isLoading={isSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!entryToDelete}
+        onOpenChange={(open: boolean) => !open && setEntryToDelete(null)}
+        title="Delete Time Entry"
+        description="Are you sure you want to delete this time entry? This action cannot be undone."
+        onConfirm={() => {
+          if (entryToDelete) {
+            handleDelete(entryToDelete)
+            setEntryToDelete(null)
+          }
+        }}
+      />
+    </PageContainer>
+  )
+}
@@ -0,0 +1,120 @@
+-- Start and due dates for project and personal tasks, plus scheduled
+-- due-soon / overdue notifications for task assignees.
+
+create extension if not exists pg_cron;
+
+alter table public.tasks
+  add column if not exists start_date date,
+  add column if not exists due_date date;
+
+alter table public.personal_tasks
+  add column if not exists start_date date,
+  add column if not exists due_date date;
+
+create index if not exists tasks_due_date_idx
+  on public.tasks (due_date)
+  where due_date is not null;
+
+create index if not exists personal_tasks_due_date_idx
+  on public.personal_tasks (due_date)
+  where due_date is not null;
+
+-- Inserts one notification per assignee for every open task that is due within
+-- the next two days or already overdue. Each (task, due date, kind) pair is only
+-- notified once, so moving a due date re-arms the notification.
+create or replace function public.process_task_due_notifications()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with due_tasks as (
+    select
+      t.id,
+      t.title,
+      t.due_date,
+      case when t.due_date < current_date then 'overdue' else 'due_soon' end as due_kind,
+      case
+        when t.phase_id is not null and p.project_id is not null
+          then '/dashboard/projects/' || p.project_id || '/phases/' || t.phase_id || '?taskId=' || t.id
+        else '/dashboard/tasks?taskId=' || t.id
+      end as link
+    from public.tasks t
+    left join public.phases p on p.id = t.phase_id
+    where t.due_date is not null
+      and t.status <> 'complete'
+      and t.due_date <= current_date + 2
+  ),
+  recipients as (
+    select dt.*, tm.user_id
+    from due_tasks dt
+    join public.task_members tm on tm.task_id = dt.id
+    left join public.notification_settings ns on ns.user_id = tm.user_id
+    where coalesce(ns.task_enabled, true)
+  )
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select
+    r.user_id,
+    'task',
+    case when r.due_kind = 'overdue' then 'Task overdue' else 'Task due soon' end,
+    case
+      when r.due_kind = 'overdue' then '"' || r.title || '" was due on ' || to_char(r.due_date, 'Mon DD, YYYY')
+      else '"' || r.title || '" is due on ' || to_char(r.due_date, 'Mon DD, YYYY')
+    end,
+    r.link,
+    jsonb_build_object('task_id', r.id, 'due_kind', r.due_kind, 'due_date', r.due_date)
+  from recipients r
+  where not exists (
+    select 1
+    from public.notifications n
+    where n.user_id = r.user_id
+      and n.type = 'task'
+      and n.metadata ->> 'task_id' = r.id::text
+      and n.metadata ->> 'due_kind' = r.due_kind
+      and n.metadata ->> 'due_date' = r.due_date::text
+  );
+
+  -- Personal tasks have no task_members, so the owner is notified instead.
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select
+    pt.user_id,
+    'task',
+    case when pt.due_date < current_date then 'Task overdue' else 'Task due soon' end,
+    case
+      when pt.due_date < current_date then '"' || pt.title || '" was due on ' || to_char(pt.due_date, 'Mon DD, YYYY')
+      else '"' || pt.title || '" is due on ' || to_char(pt.due_date, 'Mon DD, YYYY')
+    end,
+    '/dashboard/tasks/assigned?taskId=' || pt.id,
+    jsonb_build_object(
+      'task_id', pt.id,
+      'due_kind', case when pt.due_date < current_date then 'overdue' else 'due_soon' end,
+      'due_date', pt.due_date
+    )
+  from public.personal_tasks pt
+  left join public.notification_settings ns on ns.user_id = pt.user_id
+  where pt.due_date is not null
+    and pt.status <> 'complete'
+    and pt.due_date <= current_date + 2
+    and coalesce(ns.task_enabled, true)
+    and not exists (
+      select 1
+      from public.notifications n
+      where n.user_id = pt.user_id
+        and n.type = 'task'
+        and n.metadata ->> 'task_id' = pt.id::text
+        and n.metadata ->> 'due_kind' = case when pt.due_date < current_date then 'overdue' else 'due_soon' end
+        and n.metadata ->> 'due_date' = pt.due_date::text
+    );
+end;
+$$;
+
+revoke all on function public.process_task_due_notifications() from public, anon, authenticated;
+
+select cron.unschedule(jobid) from cron.job where jobname = 'process-task-due-notifications';
+
+select cron.schedule(
+  'process-task-due-notifications',
+  '0 * * * *',
+  $$select public.process_task_due_notifications()$$
+);
@@ -0,0 +1,27 @@
+-- Priority and effort estimates for tasks, plus per-column WIP limits for the
+-- Kanban board stored on the organization.
+
+alter table public.tasks
+  add column if not exists priority text not null default 'medium',
+  add column if not exists estimate numeric,
+  add column if not exists estimate_unit text not null default 'points';
+
+alter table public.tasks
+  add constraint tasks_priority_check check (priority in ('urgent', 'high', 'medium', 'low')),
+  add constraint tasks_estimate_check check (estimate is null or estimate >= 0),
+  add constraint tasks_estimate_unit_check check (estimate_unit in ('points', 'hours'));
+
+alter table public.personal_tasks
+  add column if not exists priority text not null default 'medium',
+  add column if not exists estimate numeric,
+  add column if not exists estimate_unit text not null default 'points';
+
+alter table public.personal_tasks
+  add constraint personal_tasks_priority_check check (priority in ('urgent', 'high', 'medium', 'low')),
+  add constraint personal_tasks_estimate_check check (estimate is null or estimate >= 0),
+  add constraint personal_tasks_estimate_unit_check check (estimate_unit in ('points', 'hours'));
+
+-- Maps a Kanban column id (task status) to its maximum number of cards,
+-- e.g. {"in progress": 5, "in review": 3}. Columns without an entry are unlimited.
+alter table public.organizations
+  add column if not exists kanban_wip_limits jsonb not null default '{}'::jsonb;
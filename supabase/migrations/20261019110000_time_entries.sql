@@ -0,0 +1,108 @@
+-- Time tracking: running timers and manual time entries against tasks and
+-- phases, with an hourly rate for billing logged hours on invoices.
+
+create table if not exists public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  task_id uuid references public.tasks (id) on delete set null,
+  phase_id uuid references public.phases (id) on delete set null,
+  project_id uuid references public.projects (id) on delete set null,
+  description text,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  duration_seconds integer generated always as (
+    case when ended_at is null then null
+    else greatest(0, extract(epoch from (ended_at - started_at)))::integer end
+  ) stored,
+  billable boolean not null default true,
+  invoice_id uuid references public.invoices (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint time_entries_range_check check (ended_at is null or ended_at >= started_at)
+);
+
+create index if not exists time_entries_user_started_idx
+  on public.time_entries (user_id, started_at desc);
+
+create index if not exists time_entries_task_idx
+  on public.time_entries (task_id)
+  where task_id is not null;
+
+create index if not exists time_entries_phase_idx
+  on public.time_entries (phase_id)
+  where phase_id is not null;
+
+-- A user can only have one timer running at a time.
+create unique index if not exists time_entries_running_timer_idx
+  on public.time_entries (user_id)
+  where ended_at is null;
+
+alter table public.organizations
+  add column if not exists default_hourly_rate numeric not null default 0
+    check (default_hourly_rate >= 0);
+
+-- Keeps the phase and project of an entry in sync with its task so timesheets
+-- can be rolled up without walking tasks -> phases -> projects on the client.
+create or replace function public.set_time_entry_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.task_id is not null then
+    select t.phase_id into new.phase_id
+    from public.tasks t
+    where t.id = new.task_id;
+  end if;
+
+  if new.phase_id is not null then
+    select p.project_id into new.project_id
+    from public.phases p
+    where p.id = new.phase_id;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists set_time_entry_scope on public.time_entries;
+create trigger set_time_entry_scope
+  before insert or update of task_id, phase_id, started_at, ended_at, description, billable
+  on public.time_entries
+  for each row execute function public.set_time_entry_scope();
+
+alter table public.time_entries enable row level security;
+
+drop policy if exists "Users can view own time entries; admins view all" on public.time_entries;
+create policy "Users can view own time entries; admins view all"
+  on public.time_entries for select
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "Users can log their own time" on public.time_entries;
+create policy "Users can log their own time"
+  on public.time_entries for insert
+  with check (user_id = auth.uid());
+
+-- Entries already billed on an invoice are locked for everyone but admins.
+drop policy if exists "Users can edit unbilled time entries" on public.time_entries;
+create policy "Users can edit unbilled time entries"
+  on public.time_entries for update
+  using (
+    (user_id = auth.uid() and invoice_id is null)
+    or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "Users can delete unbilled time entries" on public.time_entries;
+create policy "Users can delete unbilled time entries"
+  on public.time_entries for delete
+  using (
+    (user_id = auth.uid() and invoice_id is null)
+    or exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+alter publication supabase_realtime add table public.time_entries;
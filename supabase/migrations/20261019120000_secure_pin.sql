@@ -0,0 +1,319 @@
+-- Server-side security PIN verification.
+--
+-- PINs are stored as bcrypt hashes in a private schema that is not exposed
+-- through the API, and are only ever checked inside security definer
+-- functions. Repeated failures lock the PIN temporarily, and a successful
+-- verification returns a short-lived HMAC-signed token that the client
+-- presents instead of a localStorage flag.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create schema if not exists private;
+revoke all on schema private from public, anon, authenticated;
+
+create table if not exists private.settings (
+  key text primary key,
+  value text not null
+);
+
+insert into private.settings (key, value)
+values ('pin_token_secret', encode(extensions.gen_random_bytes(32), 'hex'))
+on conflict (key) do nothing;
+
+create table if not exists private.user_pins (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  pin_hash text not null,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles
+  add column if not exists has_pin boolean not null default false;
+
+-- Move existing plaintext PINs over to hashes, then drop the plaintext column.
+insert into private.user_pins (user_id, pin_hash)
+select id, extensions.crypt(pin, extensions.gen_salt('bf'))
+from public.profiles
+where pin is not null and pin <> ''
+on conflict (user_id) do nothing;
+
+update public.profiles
+set has_pin = true
+where pin is not null and pin <> '';
+
+alter table public.profiles drop column if exists pin;
+
+-- PIN logs record outcomes only, never the digits that were entered.
+alter table public.pin_logs drop column if exists pin_entered;
+
+-- Failed attempts allowed before the PIN is locked, and for how long.
+create or replace function private.pin_max_attempts() returns integer
+language sql immutable as $$ select 5 $$;
+
+create or replace function private.pin_lockout_interval() returns interval
+language sql immutable as $$ select interval '15 minutes' $$;
+
+create or replace function private.pin_token_ttl() returns interval
+language sql immutable as $$ select interval '8 hours' $$;
+
+create or replace function private.is_pin_blacklisted(p_pin text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_pin = any (array[
+    '1970', '2819', '2008', '0609', '9575', '1234', '0000', '5755', '0908', '1111',
+    '0317', '2021', '6767', '2807', '6969', '2022', '2023', '2020', '2024', '2025'
+  ])
+$$;
+
+create or replace function private.log_pin_attempt(p_user_id uuid, p_attempt_type text, p_success boolean)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.pin_logs (user_id, attempt_type, is_success)
+  values (p_user_id, p_attempt_type, p_success)
+$$;
+
+-- Token format: <user id>.<expiry epoch>.<hex hmac-sha256 of "<user id>.<expiry epoch>">
+create or replace function private.issue_pin_token(p_user_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expires_at timestamptz := now() + private.pin_token_ttl();
+  v_payload text := p_user_id::text || '.' || floor(extract(epoch from v_expires_at))::bigint::text;
+  v_secret text;
+begin
+  select value into v_secret from private.settings where key = 'pin_token_secret';
+
+  return jsonb_build_object(
+    'success', true,
+    'token', v_payload || '.' || encode(extensions.hmac(v_payload, v_secret, 'sha256'), 'hex'),
+    'expires_at', v_expires_at
+  );
+end;
+$$;
+
+create or replace function public.verify_pin(p_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_record private.user_pins%rowtype;
+  v_attempts integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_record from private.user_pins where user_id = v_user_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'no_pin');
+  end if;
+
+  if v_record.locked_until is not null and v_record.locked_until > now() then
+    perform private.log_pin_attempt(v_user_id, 'verification_locked', false);
+    return jsonb_build_object('success', false, 'error', 'locked', 'locked_until', v_record.locked_until);
+  end if;
+
+  if v_record.pin_hash = extensions.crypt(coalesce(p_pin, ''), v_record.pin_hash) then
+    update private.user_pins
+    set failed_attempts = 0, locked_until = null
+    where user_id = v_user_id;
+
+    perform private.log_pin_attempt(v_user_id, 'verification', true);
+    return private.issue_pin_token(v_user_id);
+  end if;
+
+  v_attempts := v_record.failed_attempts + 1;
+
+  if v_attempts >= private.pin_max_attempts() then
+    update private.user_pins
+    set failed_attempts = 0, locked_until = now() + private.pin_lockout_interval()
+    where user_id = v_user_id;
+
+    perform private.log_pin_attempt(v_user_id, 'lockout', false);
+    return jsonb_build_object(
+      'success', false,
+      'error', 'locked',
+      'locked_until', now() + private.pin_lockout_interval()
+    );
+  end if;
+
+  update private.user_pins
+  set failed_attempts = v_attempts
+  where user_id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, 'verification', false);
+  return jsonb_build_object(
+    'success', false,
+    'error', 'invalid',
+    'remaining_attempts', private.pin_max_attempts() - v_attempts
+  );
+end;
+$$;
+
+-- Returns true if the token was issued for the current user, is correctly signed and has not expired.
+create or replace function public.check_pin_token(p_token text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_parts text[] := string_to_array(coalesce(p_token, ''), '.');
+  v_secret text;
+begin
+  if auth.uid() is null or array_length(v_parts, 1) <> 3 then
+    return false;
+  end if;
+
+  if v_parts[1] <> auth.uid()::text or v_parts[2] !~ '^\d+$' then
+    return false;
+  end if;
+
+  if to_timestamp(v_parts[2]::bigint) <= now() then
+    return false;
+  end if;
+
+  select value into v_secret from private.settings where key = 'pin_token_secret';
+
+  return v_parts[3] = encode(extensions.hmac(v_parts[1] || '.' || v_parts[2], v_secret, 'sha256'), 'hex');
+end;
+$$;
+
+create or replace function public.set_pin(p_pin text, p_is_initial boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_type text := case when p_is_initial then 'setup' else 'update' end;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_pin is null or p_pin !~ '^\d{4}$' then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    raise exception 'PIN must be 4 digits';
+  end if;
+
+  if private.is_pin_blacklisted(p_pin) then
+    perform private.log_pin_attempt(v_user_id, v_type || '_blocked', false);
+    raise exception 'You''ve entered a commonly used passcode, please try another one.';
+  end if;
+
+  -- Setting the first PIN must not overwrite one that already exists
+  if p_is_initial and exists (select 1 from private.user_pins where user_id = v_user_id) then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    raise exception 'A PIN is already set for this account';
+  end if;
+
+  insert into private.user_pins (user_id, pin_hash)
+  values (v_user_id, extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, updated_at = now();
+
+  update public.profiles set has_pin = true where id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, v_type, true);
+  return private.issue_pin_token(v_user_id);
+end;
+$$;
+
+create or replace function public.admin_set_pin(p_user_id uuid, p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can change another user''s PIN';
+  end if;
+
+  if p_pin is null or p_pin !~ '^\d{4}$' then
+    raise exception 'PIN must be 4 digits';
+  end if;
+
+  if private.is_pin_blacklisted(p_pin) then
+    raise exception 'You''ve entered a commonly used passcode, please try another one.';
+  end if;
+
+  insert into private.user_pins (user_id, pin_hash)
+  values (p_user_id, extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, updated_at = now();
+
+  update public.profiles set has_pin = true where id = p_user_id;
+
+  perform private.log_pin_attempt(p_user_id, 'admin_update', true);
+end;
+$$;
+
+-- Called after the client has re-authenticated with the account password.
+create or replace function public.reset_pin()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from private.user_pins where user_id = v_user_id;
+  update public.profiles set has_pin = false where id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, 'reset_success', true);
+end;
+$$;
+
+revoke all on all functions in schema private from public, anon, authenticated;
+
+revoke execute on function public.verify_pin(text) from public, anon;
+revoke execute on function public.check_pin_token(text) from public, anon;
+revoke execute on function public.set_pin(text, boolean) from public, anon;
+revoke execute on function public.admin_set_pin(uuid, text) from public, anon;
+revoke execute on function public.reset_pin() from public, anon;
+
+grant execute on function public.verify_pin(text) to authenticated;
+grant execute on function public.check_pin_token(text) to authenticated;
+grant execute on function public.set_pin(text, boolean) to authenticated;
+grant execute on function public.admin_set_pin(uuid, text) to authenticated;
+grant execute on function public.reset_pin() to authenticated;
+
+-- has_pin is maintained by the functions above; stop clients from faking it.
+create or replace function public.protect_profile_has_pin()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.has_pin is distinct from old.has_pin and current_user = 'authenticated' then
+    new.has_pin := old.has_pin;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_has_pin on public.profiles;
+create trigger protect_profile_has_pin
+  before update of has_pin on public.profiles
+  for each row execute function public.protect_profile_has_pin();
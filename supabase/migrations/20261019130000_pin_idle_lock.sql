@@ -0,0 +1,6 @@
+-- Organization-level idle timeout after which employees must re-enter their
+-- security PIN. 0 disables the automatic lock ("Lock now" still works).
+
+alter table public.organizations
+  add column if not exists pin_idle_timeout_minutes integer not null default 15
+    check (pin_idle_timeout_minutes >= 0);
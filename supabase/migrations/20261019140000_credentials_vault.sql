@@ -0,0 +1,281 @@
+-- Encrypted credentials vault.
+--
+-- Credential values are encrypted with pgcrypto using a key kept in the
+-- private schema. Clients keep writing plaintext to credentials.value; a
+-- trigger encrypts it into value_encrypted and clears the plaintext column,
+-- so the value can only be read back through reveal_credential(), which
+-- checks project membership and the caller's PIN and writes an audit log.
+
+insert into private.settings (key, value)
+values ('credentials_encryption_key', encode(extensions.gen_random_bytes(32), 'hex'))
+on conflict (key) do nothing;
+
+alter table public.credentials
+  add column if not exists value_encrypted bytea;
+
+alter table public.credentials
+  alter column value drop not null;
+
+update public.credentials
+set value_encrypted = extensions.pgp_sym_encrypt(
+      value,
+      (select value from private.settings where key = 'credentials_encryption_key')
+    ),
+    value = null
+where value is not null;
+
+create or replace function public.encrypt_credential_value()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.value is not null then
+    new.value_encrypted := extensions.pgp_sym_encrypt(
+      new.value,
+      (select value from private.settings where key = 'credentials_encryption_key')
+    );
+    new.value := null;
+  elsif tg_op = 'UPDATE' then
+    -- Updates that don't send a new value keep the existing secret
+    new.value_encrypted := old.value_encrypted;
+  end if;
+
+  if new.value_encrypted is null then
+    raise exception 'Credential value is required';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists encrypt_credential_value on public.credentials;
+create trigger encrypt_credential_value
+  before insert or update on public.credentials
+  for each row execute function public.encrypt_credential_value();
+
+-- Admins see every credential; everyone else only those of projects they are a member of.
+create or replace function public.can_access_credential_project(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+    or (
+      p_project_id is not null
+      and exists (
+        select 1 from public.project_members
+        where project_id = p_project_id and user_id = auth.uid()
+      )
+    )
+$$;
+
+alter table public.credentials enable row level security;
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies where schemaname = 'public' and tablename = 'credentials'
+  loop
+    execute format('drop policy %I on public.credentials', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Project members can view credentials"
+  on public.credentials for select
+  using (public.can_access_credential_project(project_id));
+
+create policy "Project members can add credentials"
+  on public.credentials for insert
+  with check (public.can_access_credential_project(project_id));
+
+create policy "Project members can update credentials"
+  on public.credentials for update
+  using (public.can_access_credential_project(project_id))
+  with check (public.can_access_credential_project(project_id));
+
+create policy "Project members can delete credentials"
+  on public.credentials for delete
+  using (public.can_access_credential_project(project_id));
+
+-- Shared PIN check used by verify_pin and credential reveals. Counts failures,
+-- applies the lockout and logs the attempt under p_attempt_type.
+create or replace function private.check_user_pin(p_user_id uuid, p_pin text, p_attempt_type text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_record private.user_pins%rowtype;
+  v_attempts integer;
+begin
+  select * into v_record from private.user_pins where user_id = p_user_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'no_pin');
+  end if;
+
+  if v_record.locked_until is not null and v_record.locked_until > now() then
+    perform private.log_pin_attempt(p_user_id, 'verification_locked', false);
+    return jsonb_build_object('success', false, 'error', 'locked', 'locked_until', v_record.locked_until);
+  end if;
+
+  if v_record.pin_hash = extensions.crypt(coalesce(p_pin, ''), v_record.pin_hash) then
+    update private.user_pins
+    set failed_attempts = 0, locked_until = null
+    where user_id = p_user_id;
+
+    perform private.log_pin_attempt(p_user_id, p_attempt_type, true);
+    return jsonb_build_object('success', true);
+  end if;
+
+  v_attempts := v_record.failed_attempts + 1;
+
+  if v_attempts >= private.pin_max_attempts() then
+    update private.user_pins
+    set failed_attempts = 0, locked_until = now() + private.pin_lockout_interval()
+    where user_id = p_user_id;
+
+    perform private.log_pin_attempt(p_user_id, 'lockout', false);
+    return jsonb_build_object(
+      'success', false,
+      'error', 'locked',
+      'locked_until', now() + private.pin_lockout_interval()
+    );
+  end if;
+
+  update private.user_pins
+  set failed_attempts = v_attempts
+  where user_id = p_user_id;
+
+  perform private.log_pin_attempt(p_user_id, p_attempt_type, false);
+  return jsonb_build_object(
+    'success', false,
+    'error', 'invalid',
+    'remaining_attempts', private.pin_max_attempts() - v_attempts
+  );
+end;
+$$;
+
+create or replace function public.verify_pin(p_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_result := private.check_user_pin(v_user_id, p_pin, 'verification');
+
+  if not (v_result->>'success')::boolean then
+    return v_result;
+  end if;
+
+  return private.issue_pin_token(v_user_id);
+end;
+$$;
+
+-- Returns the decrypted value. Employees must pass their PIN; admins without a PIN may reveal directly.
+create or replace function public.reveal_credential(p_credential_id uuid, p_action text default 'reveal', p_pin text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_credential public.credentials%rowtype;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_action not in ('reveal', 'copy') then
+    raise exception 'Unknown credential action: %', p_action;
+  end if;
+
+  select * into v_credential from public.credentials where id = p_credential_id;
+
+  if not found or not public.can_access_credential_project(v_credential.project_id) then
+    return jsonb_build_object('success', false, 'error', 'forbidden');
+  end if;
+
+  if exists (select 1 from private.user_pins where user_id = v_user_id) then
+    v_result := private.check_user_pin(v_user_id, p_pin, 'credential_' || p_action);
+    if not (v_result->>'success')::boolean then
+      return v_result;
+    end if;
+  elsif not exists (select 1 from public.profiles where id = v_user_id and role = 'admin') then
+    return jsonb_build_object('success', false, 'error', 'no_pin');
+  end if;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    v_user_id,
+    upper(p_action),
+    'credentials',
+    p_credential_id,
+    jsonb_build_object('name', v_credential.name, 'type', v_credential.type, 'project_id', v_credential.project_id)
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'value', extensions.pgp_sym_decrypt(
+      v_credential.value_encrypted,
+      (select value from private.settings where key = 'credentials_encryption_key')
+    )
+  );
+end;
+$$;
+
+-- Audits a copy of a value that was already revealed in the same dialog.
+create or replace function public.log_credential_access(p_credential_id uuid, p_action text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credential public.credentials%rowtype;
+begin
+  if p_action not in ('reveal', 'copy') then
+    raise exception 'Unknown credential action: %', p_action;
+  end if;
+
+  select * into v_credential from public.credentials where id = p_credential_id;
+
+  if not found or not public.can_access_credential_project(v_credential.project_id) then
+    raise exception 'Credential not found';
+  end if;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    auth.uid(),
+    upper(p_action),
+    'credentials',
+    p_credential_id,
+    jsonb_build_object('name', v_credential.name, 'type', v_credential.type, 'project_id', v_credential.project_id)
+  );
+end;
+$$;
+
+revoke all on all functions in schema private from public, anon, authenticated;
+
+revoke execute on function public.reveal_credential(uuid, text, text) from public, anon;
+revoke execute on function public.log_credential_access(uuid, text) from public, anon;
+grant execute on function public.reveal_credential(uuid, text, text) to authenticated;
+grant execute on function public.log_credential_access(uuid, text) to authenticated;
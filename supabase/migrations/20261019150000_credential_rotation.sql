@@ -0,0 +1,164 @@
+-- Credential expiry, rotation reminders and encrypted version history.
+
+alter table public.credentials
+  add column if not exists expires_at date,
+  add column if not exists rotation_interval_days integer check (rotation_interval_days > 0),
+  add column if not exists last_rotated_at timestamptz not null default now(),
+  add column if not exists created_by uuid default auth.uid() references public.profiles (id) on delete set null;
+
+create index if not exists credentials_expires_at_idx
+  on public.credentials (expires_at)
+  where expires_at is not null;
+
+alter table public.reminders
+  add column if not exists credential_id uuid references public.credentials (id) on delete cascade;
+
+-- Previous values, still encrypted with the vault key. Written only by the rotation trigger.
+create table if not exists public.credential_versions (
+  id uuid primary key default gen_random_uuid(),
+  credential_id uuid not null references public.credentials (id) on delete cascade,
+  value_encrypted bytea not null,
+  valid_from timestamptz,
+  replaced_at timestamptz not null default now(),
+  replaced_by uuid default auth.uid() references public.profiles (id) on delete set null
+);
+
+create index if not exists credential_versions_credential_id_idx
+  on public.credential_versions (credential_id, replaced_at desc);
+
+alter table public.credential_versions enable row level security;
+
+create policy "Admins can view credential versions"
+  on public.credential_versions for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Runs after encrypt_credential_value (triggers fire in name order), so
+-- value_encrypted already holds the new ciphertext when a value was sent.
+create or replace function public.track_credential_rotation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.last_rotated_at := now();
+    if new.expires_at is null and new.rotation_interval_days is not null then
+      new.expires_at := current_date + new.rotation_interval_days;
+    end if;
+    return new;
+  end if;
+
+  if new.value_encrypted is distinct from old.value_encrypted then
+    insert into public.credential_versions (credential_id, value_encrypted, valid_from)
+    values (old.id, old.value_encrypted, old.last_rotated_at);
+
+    new.last_rotated_at := now();
+
+    -- A rotation restarts the interval unless the expiry was changed explicitly in the same update
+    if new.rotation_interval_days is not null and new.expires_at is not distinct from old.expires_at then
+      new.expires_at := current_date + new.rotation_interval_days;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists track_credential_rotation on public.credentials;
+create trigger track_credential_rotation
+  before insert or update on public.credentials
+  for each row execute function public.track_credential_rotation();
+
+-- Keeps one reminder a week ahead and one on the expiry date for the credential's
+-- owner (its creator, else the project owner, else every admin). Pending reminders
+-- are replaced whenever the expiry changes; process_reminders turns them into notifications.
+create or replace function public.sync_credential_reminders()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid := coalesce(
+    new.created_by,
+    (select user_id from public.projects where id = new.project_id)
+  );
+begin
+  delete from public.reminders
+  where credential_id = new.id
+    and not coalesce(is_sent, false);
+
+  if new.expires_at is null then
+    return new;
+  end if;
+
+  insert into public.reminders (user_id, credential_id, title, description, remind_at, link)
+  select
+    recipient.user_id,
+    new.id,
+    case when schedule.days_before = 0 then 'Credential expires today' else 'Credential expires soon' end,
+    '"' || new.name || '" expires on ' || to_char(new.expires_at, 'Mon DD, YYYY') || '. Rotate it before it stops working.',
+    schedule.remind_at,
+    '/dashboard/credentials?credentialId=' || new.id
+  from (
+    select days_before, ((new.expires_at - days_before)::timestamp + time '09:00') at time zone 'UTC' as remind_at
+    from (values (7), (0)) as v (days_before)
+  ) as schedule
+  cross join (
+    select v_owner as user_id where v_owner is not null
+    union
+    select id from public.profiles where role = 'admin' and v_owner is null
+  ) as recipient
+  where schedule.remind_at > now();
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_credential_reminders on public.credentials;
+create trigger sync_credential_reminders
+  after insert or update of expires_at, created_by on public.credentials
+  for each row execute function public.sync_credential_reminders();
+
+-- Rolls a credential back to a previous value. The current value is archived by
+-- track_credential_rotation like any other rotation.
+create or replace function public.restore_credential_version(p_version_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version public.credential_versions%rowtype;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can restore credential versions';
+  end if;
+
+  select * into v_version from public.credential_versions where id = p_version_id;
+
+  if not found then
+    raise exception 'Credential version not found';
+  end if;
+
+  update public.credentials
+  set value = extensions.pgp_sym_decrypt(
+    v_version.value_encrypted,
+    (select value from private.settings where key = 'credentials_encryption_key')
+  )
+  where id = v_version.credential_id;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    auth.uid(),
+    'RESTORE',
+    'credentials',
+    v_version.credential_id,
+    jsonb_build_object('version_id', v_version.id, 'valid_from', v_version.valid_from, 'replaced_at', v_version.replaced_at)
+  );
+end;
+$$;
+
+revoke execute on function public.restore_credential_version(uuid) from public, anon;
+grant execute on function public.restore_credential_version(uuid) to authenticated;
@@ -0,0 +1,55 @@
+-- Multi-currency invoicing: a base currency per organization, an optional
+-- default per client, and the currency each phase and invoice is billed in.
+-- Existing rows were all priced in USD.
+
+alter table public.organizations
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+alter table public.clients
+  add column if not exists currency text
+    check (currency ~ '^[A-Z]{3}$');
+
+alter table public.phases
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+alter table public.invoices
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+-- Manually entered monthly rates used by /dashboard/finances to convert revenue
+-- into the organization's base currency. rate = units of base currency per 1 unit of currency.
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  month date not null check (month = date_trunc('month', month)::date),
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  rate numeric not null check (rate > 0),
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint exchange_rates_month_currency_key unique (organization_id, month, currency)
+);
+
+alter table public.exchange_rates enable row level security;
+
+drop policy if exists "Admins can manage exchange rates" on public.exchange_rates;
+create policy "Admins can manage exchange rates"
+  on public.exchange_rates for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = exchange_rates.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = exchange_rates.organization_id
+    )
+  );
@@ -0,0 +1,27 @@
+-- VAT on invoices: per-line tax rates with a stored subtotal / tax / total
+-- breakdown, VAT numbers for the organization and clients, and a per-client
+-- VAT treatment for reverse-charge and zero-rated supplies.
+
+alter table public.organizations
+  add column if not exists vat_number text;
+
+alter table public.clients
+  add column if not exists vat_number text,
+  add column if not exists vat_treatment text not null default 'standard'
+    check (vat_treatment in ('standard', 'reverse_charge', 'zero_rated'));
+
+-- invoices.amount stays the gross total so existing reports keep working.
+-- vat_treatment is copied from the client when the invoice is issued.
+alter table public.invoices
+  add column if not exists subtotal numeric,
+  add column if not exists tax_amount numeric not null default 0 check (tax_amount >= 0),
+  add column if not exists vat_treatment text not null default 'standard'
+    check (vat_treatment in ('standard', 'reverse_charge', 'zero_rated'));
+
+update public.invoices
+set subtotal = amount
+where subtotal is null;
+
+alter table public.invoices
+  alter column subtotal set default 0,
+  alter column subtotal set not null;
@@ -0,0 +1,155 @@
+-- Payments ledger for invoices. Money received is recorded against an invoice
+-- (partial payments allowed), and the invoice status follows from it: "paid"
+-- once fully settled, "overdue" once the due date passes with a balance left.
+
+alter table public.invoices
+  add column if not exists amount_paid numeric not null default 0,
+  add column if not exists paid_at date;
+
+create table if not exists public.invoice_payments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  -- In the invoice's currency
+  amount numeric not null check (amount > 0),
+  paid_on date not null default current_date,
+  method text not null default 'bank_transfer'
+    check (method in ('bank_transfer', 'card', 'cash', 'paypal', 'stripe', 'other')),
+  reference text,
+  notes text,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invoice_payments_invoice_id_idx
+  on public.invoice_payments (invoice_id);
+
+create index if not exists invoice_payments_paid_on_idx
+  on public.invoice_payments (paid_on);
+
+alter table public.invoice_payments enable row level security;
+
+drop policy if exists "Admins can manage invoice payments" on public.invoice_payments;
+create policy "Admins can manage invoice payments"
+  on public.invoice_payments for all
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+-- Invoices already marked paid by hand get a single payment for the full amount
+-- so they keep counting as revenue.
+insert into public.invoice_payments (invoice_id, amount, paid_on, method, notes, created_by)
+select
+  i.id,
+  i.amount,
+  coalesce(i.updated_at, i.created_at, now())::date,
+  'other',
+  'Recorded before the payments ledger',
+  null
+from public.invoices i
+where i.status = 'paid'
+  and i.amount > 0
+  and not exists (select 1 from public.invoice_payments p where p.invoice_id = i.id);
+
+update public.invoices i
+set amount_paid = coalesce(p.total, 0),
+    paid_at = p.last_paid_on
+from (
+  select invoice_id, sum(amount) as total, max(paid_on) as last_paid_on
+  from public.invoice_payments
+  group by invoice_id
+) p
+where p.invoice_id = i.id;
+
+-- Drafts and cancelled invoices keep whatever status they were given. Everything
+-- else is derived from the balance and due date, so a manual "paid" without a
+-- payment behind it falls back to "sent" or "overdue".
+create or replace function public.derive_invoice_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status in ('draft', 'cancelled') then
+    return new;
+  end if;
+
+  if new.amount > 0 and new.amount_paid >= new.amount then
+    new.status := 'paid';
+  elsif new.due_date is not null and new.due_date < current_date then
+    new.status := 'overdue';
+  else
+    new.status := 'sent';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists derive_invoice_status on public.invoices;
+create trigger derive_invoice_status
+  before insert or update of status, amount, amount_paid, due_date on public.invoices
+  for each row execute function public.derive_invoice_status();
+
+-- Keeps invoices.amount_paid and paid_at in step with the ledger.
+create or replace function public.sync_invoice_amount_paid()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice_id uuid := coalesce(new.invoice_id, old.invoice_id);
+begin
+  update public.invoices
+  set amount_paid = coalesce((select sum(amount) from public.invoice_payments where invoice_id = v_invoice_id), 0),
+      paid_at = (select max(paid_on) from public.invoice_payments where invoice_id = v_invoice_id),
+      updated_at = now()
+  where id = v_invoice_id;
+
+  -- A payment moved to another invoice also changes the old one
+  if tg_op = 'UPDATE' and old.invoice_id <> new.invoice_id then
+    update public.invoices
+    set amount_paid = coalesce((select sum(amount) from public.invoice_payments where invoice_id = old.invoice_id), 0),
+        paid_at = (select max(paid_on) from public.invoice_payments where invoice_id = old.invoice_id),
+        updated_at = now()
+    where id = old.invoice_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_invoice_amount_paid on public.invoice_payments;
+create trigger sync_invoice_amount_paid
+  after insert or update or delete on public.invoice_payments
+  for each row execute function public.sync_invoice_amount_paid();
+
+-- Due dates pass without the row changing, so sent invoices are swept daily.
+create or replace function public.process_overdue_invoices()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.invoices
+  set status = 'overdue',
+      updated_at = now()
+  where status = 'sent'
+    and due_date < current_date
+    and amount_paid < amount;
+end;
+$$;
+
+select public.process_overdue_invoices();
+
+select cron.unschedule(jobid) from cron.job where jobname = 'process-overdue-invoices';
+
+select cron.schedule(
+  'process-overdue-invoices',
+  '5 0 * * *',
+  $$select public.process_overdue_invoices()$$
+);
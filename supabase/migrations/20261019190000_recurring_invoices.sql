@@ -0,0 +1,214 @@
+-- Recurring invoice templates for retainers. A daily job issues an invoice for
+-- every template whose next run has come round, links it back to the template
+-- and notifies admins.
+
+create table if not exists public.recurring_invoices (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  client_id uuid references public.clients (id) on delete cascade,
+  project_id uuid references public.projects (id) on delete set null,
+  interval text not null default 'monthly'
+    check (interval in ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date not null default current_date,
+  end_date date,
+  -- Runs are counted from start_date so month ends don't drift (Jan 31, Feb 28, Mar 31)
+  runs_generated integer not null default 0 check (runs_generated >= 0),
+  next_run_on date not null default current_date,
+  due_in_days integer not null default 14 check (due_in_days >= 0),
+  issue_as text not null default 'sent' check (issue_as in ('draft', 'sent')),
+  currency text not null default 'USD' check (currency ~ '^[A-Z]{3}$'),
+  line_items jsonb not null default '[]'::jsonb,
+  is_active boolean not null default true,
+  last_run_at timestamptz,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint recurring_invoices_target_check check (client_id is not null or project_id is not null),
+  constraint recurring_invoices_dates_check check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists recurring_invoices_next_run_idx
+  on public.recurring_invoices (next_run_on)
+  where is_active;
+
+alter table public.recurring_invoices enable row level security;
+
+drop policy if exists "Admins can manage recurring invoices" on public.recurring_invoices;
+create policy "Admins can manage recurring invoices"
+  on public.recurring_invoices for all
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+alter table public.invoices
+  add column if not exists recurring_invoice_id uuid
+    references public.recurring_invoices (id) on delete set null;
+
+create index if not exists invoices_recurring_invoice_id_idx
+  on public.invoices (recurring_invoice_id)
+  where recurring_invoice_id is not null;
+
+-- Shared by getNextInvoiceNumber in the app and scheduled runs here, so both
+-- continue the same INV-0001 sequence.
+create or replace function public.next_invoice_number()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select 'INV-' || lpad((coalesce(max(substring(invoice_number from '^INV-(\d+)$')::integer), 0) + 1)::text, 4, '0')
+  from public.invoices;
+$$;
+
+revoke all on function public.next_invoice_number() from public, anon;
+grant execute on function public.next_invoice_number() to authenticated;
+
+create or replace function public.recurring_invoice_step(p_interval text)
+returns interval
+language sql
+immutable
+as $$
+  select case p_interval
+    when 'weekly' then interval '1 week'
+    when 'quarterly' then interval '3 months'
+    when 'yearly' then interval '1 year'
+    else interval '1 month'
+  end;
+$$;
+
+-- Keeps next_run_on in step with the schedule whenever it is edited.
+create or replace function public.schedule_recurring_invoice()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT'
+    or new.start_date is distinct from old.start_date
+    or new.interval is distinct from old.interval
+    or (new.is_active and not old.is_active) then
+    -- A new, changed or resumed schedule counts again from its start date,
+    -- skipping periods that have already gone by rather than back-billing them.
+    new.runs_generated := 0;
+    while (new.start_date + new.runs_generated * public.recurring_invoice_step(new.interval))::date < current_date loop
+      new.runs_generated := new.runs_generated + 1;
+    end loop;
+  end if;
+
+  new.next_run_on := (new.start_date + new.runs_generated * public.recurring_invoice_step(new.interval))::date;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists schedule_recurring_invoice on public.recurring_invoices;
+create trigger schedule_recurring_invoice
+  before insert or update on public.recurring_invoices
+  for each row execute function public.schedule_recurring_invoice();
+
+-- Issues one invoice per due run (catching up on missed days), with VAT worked
+-- out the same way as calculateInvoiceTotals in the app.
+create or replace function public.generate_recurring_invoices()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.recurring_invoices%rowtype;
+  v_client_id uuid;
+  v_vat_treatment text;
+  v_subtotal numeric;
+  v_tax numeric;
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_count integer := 0;
+begin
+  for v_template in
+    select * from public.recurring_invoices
+    where is_active
+      and next_run_on <= current_date
+      and (end_date is null or next_run_on <= end_date)
+    order by next_run_on
+    for update skip locked
+  loop
+    v_client_id := coalesce(
+      v_template.client_id,
+      (select client_id from public.projects where id = v_template.project_id)
+    );
+    v_vat_treatment := coalesce(
+      (select vat_treatment from public.clients where id = v_client_id),
+      'standard'
+    );
+
+    select
+      round(coalesce(sum((item ->> 'price')::numeric * (item ->> 'quantity')::numeric), 0), 2),
+      case when v_vat_treatment = 'standard' then
+        round(coalesce(sum(
+          (item ->> 'price')::numeric * (item ->> 'quantity')::numeric
+            * coalesce((item ->> 'tax_rate')::numeric, 0) / 100
+        ), 0), 2)
+      else 0 end
+    into v_subtotal, v_tax
+    from jsonb_array_elements(v_template.line_items) as item;
+
+    while v_template.next_run_on <= current_date
+      and (v_template.end_date is null or v_template.next_run_on <= v_template.end_date) loop
+      v_invoice_number := public.next_invoice_number();
+
+      insert into public.invoices (
+        invoice_number, project_id, client_id, amount, subtotal, tax_amount, vat_treatment,
+        currency, line_items, status, due_date, recurring_invoice_id
+      )
+      values (
+        v_invoice_number, v_template.project_id, v_client_id, v_subtotal + v_tax, v_subtotal, v_tax,
+        v_vat_treatment, v_template.currency, v_template.line_items, v_template.issue_as,
+        v_template.next_run_on + v_template.due_in_days, v_template.id
+      )
+      returning id into v_invoice_id;
+
+      insert into public.notifications (user_id, type, title, content, link, metadata)
+      select
+        p.id,
+        'success',
+        'Recurring invoice generated',
+        v_invoice_number || ' for "' || v_template.title || '" was issued as ' || v_template.issue_as
+          || ' (' || v_template.currency || ' ' || to_char(v_subtotal + v_tax, 'FM999,999,990.00') || ').',
+        '/dashboard/invoices',
+        jsonb_build_object('invoice_id', v_invoice_id, 'recurring_invoice_id', v_template.id)
+      -- Only the admins of the organization the schedule was set up in
+      from public.profiles p
+      join public.profiles creator on creator.id = v_template.created_by
+      where p.role = 'admin'
+        and p.organization_id = creator.organization_id;
+
+      v_template.runs_generated := v_template.runs_generated + 1;
+      v_template.next_run_on := (v_template.start_date
+        + v_template.runs_generated * public.recurring_invoice_step(v_template.interval))::date;
+      v_count := v_count + 1;
+    end loop;
+
+    update public.recurring_invoices
+    set runs_generated = v_template.runs_generated,
+        last_run_at = now(),
+        is_active = v_template.end_date is null or v_template.next_run_on <= v_template.end_date
+    where id = v_template.id;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.generate_recurring_invoices() from public, anon, authenticated;
+
+select cron.unschedule(jobid) from cron.job where jobname = 'generate-recurring-invoices';
+
+select cron.schedule(
+  'generate-recurring-invoices',
+  '10 0 * * *',
+  $$select public.generate_recurring_invoices()$$
+);
@@ -0,0 +1,66 @@
+-- Structured payment milestones on phases. Each milestone is a share of the
+-- phase (percentage) or a fixed amount, due on acceptance, on delivery or on a
+-- date, and links to the invoice raised for it once billed.
+-- phases.payment_schedule stays as the printable summary (or custom payment
+-- terms); nothing parses it any more.
+
+create table if not exists public.payment_milestones (
+  id uuid primary key default gen_random_uuid(),
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  order_index integer not null default 0,
+  label text not null,
+  percentage numeric check (percentage > 0 and percentage <= 100),
+  amount numeric check (amount > 0),
+  trigger text not null default 'on_acceptance'
+    check (trigger in ('on_acceptance', 'on_delivery', 'on_date')),
+  due_date date,
+  invoice_id uuid references public.invoices (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint payment_milestones_value_check check ((percentage is null) <> (amount is null)),
+  constraint payment_milestones_due_date_check check (trigger <> 'on_date' or due_date is not null)
+);
+
+create index if not exists payment_milestones_phase_id_idx
+  on public.payment_milestones (phase_id, order_index);
+
+alter table public.payment_milestones enable row level security;
+
+-- Anyone who can see the phase can see its schedule; only admins change it
+drop policy if exists "Users can view payment milestones of visible phases" on public.payment_milestones;
+create policy "Users can view payment milestones of visible phases"
+  on public.payment_milestones for select
+  using (
+    exists (select 1 from public.phases where id = payment_milestones.phase_id)
+  );
+
+drop policy if exists "Admins can manage payment milestones" on public.payment_milestones;
+create policy "Admins can manage payment milestones"
+  on public.payment_milestones for all
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+-- Carry over schedules written with the structured template, e.g.
+-- "• **Initial Deposit**: 50% ($500.00)". The first split is taken as due on
+-- acceptance and the rest on delivery.
+insert into public.payment_milestones (phase_id, order_index, label, percentage, trigger)
+select
+  p.id,
+  (m.ordinality - 1)::integer,
+  m.match[1],
+  m.match[2]::numeric,
+  case when m.ordinality = 1 then 'on_acceptance' else 'on_delivery' end
+from public.phases p
+cross join lateral regexp_matches(
+  p.payment_schedule,
+  '• \*\*(.*?)\*\*: ([0-9]+(?:\.[0-9]+)?)% \(',
+  'g'
+) with ordinality as m (match, ordinality)
+where p.payment_schedule is not null
+  and m.match[2]::numeric > 0
+  and m.match[2]::numeric <= 100
+  and not exists (select 1 from public.payment_milestones pm where pm.phase_id = p.id);
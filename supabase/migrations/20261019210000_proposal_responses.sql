@@ -0,0 +1,165 @@
+-- Clients accept (with a typed-name signature) or reject proposals that were
+-- sent to them. Each response records who answered, when and from where, and
+-- accepted proposals point at the signed PDF kept in the signed-proposals bucket.
+
+create table if not exists public.proposal_responses (
+  id uuid primary key default gen_random_uuid(),
+  phase_id uuid not null references public.phases (id) on delete cascade,
+  decision text not null check (decision in ('accepted', 'rejected')),
+  signature_name text,
+  rejection_reason text,
+  responded_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  responded_at timestamptz not null default now(),
+  ip_address text,
+  user_agent text,
+  signed_pdf_path text,
+  constraint proposal_responses_signature_check
+    check (decision <> 'accepted' or length(trim(signature_name)) > 0)
+);
+
+create index if not exists proposal_responses_phase_id_idx
+  on public.proposal_responses (phase_id, responded_at desc);
+
+alter table public.proposal_responses enable row level security;
+
+-- Responses are only ever written by respond_to_proposal below
+drop policy if exists "Users can view responses to visible proposals" on public.proposal_responses;
+create policy "Users can view responses to visible proposals"
+  on public.proposal_responses for select
+  using (
+    exists (select 1 from public.phases where id = proposal_responses.phase_id)
+  );
+
+create or replace function public.respond_to_proposal(
+  p_phase_id uuid,
+  p_decision text,
+  p_signature_name text default null,
+  p_rejection_reason text default null
+)
+returns public.proposal_responses
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phase record;
+  v_headers json := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::json;
+  v_response public.proposal_responses;
+begin
+  select ph.id, ph.title, ph.status, ph.project_id, pr.name as project_name
+  into v_phase
+  from public.phases ph
+  join public.projects pr on pr.id = ph.project_id
+  join public.clients c on c.id = pr.client_id
+  where ph.id = p_phase_id
+    and c.user_id = auth.uid()
+  for update of ph;
+
+  if not found then
+    raise exception 'Only the client on this project can respond to the proposal';
+  end if;
+
+  if v_phase.status is distinct from 'sent' then
+    raise exception 'This proposal is no longer awaiting a response';
+  end if;
+
+  if p_decision not in ('accepted', 'rejected') then
+    raise exception 'Unknown decision: %', p_decision;
+  end if;
+
+  if p_decision = 'accepted' and length(trim(coalesce(p_signature_name, ''))) < 2 then
+    raise exception 'Type your full name to sign the proposal';
+  end if;
+
+  insert into public.proposal_responses (
+    phase_id, decision, signature_name, rejection_reason, responded_by, ip_address, user_agent
+  )
+  values (
+    p_phase_id,
+    p_decision,
+    nullif(trim(p_signature_name), ''),
+    case when p_decision = 'rejected' then nullif(trim(p_rejection_reason), '') end,
+    auth.uid(),
+    coalesce(
+      nullif(trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+      v_headers ->> 'x-real-ip'
+    ),
+    v_headers ->> 'user-agent'
+  )
+  returning * into v_response;
+
+  -- The signed copy is uploaded by the client right after signing
+  if p_decision = 'accepted' then
+    update public.proposal_responses
+    set signed_pdf_path = p_phase_id || '/' || v_response.id || '.pdf'
+    where id = v_response.id
+    returning * into v_response;
+  end if;
+
+  update public.phases
+  set status = case when p_decision = 'accepted' then 'active' else 'rejected' end,
+      updated_at = now()
+  where id = p_phase_id;
+
+  -- Admins on the project hear about it; every admin does if none are assigned
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select
+    p.id,
+    case when p_decision = 'accepted' then 'success' else 'warning' end,
+    case when p_decision = 'accepted' then 'Proposal accepted' else 'Proposal rejected' end,
+    case
+      when p_decision = 'accepted'
+        then v_response.signature_name || ' signed "' || v_phase.title || '" for ' || v_phase.project_name || '.'
+      else '"' || v_phase.title || '" for ' || v_phase.project_name || ' was rejected'
+        || coalesce(': ' || v_response.rejection_reason, '.')
+    end,
+    '/dashboard/projects/' || v_phase.project_id || '/phases/' || p_phase_id,
+    jsonb_build_object('phase_id', p_phase_id, 'proposal_response_id', v_response.id, 'decision', p_decision)
+  from public.profiles p
+  where p.role = 'admin'
+    and (
+      exists (
+        select 1 from public.project_members pm
+        where pm.project_id = v_phase.project_id and pm.user_id = p.id
+      )
+      or not exists (
+        select 1 from public.project_members pm
+        join public.profiles ap on ap.id = pm.user_id
+        where pm.project_id = v_phase.project_id and ap.role = 'admin'
+      )
+    );
+
+  return v_response;
+end;
+$$;
+
+revoke all on function public.respond_to_proposal(uuid, text, text, text) from public, anon;
+grant execute on function public.respond_to_proposal(uuid, text, text, text) to authenticated;
+
+insert into storage.buckets (id, name, public)
+values ('signed-proposals', 'signed-proposals', false)
+on conflict (id) do nothing;
+
+-- Only the signer may upload, and only to the path reserved for their response
+drop policy if exists "Signers can upload their signed proposal" on storage.objects;
+create policy "Signers can upload their signed proposal"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'signed-proposals'
+    and exists (
+      select 1 from public.proposal_responses r
+      where r.signed_pdf_path = storage.objects.name
+        and r.responded_by = auth.uid()
+    )
+  );
+
+drop policy if exists "Users can read signed proposals of visible phases" on storage.objects;
+create policy "Users can read signed proposals of visible phases"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'signed-proposals'
+    and exists (
+      select 1 from public.proposal_responses r
+      where r.signed_pdf_path = storage.objects.name
+    )
+  );
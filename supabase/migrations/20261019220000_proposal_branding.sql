@@ -0,0 +1,9 @@
+-- Branding and template options for proposal PDFs, set on the organization
+-- page: an accent colour, whether exports open with a cover page, and the
+-- terms & conditions printed at the end.
+
+alter table public.organizations
+  add column if not exists brand_color text not null default '#000000'
+    check (brand_color ~ '^#[0-9A-Fa-f]{6}$'),
+  add column if not exists proposal_cover_page boolean not null default true,
+  add column if not exists proposal_terms text;
@@ -0,0 +1,186 @@
+-- Reusable phase templates (landing page, MVP, maintenance, ...) and project
+-- duplication. A template holds everything the phase form fills in plus a
+-- starter task list; duplicate_project copies a project's phases, deliverables,
+-- payment milestones and tasks with their work reset.
+
+create table if not exists public.phase_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  title text not null,
+  description text,
+  tech_stack text,
+  timeline text,
+  payment_schedule text,
+  amount numeric not null default 0 check (amount >= 0),
+  currency text check (currency ~ '^[A-Z]{3}$'),
+  -- [{ title, description }]
+  deliverables jsonb not null default '[]'::jsonb,
+  -- Same shape as phases.invoice_line_items
+  line_items jsonb not null default '[]'::jsonb,
+  -- [{ label, percentage, amount, trigger }]; dated milestones are not templated
+  milestones jsonb not null default '[]'::jsonb,
+  -- [{ title, description, priority, estimate, estimate_unit }]
+  tasks jsonb not null default '[]'::jsonb,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.phase_templates enable row level security;
+
+drop policy if exists "Staff can view phase templates" on public.phase_templates;
+create policy "Staff can view phase templates"
+  on public.phase_templates for select
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'employee'))
+  );
+
+drop policy if exists "Admins can manage phase templates" on public.phase_templates;
+create policy "Admins can manage phase templates"
+  on public.phase_templates for all
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+-- Copies a project for another (or the same) client. Phases come back as
+-- drafts, tasks as to-do with no dates or assignees, and nothing that was
+-- invoiced, signed or discussed is carried over.
+create or replace function public.duplicate_project(
+  p_project_id uuid,
+  p_client_id uuid,
+  p_name text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_project_id uuid;
+  v_phase record;
+  v_phase_id uuid;
+  v_phase_map jsonb := '{}'::jsonb;
+  v_deliverable_map jsonb := '{}'::jsonb;
+  v_task_map jsonb := '{}'::jsonb;
+  v_row record;
+  v_new_id uuid;
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can duplicate projects';
+  end if;
+
+  if length(trim(coalesce(p_name, ''))) = 0 then
+    raise exception 'The new project needs a name';
+  end if;
+
+  insert into public.projects (name, description, client_id, source_repo, deployment_repo, status, order_index, user_id)
+  select
+    trim(p_name),
+    description,
+    p_client_id,
+    source_repo,
+    deployment_repo,
+    'active',
+    coalesce((select max(order_index) + 1 from public.projects), 0),
+    auth.uid()
+  from public.projects
+  where id = p_project_id
+  returning id into v_project_id;
+
+  if v_project_id is null then
+    raise exception 'Project not found';
+  end if;
+
+  for v_phase in
+    select * from public.phases where project_id = p_project_id order by order_index nulls last, created_at
+  loop
+    insert into public.phases (
+      project_id, title, description, tech_stack, timeline, payment_schedule, amount, currency,
+      commission_rate, commission_amount, net_amount, order_source, order_index, invoice_line_items,
+      status, user_id
+    )
+    values (
+      v_project_id, v_phase.title, v_phase.description, v_phase.tech_stack, v_phase.timeline,
+      v_phase.payment_schedule, v_phase.amount, v_phase.currency, v_phase.commission_rate,
+      v_phase.commission_amount, v_phase.net_amount, v_phase.order_source, v_phase.order_index,
+      v_phase.invoice_line_items, 'draft', auth.uid()
+    )
+    returning id into v_phase_id;
+    v_phase_map := v_phase_map || jsonb_build_object(v_phase.id::text, v_phase_id);
+
+    for v_row in
+      select * from public.deliverables where phase_id = v_phase.id order by order_index
+    loop
+      insert into public.deliverables (phase_id, title, description, order_index)
+      values (v_phase_id, v_row.title, v_row.description, v_row.order_index)
+      returning id into v_new_id;
+      v_deliverable_map := v_deliverable_map || jsonb_build_object(v_row.id::text, v_new_id);
+    end loop;
+
+    -- Dates and invoices belong to the original engagement: dated milestones
+    -- fall back to "on delivery" and nothing starts out invoiced
+    insert into public.payment_milestones (phase_id, order_index, label, percentage, amount, trigger, due_date, invoice_id)
+    select
+      v_phase_id, order_index, label, percentage, amount,
+      case when trigger = 'on_date' then 'on_delivery' else trigger end,
+      null,
+      null
+    from public.payment_milestones
+    where phase_id = v_phase.id;
+  end loop;
+
+  -- Parents before subtasks so parent_id can be remapped in a second pass
+  for v_row in
+    select * from public.tasks where project_id = p_project_id order by parent_id nulls first, order_index
+  loop
+    insert into public.tasks (
+      project_id, phase_id, deliverable_id, title, description, type, priority,
+      estimate, estimate_unit, order_index, status, user_id
+    )
+    values (
+      v_project_id,
+      (v_phase_map ->> v_row.phase_id::text)::uuid,
+      (v_deliverable_map ->> v_row.deliverable_id::text)::uuid,
+      v_row.title, v_row.description, v_row.type, v_row.priority,
+      v_row.estimate, v_row.estimate_unit, v_row.order_index, 'todo', auth.uid()
+    )
+    returning id into v_new_id;
+    v_task_map := v_task_map || jsonb_build_object(v_row.id::text, v_new_id);
+  end loop;
+
+  update public.tasks t
+  set parent_id = (v_task_map ->> src.parent_id::text)::uuid
+  from public.tasks src
+  where src.project_id = p_project_id
+    and src.parent_id is not null
+    and t.id = (v_task_map ->> src.id::text)::uuid;
+
+  -- Keep the staff who were on the original project on the copy. Client users
+  -- can be project members too, so the new client's user is added instead of
+  -- the original client's.
+  insert into public.project_members (project_id, user_id, role)
+  select v_project_id, pm.user_id, pm.role
+  from public.project_members pm
+  join public.profiles p on p.id = pm.user_id
+  where pm.project_id = p_project_id
+    and p.role in ('admin', 'employee');
+
+  insert into public.project_members (project_id, user_id)
+  select v_project_id, c.user_id
+  from public.clients c
+  where c.id = p_client_id
+    and c.user_id is not null
+    and not exists (
+      select 1 from public.project_members pm
+      where pm.project_id = v_project_id and pm.user_id = c.user_id
+    );
+
+  return v_project_id;
+end;
+$$;
+
+revoke all on function public.duplicate_project(uuid, uuid, text) from public, anon;
+grant execute on function public.duplicate_project(uuid, uuid, text) to authenticated;
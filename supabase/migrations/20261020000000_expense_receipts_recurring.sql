@@ -0,0 +1,237 @@
+-- Expense receipts, per-organization expense categories and recurring expenses
+-- (hosting, SaaS subscriptions) that a daily job books as regular expenses.
+
+create table if not exists public.expense_categories (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists expense_categories_org_name_key
+  on public.expense_categories (organization_id, lower(name));
+
+alter table public.expense_categories enable row level security;
+
+drop policy if exists "Admins can manage expense categories" on public.expense_categories;
+create policy "Admins can manage expense categories"
+  on public.expense_categories for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = expense_categories.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = expense_categories.organization_id
+    )
+  );
+
+-- Seed every organization with the categories the form used to hard-code,
+-- plus whatever free text existing expenses were filed under.
+insert into public.expense_categories (organization_id, name)
+select o.id, c.name
+from public.organizations o
+cross join (values
+  ('Software / SaaS'), ('Rent / Office'), ('Marketing'), ('Travel'), ('Supplies'), ('Other')
+) as c (name)
+on conflict do nothing;
+
+insert into public.expense_categories (organization_id, name)
+select distinct e.organization_id, initcap(trim(e.category))
+from public.expenses e
+where e.organization_id is not null
+  and nullif(trim(e.category), '') is not null
+  and lower(trim(e.category)) not in ('software', 'rent', 'marketing', 'travel', 'supplies', 'other')
+on conflict do nothing;
+
+alter table public.expenses
+  add column if not exists category_id uuid references public.expense_categories (id) on delete set null,
+  add column if not exists receipt_path text;
+
+update public.expenses e
+set category_id = c.id
+from public.expense_categories c
+where e.category_id is null
+  and c.organization_id = e.organization_id
+  and lower(c.name) = case lower(trim(e.category))
+    when 'software' then 'software / saas'
+    when 'rent' then 'rent / office'
+    else lower(trim(e.category))
+  end;
+
+create index if not exists expenses_category_id_idx on public.expenses (category_id);
+
+create table if not exists public.recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  description text not null,
+  amount numeric not null check (amount > 0),
+  category_id uuid references public.expense_categories (id) on delete set null,
+  project_id uuid references public.projects (id) on delete set null,
+  interval text not null default 'monthly'
+    check (interval in ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date not null default current_date,
+  end_date date,
+  runs_generated integer not null default 0 check (runs_generated >= 0),
+  next_run_on date not null default current_date,
+  is_active boolean not null default true,
+  last_run_at timestamptz,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint recurring_expenses_dates_check check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists recurring_expenses_next_run_idx
+  on public.recurring_expenses (next_run_on)
+  where is_active;
+
+alter table public.recurring_expenses enable row level security;
+
+drop policy if exists "Admins can manage recurring expenses" on public.recurring_expenses;
+create policy "Admins can manage recurring expenses"
+  on public.recurring_expenses for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = recurring_expenses.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = recurring_expenses.organization_id
+    )
+  );
+
+alter table public.expenses
+  add column if not exists recurring_expense_id uuid
+    references public.recurring_expenses (id) on delete set null;
+
+-- Same schedule rules as recurring invoices: counted from start_date, and a
+-- new, changed or resumed schedule skips periods that have already gone by.
+create or replace function public.schedule_recurring_expense()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT'
+    or new.start_date is distinct from old.start_date
+    or new.interval is distinct from old.interval
+    or (new.is_active and not old.is_active) then
+    new.runs_generated := 0;
+    while (new.start_date + new.runs_generated * public.recurring_invoice_step(new.interval))::date < current_date loop
+      new.runs_generated := new.runs_generated + 1;
+    end loop;
+  end if;
+
+  new.next_run_on := (new.start_date + new.runs_generated * public.recurring_invoice_step(new.interval))::date;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists schedule_recurring_expense on public.recurring_expenses;
+create trigger schedule_recurring_expense
+  before insert or update on public.recurring_expenses
+  for each row execute function public.schedule_recurring_expense();
+
+-- Books one expense per due run, dated the day it fell due.
+create or replace function public.generate_recurring_expenses()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_category text;
+  v_count integer := 0;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where is_active
+      and next_run_on <= current_date
+      and (end_date is null or next_run_on <= end_date)
+    order by next_run_on
+    for update skip locked
+  loop
+    select name into v_category from public.expense_categories where id = v_template.category_id;
+
+    while v_template.next_run_on <= current_date
+      and (v_template.end_date is null or v_template.next_run_on <= v_template.end_date) loop
+      insert into public.expenses (
+        description, amount, category, category_id, date, project_id, organization_id,
+        user_id, recurring_expense_id
+      )
+      values (
+        v_template.description, v_template.amount, v_category, v_template.category_id,
+        v_template.next_run_on, v_template.project_id, v_template.organization_id,
+        v_template.created_by, v_template.id
+      );
+
+      v_template.runs_generated := v_template.runs_generated + 1;
+      v_template.next_run_on := (v_template.start_date
+        + v_template.runs_generated * public.recurring_invoice_step(v_template.interval))::date;
+      v_count := v_count + 1;
+    end loop;
+
+    update public.recurring_expenses
+    set runs_generated = v_template.runs_generated,
+        last_run_at = now(),
+        is_active = v_template.end_date is null or v_template.next_run_on <= v_template.end_date
+    where id = v_template.id;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.generate_recurring_expenses() from public, anon, authenticated;
+
+select cron.unschedule(jobid) from cron.job where jobname = 'generate-recurring-expenses';
+
+select cron.schedule(
+  'generate-recurring-expenses',
+  '15 0 * * *',
+  $$select public.generate_recurring_expenses()$$
+);
+
+-- Receipts live under <organization_id>/<file>
+insert into storage.buckets (id, name, public)
+values ('expense-receipts', 'expense-receipts', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Admins can manage expense receipts" on storage.objects;
+create policy "Admins can manage expense receipts"
+  on storage.objects for all to authenticated
+  using (
+    bucket_id = 'expense-receipts'
+    and exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id::text = (storage.foldername(storage.objects.name))[1]
+    )
+  )
+  with check (
+    bucket_id = 'expense-receipts'
+    and exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id::text = (storage.foldername(storage.objects.name))[1]
+    )
+  );
@@ -0,0 +1,99 @@
+-- Bank statement import and reconciliation. Column mappings are saved per bank;
+-- imported lines are matched to an invoice (recorded as a payment) or an
+-- expense, turned into a new expense, or ignored.
+
+create table if not exists public.bank_import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  delimiter text not null default ',' check (delimiter in (',', ';', E'\t', '|')),
+  has_header boolean not null default true,
+  -- Column names as they appear in the header, or "Column N" without one
+  date_column text not null,
+  date_format text not null default 'yyyy-MM-dd',
+  description_column text not null,
+  reference_column text,
+  -- Either one signed amount column, or separate debit and credit columns
+  amount_column text,
+  debit_column text,
+  credit_column text,
+  currency text not null default 'USD' check (currency ~ '^[A-Z]{3}$'),
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint bank_import_profiles_amount_check
+    check (amount_column is not null or (debit_column is not null and credit_column is not null))
+);
+
+create unique index if not exists bank_import_profiles_org_name_key
+  on public.bank_import_profiles (organization_id, lower(name));
+
+alter table public.bank_import_profiles enable row level security;
+
+drop policy if exists "Admins can manage bank import profiles" on public.bank_import_profiles;
+create policy "Admins can manage bank import profiles"
+  on public.bank_import_profiles for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = bank_import_profiles.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = bank_import_profiles.organization_id
+    )
+  );
+
+create table if not exists public.bank_transactions (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  import_profile_id uuid references public.bank_import_profiles (id) on delete set null,
+  transaction_date date not null,
+  description text not null default '',
+  reference text,
+  -- Positive for money in (credits), negative for money out (debits)
+  amount numeric not null check (amount <> 0),
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  -- Identifies a statement line so importing an overlapping export twice adds nothing
+  fingerprint text not null,
+  status text not null default 'unmatched' check (status in ('unmatched', 'matched', 'ignored')),
+  invoice_id uuid references public.invoices (id) on delete set null,
+  invoice_payment_id uuid references public.invoice_payments (id) on delete set null,
+  expense_id uuid references public.expenses (id) on delete set null,
+  matched_at timestamptz,
+  matched_by uuid references public.profiles (id) on delete set null,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint bank_transactions_fingerprint_key unique (organization_id, fingerprint)
+);
+
+create index if not exists bank_transactions_status_idx
+  on public.bank_transactions (organization_id, status, transaction_date desc);
+
+alter table public.bank_transactions enable row level security;
+
+drop policy if exists "Admins can manage bank transactions" on public.bank_transactions;
+create policy "Admins can manage bank transactions"
+  on public.bank_transactions for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = bank_transactions.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = bank_transactions.organization_id
+    )
+  );
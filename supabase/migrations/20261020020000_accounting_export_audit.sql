@@ -0,0 +1,45 @@
+-- Accounting exports are built in the browser; this records who exported what,
+-- for which range, and a checksum of each file so a re-export can be compared.
+create or replace function public.log_accounting_export(
+  p_format text,
+  p_from date,
+  p_to date,
+  p_files jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+begin
+  select organization_id into v_organization_id
+  from public.profiles
+  where id = auth.uid() and role = 'admin';
+
+  if v_organization_id is null then
+    raise exception 'Only administrators can export accounting data';
+  end if;
+
+  if p_format not in ('csv', 'xero', 'quickbooks') then
+    raise exception 'Unknown export format: %', p_format;
+  end if;
+
+  if p_from > p_to then
+    raise exception 'Export range starts after it ends';
+  end if;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    auth.uid(),
+    'EXPORT',
+    'accounting_exports',
+    v_organization_id,
+    jsonb_build_object('format', p_format, 'from', p_from, 'to', p_to, 'files', p_files)
+  );
+end;
+$$;
+
+revoke execute on function public.log_accounting_export(text, date, date, jsonb) from public, anon;
+grant execute on function public.log_accounting_export(text, date, date, jsonb) to authenticated;
@@ -0,0 +1,60 @@
+-- Marketplaces, referral partners and agencies that bring in work, each with
+-- its own commission. Phases keep referencing a source by its key in
+-- phases.order_source; "direct" is built in and never takes a commission.
+
+create table if not exists public.order_sources (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  key text not null check (key ~ '^[a-z0-9-]+$' and key <> 'direct'),
+  name text not null check (length(trim(name)) > 0),
+  commission_type text not null default 'percentage'
+    check (commission_type in ('percentage', 'flat', 'tiered')),
+  commission_percent numeric not null default 0 check (commission_percent between 0 and 100),
+  -- Charged per phase, in the phase's currency
+  commission_flat numeric not null default 0 check (commission_flat >= 0),
+  -- [{ "up_to": 500, "percent": 20 }, { "up_to": null, "percent": 10 }], applied marginally
+  commission_tiers jsonb not null default '[]'::jsonb check (jsonb_typeof(commission_tiers) = 'array'),
+  -- The platform takes payment from the client, so no invoice is raised for its phases
+  collects_payment boolean not null default false,
+  created_at timestamptz not null default now(),
+  constraint order_sources_org_key unique (organization_id, key)
+);
+
+alter table public.order_sources enable row level security;
+
+drop policy if exists "Members can view order sources" on public.order_sources;
+create policy "Members can view order sources"
+  on public.order_sources for select
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and organization_id = order_sources.organization_id
+    )
+  );
+
+drop policy if exists "Admins can manage order sources" on public.order_sources;
+create policy "Admins can manage order sources"
+  on public.order_sources for all
+  using (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = order_sources.organization_id
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles
+      where id = auth.uid()
+        and role = 'admin'
+        and organization_id = order_sources.organization_id
+    )
+  );
+
+-- Fiverr was the only source the phase form knew about: 20%, paid through the platform
+insert into public.order_sources (organization_id, key, name, commission_type, commission_percent, collects_payment)
+select o.id, 'fiverr', 'Fiverr', 'percentage', 20, true
+from public.organizations o
+on conflict do nothing;
@@ -0,0 +1,60 @@
+-- Chat history is read a page at a time, newest first, and older pages are
+-- fetched with a (created_at, id) cursor so messages sharing a timestamp
+-- aren't skipped at a page boundary.
+create index if not exists messages_channel_id_created_at_idx
+  on public.messages (channel_id, created_at desc, id desc);
+
+-- Mention notifications link straight to the message that mentioned the user
+-- (/dashboard/chat/<channel>?message=<id>) instead of the top of the channel.
+-- The chat loads the messages around it and highlights it.
+create or replace function public.set_mention_notification_link()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_channel public.channels;
+  v_message_id uuid;
+begin
+  select * into v_channel
+  from public.channels
+  where id = (new.metadata ->> 'channel_id')::uuid;
+
+  if not found then
+    return new;
+  end if;
+
+  v_message_id := nullif(new.metadata ->> 'message_id', '')::uuid;
+
+  -- Mentions are raised as the message is posted, so without an explicit id
+  -- the newest message in the channel is the one that mentioned them
+  if v_message_id is null then
+    select m.id into v_message_id
+    from public.messages m
+    where m.channel_id = v_channel.id
+    order by m.created_at desc
+    limit 1;
+  end if;
+
+  if v_message_id is null then
+    return new;
+  end if;
+
+  new.link := case
+    when v_channel.name like 'dm--%' then '/dashboard/chat/dms/' || v_channel.id
+    when v_channel.project_id is not null then '/dashboard/projects/' || v_channel.project_id || '/chat/' || v_channel.id
+    else '/dashboard/chat/' || v_channel.id
+  end || '?message=' || v_message_id;
+  new.metadata := coalesce(new.metadata, '{}'::jsonb) || jsonb_build_object('message_id', v_message_id);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_mention_notification_link on public.notifications;
+create trigger set_mention_notification_link
+  before insert on public.notifications
+  for each row
+  when (new.type = 'mention' and new.metadata ? 'channel_id')
+  execute function public.set_mention_notification_link();
@@ -0,0 +1,247 @@
+-- Chat messages can be edited (keeping their previous versions), soft deleted,
+-- reacted to with emoji and replied to in threads. Replies are regular messages
+-- in the same channel with parent_id set; the channel view only lists messages
+-- without a parent.
+
+alter table public.messages
+  add column if not exists parent_id uuid references public.messages (id) on delete cascade,
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists reply_count integer not null default 0,
+  add column if not exists last_reply_at timestamptz;
+
+create index if not exists messages_parent_id_created_at_idx
+  on public.messages (parent_id, created_at)
+  where parent_id is not null;
+
+drop index if exists public.messages_channel_id_created_at_idx;
+create index if not exists messages_channel_id_created_at_idx
+  on public.messages (channel_id, created_at desc, id desc)
+  where parent_id is null;
+
+-- Previous versions of edited messages, newest last
+create table if not exists public.message_edits (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages (id) on delete cascade,
+  content text not null,
+  edited_by uuid references public.profiles (id) on delete set null,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists message_edits_message_id_idx on public.message_edits (message_id, edited_at);
+
+create table if not exists public.message_reactions (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade default auth.uid(),
+  emoji text not null check (length(emoji) between 1 and 16),
+  created_at timestamptz not null default now(),
+  constraint message_reactions_unique unique (message_id, user_id, emoji)
+);
+
+-- Deleted reactions are broadcast with their message_id so clients know what to refresh
+alter table public.message_reactions replica identity full;
+
+-- Keeps the previous content whenever a message is edited and stops deleted
+-- messages from being changed again.
+create or replace function public.track_message_edit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.deleted_at is not null then
+    raise exception 'Deleted messages cannot be changed';
+  end if;
+
+  if new.content is distinct from old.content then
+    insert into public.message_edits (message_id, content, edited_by, edited_at)
+    values (old.id, old.content, auth.uid(), now());
+    new.edited_at := now();
+  end if;
+
+  -- Only the content and deletion flag are editable
+  new.user_id := old.user_id;
+  new.channel_id := old.channel_id;
+  new.parent_id := old.parent_id;
+  new.created_at := old.created_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists track_message_edit on public.messages;
+create trigger track_message_edit
+  before update of content, deleted_at, user_id, channel_id, parent_id, created_at on public.messages
+  for each row execute function public.track_message_edit();
+
+-- Reply counts on the parent, so the channel view doesn't have to count threads
+create or replace function public.update_thread_summary()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_parent_id uuid := coalesce(new.parent_id, old.parent_id);
+begin
+  if v_parent_id is null then
+    return null;
+  end if;
+
+  update public.messages m
+  set reply_count = s.reply_count,
+      last_reply_at = s.last_reply_at
+  from (
+    select count(*)::integer as reply_count, max(created_at) as last_reply_at
+    from public.messages
+    where parent_id = v_parent_id
+      and deleted_at is null
+  ) s
+  where m.id = v_parent_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists update_thread_summary on public.messages;
+create trigger update_thread_summary
+  after insert or delete or update of deleted_at on public.messages
+  for each row execute function public.update_thread_summary();
+
+-- Thread replies notify the people they @mention, using the same handles the
+-- mention picker inserts: the username, or the full name without spaces.
+create or replace function public.notify_thread_reply_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author text;
+begin
+  select coalesce(full_name, email, 'Someone') into v_author
+  from public.profiles
+  where id = new.user_id;
+
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select distinct
+    p.id,
+    'mention',
+    v_author || ' mentioned you in a thread',
+    left(new.content, 200),
+    null,
+    jsonb_build_object('channel_id', new.channel_id, 'message_id', new.id, 'parent_id', new.parent_id)
+  from regexp_matches(new.content, '@([\w.-]+)', 'g') as mention(handle)
+  join public.profiles p
+    on lower(p.username) = lower(mention.handle[1])
+    or lower(regexp_replace(coalesce(p.full_name, ''), '\s+', '', 'g')) = lower(mention.handle[1])
+  left join public.notification_settings ns on ns.user_id = p.id
+  where p.id is distinct from new.user_id
+    and coalesce(ns.mention_enabled, true);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_thread_reply_mentions on public.messages;
+create trigger notify_thread_reply_mentions
+  after insert on public.messages
+  for each row
+  when (new.parent_id is not null)
+  execute function public.notify_thread_reply_mentions();
+
+-- One mention notification per person and message, whichever trigger raised it
+create or replace function public.set_mention_notification_link()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_channel public.channels;
+  v_message_id uuid;
+begin
+  select * into v_channel
+  from public.channels
+  where id = (new.metadata ->> 'channel_id')::uuid;
+
+  if not found then
+    return new;
+  end if;
+
+  v_message_id := nullif(new.metadata ->> 'message_id', '')::uuid;
+
+  -- Mentions are raised as the message is posted, so without an explicit id
+  -- the newest message in the channel is the one that mentioned them
+  if v_message_id is null then
+    select m.id into v_message_id
+    from public.messages m
+    where m.channel_id = v_channel.id
+    order by m.created_at desc
+    limit 1;
+  end if;
+
+  if v_message_id is null then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.notifications n
+    where n.user_id = new.user_id
+      and n.type = 'mention'
+      and n.metadata ->> 'message_id' = v_message_id::text
+  ) then
+    return null;
+  end if;
+
+  new.link := case
+    when v_channel.name like 'dm--%' then '/dashboard/chat/dms/' || v_channel.id
+    when v_channel.project_id is not null then '/dashboard/projects/' || v_channel.project_id || '/chat/' || v_channel.id
+    else '/dashboard/chat/' || v_channel.id
+  end || '?message=' || v_message_id;
+  new.metadata := coalesce(new.metadata, '{}'::jsonb) || jsonb_build_object('message_id', v_message_id);
+
+  return new;
+end;
+$$;
+
+alter table public.message_edits enable row level security;
+alter table public.message_reactions enable row level security;
+
+-- Both follow the visibility of the message itself
+drop policy if exists "Users can view edits of visible messages" on public.message_edits;
+create policy "Users can view edits of visible messages"
+  on public.message_edits for select
+  using (exists (select 1 from public.messages m where m.id = message_edits.message_id));
+
+drop policy if exists "Users can view reactions on visible messages" on public.message_reactions;
+create policy "Users can view reactions on visible messages"
+  on public.message_reactions for select
+  using (exists (select 1 from public.messages m where m.id = message_reactions.message_id));
+
+drop policy if exists "Users can react to visible messages" on public.message_reactions;
+create policy "Users can react to visible messages"
+  on public.message_reactions for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.messages m
+      where m.id = message_reactions.message_id
+        and m.deleted_at is null
+    )
+  );
+
+drop policy if exists "Users can remove their own reactions" on public.message_reactions;
+create policy "Users can remove their own reactions"
+  on public.message_reactions for delete
+  using (user_id = auth.uid());
+
+-- Authors edit and delete their own messages; deleting sets deleted_at
+drop policy if exists "Users can edit their own messages" on public.messages;
+create policy "Users can edit their own messages"
+  on public.messages for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table public.message_reactions;
@@ -0,0 +1,96 @@
+-- Per-user, per-channel read position. Drives unread badges in the sidebars,
+-- the "New messages" divider and read receipts in direct messages.
+
+create table if not exists public.channel_reads (
+  channel_id uuid not null references public.channels (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (channel_id, user_id)
+);
+
+create index if not exists channel_reads_user_id_idx on public.channel_reads (user_id);
+
+alter table public.channel_reads enable row level security;
+
+-- Everyone sees their own position; both people in a DM see each other's for read receipts
+drop policy if exists "Users can view their own and DM read positions" on public.channel_reads;
+create policy "Users can view their own and DM read positions"
+  on public.channel_reads for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.channels c
+      where c.id = channel_reads.channel_id
+        and c.name like 'dm--%'
+        and c.name like '%' || auth.uid()::text || '%'
+    )
+  );
+
+-- Existing history counts as read, so nobody starts with every channel unread
+insert into public.channel_reads (channel_id, user_id, last_read_at)
+select c.id, p.id, now()
+from public.channels c
+cross join public.profiles p
+on conflict do nothing;
+
+-- Moves the caller's read position to now and returns the previous one, which
+-- the chat uses to place the "New messages" divider.
+create or replace function public.mark_channel_read(p_channel_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select last_read_at into v_previous
+  from public.channel_reads
+  where channel_id = p_channel_id
+    and user_id = auth.uid();
+
+  insert into public.channel_reads (channel_id, user_id, last_read_at)
+  values (p_channel_id, auth.uid(), now())
+  on conflict (channel_id, user_id) do update
+    set last_read_at = excluded.last_read_at;
+
+  return v_previous;
+end;
+$$;
+
+revoke execute on function public.mark_channel_read(uuid) from public, anon;
+grant execute on function public.mark_channel_read(uuid) to authenticated;
+
+-- Unread top-level messages from other people in every channel the caller can
+-- see. Runs as the caller so channel and message policies still apply.
+create or replace function public.get_unread_counts()
+returns table (channel_id uuid, project_id uuid, is_direct boolean, unread_count integer)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    c.id,
+    c.project_id,
+    c.name like 'dm--%',
+    count(m.id)::integer
+  from public.channels c
+  join public.messages m on m.channel_id = c.id
+  left join public.channel_reads r on r.channel_id = c.id and r.user_id = auth.uid()
+  where m.parent_id is null
+    and m.deleted_at is null
+    and m.user_id is distinct from auth.uid()
+    and (r.last_read_at is null or m.created_at > r.last_read_at)
+    and (c.name not like 'dm--%' or c.name like '%' || auth.uid()::text || '%')
+  group by c.id, c.project_id, c.name;
+$$;
+
+revoke execute on function public.get_unread_counts() from public, anon;
+grant execute on function public.get_unread_counts() to authenticated;
+
+alter publication supabase_realtime add table public.channel_reads;
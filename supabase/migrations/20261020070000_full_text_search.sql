@@ -0,0 +1,237 @@
+-- Full-text search behind the Ctrl/Cmd+K command palette and the in-channel
+-- message search. Each searchable table gets a generated tsvector column with a
+-- GIN index; the search functions run as the caller so row level security
+-- still decides what comes back.
+
+alter table public.messages
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+alter table public.tasks
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, ''))) stored;
+
+alter table public.phases
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, ''))) stored;
+
+alter table public.documents
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(content, ''))) stored;
+
+alter table public.clients
+  add column if not exists search_vector tsvector
+  generated always as (
+    to_tsvector('english',
+      coalesce(first_name, '') || ' ' || coalesce(last_name, '') || ' ' ||
+      coalesce(email, '') || ' ' || coalesce(notes, ''))
+  ) stored;
+
+-- Names only: credential values and notes never go into an index
+alter table public.credentials
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(name, ''))) stored;
+
+create index if not exists messages_search_vector_idx on public.messages using gin (search_vector);
+create index if not exists tasks_search_vector_idx on public.tasks using gin (search_vector);
+create index if not exists phases_search_vector_idx on public.phases using gin (search_vector);
+create index if not exists documents_search_vector_idx on public.documents using gin (search_vector);
+create index if not exists clients_search_vector_idx on public.clients using gin (search_vector);
+create index if not exists credentials_search_vector_idx on public.credentials using gin (search_vector);
+
+-- Turns what the user typed into a prefix query ("stag url" matches "staging
+-- URL"), so results show up while they're still typing. Null when there's
+-- nothing to search for.
+create or replace function public.search_query(p_query text)
+returns tsquery
+language sql
+immutable
+set search_path = public
+as $$
+  select case when words = '' then null else to_tsquery('english', words) end
+  from (
+    select array_to_string(array(
+      select word || ':*'
+      from regexp_split_to_table(
+        lower(regexp_replace(coalesce(p_query, ''), '[^[:alnum:][:space:]]+', ' ', 'g')),
+        '[[:space:]]+'
+      ) as word
+      where word <> ''
+    ), ' & ') as words
+  ) q;
+$$;
+
+-- Best matches of each kind for the command palette. Mirrors the roles in
+-- src/lib/rbac.ts: clients only get chat, tasks and phases; documents, clients
+-- and credentials are for admins and employees.
+create or replace function public.search_workspace(p_query text, p_limit integer default 8)
+returns table (
+  kind text,
+  id uuid,
+  title text,
+  snippet text,
+  context text,
+  project_id uuid,
+  phase_id uuid,
+  channel_id uuid,
+  is_direct boolean,
+  rank real,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with search as (
+    select
+      public.search_query(p_query) as query,
+      (select lower(p.role) from public.profiles p where p.id = auth.uid()) as role
+  ),
+  results as (
+    (
+      select
+        'message' as kind, m.id,
+        coalesce(author.full_name, author.username, 'Unknown') as title,
+        m.content as body,
+        case when c.name like 'dm--%' then 'Direct message' else '#' || c.name end as context,
+        c.project_id, null::uuid as phase_id, c.id as channel_id, c.name like 'dm--%' as is_direct,
+        ts_rank(m.search_vector, s.query) as rank, m.created_at
+      from search s
+      join public.messages m on m.search_vector @@ s.query
+      join public.channels c on c.id = m.channel_id
+      left join public.profiles author on author.id = m.user_id
+      where s.role in ('admin', 'employee', 'client')
+        and m.deleted_at is null
+        and (c.name not like 'dm--%' or c.name like '%' || auth.uid()::text || '%')
+      order by rank desc, m.created_at desc
+      limit p_limit
+    )
+    union all
+    (
+      select
+        'task', t.id, t.title, t.description, pr.name,
+        t.project_id, t.phase_id, null::uuid, false,
+        ts_rank(t.search_vector, s.query) as rank, t.created_at
+      from search s
+      join public.tasks t on t.search_vector @@ s.query
+      left join public.projects pr on pr.id = t.project_id
+      where s.role in ('admin', 'employee', 'client')
+      order by rank desc, t.created_at desc
+      limit p_limit
+    )
+    union all
+    (
+      select
+        'phase', ph.id, ph.title, ph.description, pr.name,
+        ph.project_id, ph.id, null::uuid, false,
+        ts_rank(ph.search_vector, s.query) as rank, ph.created_at
+      from search s
+      join public.phases ph on ph.search_vector @@ s.query
+      left join public.projects pr on pr.id = ph.project_id
+      where s.role in ('admin', 'employee', 'client')
+        and ph.project_id is not null
+      order by rank desc, ph.created_at desc
+      limit p_limit
+    )
+    union all
+    (
+      select
+        'document', d.id, d.title, d.content, pr.name,
+        d.project_id, null::uuid, null::uuid, false,
+        ts_rank(d.search_vector, s.query) as rank, d.created_at
+      from search s
+      join public.documents d on d.search_vector @@ s.query
+      left join public.projects pr on pr.id = d.project_id
+      where s.role in ('admin', 'employee')
+      order by rank desc, d.created_at desc
+      limit p_limit
+    )
+    union all
+    (
+      select
+        'client', cl.id, concat_ws(' ', cl.first_name, cl.last_name), cl.notes, cl.email,
+        null::uuid, null::uuid, null::uuid, false,
+        ts_rank(cl.search_vector, s.query) as rank, cl.created_at
+      from search s
+      join public.clients cl on cl.search_vector @@ s.query
+      where s.role in ('admin', 'employee')
+      order by rank desc, cl.created_at desc
+      limit p_limit
+    )
+    union all
+    (
+      -- The credentials page only lists project credentials
+      select
+        'credential', cr.id, cr.name, null::text, pr.name,
+        cr.project_id, null::uuid, null::uuid, false,
+        ts_rank(cr.search_vector, s.query) as rank, cr.created_at
+      from search s
+      join public.credentials cr on cr.search_vector @@ s.query
+      join public.projects pr on pr.id = cr.project_id
+      where s.role in ('admin', 'employee')
+      order by rank desc, cr.created_at desc
+      limit p_limit
+    )
+  )
+  select
+    r.kind, r.id, r.title,
+    case
+      when coalesce(r.body, '') = '' then null
+      else ts_headline('english', r.body, s.query, 'MaxWords=24, MinWords=10, MaxFragments=1, StartSel=<mark>, StopSel=</mark>')
+    end,
+    r.context, r.project_id, r.phase_id, r.channel_id, r.is_direct, r.rank, r.created_at
+  from results r
+  cross join search s
+  order by r.rank desc, r.created_at desc;
+$$;
+
+revoke execute on function public.search_workspace(text, integer) from public, anon;
+grant execute on function public.search_workspace(text, integer) to authenticated;
+
+-- Messages in one channel, newest first, filtered by any mix of text, author
+-- and date range. Thread replies are included; their links open the thread.
+create or replace function public.search_channel_messages(
+  p_channel_id uuid,
+  p_query text default null,
+  p_author_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 50
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  parent_id uuid,
+  snippet text,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with search as (
+    select public.search_query(p_query) as query
+  )
+  select
+    m.id, m.user_id, m.parent_id,
+    case
+      when s.query is null then m.content
+      else ts_headline('english', m.content, s.query, 'MaxWords=24, MinWords=10, MaxFragments=1, StartSel=<mark>, StopSel=</mark>')
+    end,
+    m.created_at
+  from search s
+  join public.messages m on m.channel_id = p_channel_id
+  where m.deleted_at is null
+    and (s.query is null or m.search_vector @@ s.query)
+    and (p_author_id is null or m.user_id = p_author_id)
+    and (p_from is null or m.created_at >= p_from)
+    and (p_to is null or m.created_at < p_to)
+    and (s.query is not null or p_author_id is not null or p_from is not null or p_to is not null)
+  order by m.created_at desc
+  limit p_limit;
+$$;
+
+revoke execute on function public.search_channel_messages(uuid, text, uuid, timestamptz, timestamptz, integer) from public, anon;
+grant execute on function public.search_channel_messages(uuid, text, uuid, timestamptz, timestamptz, integer) to authenticated;
@@ -0,0 +1,142 @@
+-- Files and images attached to chat messages. Uploads go to the private
+-- chat-attachments bucket under the channel's folder (<channel_id>/<file>), so
+-- storage access follows channel access; send_message then creates the message
+-- and its attachment rows together, so realtime subscribers never see a message
+-- without its files.
+
+insert into storage.buckets (id, name, public)
+values ('chat-attachments', 'chat-attachments', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Channel members can view chat attachments" on storage.objects;
+create policy "Channel members can view chat attachments"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.channels c
+      where c.id::text = (storage.foldername(storage.objects.name))[1]
+        and (c.name not like 'dm--%' or c.name like '%' || auth.uid()::text || '%')
+    )
+  );
+
+drop policy if exists "Channel members can upload chat attachments" on storage.objects;
+create policy "Channel members can upload chat attachments"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.channels c
+      where c.id::text = (storage.foldername(storage.objects.name))[1]
+        and (c.name not like 'dm--%' or c.name like '%' || auth.uid()::text || '%')
+    )
+  );
+
+drop policy if exists "Users can delete their own chat attachments" on storage.objects;
+create policy "Users can delete their own chat attachments"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'chat-attachments' and owner = auth.uid());
+
+create table if not exists public.message_attachments (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages (id) on delete cascade,
+  channel_id uuid not null references public.channels (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade default auth.uid(),
+  file_path text not null,
+  file_name text not null,
+  file_type text not null default 'application/octet-stream',
+  file_size bigint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_attachments_message_id_idx on public.message_attachments (message_id);
+create index if not exists message_attachments_channel_id_created_at_idx
+  on public.message_attachments (channel_id, created_at desc);
+
+alter table public.message_attachments enable row level security;
+
+drop policy if exists "Users can view attachments of visible messages" on public.message_attachments;
+create policy "Users can view attachments of visible messages"
+  on public.message_attachments for select
+  using (
+    exists (select 1 from public.messages m where m.id = message_attachments.message_id)
+    and exists (
+      select 1 from public.channels c
+      where c.id = message_attachments.channel_id
+        and (c.name not like 'dm--%' or c.name like '%' || auth.uid()::text || '%')
+    )
+  );
+
+drop policy if exists "Users can attach files to their own messages" on public.message_attachments;
+create policy "Users can attach files to their own messages"
+  on public.message_attachments for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.messages m
+      where m.id = message_attachments.message_id
+        and m.user_id = auth.uid()
+        and m.channel_id = message_attachments.channel_id
+    )
+  );
+
+drop policy if exists "Users can remove their own attachments" on public.message_attachments;
+create policy "Users can remove their own attachments"
+  on public.message_attachments for delete
+  using (user_id = auth.uid());
+
+-- Posts a message with any already uploaded attachments in one go. Attachments
+-- are [{file_path, file_name, file_type, file_size}], with paths inside the
+-- channel's folder. Runs as the caller, so the usual message policies apply.
+create or replace function public.send_message(
+  p_channel_id uuid,
+  p_content text,
+  p_parent_id uuid default null,
+  p_attachments jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_message_id uuid;
+  v_attachment jsonb;
+  v_attachments jsonb := coalesce(p_attachments, '[]'::jsonb);
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_content), '') = '' and jsonb_array_length(v_attachments) = 0 then
+    raise exception 'Message is empty';
+  end if;
+
+  insert into public.messages (channel_id, user_id, content, parent_id)
+  values (p_channel_id, auth.uid(), coalesce(trim(p_content), ''), p_parent_id)
+  returning id into v_message_id;
+
+  for v_attachment in select * from jsonb_array_elements(v_attachments)
+  loop
+    if (v_attachment->>'file_path') not like p_channel_id::text || '/%' then
+      raise exception 'Attachment % was not uploaded to this channel', v_attachment->>'file_name';
+    end if;
+
+    insert into public.message_attachments (message_id, channel_id, user_id, file_path, file_name, file_type, file_size)
+    values (
+      v_message_id,
+      p_channel_id,
+      auth.uid(),
+      v_attachment->>'file_path',
+      coalesce(v_attachment->>'file_name', 'file'),
+      coalesce(nullif(v_attachment->>'file_type', ''), 'application/octet-stream'),
+      coalesce((v_attachment->>'file_size')::bigint, 0)
+    );
+  end loop;
+
+  return v_message_id;
+end;
+$$;
+
+revoke execute on function public.send_message(uuid, text, uuid, jsonb) from public, anon;
+grant execute on function public.send_message(uuid, text, uuid, jsonb) to authenticated;
@@ -0,0 +1,154 @@
+-- Locking the PIN wall revokes outstanding PIN tokens.
+--
+-- Each user has a token epoch that is signed into every PIN token. lock_pin()
+-- bumps it, so a token copied out of localStorage stops passing
+-- check_pin_token() as soon as the app is locked, manually or on idle. The
+-- lock and the following unlock are logged here rather than by the client.
+--
+-- Epochs come from a sequence rather than a per-user counter, so a PIN that is
+-- reset and set up again never reuses the epoch of an older token.
+
+create sequence if not exists private.pin_token_epoch_seq;
+
+alter table private.user_pins
+  add column if not exists token_epoch bigint not null default nextval('private.pin_token_epoch_seq'),
+  add column if not exists locked_at timestamptz;
+
+-- Token format: <user id>.<expiry epoch>.<token epoch>.<hex hmac-sha256 of the first three parts>
+create or replace function private.issue_pin_token(p_user_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expires_at timestamptz := now() + private.pin_token_ttl();
+  v_token_epoch bigint;
+  v_payload text;
+  v_secret text;
+begin
+  select token_epoch into v_token_epoch from private.user_pins where user_id = p_user_id;
+  select value into v_secret from private.settings where key = 'pin_token_secret';
+
+  v_payload := p_user_id::text || '.' || floor(extract(epoch from v_expires_at))::bigint::text
+    || '.' || v_token_epoch::text;
+
+  return jsonb_build_object(
+    'success', true,
+    'token', v_payload || '.' || encode(extensions.hmac(v_payload, v_secret, 'sha256'), 'hex'),
+    'expires_at', v_expires_at
+  );
+end;
+$$;
+
+-- Returns true if the token was issued for the current user since their last lock, is correctly signed and has not expired.
+create or replace function public.check_pin_token(p_token text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_parts text[] := string_to_array(coalesce(p_token, ''), '.');
+  v_token_epoch bigint;
+  v_secret text;
+begin
+  if auth.uid() is null or array_length(v_parts, 1) <> 4 then
+    return false;
+  end if;
+
+  if v_parts[1] <> auth.uid()::text or v_parts[2] !~ '^\d+$' or v_parts[3] !~ '^\d+$' then
+    return false;
+  end if;
+
+  if to_timestamp(v_parts[2]::bigint) <= now() then
+    return false;
+  end if;
+
+  select token_epoch into v_token_epoch from private.user_pins where user_id = auth.uid();
+
+  if v_token_epoch is null or v_parts[3]::bigint <> v_token_epoch then
+    return false;
+  end if;
+
+  select value into v_secret from private.settings where key = 'pin_token_secret';
+
+  return v_parts[4] = encode(
+    extensions.hmac(v_parts[1] || '.' || v_parts[2] || '.' || v_parts[3], v_secret, 'sha256'),
+    'hex'
+  );
+end;
+$$;
+
+create or replace function public.lock_pin(p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked_at timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_reason not in ('manual', 'idle') then
+    raise exception 'Unknown lock reason: %', p_reason;
+  end if;
+
+  select locked_at into v_locked_at from private.user_pins where user_id = v_user_id for update;
+
+  if not found then
+    return;
+  end if;
+
+  update private.user_pins
+  set token_epoch = nextval('private.pin_token_epoch_seq'), locked_at = coalesce(locked_at, now())
+  where user_id = v_user_id;
+
+  -- Every open tab locks on idle; only the first lock is logged
+  if v_locked_at is null then
+    perform private.log_pin_attempt(v_user_id, 'lock_' || p_reason, true);
+  end if;
+end;
+$$;
+
+create or replace function public.verify_pin(p_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  v_result := private.check_user_pin(v_user_id, p_pin, 'verification');
+
+  if not (v_result->>'success')::boolean then
+    return v_result;
+  end if;
+
+  update private.user_pins
+  set locked_at = null
+  where user_id = v_user_id and locked_at is not null;
+
+  if found then
+    perform private.log_pin_attempt(v_user_id, 'unlock', true);
+  end if;
+
+  return private.issue_pin_token(v_user_id);
+end;
+$$;
+
+revoke all on all functions in schema private from public, anon, authenticated;
+
+revoke execute on function public.lock_pin(text) from public, anon;
+grant execute on function public.lock_pin(text) to authenticated;
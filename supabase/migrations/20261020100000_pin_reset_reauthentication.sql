@@ -0,0 +1,104 @@
+-- Server-side checks for PIN resets, and PIN logs written only by the server.
+--
+-- reset_pin() used to trust that the client had re-entered the account
+-- password first. It now requires the session's JWT to show a password
+-- sign-in from the last few minutes, which the client gets by calling
+-- signInWithPassword right before the reset. set_pin() and reset_pin() report
+-- failures in their result instead of raising, so the failed attempts they log
+-- are not rolled back, and clients can no longer insert pin_logs rows.
+
+-- True when the current session was signed in with the account password within p_within.
+create or replace function private.has_recent_password_sign_in(p_within interval)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from jsonb_array_elements(
+      case when jsonb_typeof(auth.jwt() -> 'amr') = 'array' then auth.jwt() -> 'amr' else '[]'::jsonb end
+    ) as amr
+    where amr ->> 'method' = 'password'
+      and (amr ->> 'timestamp') ~ '^\d+$'
+      and to_timestamp((amr ->> 'timestamp')::bigint) >= now() - p_within
+  )
+$$;
+
+create or replace function public.set_pin(p_pin text, p_is_initial boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_type text := case when p_is_initial then 'setup' else 'update' end;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_pin is null or p_pin !~ '^\d{4}$' then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    return jsonb_build_object('success', false, 'error', 'invalid_format');
+  end if;
+
+  if private.is_pin_blacklisted(p_pin) then
+    perform private.log_pin_attempt(v_user_id, v_type || '_blocked', false);
+    return jsonb_build_object('success', false, 'error', 'blacklisted');
+  end if;
+
+  -- Setting the first PIN must not overwrite one that already exists
+  if p_is_initial and exists (select 1 from private.user_pins where user_id = v_user_id) then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    return jsonb_build_object('success', false, 'error', 'exists');
+  end if;
+
+  insert into private.user_pins (user_id, pin_hash)
+  values (v_user_id, extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, updated_at = now();
+
+  update public.profiles set has_pin = true where id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, v_type, true);
+  return private.issue_pin_token(v_user_id);
+end;
+$$;
+
+drop function if exists public.reset_pin();
+
+-- Only works right after the client has signed in again with the account password.
+create function public.reset_pin()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not private.has_recent_password_sign_in(interval '5 minutes') then
+    perform private.log_pin_attempt(v_user_id, 'reset_failed', false);
+    return jsonb_build_object('success', false, 'error', 'reauthentication_required');
+  end if;
+
+  delete from private.user_pins where user_id = v_user_id;
+  update public.profiles set has_pin = false where id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, 'reset_success', true);
+  return jsonb_build_object('success', true);
+end;
+$$;
+
+revoke all on all functions in schema private from public, anon, authenticated;
+
+revoke execute on function public.reset_pin() from public, anon;
+grant execute on function public.reset_pin() to authenticated;
+
+-- Attempts are logged by the PIN functions above; the browser only reads them.
+revoke insert, update, delete on table public.pin_logs from anon, authenticated;
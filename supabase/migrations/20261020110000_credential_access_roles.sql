@@ -0,0 +1,165 @@
+-- Tighter credential access.
+--
+-- Project membership alone no longer grants access to a project's
+-- credentials: the member must also be an admin or employee, since client
+-- users can be project members too. Staff can manage the login credentials
+-- generated for client users of their own organization, which are stored
+-- without a project. Every reveal now needs the caller's PIN; users without
+-- one have to set it up first.
+
+-- Admins see every credential; employees only those of projects they are a member of.
+create or replace function public.can_access_credential_project(p_project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid()
+      and p.role in ('admin', 'employee')
+      and (
+        p.role = 'admin'
+        or (
+          p_project_id is not null
+          and exists (
+            select 1 from public.project_members pm
+            where pm.project_id = p_project_id and pm.user_id = p.id
+          )
+        )
+      )
+  )
+$$;
+
+-- Project credentials as above, plus client login credentials (no project,
+-- owned by a client user) for staff of the client's organization.
+create or replace function public.can_access_credential(p_project_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_access_credential_project(p_project_id)
+    or (
+      p_project_id is null
+      and p_user_id is not null
+      and exists (
+        select 1
+        from public.profiles p
+        join public.profiles owner on owner.id = p_user_id
+        where p.id = auth.uid()
+          and p.role in ('admin', 'employee')
+          and owner.role = 'client'
+          and owner.organization_id = p.organization_id
+      )
+    )
+$$;
+
+drop policy if exists "Project members can view credentials" on public.credentials;
+drop policy if exists "Project members can add credentials" on public.credentials;
+drop policy if exists "Project members can update credentials" on public.credentials;
+drop policy if exists "Project members can delete credentials" on public.credentials;
+
+create policy "Staff can view accessible credentials"
+  on public.credentials for select
+  using (public.can_access_credential(project_id, user_id));
+
+create policy "Staff can add accessible credentials"
+  on public.credentials for insert
+  with check (public.can_access_credential(project_id, user_id));
+
+create policy "Staff can update accessible credentials"
+  on public.credentials for update
+  using (public.can_access_credential(project_id, user_id))
+  with check (public.can_access_credential(project_id, user_id));
+
+create policy "Staff can delete accessible credentials"
+  on public.credentials for delete
+  using (public.can_access_credential(project_id, user_id));
+
+-- Returns the decrypted value once the caller's PIN checks out.
+create or replace function public.reveal_credential(p_credential_id uuid, p_action text default 'reveal', p_pin text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_credential public.credentials%rowtype;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_action not in ('reveal', 'copy') then
+    raise exception 'Unknown credential action: %', p_action;
+  end if;
+
+  select * into v_credential from public.credentials where id = p_credential_id;
+
+  if not found or not public.can_access_credential(v_credential.project_id, v_credential.user_id) then
+    return jsonb_build_object('success', false, 'error', 'forbidden');
+  end if;
+
+  -- Returns no_pin for users who haven't set one yet
+  v_result := private.check_user_pin(v_user_id, p_pin, 'credential_' || p_action);
+  if not (v_result->>'success')::boolean then
+    return v_result;
+  end if;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    v_user_id,
+    upper(p_action),
+    'credentials',
+    p_credential_id,
+    jsonb_build_object('name', v_credential.name, 'type', v_credential.type, 'project_id', v_credential.project_id)
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'value', extensions.pgp_sym_decrypt(
+      v_credential.value_encrypted,
+      (select value from private.settings where key = 'credentials_encryption_key')
+    )
+  );
+end;
+$$;
+
+-- Audits a copy of a value that was already revealed in the same dialog.
+create or replace function public.log_credential_access(p_credential_id uuid, p_action text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credential public.credentials%rowtype;
+begin
+  if p_action not in ('reveal', 'copy') then
+    raise exception 'Unknown credential action: %', p_action;
+  end if;
+
+  select * into v_credential from public.credentials where id = p_credential_id;
+
+  if not found or not public.can_access_credential(v_credential.project_id, v_credential.user_id) then
+    raise exception 'Credential not found';
+  end if;
+
+  insert into public.audit_logs (user_id, action, table_name, record_id, new_data)
+  values (
+    auth.uid(),
+    upper(p_action),
+    'credentials',
+    p_credential_id,
+    jsonb_build_object('name', v_credential.name, 'type', v_credential.type, 'project_id', v_credential.project_id)
+  );
+end;
+$$;
+
+revoke execute on function public.can_access_credential(uuid, uuid) from public, anon;
+grant execute on function public.can_access_credential(uuid, uuid) to authenticated;
@@ -0,0 +1,170 @@
+-- Fixes for proposal responses made from the client's browser.
+--
+-- respond_to_proposal now recomputes the project status itself, since client
+-- users can't update projects. The signed PDF is still built and uploaded by
+-- the signer's browser, so responses record whether it actually arrived:
+-- signed_pdf_uploaded_at stays null until confirm_signed_proposal_upload()
+-- finds the file in storage, and staff see the copy as missing until then.
+
+alter table public.proposal_responses
+  add column if not exists signed_pdf_uploaded_at timestamptz;
+
+-- Responses from before this column existed whose file did arrive
+update public.proposal_responses r
+set signed_pdf_uploaded_at = o.created_at
+from storage.objects o
+where o.bucket_id = 'signed-proposals'
+  and o.name = r.signed_pdf_path
+  and r.signed_pdf_uploaded_at is null;
+
+create or replace function public.respond_to_proposal(
+  p_phase_id uuid,
+  p_decision text,
+  p_signature_name text default null,
+  p_rejection_reason text default null
+)
+returns public.proposal_responses
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phase record;
+  v_headers json := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::json;
+  v_response public.proposal_responses;
+  v_project_status text;
+begin
+  select ph.id, ph.title, ph.status, ph.project_id, pr.name as project_name
+  into v_phase
+  from public.phases ph
+  join public.projects pr on pr.id = ph.project_id
+  join public.clients c on c.id = pr.client_id
+  where ph.id = p_phase_id
+    and c.user_id = auth.uid()
+  for update of ph;
+
+  if not found then
+    raise exception 'Only the client on this project can respond to the proposal';
+  end if;
+
+  if v_phase.status is distinct from 'sent' then
+    raise exception 'This proposal is no longer awaiting a response';
+  end if;
+
+  if p_decision not in ('accepted', 'rejected') then
+    raise exception 'Unknown decision: %', p_decision;
+  end if;
+
+  if p_decision = 'accepted' and length(trim(coalesce(p_signature_name, ''))) < 2 then
+    raise exception 'Type your full name to sign the proposal';
+  end if;
+
+  insert into public.proposal_responses (
+    phase_id, decision, signature_name, rejection_reason, responded_by, ip_address, user_agent
+  )
+  values (
+    p_phase_id,
+    p_decision,
+    nullif(trim(p_signature_name), ''),
+    case when p_decision = 'rejected' then nullif(trim(p_rejection_reason), '') end,
+    auth.uid(),
+    coalesce(
+      nullif(trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+      v_headers ->> 'x-real-ip'
+    ),
+    v_headers ->> 'user-agent'
+  )
+  returning * into v_response;
+
+  -- The signed copy is uploaded by the client right after signing and
+  -- confirmed with confirm_signed_proposal_upload; until then it's missing
+  if p_decision = 'accepted' then
+    update public.proposal_responses
+    set signed_pdf_path = p_phase_id || '/' || v_response.id || '.pdf'
+    where id = v_response.id
+    returning * into v_response;
+  end if;
+
+  update public.phases
+  set status = case when p_decision = 'accepted' then 'active' else 'rejected' end,
+      updated_at = now()
+  where id = p_phase_id;
+
+  -- Same rules as updateProjectStatus, which the client can't run for its own project
+  select case
+      when bool_or(status in ('active', 'sent')) then 'active'
+      when bool_or(status = 'on_hold') then 'on-hold'
+      else 'completed'
+    end
+  into v_project_status
+  from public.phases
+  where project_id = v_phase.project_id;
+
+  update public.projects
+  set status = v_project_status
+  where id = v_phase.project_id
+    and status is distinct from v_project_status;
+
+  -- Admins on the project hear about it; every admin does if none are assigned
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select
+    p.id,
+    case when p_decision = 'accepted' then 'success' else 'warning' end,
+    case when p_decision = 'accepted' then 'Proposal accepted' else 'Proposal rejected' end,
+    case
+      when p_decision = 'accepted'
+        then v_response.signature_name || ' signed "' || v_phase.title || '" for ' || v_phase.project_name || '.'
+      else '"' || v_phase.title || '" for ' || v_phase.project_name || ' was rejected'
+        || coalesce(': ' || v_response.rejection_reason, '.')
+    end,
+    '/dashboard/projects/' || v_phase.project_id || '/phases/' || p_phase_id,
+    jsonb_build_object('phase_id', p_phase_id, 'proposal_response_id', v_response.id, 'decision', p_decision)
+  from public.profiles p
+  where p.role = 'admin'
+    and (
+      exists (
+        select 1 from public.project_members pm
+        where pm.project_id = v_phase.project_id and pm.user_id = p.id
+      )
+      or not exists (
+        select 1 from public.project_members pm
+        join public.profiles ap on ap.id = pm.user_id
+        where pm.project_id = v_phase.project_id and ap.role = 'admin'
+      )
+    );
+
+  return v_response;
+end;
+$$;
+
+-- Marks the signed copy as stored once the file is actually in the bucket.
+create or replace function public.confirm_signed_proposal_upload(p_response_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uploaded_at timestamptz;
+begin
+  select o.created_at
+  into v_uploaded_at
+  from public.proposal_responses r
+  join storage.objects o on o.bucket_id = 'signed-proposals' and o.name = r.signed_pdf_path
+  where r.id = p_response_id
+    and r.responded_by = auth.uid();
+
+  if not found then
+    raise exception 'Signed proposal has not been uploaded';
+  end if;
+
+  update public.proposal_responses
+  set signed_pdf_uploaded_at = coalesce(signed_pdf_uploaded_at, v_uploaded_at)
+  where id = p_response_id;
+
+  return v_uploaded_at;
+end;
+$$;
+
+revoke all on function public.confirm_signed_proposal_upload(uuid) from public, anon;
+grant execute on function public.confirm_signed_proposal_upload(uuid) to authenticated;
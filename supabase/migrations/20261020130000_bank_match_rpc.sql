@@ -0,0 +1,72 @@
+-- Matches a bank statement line in one transaction.
+--
+-- Matching a credit to an invoice records the payment and marks the line as
+-- matched; doing both here means a failure can't leave a payment behind
+-- without its statement line, and a line that is already matched can't record
+-- a second payment. Runs as the caller, so the admin-only RLS on both tables
+-- still applies.
+
+create or replace function public.match_bank_transaction(
+  p_transaction_id uuid,
+  p_invoice_id uuid default null,
+  p_expense_id uuid default null
+)
+returns public.bank_transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transaction public.bank_transactions;
+  v_payment_id uuid;
+begin
+  if (p_invoice_id is null) = (p_expense_id is null) then
+    raise exception 'Match a statement line to either an invoice or an expense';
+  end if;
+
+  select * into v_transaction
+  from public.bank_transactions
+  where id = p_transaction_id
+  for update;
+
+  if not found then
+    raise exception 'Bank transaction not found';
+  end if;
+
+  if v_transaction.status <> 'unmatched' then
+    raise exception 'This statement line has already been reconciled';
+  end if;
+
+  if p_invoice_id is not null then
+    if v_transaction.amount <= 0 then
+      raise exception 'Only money received can be matched to an invoice';
+    end if;
+
+    insert into public.invoice_payments (invoice_id, amount, paid_on, method, reference, notes)
+    values (
+      p_invoice_id,
+      v_transaction.amount,
+      v_transaction.transaction_date,
+      'bank_transfer',
+      coalesce(nullif(v_transaction.reference, ''), nullif(v_transaction.description, '')),
+      'Recorded from bank reconciliation'
+    )
+    returning id into v_payment_id;
+  end if;
+
+  update public.bank_transactions
+  set status = 'matched',
+      invoice_id = p_invoice_id,
+      invoice_payment_id = v_payment_id,
+      expense_id = p_expense_id,
+      matched_at = now(),
+      matched_by = auth.uid()
+  where id = p_transaction_id
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
+
+revoke all on function public.match_bank_transaction(uuid, uuid, uuid) from public, anon;
+grant execute on function public.match_bank_transaction(uuid, uuid, uuid) to authenticated;
@@ -0,0 +1,56 @@
+-- Thread reply mentions only notify people who can see the channel.
+--
+-- Handles used to be matched against every profile, so a reply (and the first
+-- 200 characters of it, copied into the notification) could reach users in
+-- other organizations or clients outside a direct message. Matches are now
+-- limited to the author's organization and to people with access to the
+-- channel: the two participants of a DM, the members of a project channel
+-- (and admins), or staff for the team channels.
+
+create or replace function public.notify_thread_reply_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author public.profiles;
+  v_channel public.channels;
+begin
+  select * into v_author from public.profiles where id = new.user_id;
+  select * into v_channel from public.channels where id = new.channel_id;
+
+  if v_author.id is null or v_channel.id is null then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, title, content, link, metadata)
+  select distinct
+    p.id,
+    'mention',
+    coalesce(v_author.full_name, v_author.email, 'Someone') || ' mentioned you in a thread',
+    left(new.content, 200),
+    null,
+    jsonb_build_object('channel_id', new.channel_id, 'message_id', new.id, 'parent_id', new.parent_id)
+  from regexp_matches(new.content, '@([\w.-]+)', 'g') as mention(handle)
+  join public.profiles p
+    on lower(p.username) = lower(mention.handle[1])
+    or lower(regexp_replace(coalesce(p.full_name, ''), '\s+', '', 'g')) = lower(mention.handle[1])
+  left join public.notification_settings ns on ns.user_id = p.id
+  where p.id is distinct from new.user_id
+    and p.organization_id = v_author.organization_id
+    and coalesce(ns.mention_enabled, true)
+    and case
+      when v_channel.name like 'dm--%' then v_channel.name like '%' || p.id::text || '%'
+      when v_channel.project_id is not null then
+        p.role = 'admin'
+        or exists (
+          select 1 from public.project_members pm
+          where pm.project_id = v_channel.project_id and pm.user_id = p.id
+        )
+      else p.role in ('admin', 'employee')
+    end;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Deleting a message removes what it said.
+--
+-- Soft deletes used to only set deleted_at, leaving the content, its earlier
+-- versions in message_edits and its attachment rows readable by everyone in
+-- the channel (and in the realtime UPDATE payload). The row itself stays so
+-- threads and links keep working, but its content is cleared and the rest is
+-- purged as it is deleted.
+
+create or replace function public.track_message_edit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.deleted_at is not null then
+    raise exception 'Deleted messages cannot be changed';
+  end if;
+
+  if new.deleted_at is not null then
+    new.content := '';
+    delete from public.message_edits where message_id = old.id;
+    delete from public.message_attachments where message_id = old.id;
+  elsif new.content is distinct from old.content then
+    insert into public.message_edits (message_id, content, edited_by, edited_at)
+    values (old.id, old.content, auth.uid(), now());
+    new.edited_at := now();
+  end if;
+
+  -- Only the content and deletion flag are editable
+  new.user_id := old.user_id;
+  new.channel_id := old.channel_id;
+  new.parent_id := old.parent_id;
+  new.created_at := old.created_at;
+  return new;
+end;
+$$;
+
+-- Messages deleted before this change; the trigger above refuses to touch them
+alter table public.messages disable trigger track_message_edit;
+
+update public.messages
+set content = ''
+where deleted_at is not null
+  and content <> '';
+
+alter table public.messages enable trigger track_message_edit;
+
+delete from public.message_edits e
+using public.messages m
+where m.id = e.message_id
+  and m.deleted_at is not null;
+
+delete from public.message_attachments a
+using public.messages m
+where m.id = a.message_id
+  and m.deleted_at is not null;
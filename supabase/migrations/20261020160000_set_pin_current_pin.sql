@@ -0,0 +1,79 @@
+-- Changing an existing PIN requires the current one.
+--
+-- set_pin(..., p_is_initial => false) used to replace the stored hash and hand
+-- back a fresh PIN token without any check, so a session could get past the
+-- PIN wall, a lock or a credential reveal by simply setting a new PIN. The
+-- current PIN is now checked through check_user_pin, so wrong guesses count
+-- towards the same lockout as the PIN wall. Setting the first PIN (no row in
+-- private.user_pins, e.g. after a password-confirmed reset_pin) is unchanged.
+-- A locked session can still change its PIN, but only with the current one,
+-- which unlocks it and is logged the same way as verify_pin().
+
+drop function if exists public.set_pin(text, boolean);
+
+create function public.set_pin(p_pin text, p_is_initial boolean default false, p_current_pin text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_type text := case when p_is_initial then 'setup' else 'update' end;
+  v_has_pin boolean;
+  v_was_locked boolean;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select locked_at is not null into v_was_locked
+  from private.user_pins where user_id = v_user_id for update;
+  v_has_pin := found;
+
+  -- Setting the first PIN must not overwrite one that already exists
+  if p_is_initial and v_has_pin then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    return jsonb_build_object('success', false, 'error', 'exists');
+  end if;
+
+  if not p_is_initial then
+    if not v_has_pin then
+      return jsonb_build_object('success', false, 'error', 'no_pin');
+    end if;
+
+    -- Counts failures and applies the lockout like any other PIN check
+    v_result := private.check_user_pin(v_user_id, p_current_pin, 'update_verification');
+    if not (v_result->>'success')::boolean then
+      return v_result;
+    end if;
+  end if;
+
+  if p_pin is null or p_pin !~ '^\d{4}$' then
+    perform private.log_pin_attempt(v_user_id, v_type || '_failed', false);
+    return jsonb_build_object('success', false, 'error', 'invalid_format');
+  end if;
+
+  if private.is_pin_blacklisted(p_pin) then
+    perform private.log_pin_attempt(v_user_id, v_type || '_blocked', false);
+    return jsonb_build_object('success', false, 'error', 'blacklisted');
+  end if;
+
+  insert into private.user_pins (user_id, pin_hash)
+  values (v_user_id, extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, locked_at = null, updated_at = now();
+
+  update public.profiles set has_pin = true where id = v_user_id;
+
+  perform private.log_pin_attempt(v_user_id, v_type, true);
+  if v_was_locked then
+    perform private.log_pin_attempt(v_user_id, 'unlock', true);
+  end if;
+  return private.issue_pin_token(v_user_id);
+end;
+$$;
+
+revoke execute on function public.set_pin(text, boolean, text) from public, anon;
+grant execute on function public.set_pin(text, boolean, text) to authenticated;
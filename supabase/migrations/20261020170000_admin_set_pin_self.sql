@@ -0,0 +1,40 @@
+-- Admins can no longer set their own PIN through admin_set_pin().
+--
+-- Credential reveals and copies are gated on the caller's PIN. Without this
+-- check an admin session could replace its own PIN without knowing the
+-- current one and reveal every credential it can access; its own PIN goes
+-- through set_pin(), which checks the current PIN first.
+
+create or replace function public.admin_set_pin(p_user_id uuid, p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only administrators can change another user''s PIN';
+  end if;
+
+  if p_user_id = auth.uid() then
+    raise exception 'Change your own PIN from your account page';
+  end if;
+
+  if p_pin is null or p_pin !~ '^\d{4}$' then
+    raise exception 'PIN must be 4 digits';
+  end if;
+
+  if private.is_pin_blacklisted(p_pin) then
+    raise exception 'You''ve entered a commonly used passcode, please try another one.';
+  end if;
+
+  insert into private.user_pins (user_id, pin_hash)
+  values (p_user_id, extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, updated_at = now();
+
+  update public.profiles set has_pin = true where id = p_user_id;
+
+  perform private.log_pin_attempt(p_user_id, 'admin_update', true);
+end;
+$$;
@@ -0,0 +1,96 @@
+-- Reminders for credentials without an owner go to the admins of the
+-- credential's organization only.
+--
+-- Credentials have no organization of their own, so it is taken from the
+-- client user the credential belongs to, else from the project's members.
+-- When neither is known no admin is reminded, rather than every admin of
+-- every organization.
+
+-- Organization of the client user a credential belongs to, else of the project's members.
+create or replace function private.credential_organization_id(p_project_id uuid, p_user_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select organization_id from public.profiles where id = p_user_id),
+    (
+      select p.organization_id
+      from public.project_members pm
+      join public.profiles p on p.id = pm.user_id
+      where pm.project_id = p_project_id and p.organization_id is not null
+      order by pm.user_id
+      limit 1
+    )
+  )
+$$;
+
+revoke all on function private.credential_organization_id(uuid, uuid) from public, anon, authenticated;
+
+-- Keeps one reminder a week ahead and one on the expiry date for the credential's
+-- owner (its creator, else the project owner, else the organization's admins).
+-- Pending reminders are replaced whenever the expiry changes; process_reminders
+-- turns them into notifications.
+create or replace function public.sync_credential_reminders()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid := coalesce(
+    new.created_by,
+    (select user_id from public.projects where id = new.project_id)
+  );
+  v_organization_id uuid := private.credential_organization_id(new.project_id, new.user_id);
+begin
+  delete from public.reminders
+  where credential_id = new.id
+    and not coalesce(is_sent, false);
+
+  if new.expires_at is null then
+    return new;
+  end if;
+
+  insert into public.reminders (user_id, credential_id, title, description, remind_at, link)
+  select
+    recipient.user_id,
+    new.id,
+    case when schedule.days_before = 0 then 'Credential expires today' else 'Credential expires soon' end,
+    '"' || new.name || '" expires on ' || to_char(new.expires_at, 'Mon DD, YYYY') || '. Rotate it before it stops working.',
+    schedule.remind_at,
+    '/dashboard/credentials?credentialId=' || new.id
+  from (
+    select days_before, ((new.expires_at - days_before)::timestamp + time '09:00') at time zone 'UTC' as remind_at
+    from (values (7), (0)) as v (days_before)
+  ) as schedule
+  cross join (
+    select v_owner as user_id where v_owner is not null
+    union
+    select id from public.profiles
+    where role = 'admin' and organization_id = v_organization_id and v_owner is null
+  ) as recipient
+  where schedule.remind_at > now();
+
+  return new;
+end;
+$$;
+
+-- Recipients also depend on the project and the client user the credential belongs to
+drop trigger if exists sync_credential_reminders on public.credentials;
+create trigger sync_credential_reminders
+  after insert or update of expires_at, created_by, project_id, user_id on public.credentials
+  for each row execute function public.sync_credential_reminders();
+
+-- Withdraw pending reminders already scheduled for admins of other organizations
+delete from public.reminders r
+using public.credentials c, public.profiles admin
+where r.credential_id = c.id
+  and not coalesce(r.is_sent, false)
+  and admin.id = r.user_id
+  and admin.role = 'admin'
+  and c.created_by is null
+  and not exists (select 1 from public.projects where id = c.project_id and user_id is not null)
+  and admin.organization_id is distinct from private.credential_organization_id(c.project_id, c.user_id);
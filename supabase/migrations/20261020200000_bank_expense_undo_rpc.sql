@@ -0,0 +1,140 @@
+-- Creates an expense from a statement line, and undoes a match, in one
+-- transaction each.
+--
+-- Both used to take two requests: an expense was inserted and then matched,
+-- so a failed match left the expense behind and a retry booked it twice; undo
+-- deleted the recorded payment and then reset the line, so a failed reset left
+-- a matched line without its payment. Expenses are kept in the organization's
+-- base currency, so only base-currency debits can become one. Both run as the
+-- caller, so the admin-only RLS still applies.
+
+-- Set when the matched expense was created from the line, so undo removes it
+-- instead of leaving it to be booked a second time.
+alter table public.bank_transactions
+  add column if not exists expense_created boolean not null default false;
+
+create or replace function public.create_bank_transaction_expense(
+  p_transaction_id uuid,
+  p_description text,
+  p_category_id uuid,
+  p_project_id uuid default null
+)
+returns public.bank_transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transaction public.bank_transactions;
+  v_base_currency text;
+  v_expense_id uuid;
+begin
+  select * into v_transaction
+  from public.bank_transactions
+  where id = p_transaction_id
+  for update;
+
+  if not found then
+    raise exception 'Bank transaction not found';
+  end if;
+
+  if v_transaction.status <> 'unmatched' then
+    raise exception 'This statement line has already been reconciled';
+  end if;
+
+  if v_transaction.amount >= 0 then
+    raise exception 'Only money spent can be recorded as an expense';
+  end if;
+
+  select currency into v_base_currency
+  from public.organizations
+  where id = v_transaction.organization_id;
+
+  if v_transaction.currency <> v_base_currency then
+    raise exception 'Expenses are recorded in %, but this statement line is in %', v_base_currency, v_transaction.currency;
+  end if;
+
+  insert into public.expenses (
+    description, amount, category, category_id, date, project_id, organization_id, user_id
+  )
+  values (
+    coalesce(nullif(trim(p_description), ''), v_transaction.description),
+    abs(v_transaction.amount),
+    (select name from public.expense_categories where id = p_category_id),
+    p_category_id,
+    v_transaction.transaction_date,
+    p_project_id,
+    v_transaction.organization_id,
+    auth.uid()
+  )
+  returning id into v_expense_id;
+
+  update public.bank_transactions
+  set status = 'matched',
+      expense_id = v_expense_id,
+      expense_created = true,
+      matched_at = now(),
+      matched_by = auth.uid()
+  where id = p_transaction_id
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
+
+-- Moves a matched or ignored line back to review. The payment recorded when it
+-- was matched, or the expense created from it, goes with the match; an existing
+-- expense it was matched to stays.
+create or replace function public.unmatch_bank_transaction(p_transaction_id uuid)
+returns public.bank_transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transaction public.bank_transactions;
+  v_payment_id uuid;
+  v_created_expense_id uuid;
+begin
+  select * into v_transaction
+  from public.bank_transactions
+  where id = p_transaction_id
+  for update;
+
+  if not found then
+    raise exception 'Bank transaction not found';
+  end if;
+
+  v_payment_id := v_transaction.invoice_payment_id;
+  if v_transaction.expense_created then
+    v_created_expense_id := v_transaction.expense_id;
+  end if;
+
+  update public.bank_transactions
+  set status = 'unmatched',
+      invoice_id = null,
+      invoice_payment_id = null,
+      expense_id = null,
+      expense_created = false,
+      matched_at = null,
+      matched_by = null
+  where id = p_transaction_id
+  returning * into v_transaction;
+
+  if v_payment_id is not null then
+    delete from public.invoice_payments where id = v_payment_id;
+  end if;
+
+  if v_created_expense_id is not null then
+    delete from public.expenses where id = v_created_expense_id;
+  end if;
+
+  return v_transaction;
+end;
+$$;
+
+revoke all on function public.create_bank_transaction_expense(uuid, text, uuid, uuid) from public, anon;
+grant execute on function public.create_bank_transaction_expense(uuid, text, uuid, uuid) to authenticated;
+
+revoke all on function public.unmatch_bank_transaction(uuid) from public, anon;
+grant execute on function public.unmatch_bank_transaction(uuid) to authenticated;
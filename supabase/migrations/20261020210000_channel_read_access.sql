@@ -0,0 +1,119 @@
+-- Read positions are only kept for channels the user can see, and new members
+-- start at the end of a channel's history.
+--
+-- mark_channel_read() runs as definer and wrote a read row for whatever
+-- channel id it was given. It now applies the same access rule as thread
+-- mentions: the two participants of a DM, the members of a project channel
+-- (and admins), or staff for the team channels. The backfill in the
+-- channel_reads migration only covered people and channels that existed then,
+-- so joining a project or the team now seeds positions the same way.
+
+-- Whether a user can see a channel's messages.
+create or replace function private.can_access_channel(p_channel_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.channels c
+    join public.profiles p on p.id = p_user_id
+    where c.id = p_channel_id
+      and case
+        when c.name like 'dm--%' then c.name like '%' || p.id::text || '%'
+        when c.project_id is not null then
+          p.role = 'admin'
+          or exists (
+            select 1 from public.project_members pm
+            where pm.project_id = c.project_id and pm.user_id = p.id
+          )
+        else p.role in ('admin', 'employee')
+      end
+  );
+$$;
+
+revoke all on function private.can_access_channel(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.mark_channel_read(p_channel_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not private.can_access_channel(p_channel_id, auth.uid()) then
+    raise exception 'Channel not found';
+  end if;
+
+  select last_read_at into v_previous
+  from public.channel_reads
+  where channel_id = p_channel_id
+    and user_id = auth.uid();
+
+  insert into public.channel_reads (channel_id, user_id, last_read_at)
+  values (p_channel_id, auth.uid(), now())
+  on conflict (channel_id, user_id) do update
+    set last_read_at = excluded.last_read_at;
+
+  return v_previous;
+end;
+$$;
+
+-- Joining a project marks its channels' existing history as read.
+create or replace function public.seed_project_channel_reads()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.channel_reads (channel_id, user_id, last_read_at)
+  select c.id, new.user_id, now()
+  from public.channels c
+  where c.project_id = new.project_id
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists seed_project_channel_reads on public.project_members;
+create trigger seed_project_channel_reads
+  after insert on public.project_members
+  for each row execute function public.seed_project_channel_reads();
+
+-- New staff start with the team channels read up to when they joined.
+create or replace function public.seed_team_channel_reads()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.role, '') not in ('admin', 'employee') then
+    return new;
+  end if;
+
+  insert into public.channel_reads (channel_id, user_id, last_read_at)
+  select c.id, new.id, now()
+  from public.channels c
+  where c.project_id is null
+    and c.name not like 'dm--%'
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists seed_team_channel_reads on public.profiles;
+create trigger seed_team_channel_reads
+  after insert or update of role on public.profiles
+  for each row execute function public.seed_team_channel_reads();
@@ -0,0 +1,116 @@
+-- Chat attachments follow channel access, and only the uploader can attach a file.
+--
+-- The storage and message_attachments policies only kept people out of other
+-- people's DMs, so anyone signed in (clients included) could list, download
+-- and upload files in every project and team channel folder. They now use the
+-- channel access rule from private.can_access_channel(). send_message() also
+-- accepted any path under the channel folder, which let a message point at
+-- someone else's upload; each attachment must now be an object the caller owns.
+
+-- Whether the caller can see a channel's messages, for use in policies.
+create or replace function public.can_access_channel(p_channel_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select private.can_access_channel(p_channel_id, auth.uid())
+$$;
+
+revoke execute on function public.can_access_channel(uuid) from public, anon;
+grant execute on function public.can_access_channel(uuid) to authenticated;
+
+drop policy if exists "Channel members can view chat attachments" on storage.objects;
+create policy "Channel members can view chat attachments"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.channels c
+      where c.id::text = (storage.foldername(storage.objects.name))[1]
+        and public.can_access_channel(c.id)
+    )
+  );
+
+drop policy if exists "Channel members can upload chat attachments" on storage.objects;
+create policy "Channel members can upload chat attachments"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.channels c
+      where c.id::text = (storage.foldername(storage.objects.name))[1]
+        and public.can_access_channel(c.id)
+    )
+  );
+
+drop policy if exists "Users can view attachments of visible messages" on public.message_attachments;
+create policy "Users can view attachments of visible messages"
+  on public.message_attachments for select
+  using (
+    exists (select 1 from public.messages m where m.id = message_attachments.message_id)
+    and public.can_access_channel(message_attachments.channel_id)
+  );
+
+create or replace function public.send_message(
+  p_channel_id uuid,
+  p_content text,
+  p_parent_id uuid default null,
+  p_attachments jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_message_id uuid;
+  v_attachment jsonb;
+  v_attachments jsonb := coalesce(p_attachments, '[]'::jsonb);
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_content), '') = '' and jsonb_array_length(v_attachments) = 0 then
+    raise exception 'Message is empty';
+  end if;
+
+  insert into public.messages (channel_id, user_id, content, parent_id)
+  values (p_channel_id, auth.uid(), coalesce(trim(p_content), ''), p_parent_id)
+  returning id into v_message_id;
+
+  for v_attachment in select * from jsonb_array_elements(v_attachments)
+  loop
+    if (v_attachment->>'file_path') not like p_channel_id::text || '/%' then
+      raise exception 'Attachment % was not uploaded to this channel', v_attachment->>'file_name';
+    end if;
+
+    if not exists (
+      select 1 from storage.objects o
+      where o.bucket_id = 'chat-attachments'
+        and o.name = v_attachment->>'file_path'
+        and o.owner = auth.uid()
+    ) then
+      raise exception 'Attachment % was not uploaded by you', v_attachment->>'file_name';
+    end if;
+
+    insert into public.message_attachments (message_id, channel_id, user_id, file_path, file_name, file_type, file_size)
+    values (
+      v_message_id,
+      p_channel_id,
+      auth.uid(),
+      v_attachment->>'file_path',
+      coalesce(v_attachment->>'file_name', 'file'),
+      coalesce(nullif(v_attachment->>'file_type', ''), 'application/octet-stream'),
+      coalesce((v_attachment->>'file_size')::bigint, 0)
+    );
+  end loop;
+
+  return v_message_id;
+end;
+$$;
+
+revoke execute on function public.send_message(uuid, text, uuid, jsonb) from public, anon;
+grant execute on function public.send_message(uuid, text, uuid, jsonb) to authenticated;